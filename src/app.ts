@@ -11,12 +11,24 @@ import fileRoutes from "./modules/files/files.routes";
 import settingsRoutes from "./modules/settings/settings.routes";
 import packagesRoutes from "./modules/packages/packages.routes";
 import servicesRoutes from "./modules/services/services.routes";
+import invitationsRoutes from "./modules/invitations/invitations.routes";
+import rolesRoutes from "./modules/roles/roles.routes";
+import impersonationRoutes from "./modules/impersonation/impersonation.routes";
+import apiKeysRoutes from "./modules/api-keys/api-keys.routes";
+import recurringTasksRoutes from "./modules/recurring-tasks/recurring-tasks.routes";
+import timeTrackingRoutes from "./modules/time-tracking/time-tracking.routes";
+import boardsRoutes from "./modules/boards/boards.routes";
+import customFieldsRoutes from "./modules/custom-fields/custom-fields.routes";
+import calendarRoutes from "./modules/calendar/calendar.routes";
 
 import { rawBody } from "./middleware/rawBody";
 import { paystackWebhook } from "./modules/payments/payments.controller";
 
 const app = express();
 
+// Behind Railway's proxy - needed for real client IPs in req.ip (brute-force tracking, sessions)
+app.set("trust proxy", 1);
+
 // CORS etc.
 app.use(cors());
 
@@ -37,6 +49,15 @@ app.use("/api/files", fileRoutes);
 app.use("/api/settings", settingsRoutes);
 app.use("/api/packages", packagesRoutes);
 app.use("/api/services", servicesRoutes);
+app.use("/api/invitations", invitationsRoutes);
+app.use("/api/roles", rolesRoutes);
+app.use("/api/impersonation", impersonationRoutes);
+app.use("/api/api-keys", apiKeysRoutes);
+app.use("/api/recurring-tasks", recurringTasksRoutes);
+app.use("/api/time", timeTrackingRoutes);
+app.use("/api/boards", boardsRoutes);
+app.use("/api/custom-fields", customFieldsRoutes);
+app.use("/api/calendar", calendarRoutes);
 
 // All API routes under /api
 app.use("/api", routes);
@@ -11,6 +11,32 @@ export const env = {
   bcryptRounds: Number(process.env.BCRYPT_ROUNDS || 12),
   nodeEnv: process.env.NODE_ENV || "development",
 
+  // Auth sessions: short-lived access JWT + rotating refresh token
+  accessTokenTtl: process.env.ACCESS_TOKEN_TTL || "15m",
+  refreshTokenTtlDays: Number(process.env.REFRESH_TOKEN_TTL_DAYS || 30),
+
+  // SUPER_ADMIN impersonation tokens (not refreshable)
+  impersonationTtlMinutes: Number(process.env.IMPERSONATION_TTL_MINUTES || 30),
+
+  // In-process background jobs (recurring tasks, SLA checker...)
+  schedulerEnabled: process.env.SCHEDULER_ENABLED !== "false",
+  schedulerIntervalSeconds: Number(process.env.SCHEDULER_INTERVAL_SECONDS || 300),
+
+  // SLA checker: warn the worker this long before the due date, and escalate
+  // to admins once a task has been overdue this long
+  slaDueSoonHours: Number(process.env.SLA_DUE_SOON_HOURS || 24),
+  slaEscalateAfterHours: Number(process.env.SLA_ESCALATE_AFTER_HOURS || 24),
+
+  // Worker load: hours counted for an open task without estimatedHours
+  defaultTaskHours: Number(process.env.DEFAULT_TASK_HOURS || 4),
+
+  // Public base URL of this API for links handed out (calendar feeds); the request host when unset
+  apiUrl: process.env.API_URL || "",
+
+  // Two-factor auth (TOTP)
+  twoFactorIssuer: process.env.TWO_FACTOR_ISSUER || "AMBO",
+  twoFactorEncryptionKey: (process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET) as string,
+
   seedAdminName: process.env.SEED_ADMIN_NAME || "Admin User",
   seedAdminEmail: process.env.SEED_ADMIN_EMAIL || "admin@example.com",
   seedAdminPhone: process.env.SEED_ADMIN_PHONE || "+0000000000",
@@ -0,0 +1,73 @@
+/**
+ * Named permissions used by requirePermission() and hasPermission().
+ *
+ * Permissions gate actions (approve, pay, export...). What a user can *see*
+ * (e.g. a worker only sees their own tasks) still follows their base Role.
+ * SUPER_ADMIN implicitly holds every permission.
+ */
+export const PERMISSIONS: Record<string, string> = {
+  // People
+  "users.manage": "Approve, reject, activate/deactivate users, create client users and clear lockouts",
+  "admins.manage": "Invite, update and deactivate admin users",
+  "workers.manage": "Invite, view, update and deactivate workers",
+  "invitations.manage": "Send, resend and revoke team invitations",
+  "roles.manage": "Create custom roles and edit the role permission matrix",
+  "apikeys.manage": "Create service accounts and view/revoke anyone's API keys",
+
+  // Clients & contracts
+  "clients.manage": "Create and update clients",
+  "clients.assign": "Assign clients to workers",
+  "contracts.manage": "Create contracts, view all contracts and change contract status",
+
+  // Tasks & jobs
+  "tasks.create": "Create tasks",
+  "tasks.manage": "Update, reassign and change status of any task",
+  "jobs.broadcast": "Broadcast tasks to the job board, reopen jobs and view applications",
+  "jobs.approve": "Approve and reject job applications",
+  "jobs.history": "View broadcast history",
+
+  // Money
+  "payouts.read": "View pending worker payments",
+  "payouts.mark_paid": "Mark worker payments as paid",
+  "payouts.overview": "View and export all workers' earnings",
+  "timesheets.approve": "View, approve and reject worker timesheets",
+
+  // Reporting
+  "export.read": "Export platform data",
+  "analytics.read": "View analytics dashboards",
+  "reviews.read_all": "View review statistics",
+
+  // Platform
+  "settings.manage": "Edit platform settings and legal documents",
+  "catalog.manage": "Manage services and packages",
+  "fields.manage": "Define custom fields and labels for tasks and clients",
+  "chats.oversee": "View and join all client chats",
+};
+
+export type Permission = keyof typeof PERMISSIONS;
+
+/**
+ * Default role -> permission matrix. Seeded into RoleDefinition/RolePermission
+ * the first time a system role is loaded; after that the database is the
+ * source of truth and SUPER_ADMIN edits it via /api/roles.
+ */
+export const DEFAULT_ROLE_PERMISSIONS: Record<string, string[]> = {
+  ADMIN: [
+    "workers.manage",
+    "invitations.manage",
+    "clients.manage",
+    "contracts.manage",
+    "tasks.create",
+    "tasks.manage",
+    "jobs.broadcast",
+    "jobs.approve",
+    "payouts.read",
+    "payouts.mark_paid",
+    "timesheets.approve",
+    "chats.oversee",
+    "fields.manage",
+  ],
+  WORKER: [],
+  CLIENT_VIEWER: [],
+  CLIENT_VIEWER_PENDING: [],
+};
@@ -1,6 +1,20 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 import { env } from "../config/env";
+import { prisma } from "../config/prisma";
+import { verifyTwoFactorChallenge } from "../services/twoFactor.service";
+import { getPermissionsFor } from "../services/permission.service";
+import {
+  CLIENT_SCOPABLE_PERMISSIONS,
+  findActiveApiKey,
+  isApiKey,
+  touchApiKey,
+} from "../services/apiKey.service";
+import {
+  Impersonator,
+  auditImpersonatedRequest,
+  findActiveImpersonation,
+} from "../services/impersonation.service";
 
 export interface AuthedRequest extends Request {
   user?: {
@@ -8,35 +22,107 @@ export interface AuthedRequest extends Request {
     role: string;
     email: string;
     name: string;
+    sessionId?: string;
+    permissions?: string[];
+    // Set when a SUPER_ADMIN is impersonating: user is the effective user, this is the real one
+    impersonator?: Impersonator;
+    // Set when authenticated with an API key instead of a session
+    apiKey?: { id: string; clientId: string | null };
+    // Set when authenticated with a mandatory-2FA setupToken (no session yet)
+    twoFactorSetup?: boolean;
   };
 }
 
-export function optionalAuth(req: AuthedRequest, res: Response, next: NextFunction) {
+type SessionLookup = { user: NonNullable<AuthedRequest["user"]> } | { error: string };
+
+/**
+ * Resolve a verified access token to its user through the backing session:
+ * the session must exist, belong to the token's user, not be revoked or
+ * expired, and the account must be active.
+ */
+async function resolveSessionUser(decoded: any): Promise<SessionLookup> {
+  // Tokens issued before sessions existed (or non-access tokens) carry no sid
+  if (!decoded.sid) {
+    return { error: "Session expired, please log in again" };
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { id: decoded.sid },
+    include: {
+      user: {
+        select: { id: true, role: true, email: true, name: true, active: true, customRoleId: true },
+      },
+    },
+  });
+
+  if (
+    !session ||
+    session.userId !== decoded.id ||
+    session.revokedAt ||
+    session.expiresAt < new Date()
+  ) {
+    return { error: "Session has been revoked" };
+  }
+
+  if (!session.user.active) {
+    return { error: "Account is deactivated" };
+  }
+
+  return {
+    user: {
+      id: session.user.id,
+      role: session.user.role,
+      email: session.user.email,
+      name: session.user.name,
+      sessionId: session.id,
+      permissions: await getPermissionsFor(session.user),
+    },
+  };
+}
+
+/**
+ * For public endpoints that show more to signed-in users. A valid session
+ * token sets req.user exactly as authRequired would; anything else (no
+ * token, invalid or revoked session, impersonation tokens, API keys)
+ * continues without a user.
+ */
+export async function optionalAuth(req: AuthedRequest, res: Response, next: NextFunction) {
   const header = req.headers.authorization;
-  
+
   // No token = continue without user (public access)
   if (!header || !header.startsWith("Bearer ")) {
     return next();
   }
-  
+
   const token = header.split(" ")[1];
   try {
     const decoded = jwt.verify(token, env.jwtSecret) as any;
-    req.user = {
-      id: decoded.id,
-      role: decoded.role,
-      email: decoded.email,
-      name: decoded.name,
-    };
+
+    // Impersonated requests are only accepted where authRequired audits them
+    if (!decoded.imp) {
+      const result = await resolveSessionUser(decoded);
+      if ("user" in result) {
+        req.user = result.user;
+      }
+    }
   } catch (err) {
     // Invalid token = continue without user (don't fail)
   }
-  
+
   next();
 }
 
+/**
+ * Verifies the access token, then checks the backing session has not been
+ * revoked and the account is still active. Role/email/name and permissions
+ * are read fresh so deactivations and role changes apply immediately.
+ */
+export async function authRequired(req: AuthedRequest, res: Response, next: NextFunction) {
+  const apiKeyHeader = req.get("x-api-key");
+  if (apiKeyHeader) {
+    return authApiKey(apiKeyHeader, req, res, next);
+  }
 
-export function authRequired(req: AuthedRequest, res: Response, next: NextFunction) {
   const header = req.headers.authorization;
   if (!header || !header.startsWith("Bearer ")) {
     return res.status(401).json({ success: false, message: "No token" });
@@ -44,16 +130,158 @@ export function authRequired(req: AuthedRequest, res: Response, next: NextFuncti
 
   const token = header.split(" ")[1];
 
+  if (isApiKey(token)) {
+    return authApiKey(token, req, res, next);
+  }
+
+  let decoded: any;
   try {
-    const decoded = jwt.verify(token, env.jwtSecret) as any;
+    decoded = jwt.verify(token, env.jwtSecret) as any;
+  } catch (err) {
+    return res.status(401).json({ success: false, message: "Invalid token" });
+  }
+
+  if (decoded.imp) {
+    return authImpersonation(decoded, req, res, next);
+  }
+
+  try {
+    const result = await resolveSessionUser(decoded);
+    if ("error" in result) {
+      return res.status(401).json({ success: false, message: result.error });
+    }
+
+    req.user = result.user;
+    next();
+  } catch (err) {
+    console.error("authRequired error:", err);
+    return res.status(500).json({ success: false, message: "Authentication failed" });
+  }
+}
+
+/**
+ * authRequired for API keys (X-API-Key header or "Bearer ambo_..."). The key
+ * acts as its owner, limited to the permissions granted to the key.
+ */
+async function authApiKey(
+  rawKey: string,
+  req: AuthedRequest,
+  res: Response,
+  next: NextFunction
+) {
+  try {
+    const apiKey = await findActiveApiKey(rawKey);
+
+    if (!apiKey) {
+      return res.status(401).json({ success: false, message: "Invalid or expired API key" });
+    }
+
+    if (!apiKey.user.active) {
+      return res.status(401).json({ success: false, message: "Account is deactivated" });
+    }
+
+    // Never more than the owner currently has
+    const ownerPermissions = await getPermissionsFor(apiKey.user);
+    // Client-scoped keys never carry permissions that reach other clients
+    const permissions = apiKey.permissions.filter(
+      (p) => ownerPermissions.includes(p) && (!apiKey.clientId || CLIENT_SCOPABLE_PERMISSIONS.includes(p))
+    );
+
     req.user = {
-      id: decoded.id,
-      role: decoded.role,
-      email: decoded.email,
-      name: decoded.name,
+      id: apiKey.user.id,
+      // SUPER_ADMIN bypasses permission checks by role, so keys never carry it
+      role: apiKey.user.role === "SUPER_ADMIN" ? "ADMIN" : apiKey.user.role,
+      email: apiKey.user.email,
+      name: apiKey.user.name,
+      permissions,
+      apiKey: { id: apiKey.id, clientId: apiKey.clientId },
     };
+
+    await touchApiKey(apiKey, req.ip);
     next();
   } catch (err) {
-    return res.status(401).json({ success: false, message: "Invalid token" });
+    console.error("authApiKey error:", err);
+    return res.status(500).json({ success: false, message: "Authentication failed" });
+  }
+}
+
+/**
+ * authRequired for impersonation tokens: req.user is the impersonated user,
+ * req.user.impersonator the SUPER_ADMIN. Every request is audited.
+ */
+async function authImpersonation(
+  decoded: any,
+  req: AuthedRequest,
+  res: Response,
+  next: NextFunction
+) {
+  try {
+    const impersonation = await findActiveImpersonation(decoded.imp);
+
+    if (!impersonation || impersonation.targetUserId !== decoded.id) {
+      return res.status(401).json({ success: false, message: "Impersonation session has ended" });
+    }
+
+    const target = impersonation.targetUser;
+    if (!target.active) {
+      return res.status(401).json({ success: false, message: "Account is deactivated" });
+    }
+
+    const impersonator: Impersonator = {
+      id: impersonation.admin.id,
+      name: impersonation.admin.name,
+      email: impersonation.admin.email,
+      impersonationId: impersonation.id,
+    };
+
+    req.user = {
+      id: target.id,
+      role: target.role,
+      email: target.email,
+      name: target.name,
+      permissions: await getPermissionsFor(target),
+      impersonator,
+    };
+
+    res.setHeader("X-Impersonated-By", impersonator.id);
+    auditImpersonatedRequest(req, res, impersonator, target.id);
+    next();
+  } catch (err) {
+    console.error("authImpersonation error:", err);
+    return res.status(500).json({ success: false, message: "Authentication failed" });
+  }
+}
+
+/**
+ * Used by the 2FA enrollment endpoints. Accepts either a normal session, or the
+ * `setupToken` handed out at login when 2FA is mandatory but not yet enrolled.
+ * In the setup-token case req.user has no sessionId and twoFactorSetup is set.
+ */
+export async function authOrTwoFactorSetup(req: AuthedRequest, res: Response, next: NextFunction) {
+  const setupToken = req.body?.setupToken;
+  if (!setupToken) {
+    return authRequired(req, res, next);
+  }
+
+  const userId = verifyTwoFactorChallenge(setupToken, "2fa_setup");
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "Invalid or expired setup token" });
+  }
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, role: true, email: true, name: true, active: true },
+    });
+
+    if (!user || !user.active) {
+      return res.status(401).json({ success: false, message: "Account is deactivated" });
+    }
+
+    req.user = { id: user.id, role: user.role, email: user.email, name: user.name, twoFactorSetup: true };
+    next();
+  } catch (err) {
+    console.error("authOrTwoFactorSetup error:", err);
+    return res.status(500).json({ success: false, message: "Authentication failed" });
   }
 }
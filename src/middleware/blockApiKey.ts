@@ -0,0 +1,18 @@
+import { Response, NextFunction } from "express";
+import { AuthedRequest } from "./auth";
+
+/**
+ * Middleware to refuse account-level actions (managing API keys, passwords,
+ * 2FA, impersonation) when the request is authenticated with an API key.
+ * Use after authRequired.
+ */
+export function blockApiKey(req: AuthedRequest, res: Response, next: NextFunction) {
+  if (req.user?.apiKey) {
+    return res.status(403).json({
+      success: false,
+      message: "Forbidden: This action requires a user session, not an API key",
+    });
+  }
+
+  next();
+}
@@ -0,0 +1,18 @@
+import { Response, NextFunction } from "express";
+import { AuthedRequest } from "./auth";
+
+/**
+ * Middleware to refuse sensitive actions (payments, password/2FA changes,
+ * payouts...) when the request is made with an impersonation token.
+ * Use after authRequired.
+ */
+export function blockImpersonation(req: AuthedRequest, res: Response, next: NextFunction) {
+  if (req.user?.impersonator) {
+    return res.status(403).json({
+      success: false,
+      message: "Forbidden: This action is not allowed while impersonating a user",
+    });
+  }
+
+  next();
+}
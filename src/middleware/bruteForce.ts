@@ -0,0 +1,248 @@
+import { Request, Response, NextFunction } from "express";
+import { prisma } from "../config/prisma";
+import { sendAccountLockedEmail } from "../services/email.service";
+
+interface BruteForceOptions {
+  /** Bucket name, e.g. "login" - keys are namespaced by it */
+  scope: string;
+  /** Pulls the account identifier (email) from the request; omit for IP-only tracking */
+  account?: (req: Request) => string | undefined;
+  /** Count every attempt instead of only failed ones (registration, reset emails) */
+  countAll?: boolean;
+  /** Failures allowed before progressive delays start */
+  freeAttempts?: number;
+  /** Failures on one account before it is locked */
+  maxAttempts?: number;
+  /** IPs are shared (offices, mobile carriers) so they get this many times more room */
+  ipMultiplier?: number;
+  /** First lockout length; doubles on each repeat lockout */
+  lockoutMinutes?: number;
+  /** Failures older than this are forgotten */
+  windowMinutes?: number;
+}
+
+const MAX_DELAY_SECONDS = 60;
+const MAX_LOCKOUT_MINUTES = 24 * 60;
+
+interface ThrottleKey {
+  key: string;
+  kind: "ip" | "account";
+  identifier: string;
+  maxAttempts: number;
+}
+
+/**
+ * Brute-force protection for sensitive public endpoints.
+ *
+ * Tracks attempts per account and per IP. After `freeAttempts` failures each
+ * new attempt must wait 2^n seconds (progressive delay); after `maxAttempts`
+ * the key is locked for `lockoutMinutes`. Account lockouts are audit-logged
+ * and the account owner is notified. A successful response clears the account
+ * counter (IP counters only decay, so a valid login can't mask a spray).
+ *
+ * Outcome is read from the response status: 2xx = success, 4xx = failure.
+ */
+export function bruteForceGuard(options: BruteForceOptions) {
+  const {
+    scope,
+    account,
+    countAll = false,
+    freeAttempts = 3,
+    maxAttempts = 10,
+    ipMultiplier = 5,
+    lockoutMinutes = 15,
+    windowMinutes = 60,
+  } = options;
+
+  return async function (req: Request, res: Response, next: NextFunction) {
+    const keys: ThrottleKey[] = [
+      {
+        key: `${scope}:ip:${req.ip}`,
+        kind: "ip",
+        identifier: req.ip || "unknown",
+        maxAttempts: maxAttempts * ipMultiplier,
+      },
+    ];
+
+    const accountId = account?.(req)?.trim().toLowerCase();
+    if (accountId) {
+      keys.push({
+        key: `${scope}:account:${accountId}`,
+        kind: "account",
+        identifier: accountId,
+        maxAttempts,
+      });
+    }
+
+    try {
+      const now = new Date();
+      const throttles = await prisma.authThrottle.findMany({
+        where: { key: { in: keys.map((k) => k.key) } },
+      });
+
+      for (const throttle of throttles) {
+        if (throttle.lockedUntil && throttle.lockedUntil > now) {
+          const retryAfter = Math.ceil((throttle.lockedUntil.getTime() - now.getTime()) / 1000);
+          res.setHeader("Retry-After", String(retryAfter));
+          return res.status(429).json({
+            success: false,
+            message: `Too many attempts. Try again in ${Math.ceil(retryAfter / 60)} minute(s).`,
+          });
+        }
+
+        const inWindow =
+          throttle.lastFailureAt &&
+          now.getTime() - throttle.lastFailureAt.getTime() < windowMinutes * 60 * 1000;
+
+        if (inWindow && throttle.failures >= freeAttempts) {
+          const delaySeconds = Math.min(2 ** (throttle.failures - freeAttempts), MAX_DELAY_SECONDS);
+          const waitedSeconds = (now.getTime() - throttle.lastFailureAt!.getTime()) / 1000;
+          if (waitedSeconds < delaySeconds) {
+            const retryAfter = Math.ceil(delaySeconds - waitedSeconds);
+            res.setHeader("Retry-After", String(retryAfter));
+            return res.status(429).json({
+              success: false,
+              message: `Too many attempts. Try again in ${retryAfter} second(s).`,
+            });
+          }
+        }
+      }
+    } catch (err) {
+      console.error("bruteForceGuard error:", err);
+      // Fail open - an outage in throttling shouldn't lock everyone out
+      return next();
+    }
+
+    res.on("finish", () => {
+      const failed = res.statusCode >= 400 && res.statusCode < 500 && res.statusCode !== 429;
+      const succeeded = res.statusCode >= 200 && res.statusCode < 300;
+
+      if (countAll ? succeeded || failed : failed) {
+        recordFailures(scope, keys, { lockoutMinutes, windowMinutes }).catch((err) =>
+          console.error("bruteForceGuard record error:", err)
+        );
+      } else if (succeeded) {
+        prisma.authThrottle
+          .deleteMany({ where: { key: { in: keys.filter((k) => k.kind === "account").map((k) => k.key) } } })
+          .catch((err) => console.error("bruteForceGuard reset error:", err));
+      }
+    });
+
+    next();
+  };
+}
+
+async function recordFailures(
+  scope: string,
+  keys: ThrottleKey[],
+  config: { lockoutMinutes: number; windowMinutes: number }
+) {
+  const now = new Date();
+  const windowStart = new Date(now.getTime() - config.windowMinutes * 60 * 1000);
+
+  for (const k of keys) {
+    // Failures from an expired window start over
+    await prisma.authThrottle.updateMany({
+      where: { key: k.key, lastFailureAt: { lt: windowStart } },
+      data: { failures: 0 },
+    });
+
+    // Counted in the database so concurrent requests can't lose an increment
+    const row = await prisma.authThrottle.upsert({
+      where: { key: k.key },
+      create: { key: k.key, scope, failures: 1, lastFailureAt: now },
+      update: { failures: { increment: 1 }, lastFailureAt: now },
+    });
+
+    if (row.failures < k.maxAttempts) {
+      continue;
+    }
+
+    // Lockout - length doubles with each repeat lockout
+    const lockCount = row.lockCount + 1;
+    const minutes = Math.min(config.lockoutMinutes * 2 ** (lockCount - 1), MAX_LOCKOUT_MINUTES);
+    const lockedUntil = new Date(now.getTime() + minutes * 60 * 1000);
+
+    // Only the request that claims the full counter applies (and reports) the lockout
+    const claimed = await prisma.authThrottle.updateMany({
+      where: { key: k.key, failures: { gte: k.maxAttempts }, lockCount: row.lockCount },
+      data: { failures: 0, lockCount, lockedUntil },
+    });
+    if (claimed.count === 0) {
+      continue;
+    }
+
+    console.warn(`🔒 Lockout (${scope}) for ${k.kind} ${k.identifier} until ${lockedUntil.toISOString()}`);
+
+    if (k.kind === "account") {
+      await handleAccountLockout(scope, k.identifier, lockedUntil, lockCount);
+    }
+  }
+}
+
+async function handleAccountLockout(
+  scope: string,
+  email: string,
+  lockedUntil: Date,
+  lockCount: number
+) {
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true, name: true, email: true },
+  });
+
+  // Unknown email - nothing to notify
+  if (!user) {
+    return;
+  }
+
+  try {
+    await prisma.auditLog.create({
+      data: {
+        userId: user.id,
+        actionType: "ACCOUNT_LOCKED",
+        entityType: "USER",
+        entityId: user.id,
+        metaJson: {
+          scope,
+          lockedUntil: lockedUntil.toISOString(),
+          lockCount,
+        },
+      },
+    });
+  } catch (auditErr) {
+    console.error("Audit log error:", auditErr);
+  }
+
+  await prisma.notification.create({
+    data: {
+      userId: user.id,
+      type: "ACCOUNT_LOCKED",
+      title: "Account temporarily locked",
+      body: `We locked your account until ${lockedUntil.toUTCString()} after too many unsuccessful attempts. If this wasn't you, reset your password.`,
+    },
+  });
+
+  try {
+    const frontendUrl = process.env.FRONTEND_URL || "https://ambo-dash.lovable.app";
+    await sendAccountLockedEmail(user.email, user.name, lockedUntil, `${frontendUrl}/forgot-password`);
+  } catch (emailError) {
+    console.error("Account locked email failed:", emailError);
+  }
+}
+
+/**
+ * Clear every lockout/counter for an account (all scopes), plus optionally an IP
+ * Returns the number of throttle records removed.
+ */
+export async function clearLockouts(email: string, ip?: string): Promise<number> {
+  const result = await prisma.authThrottle.deleteMany({
+    where: {
+      OR: [
+        { key: { endsWith: `:account:${email.toLowerCase()}` } },
+        ...(ip ? [{ key: { endsWith: `:ip:${ip}` } }] : []),
+      ],
+    },
+  });
+  return result.count;
+}
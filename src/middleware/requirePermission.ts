@@ -0,0 +1,31 @@
+import { Response, NextFunction } from "express";
+import { AuthedRequest } from "./auth";
+import { hasPermission } from "../services/permission.service";
+
+/**
+ * Middleware to require named permission(s)
+ * All listed permissions are required: requirePermission("payouts.read", "payouts.mark_paid")
+ *
+ * @param permissions - One or more permission names (see config/permissions.ts)
+ */
+export function requirePermission(...permissions: string[]) {
+  return function (req: AuthedRequest, res: Response, next: NextFunction) {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: "Unauthorized: Authentication required",
+      });
+    }
+
+    const missing = permissions.filter((p) => !hasPermission(req.user, p));
+
+    if (missing.length === 0) {
+      return next();
+    }
+
+    return res.status(403).json({
+      success: false,
+      message: `Forbidden: Missing permission: ${missing.join(", ")}`,
+    });
+  };
+}
@@ -82,6 +82,14 @@ export function isAdmin(role: string): boolean {
   return role === "ADMIN" || role === "SUPER_ADMIN";
 }
 
+/**
+ * Check if a role sits at admin level or above in ROLE_HIERARCHY
+ * (used for policies such as mandatory 2FA)
+ */
+export function isAdminLevel(role: string): boolean {
+  return (ROLE_HIERARCHY[role] ?? -1) >= ROLE_HIERARCHY.ADMIN;
+}
+
 /**
  * Check if a role is SUPER_ADMIN
  */
@@ -0,0 +1,42 @@
+import { Response, NextFunction } from "express";
+import { prisma } from "../config/prisma";
+import { AuthedRequest } from "./auth";
+
+const CLIENT_ROLES = ["CLIENT_VIEWER", "CLIENT_VIEWER_PENDING"];
+
+/**
+ * Middleware to block client users who haven't verified their email yet
+ * (payments, questionnaire submission). Staff accounts are created by admins
+ * and are not gated, nor are clients created before verification existed.
+ */
+export async function requireVerifiedEmail(req: AuthedRequest, res: Response, next: NextFunction) {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      message: "Unauthorized: Authentication required",
+    });
+  }
+
+  if (!CLIENT_ROLES.includes(req.user.role)) {
+    return next();
+  }
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.id },
+      select: { emailVerifiedAt: true, emailVerificationRequired: true },
+    });
+
+    if (!user || (user.emailVerificationRequired && !user.emailVerifiedAt)) {
+      return res.status(403).json({
+        success: false,
+        message: "Please verify your email address before continuing",
+      });
+    }
+
+    next();
+  } catch (err) {
+    console.error("requireVerifiedEmail error:", err);
+    return res.status(500).json({ success: false, message: "Failed to check email verification" });
+  }
+}
@@ -2,6 +2,7 @@ import { Response } from "express";
 import { prisma } from "../../config/prisma";
 import { AuthedRequest } from "../../middleware/auth";
 import { success, fail } from "../../utils/response";
+import { getClientForUser } from "../../services/clientAccess.service";
 
 // GET /activity
 export async function listActivity(req: AuthedRequest, res: Response) {
@@ -31,9 +32,7 @@ export async function listActivity(req: AuthedRequest, res: Response) {
   }
 
   if (role === "CLIENT_VIEWER") {
-    const client = await prisma.client.findFirst({
-      where: { linkedUserId: id },
-    });
+    const client = await getClientForUser(id);
     if (!client) return fail(res, "No client", 404);
 
     const tasks = await prisma.task.findMany({
@@ -2,6 +2,9 @@ import { Response } from "express";
 import { prisma } from "../../config/prisma";
 import { AuthedRequest } from "../../middleware/auth";
 import { success, fail } from "../../utils/response";
+import { hasPermission } from "../../services/permission.service";
+import { sumMinutes, toHours } from "../../services/timeTracking.service";
+import { getSlaStatus, isCompletedOnTime } from "../../services/sla.service";
 
 /**
  * GET /api/analytics/overview
@@ -10,8 +13,8 @@ import { success, fail } from "../../utils/response";
  */
 export async function getOverview(req: AuthedRequest, res: Response) {
   try {
-    if (!req.user || req.user.role !== "SUPER_ADMIN") {
-      return fail(res, "Forbidden: Only super admins can access analytics", 403);
+    if (!req.user || !hasPermission(req.user, "analytics.read")) {
+      return fail(res, "Forbidden: You do not have permission to access analytics", 403);
     }
 
     // Get counts
@@ -119,8 +122,8 @@ export async function getOverview(req: AuthedRequest, res: Response) {
  */
 export async function getRevenueAnalytics(req: AuthedRequest, res: Response) {
   try {
-    if (!req.user || req.user.role !== "SUPER_ADMIN") {
-      return fail(res, "Forbidden: Only super admins can access analytics", 403);
+    if (!req.user || !hasPermission(req.user, "analytics.read")) {
+      return fail(res, "Forbidden: You do not have permission to access analytics", 403);
     }
 
     const payments = await prisma.payment.findMany({
@@ -193,8 +196,8 @@ export async function getRevenueAnalytics(req: AuthedRequest, res: Response) {
  */
 export async function getWorkerPerformance(req: AuthedRequest, res: Response) {
   try {
-    if (!req.user || req.user.role !== "SUPER_ADMIN") {
-      return fail(res, "Forbidden: Only super admins can access analytics", 403);
+    if (!req.user || !hasPermission(req.user, "analytics.read")) {
+      return fail(res, "Forbidden: You do not have permission to access analytics", 403);
     }
 
     const workers = await prisma.user.findMany({
@@ -208,6 +211,9 @@ export async function getWorkerPerformance(req: AuthedRequest, res: Response) {
           select: {
             id: true,
             status: true,
+            dueDate: true,
+            deadline: true,
+            completedAt: true,
             createdAt: true,
             updatedAt: true,
           },
@@ -215,12 +221,28 @@ export async function getWorkerPerformance(req: AuthedRequest, res: Response) {
       },
     });
 
+    // Logged hours per worker (all time, and approved on timesheets)
+    const [loggedMinutes, approvedMinutes] = await Promise.all([
+      sumMinutes({ userId: { in: workers.map((w) => w.id) } }, "userId"),
+      sumMinutes(
+        { userId: { in: workers.map((w) => w.id) }, timesheet: { status: "APPROVED" } },
+        "userId"
+      ),
+    ]);
+
     const workerStats = workers.map((worker) => {
       const tasks = worker.tasksAssigned;
       const completedTasks = tasks.filter((t) => t.status === "DONE");
       const inProgressTasks = tasks.filter((t) => t.status === "IN_PROGRESS");
       const pendingTasks = tasks.filter((t) => t.status === "NOT_STARTED");
 
+      // On-time rate over completed tasks that had a due date
+      const dueCompleted = completedTasks
+        .map((t) => isCompletedOnTime(t))
+        .filter((onTime): onTime is boolean => onTime !== null);
+      const onTimeCompleted = dueCompleted.filter(Boolean).length;
+      const overdueOpen = tasks.filter((t) => getSlaStatus(t).overdue).length;
+
       // Calculate average completion time (days)
       const completedWithTimes = completedTasks.filter(
         (t) => t.createdAt && t.updatedAt
@@ -250,6 +272,14 @@ export async function getWorkerPerformance(req: AuthedRequest, res: Response) {
             ? Math.round((completedTasks.length / tasks.length) * 100)
             : 0,
         avgCompletionDays: Math.round(avgCompletionTime * 10) / 10,
+        onTimeCompletionRate:
+          dueCompleted.length > 0
+            ? Math.round((onTimeCompleted / dueCompleted.length) * 100)
+            : null,
+        lateCompletions: dueCompleted.length - onTimeCompleted,
+        overdueTasks: overdueOpen,
+        hoursLogged: toHours(loggedMinutes.get(worker.id) ?? 0),
+        hoursApproved: toHours(approvedMinutes.get(worker.id) ?? 0),
       };
     });
 
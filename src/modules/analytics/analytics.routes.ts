@@ -5,13 +5,13 @@ import {
   getWorkerPerformance,
 } from "./analytics.controller";
 import { authRequired } from "../../middleware/auth";
-import { requireRole } from "../../middleware/requireRole";
+import { requirePermission } from "../../middleware/requirePermission";
 
 const router = Router();
 
-// All analytics endpoints require SUPER_ADMIN role
-router.get("/overview", authRequired, requireRole("SUPER_ADMIN"), getOverview);
-router.get("/revenue", authRequired, requireRole("SUPER_ADMIN"), getRevenueAnalytics);
-router.get("/worker-performance", authRequired, requireRole("SUPER_ADMIN"), getWorkerPerformance);
+// All analytics endpoints require analytics.read (SUPER_ADMIN by default)
+router.get("/overview", authRequired, requirePermission("analytics.read"), getOverview);
+router.get("/revenue", authRequired, requirePermission("analytics.read"), getRevenueAnalytics);
+router.get("/worker-performance", authRequired, requirePermission("analytics.read"), getWorkerPerformance);
 
 export default router;
@@ -0,0 +1,388 @@
+import { Response } from "express";
+import crypto from "crypto";
+import { prisma } from "../../config/prisma";
+import { AuthedRequest } from "../../middleware/auth";
+import { success, fail } from "../../utils/response";
+import { hashPassword } from "../../utils/hash";
+import {
+  filterKnownPermissions,
+  getPermissionsFor,
+  hasPermission,
+} from "../../services/permission.service";
+import { getClientForUser } from "../../services/clientAccess.service";
+import { CLIENT_SCOPABLE_PERMISSIONS, generateApiKey, serializeApiKey } from "../../services/apiKey.service";
+
+const SERVICE_ACCOUNT_ROLES = ["ADMIN", "WORKER"];
+const MAX_EXPIRY_DAYS = 365;
+
+const ownerSelect = { id: true, name: true, email: true, isServiceAccount: true };
+
+/**
+ * Validate a key request for an owner and create it.
+ * Returns the raw key (shown once) or an error for the caller to send.
+ */
+async function issueKey(
+  owner: { id: string; role: string; customRoleId?: string | null },
+  createdById: string,
+  body: any
+): Promise<
+  | { error: { message: string; status: number } }
+  | { key: string; apiKey: Parameters<typeof serializeApiKey>[0] }
+> {
+  const { name, permissions, clientId, expiresInDays } = body;
+
+  if (!name || typeof name !== "string" || !name.trim()) {
+    return { error: { message: "name is required", status: 400 } };
+  }
+
+  if (permissions !== undefined && !Array.isArray(permissions)) {
+    return { error: { message: "permissions must be an array", status: 400 } };
+  }
+
+  const requested = permissions || [];
+  const known = filterKnownPermissions(requested);
+  if (known.length !== requested.length) {
+    return { error: { message: "Unknown permission in permissions", status: 400 } };
+  }
+
+  // A key can never do more than its owner
+  const ownerPermissions = await getPermissionsFor(owner);
+  const excess = known.filter((p) => !ownerPermissions.includes(p));
+  if (excess.length > 0) {
+    return {
+      error: { message: `Owner does not have permission(s): ${excess.join(", ")}`, status: 400 },
+    };
+  }
+
+  let scopeClientId: string | null = null;
+  if (clientId) {
+    const client = await prisma.client.findUnique({ where: { id: clientId }, select: { id: true } });
+    if (!client) {
+      return { error: { message: "Client not found", status: 404 } };
+    }
+    scopeClientId = client.id;
+  }
+
+  // Client users' keys are always scoped to their own organization
+  if (owner.role === "CLIENT_VIEWER" || owner.role === "CLIENT_VIEWER_PENDING") {
+    const ownClient = await getClientForUser(owner.id);
+    if (!ownClient || (scopeClientId && scopeClientId !== ownClient.id)) {
+      return { error: { message: "Forbidden: Keys can only be scoped to your own client", status: 403 } };
+    }
+    scopeClientId = ownClient.id;
+  }
+
+  if (scopeClientId) {
+    const unscopable = known.filter((p) => !CLIENT_SCOPABLE_PERMISSIONS.includes(p));
+    if (unscopable.length > 0) {
+      return {
+        error: {
+          message: `Permission(s) cannot be limited to a client: ${unscopable.join(", ")}`,
+          status: 400,
+        },
+      };
+    }
+  }
+
+  let expiresAt: Date | null = null;
+  if (expiresInDays !== undefined && expiresInDays !== null) {
+    const days = Number(expiresInDays);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_EXPIRY_DAYS) {
+      return {
+        error: { message: `expiresInDays must be between 1 and ${MAX_EXPIRY_DAYS}`, status: 400 },
+      };
+    }
+    expiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+  }
+
+  const { key, prefix, keyHash } = generateApiKey();
+
+  const apiKey = await prisma.apiKey.create({
+    data: {
+      name: name.trim(),
+      prefix,
+      keyHash,
+      userId: owner.id,
+      createdById,
+      permissions: known,
+      clientId: scopeClientId,
+      expiresAt,
+    },
+    include: { user: { select: ownerSelect } },
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      userId: createdById,
+      actionType: "API_KEY_CREATED",
+      entityType: "API_KEY",
+      entityId: apiKey.id,
+      metaJson: {
+        name: apiKey.name,
+        ownerId: owner.id,
+        permissions: known,
+        clientId: scopeClientId,
+        expiresAt: expiresAt ? expiresAt.toISOString() : null,
+      },
+    },
+  });
+
+  return { key, apiKey };
+}
+
+/**
+ * POST /api/api-keys
+ * Create a personal API key. The raw key is only returned in this response.
+ * Any authenticated user (session only)
+ */
+export async function createApiKey(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    const owner = await prisma.user.findUnique({
+      where: { id: req.user.id },
+      select: { id: true, role: true, customRoleId: true },
+    });
+
+    if (!owner) {
+      return fail(res, "User not found", 404);
+    }
+
+    const result = await issueKey(owner, req.user.id, req.body);
+    if ("error" in result) {
+      return fail(res, result.error.message, result.error.status);
+    }
+
+    return success(res, {
+      key: result.key,
+      apiKey: serializeApiKey(result.apiKey),
+      message: "Store this key now, it will not be shown again",
+    }, 201);
+  } catch (err: any) {
+    console.error("createApiKey error:", err);
+    return fail(res, "Failed to create API key", 500);
+  }
+}
+
+/**
+ * GET /api/api-keys
+ * Your own API keys (?all=true for everyone's, requires apikeys.manage)
+ */
+export async function listApiKeys(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    const all = req.query.all === "true";
+
+    if (all && !hasPermission(req.user, "apikeys.manage")) {
+      return fail(res, "Forbidden: You do not have permission to view all API keys", 403);
+    }
+
+    const keys = await prisma.apiKey.findMany({
+      where: all ? {} : { userId: req.user.id },
+      include: { user: { select: ownerSelect } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return success(res, { keys: keys.map(serializeApiKey) });
+  } catch (err: any) {
+    console.error("listApiKeys error:", err);
+    return fail(res, "Failed to get API keys", 500);
+  }
+}
+
+/**
+ * DELETE /api/api-keys/:id
+ * Revoke an API key (takes effect immediately)
+ * Key owner, or apikeys.manage
+ */
+export async function revokeApiKey(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    const { id } = req.params;
+
+    const apiKey = await prisma.apiKey.findUnique({ where: { id } });
+
+    if (!apiKey) {
+      return fail(res, "API key not found", 404);
+    }
+
+    if (apiKey.userId !== req.user.id && !hasPermission(req.user, "apikeys.manage")) {
+      return fail(res, "Forbidden: You do not have permission to revoke this API key", 403);
+    }
+
+    const updated = await prisma.apiKey.update({
+      where: { id },
+      data: { revokedAt: apiKey.revokedAt ?? new Date() },
+      include: { user: { select: ownerSelect } },
+    });
+
+    if (!apiKey.revokedAt) {
+      await prisma.auditLog.create({
+        data: {
+          userId: req.user.id,
+          actionType: "API_KEY_REVOKED",
+          entityType: "API_KEY",
+          entityId: id,
+          metaJson: { name: apiKey.name, ownerId: apiKey.userId },
+        },
+      });
+    }
+
+    return success(res, { message: "API key revoked", apiKey: serializeApiKey(updated) });
+  } catch (err: any) {
+    console.error("revokeApiKey error:", err);
+    return fail(res, "Failed to revoke API key", 500);
+  }
+}
+
+/**
+ * POST /api/api-keys/service-accounts
+ * Create a non-human user for integrations. It cannot log in; it only acts
+ * through API keys issued to it.
+ * apikeys.manage
+ */
+export async function createServiceAccount(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    const { name, role = "WORKER", customRoleId } = req.body;
+
+    if (!name || typeof name !== "string" || !name.trim()) {
+      return fail(res, "name is required", 400);
+    }
+
+    if (!SERVICE_ACCOUNT_ROLES.includes(role)) {
+      return fail(res, `role must be one of: ${SERVICE_ACCOUNT_ROLES.join(", ")}`, 400);
+    }
+
+    if (customRoleId) {
+      const customRole = await prisma.roleDefinition.findUnique({ where: { id: customRoleId } });
+      if (!customRole) {
+        return fail(res, "Role not found", 404);
+      }
+      if (customRole.baseRole !== role) {
+        return fail(res, `Role "${customRole.name}" is based on ${customRole.baseRole}, not ${role}`, 400);
+      }
+    }
+
+    const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "service";
+    const email = `${slug}.${crypto.randomBytes(4).toString("hex")}@service.local`;
+
+    const account = await prisma.user.create({
+      data: {
+        name: name.trim(),
+        email,
+        role,
+        customRoleId: customRoleId || null,
+        // Unusable password: login is refused for service accounts anyway
+        passwordHash: await hashPassword(crypto.randomBytes(32).toString("hex")),
+        isServiceAccount: true,
+        emailVerifiedAt: new Date(),
+      },
+      select: { id: true, name: true, email: true, role: true, customRoleId: true, createdAt: true },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user.id,
+        actionType: "SERVICE_ACCOUNT_CREATED",
+        entityType: "USER",
+        entityId: account.id,
+        metaJson: { name: account.name, role, customRoleId: customRoleId || null },
+      },
+    });
+
+    return success(res, account, 201);
+  } catch (err: any) {
+    console.error("createServiceAccount error:", err);
+    return fail(res, "Failed to create service account", 500);
+  }
+}
+
+/**
+ * GET /api/api-keys/service-accounts
+ * Service accounts with their keys
+ * apikeys.manage
+ */
+export async function listServiceAccounts(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    const accounts = await prisma.user.findMany({
+      where: { isServiceAccount: true },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        role: true,
+        customRoleId: true,
+        active: true,
+        createdAt: true,
+        apiKeys: { orderBy: { createdAt: "desc" } },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return success(res, {
+      accounts: accounts.map(({ apiKeys, ...account }) => ({
+        ...account,
+        keys: apiKeys.map(serializeApiKey),
+      })),
+    });
+  } catch (err: any) {
+    console.error("listServiceAccounts error:", err);
+    return fail(res, "Failed to get service accounts", 500);
+  }
+}
+
+/**
+ * POST /api/api-keys/service-accounts/:id/keys
+ * Issue an API key for a service account. The raw key is only returned once.
+ * apikeys.manage
+ */
+export async function createServiceAccountKey(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    const account = await prisma.user.findUnique({
+      where: { id: req.params.id },
+      select: { id: true, role: true, customRoleId: true, isServiceAccount: true, active: true },
+    });
+
+    if (!account || !account.isServiceAccount) {
+      return fail(res, "Service account not found", 404);
+    }
+
+    if (!account.active) {
+      return fail(res, "Service account is deactivated", 400);
+    }
+
+    const result = await issueKey(account, req.user.id, req.body);
+    if ("error" in result) {
+      return fail(res, result.error.message, result.error.status);
+    }
+
+    return success(res, {
+      key: result.key,
+      apiKey: serializeApiKey(result.apiKey),
+      message: "Store this key now, it will not be shown again",
+    }, 201);
+  } catch (err: any) {
+    console.error("createServiceAccountKey error:", err);
+    return fail(res, "Failed to create API key", 500);
+  }
+}
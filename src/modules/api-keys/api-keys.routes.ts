@@ -0,0 +1,43 @@
+import { Router } from "express";
+import { authRequired } from "../../middleware/auth";
+import { requirePermission } from "../../middleware/requirePermission";
+import { blockImpersonation } from "../../middleware/blockImpersonation";
+import { blockApiKey } from "../../middleware/blockApiKey";
+import {
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+  createServiceAccount,
+  listServiceAccounts,
+  createServiceAccountKey,
+} from "./api-keys.controller";
+
+const router = Router();
+
+// ============================================
+// SERVICE ACCOUNTS
+// ============================================
+
+// GET /api/api-keys/service-accounts - List service accounts and their keys
+router.get("/service-accounts", authRequired, blockImpersonation, blockApiKey, requirePermission("apikeys.manage"), listServiceAccounts);
+
+// POST /api/api-keys/service-accounts - Create a service account
+router.post("/service-accounts", authRequired, blockImpersonation, blockApiKey, requirePermission("apikeys.manage"), createServiceAccount);
+
+// POST /api/api-keys/service-accounts/:id/keys - Issue a key for a service account
+router.post("/service-accounts/:id/keys", authRequired, blockImpersonation, blockApiKey, requirePermission("apikeys.manage"), createServiceAccountKey);
+
+// ============================================
+// PERSONAL KEYS
+// ============================================
+
+// GET /api/api-keys - Own keys (?all=true with apikeys.manage)
+router.get("/", authRequired, blockImpersonation, blockApiKey, listApiKeys);
+
+// POST /api/api-keys - Create a personal key
+router.post("/", authRequired, blockImpersonation, blockApiKey, createApiKey);
+
+// DELETE /api/api-keys/:id - Revoke a key
+router.delete("/:id", authRequired, blockImpersonation, blockApiKey, revokeApiKey);
+
+export default router;
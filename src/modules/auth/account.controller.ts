@@ -0,0 +1,333 @@
+import { Request, Response } from "express";
+import { prisma } from "../../config/prisma";
+import { success, fail } from "../../utils/response";
+import { comparePassword } from "../../utils/hash";
+import { AuthedRequest } from "../../middleware/auth";
+import { revokeAllUserSessions } from "../../services/session.service";
+import { sendEmailChangedNoticeEmail } from "../../services/email.service";
+import {
+  sendEmailChangeConfirmation,
+  verifyEmailChangeToken,
+} from "../../services/emailVerification.service";
+import {
+  anonymizeUser,
+  buildPersonalDataExport,
+  getDeletionBlocker,
+} from "../../services/account.service";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * PATCH /api/auth/me
+ * Update your own profile (name, phone)
+ */
+export async function updateCurrentUser(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    const { name, phone } = req.body;
+    const data: { name?: string; phone?: string | null } = {};
+
+    if (name !== undefined) {
+      if (typeof name !== "string" || !name.trim()) {
+        return fail(res, "Name cannot be empty", 400);
+      }
+      data.name = name.trim();
+    }
+
+    if (phone !== undefined) {
+      if (phone !== null && typeof phone !== "string") {
+        return fail(res, "Phone must be a string", 400);
+      }
+      data.phone = phone ? phone.trim() : null;
+    }
+
+    if (Object.keys(data).length === 0) {
+      return fail(res, "Nothing to update. Allowed fields: name, phone", 400);
+    }
+
+    const user = await prisma.user.update({
+      where: { id: req.user.id },
+      data,
+      select: { id: true, name: true, email: true, phone: true, role: true },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user.id,
+        actionType: "PROFILE_UPDATED",
+        entityType: "USER",
+        entityId: req.user.id,
+        metaJson: { fields: Object.keys(data) },
+      },
+    });
+
+    return success(res, user);
+  } catch (err: any) {
+    console.error("updateCurrentUser error:", err);
+    return fail(res, "Failed to update profile", 500);
+  }
+}
+
+/**
+ * POST /api/auth/me/email
+ * Start an email change. A confirmation link goes to the new address; the
+ * current address keeps working until it is confirmed.
+ */
+export async function requestEmailChange(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    const { newEmail, password } = req.body;
+
+    if (!newEmail || !password) {
+      return fail(res, "New email and password are required", 400);
+    }
+
+    const normalized = String(newEmail).trim().toLowerCase();
+
+    if (!EMAIL_PATTERN.test(normalized)) {
+      return fail(res, "Invalid email address", 400);
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.id },
+      select: { id: true, name: true, email: true, passwordHash: true },
+    });
+
+    if (!user) {
+      return fail(res, "User not found", 404);
+    }
+
+    if (!(await comparePassword(password, user.passwordHash))) {
+      return fail(res, "Password is incorrect", 400);
+    }
+
+    if (normalized === user.email.toLowerCase()) {
+      return fail(res, "That is already your email address", 400);
+    }
+
+    const taken = await prisma.user.findUnique({ where: { email: normalized }, select: { id: true } });
+    if (taken) {
+      return fail(res, "A user with this email already exists", 409);
+    }
+
+    await sendEmailChangeConfirmation(user, normalized);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: user.id,
+        actionType: "EMAIL_CHANGE_REQUESTED",
+        entityType: "USER",
+        entityId: user.id,
+        metaJson: { newEmail: normalized },
+      },
+    });
+
+    return success(res, {
+      message: `Confirmation link sent to ${normalized}`,
+      pendingEmail: normalized,
+    });
+  } catch (err: any) {
+    console.error("requestEmailChange error:", err);
+    return fail(res, "Failed to start email change", 500);
+  }
+}
+
+/**
+ * DELETE /api/auth/me/email
+ * Cancel a pending email change
+ */
+export async function cancelEmailChange(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    await prisma.user.update({
+      where: { id: req.user.id },
+      data: { pendingEmail: null },
+    });
+
+    return success(res, { message: "Email change cancelled" });
+  } catch (err: any) {
+    console.error("cancelEmailChange error:", err);
+    return fail(res, "Failed to cancel email change", 500);
+  }
+}
+
+/**
+ * POST /api/auth/confirm-email-change
+ * Apply an email change using the token sent to the new address (public).
+ * Signs the user out everywhere and notifies the old address.
+ */
+export async function confirmEmailChange(req: Request, res: Response) {
+  try {
+    const { token } = req.body;
+
+    if (!token) {
+      return fail(res, "Token is required", 400);
+    }
+
+    const payload = verifyEmailChangeToken(token);
+    if (!payload) {
+      return fail(res, "Invalid or expired confirmation link", 400);
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: payload.id },
+      select: { id: true, name: true, email: true, pendingEmail: true, active: true },
+    });
+
+    // Cancelled, superseded by a newer request, or the email changed another way
+    if (!user || !user.active || user.email !== payload.email || user.pendingEmail !== payload.newEmail) {
+      return fail(res, "Invalid or expired confirmation link", 400);
+    }
+
+    const taken = await prisma.user.findUnique({
+      where: { email: payload.newEmail },
+      select: { id: true },
+    });
+    if (taken) {
+      return fail(res, "A user with this email already exists", 409);
+    }
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: user.id },
+        data: { email: payload.newEmail, pendingEmail: null, emailVerifiedAt: new Date() },
+      }),
+      // Keep the client contact address in step when this user was it
+      prisma.client.updateMany({
+        where: { linkedUserId: user.id, email: { equals: user.email, mode: "insensitive" } },
+        data: { email: payload.newEmail },
+      }),
+    ]);
+
+    await revokeAllUserSessions(user.id);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: user.id,
+        actionType: "EMAIL_CHANGED",
+        entityType: "USER",
+        entityId: user.id,
+        metaJson: { previousEmail: user.email, email: payload.newEmail },
+      },
+    });
+
+    try {
+      await sendEmailChangedNoticeEmail(user.email, user.name, payload.newEmail);
+    } catch (emailErr) {
+      console.error("Email changed notice error:", emailErr);
+      // The change is applied either way
+    }
+
+    return success(res, {
+      message: "Email changed. Please sign in with your new address.",
+      email: payload.newEmail,
+    });
+  } catch (err: any) {
+    console.error("confirmEmailChange error:", err);
+    return fail(res, "Failed to change email", 500);
+  }
+}
+
+/**
+ * GET /api/auth/me/export
+ * Download everything we hold about you as JSON
+ */
+export async function exportMyData(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    const bundle = await buildPersonalDataExport(req.user.id);
+
+    if (!bundle) {
+      return fail(res, "User not found", 404);
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user.id,
+        actionType: "PERSONAL_DATA_EXPORTED",
+        entityType: "USER",
+        entityId: req.user.id,
+        metaJson: {},
+      },
+    });
+
+    const date = new Date().toISOString().slice(0, 10);
+    res.setHeader("Content-Disposition", `attachment; filename="ambo-my-data-${date}.json"`);
+
+    return success(res, bundle);
+  } catch (err: any) {
+    console.error("exportMyData error:", err);
+    return fail(res, "Failed to export your data", 500);
+  }
+}
+
+/**
+ * POST /api/auth/me/delete
+ * Delete your account: personal data is anonymized immediately, financial
+ * records (payments, payouts) are kept against an anonymous placeholder.
+ * Body: { password, confirm: "DELETE" }
+ */
+export async function deleteCurrentUser(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    const { password, confirm, reason } = req.body;
+
+    if (!password || confirm !== "DELETE") {
+      return fail(res, 'Password and confirm: "DELETE" are required', 400);
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.id },
+      select: { id: true, role: true, passwordHash: true },
+    });
+
+    if (!user) {
+      return fail(res, "User not found", 404);
+    }
+
+    if (!(await comparePassword(password, user.passwordHash))) {
+      return fail(res, "Password is incorrect", 400);
+    }
+
+    const blocker = await getDeletionBlocker(user);
+    if (blocker) {
+      return fail(res, blocker, 400);
+    }
+
+    const result = await anonymizeUser(user.id);
+
+    // No personal data in the audit entry: the user row is now anonymous
+    await prisma.auditLog.create({
+      data: {
+        userId: user.id,
+        actionType: "ACCOUNT_DELETED",
+        entityType: "USER",
+        entityId: user.id,
+        metaJson: { role: user.role, reason: reason || null },
+      },
+    });
+
+    return success(res, {
+      message: "Your account has been deleted",
+      deletedAt: result?.deletedAt,
+    });
+  } catch (err: any) {
+    console.error("deleteCurrentUser error:", err);
+    return fail(res, "Failed to delete account", 500);
+  }
+}
@@ -1,10 +1,29 @@
 import { Request, Response } from "express";
-import jwt from "jsonwebtoken";
+import { ClientRole } from "@prisma/client";
 import { prisma } from "../../config/prisma";
 import { comparePassword, hashPassword } from "../../utils/hash";
-import { env } from "../../config/env";
 import { success, fail } from "../../utils/response";
+import { hasPermission } from "../../services/permission.service";
 import { AuthedRequest } from "../../middleware/auth";
+import {
+  createSession,
+  rotateSession,
+  revokeSession,
+  revokeAllUserSessions,
+  getSessionContext,
+} from "../../services/session.service";
+import { sendVerificationEmail } from "../../services/emailVerification.service";
+import { endImpersonation } from "../../services/impersonation.service";
+import { addClientMember, CLIENT_ROLES, getClientMembership } from "../../services/clientAccess.service";
+import {
+  issueInvitation,
+  serializeInvitation,
+  validateNewInvitation,
+} from "../../services/invitation.service";
+import {
+  isTwoFactorMandatory,
+  signTwoFactorChallenge,
+} from "../../services/twoFactor.service";
 
 /**
  * POST /api/auth/login
@@ -24,7 +43,8 @@ export async function login(req: Request, res: Response) {
       where: { email: email.toLowerCase() },
     });
 
-    if (!user || !user.active) {
+    // Service accounts authenticate with API keys only
+    if (!user || !user.active || user.isServiceAccount) {
       return fail(res, "Invalid credentials", 401);
     }
 
@@ -34,20 +54,36 @@ export async function login(req: Request, res: Response) {
       return fail(res, "Invalid credentials", 401);
     }
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { id: user.id, role: user.role, email: user.email },
-      env.jwtSecret,
-      { expiresIn: "7d" }
-    );
+    // 2FA enrolled: password is only the first step
+    if (user.twoFactorEnabled) {
+      return success(res, {
+        twoFactorRequired: true,
+        challengeToken: signTwoFactorChallenge(user.id, "2fa_login"),
+      });
+    }
+
+    // 2FA mandatory for this role but not enrolled yet: must enroll before getting a session
+    if (await isTwoFactorMandatory(user.role)) {
+      return success(res, {
+        twoFactorSetupRequired: true,
+        setupToken: signTwoFactorChallenge(user.id, "2fa_setup"),
+      });
+    }
+
+    // Start a session: short-lived access token + rotating refresh token
+    const tokens = await createSession(user, getSessionContext(req));
 
     return success(res, {
-      token,
+      token: tokens.token,
+      refreshToken: tokens.refreshToken,
+      accessTokenExpiresIn: tokens.accessTokenExpiresIn,
+      refreshTokenExpiresAt: tokens.refreshTokenExpiresAt,
       user: {
         id: user.id,
         role: user.role,
         email: user.email,
         name: user.name,
+        emailVerified: !!user.emailVerifiedAt,
       },
     });
   } catch (err) {
@@ -56,6 +92,97 @@ export async function login(req: Request, res: Response) {
   }
 }
 
+/**
+ * POST /api/auth/refresh
+ * Exchange a refresh token for a new access + refresh token pair (public)
+ */
+export async function refreshToken(req: Request, res: Response) {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken) {
+      return fail(res, "Refresh token is required", 400);
+    }
+
+    const result = await rotateSession(refreshToken, getSessionContext(req));
+
+    if (!result) {
+      return fail(res, "Invalid or expired refresh token", 401);
+    }
+
+    return success(res, {
+      token: result.tokens.token,
+      refreshToken: result.tokens.refreshToken,
+      accessTokenExpiresIn: result.tokens.accessTokenExpiresIn,
+      refreshTokenExpiresAt: result.tokens.refreshTokenExpiresAt,
+      user: result.user,
+    });
+  } catch (err) {
+    console.error("refreshToken error:", err);
+    return fail(res, "Failed to refresh session", 500);
+  }
+}
+
+/**
+ * POST /api/auth/logout
+ * Revoke the current session (authenticated users)
+ */
+export async function logout(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    if (req.user.sessionId) {
+      await revokeSession(req.user.sessionId);
+    }
+
+    // Logging out of an impersonation ends it (the admin's own session stays)
+    if (req.user.impersonator) {
+      await endImpersonation(req.user.impersonator.impersonationId);
+    }
+
+    return success(res, { message: "Logged out successfully" });
+  } catch (err) {
+    console.error("logout error:", err);
+    return fail(res, "Failed to log out", 500);
+  }
+}
+
+/**
+ * POST /api/auth/logout-all
+ * Revoke every session for the current user, on all devices (authenticated users)
+ */
+export async function logoutAllDevices(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    const revokedCount = await revokeAllUserSessions(req.user.id);
+
+    try {
+      await prisma.auditLog.create({
+        data: {
+          userId: req.user.id,
+          actionType: "SESSIONS_REVOKED",
+          entityType: "USER",
+          entityId: req.user.id,
+          metaJson: { revokedCount, scope: "ALL_DEVICES" },
+        },
+      });
+    } catch (auditErr) {
+      console.error("Audit log error:", auditErr);
+      // Don't fail the request if audit log fails
+    }
+
+    return success(res, { message: "Logged out of all devices", revokedCount });
+  } catch (err) {
+    console.error("logoutAllDevices error:", err);
+    return fail(res, "Failed to log out of all devices", 500);
+  }
+}
+
 /**
  * POST /api/auth/register-client
  * Client self-registration (public endpoint)
@@ -113,6 +240,7 @@ export async function registerClient(req: Request, res: Response) {
           passwordHash: pwHash,
           role: "CLIENT_VIEWER_PENDING",
           active: true,
+          emailVerificationRequired: true,
         },
         select: {
           id: true,
@@ -144,6 +272,9 @@ export async function registerClient(req: Request, res: Response) {
         },
       });
 
+      // The registering contact owns the client organization
+      await addClientMember(tx, { clientId: newClient.id, userId: newUser.id, role: "OWNER" });
+
       // Audit log (if available)
       try {
         await tx.auditLog.create({
@@ -167,10 +298,18 @@ export async function registerClient(req: Request, res: Response) {
       return { user: newUser, client: newClient };
     });
 
+    // Send email verification link (payments/questionnaire are blocked until verified)
+    try {
+      await sendVerificationEmail(result.user);
+    } catch (emailError) {
+      console.error("Verification email failed:", emailError);
+      // Continue anyway - user can request a new link
+    }
+
     return success(
       res,
       {
-        message: "Registration successful. Your account is pending admin approval.",
+        message: "Registration successful. Please verify your email. Your account is pending admin approval.",
         user: result.user,
         client: result.client,
       },
@@ -184,90 +323,56 @@ export async function registerClient(req: Request, res: Response) {
 
 /**
  * POST /api/auth/register-worker
- * Create a new WORKER user (SUPER_ADMIN only)
+ * Invite a new worker (no password is set by the admin - the invitee
+ * receives an expiring link and chooses their own password)
+ * invitations.manage (SUPER_ADMIN, and ADMIN by default)
  */
 export async function registerWorker(req: AuthedRequest, res: Response) {
   try {
-    // Check authentication
     if (!req.user) {
       return fail(res, "Unauthorized", 401);
     }
 
-    // Only SUPER_ADMIN can create workers
-    if (req.user.role !== "SUPER_ADMIN") {
-      return fail(res, "Forbidden: Only SUPER_ADMIN can create workers", 403);
-    }
-
-    const { name, email, phone, password } = req.body;
+    const { name, email, phone } = req.body;
 
-    // Validate required fields
-    if (!name || !email || !password) {
-      return fail(res, "Name, email, and password are required", 400);
+    const error = await validateNewInvitation({ name, email, role: "WORKER" }, req.user);
+    if (error) {
+      return fail(res, error.message, error.status);
     }
 
-    // Check if email already exists
-    const exists = await prisma.user.findUnique({
-      where: { email: email.toLowerCase() },
-      select: { id: true, role: true, active: true },
-    });
-
-    if (exists) {
-      return fail(res, "A user with that email already exists", 409);
-    }
-
-    // Hash password
-    const pwHash = await hashPassword(password);
+    const invitation = await issueInvitation({ name, email, phone, role: "WORKER" }, req.user);
 
-    // Create new worker user
-    const user = await prisma.user.create({
+    // Audit log
+    await prisma.auditLog.create({
       data: {
-        name,
-        email: email.toLowerCase(),
-        phone: phone || null,
-        passwordHash: pwHash,
-        role: "WORKER",
-        active: true,
-      },
-      select: {
-        id: true,
-        name: true,
-        email: true,
-        phone: true,
-        role: true,
-        active: true,
-        createdAt: true,
+        userId: req.user.id,
+        actionType: "INVITATION_SENT",
+        entityType: "INVITATION",
+        entityId: invitation.id,
+        metaJson: {
+          email: invitation.email,
+          name: invitation.name,
+          role: invitation.role,
+          invitedBy: req.user.email,
+        },
       },
     });
 
-    // Audit log (if you have it)
-    try {
-      await prisma.auditLog.create({
-        data: {
-          userId: req.user.id,
-          actionType: "WORKER_CREATED",
-          entityType: "USER",
-          entityId: user.id,
-          metaJson: {
-            workerEmail: user.email,
-            workerName: user.name,
-          },
-        },
-      });
-    } catch (auditErr) {
-      console.error("Audit log error:", auditErr);
-      // Don't fail the request if audit log fails
-    }
-
-    return success(res, user, 201);
-  } catch (err) {
+    return success(res, {
+      message: "Invitation sent. The worker will set their own password.",
+      invitation: serializeInvitation(invitation),
+    }, 201);
+  } catch (err: any) {
     console.error("registerWorker error:", err);
-    return fail(res, "Failed to create worker", 500);
+    return fail(res, "Failed to invite worker", 500);
   }
 }
 
 /**
  * POST /api/auth/register-client-user
- * Create a new CLIENT_VIEWER user linked to an existing client (SUPER_ADMIN only)
+ * Create a new CLIENT_VIEWER user as a member of an existing client.
+ * clientRole defaults to OWNER for the client's first login, VIEWER after that.
+ * users.manage
  */
 export async function registerClientUser(req: AuthedRequest, res: Response) {
   try {
@@ -276,12 +381,12 @@ export async function registerClientUser(req: AuthedRequest, res: Response) {
       return fail(res, "Unauthorized", 401);
     }
 
-    // Only SUPER_ADMIN can create client users
-    if (req.user.role !== "SUPER_ADMIN") {
-      return fail(res, "Forbidden: Only SUPER_ADMIN can create client users", 403);
+    // Only users.manage holders can create client users
+    if (!hasPermission(req.user, "users.manage")) {
+      return fail(res, "Forbidden: You do not have permission to create client users", 403);
     }
 
-    const { name, email, phone, password, clientId } = req.body;
+    const { name, email, phone, password, clientId, clientRole } = req.body;
 
     // Validate required fields
     if (!name || !email || !password || !clientId) {
@@ -298,11 +403,12 @@ export async function registerClientUser(req: AuthedRequest, res: Response) {
       return fail(res, "Client not found", 404);
     }
 
-    // Check if client already has a linked user
-    if (client.linkedUserId) {
-      return fail(res, "This client already has a linked user account", 400);
+    if (clientRole && !CLIENT_ROLES.includes(clientRole)) {
+      return fail(res, `clientRole must be one of: ${CLIENT_ROLES.join(", ")}`, 400);
     }
 
+    const memberRole: ClientRole = clientRole || (client.linkedUserId ? "VIEWER" : "OWNER");
+
     // Check if email already exists
     const exists = await prisma.user.findUnique({
       where: { email: email.toLowerCase() },
@@ -327,6 +433,7 @@ export async function registerClientUser(req: AuthedRequest, res: Response) {
           passwordHash: pwHash,
           role: "CLIENT_VIEWER",
           active: true,
+          emailVerificationRequired: true,
         },
         select: {
           id: true,
@@ -339,10 +446,12 @@ export async function registerClientUser(req: AuthedRequest, res: Response) {
         },
       });
 
-      // Link the user to the client
-      await tx.client.update({
-        where: { id: clientId },
-        data: { linkedUserId: createdUser.id },
+      // Add the user to the client's team
+      await addClientMember(tx, {
+        clientId,
+        userId: createdUser.id,
+        role: memberRole,
+        invitedById: req.user!.id,
       });
 
       // Audit log (if you have it)
@@ -356,6 +465,7 @@ export async function registerClientUser(req: AuthedRequest, res: Response) {
             metaJson: {
               clientId: clientId,
               clientName: client.companyName,
+              clientRole: memberRole,
               userEmail: createdUser.email,
               userName: createdUser.name,
             },
@@ -369,6 +479,12 @@ export async function registerClientUser(req: AuthedRequest, res: Response) {
       return createdUser;
     });
 
+    try {
+      await sendVerificationEmail(result);
+    } catch (emailError) {
+      console.error("Verification email failed:", emailError);
+    }
+
     return success(res, result, 201);
   } catch (err) {
     console.error("registerClientUser error:", err);
@@ -395,6 +511,8 @@ export async function getCurrentUser(req: AuthedRequest, res: Response) {
         phone: true,
         role: true,
         active: true,
+        emailVerifiedAt: true,
+        pendingEmail: true,
         createdAt: true,
       },
     });
@@ -403,7 +521,20 @@ export async function getCurrentUser(req: AuthedRequest, res: Response) {
       return fail(res, "User not found", 404);
     }
 
-    return success(res, user);
+    const membership = await getClientMembership(user.id);
+
+    return success(res, {
+      ...user,
+      emailVerified: !!user.emailVerifiedAt,
+      client: membership
+        ? {
+            id: membership.clientId,
+            companyName: membership.client.companyName,
+            clientRole: membership.role,
+          }
+        : null,
+      impersonatedBy: req.user.impersonator || null,
+    });
   } catch (err) {
     console.error("getCurrentUser error:", err);
     return fail(res, "Failed to get user", 500);
@@ -456,6 +587,9 @@ export async function changePassword(req: AuthedRequest, res: Response) {
       data: { passwordHash: newPwHash },
     });
 
+    // Sign out every other device; the current session stays valid
+    await revokeAllUserSessions(req.user.id, req.user.sessionId);
+
     // Audit log (if you have it)
     try {
       await prisma.auditLog.create({
@@ -1,8 +1,14 @@
 import { Router } from "express";
-import { authRequired } from "../../middleware/auth";
-import { requireRole } from "../../middleware/requireRole";
+import { AuthedRequest, authRequired, authOrTwoFactorSetup } from "../../middleware/auth";
+import { blockImpersonation } from "../../middleware/blockImpersonation";
+import { blockApiKey } from "../../middleware/blockApiKey";
+import { requirePermission } from "../../middleware/requirePermission";
+import { bruteForceGuard } from "../../middleware/bruteForce";
 import {
   login,
+  refreshToken,
+  logout,
+  logoutAllDevices,
   registerClient,
   registerWorker,
   registerClientUser,
@@ -14,40 +20,158 @@ import {
   resetPassword,
   verifyResetToken,
 } from "./password-reset.controller";
+import {
+  verifyEmail,
+  resendVerificationEmail,
+} from "./email-verification.controller";
+import {
+  getTwoFactorStatus,
+  setupTwoFactor,
+  enableTwoFactor,
+  verifyTwoFactorLogin,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+} from "./two-factor.controller";
+import {
+  updateCurrentUser,
+  requestEmailChange,
+  cancelEmailChange,
+  confirmEmailChange,
+  exportMyData,
+  deleteCurrentUser,
+} from "./account.controller";
 
 const router = Router();
 
+// Brute-force protection (per account + per IP, progressive delay, lockout)
+const loginGuard = bruteForceGuard({
+  scope: "login",
+  account: (req) => req.body?.email,
+});
+const registrationGuard = bruteForceGuard({
+  scope: "register",
+  countAll: true,
+  freeAttempts: 3,
+  maxAttempts: 5,
+  ipMultiplier: 1,
+  lockoutMinutes: 60,
+});
+const forgotPasswordGuard = bruteForceGuard({
+  scope: "forgot_password",
+  account: (req) => req.body?.email,
+  countAll: true,
+  freeAttempts: 2,
+  maxAttempts: 5,
+});
+const resetTokenGuard = bruteForceGuard({
+  scope: "reset_token",
+  maxAttempts: 5,
+  ipMultiplier: 2,
+});
+const verificationResendGuard = bruteForceGuard({
+  scope: "verify_email_resend",
+  account: (req) => (req as AuthedRequest).user?.email,
+  countAll: true,
+  freeAttempts: 3,
+  maxAttempts: 6,
+});
+const twoFactorGuard = bruteForceGuard({
+  scope: "2fa",
+  maxAttempts: 5,
+  ipMultiplier: 2,
+});
+
 // POST /api/auth/login - Login endpoint (public)
-router.post("/login", login);
+router.post("/login", loginGuard, login);
+
+// POST /api/auth/refresh - Rotate refresh token, get a new access token (public)
+router.post("/refresh", refreshToken);
+
+// POST /api/auth/logout - Revoke current session (authenticated users)
+router.post("/logout", authRequired, logout);
+
+// POST /api/auth/logout-all - Revoke sessions on all devices (authenticated users)
+router.post("/logout-all", authRequired, blockImpersonation, blockApiKey, logoutAllDevices);
 
 // POST /api/auth/register-client - Client self-registration (public)
-router.post("/register-client", registerClient);
+router.post("/register-client", registrationGuard, registerClient);
 
-// POST /api/auth/register-worker - Create WORKER user (SUPER_ADMIN only)
+// POST /api/auth/register-worker - Invite a WORKER (invitations.manage)
 router.post(
   "/register-worker",
   authRequired,
-  requireRole("SUPER_ADMIN"),
+  requirePermission("invitations.manage"),
   registerWorker
 );
 
-// POST /api/auth/register-client-user - Create CLIENT_VIEWER user (SUPER_ADMIN only)
+// POST /api/auth/register-client-user - Create CLIENT_VIEWER user (users.manage)
 router.post(
   "/register-client-user",
   authRequired,
-  requireRole("SUPER_ADMIN"),
+  requirePermission("users.manage"),
   registerClientUser
 );
 
 // GET /api/auth/me - Get current user details (authenticated users)
 router.get("/me", authRequired, getCurrentUser);
 
+// PATCH /api/auth/me - Update own name/phone (authenticated users)
+router.patch("/me", authRequired, updateCurrentUser);
+
+// ============================================
+// SELF-SERVICE ACCOUNT (email change, data export, deletion)
+// ============================================
+
+// POST /api/auth/me/email - Request an email change (confirmation sent to the new address)
+router.post("/me/email", authRequired, blockImpersonation, blockApiKey, requestEmailChange);
+
+// DELETE /api/auth/me/email - Cancel a pending email change
+router.delete("/me/email", authRequired, blockImpersonation, blockApiKey, cancelEmailChange);
+
+// POST /api/auth/confirm-email-change - Apply an email change with the emailed token (public)
+router.post("/confirm-email-change", confirmEmailChange);
+
+// GET /api/auth/me/export - Download personal data bundle
+router.get("/me/export", authRequired, blockImpersonation, blockApiKey, exportMyData);
+
+// POST /api/auth/me/delete - Delete (anonymize) own account
+router.post("/me/delete", authRequired, blockImpersonation, blockApiKey, deleteCurrentUser);
+
 // POST /api/auth/change-password - Change password (authenticated users)
-router.post("/change-password", authRequired, changePassword);
+router.post("/change-password", authRequired, blockImpersonation, blockApiKey, changePassword);
 
 // Password reset endpoints (public)
-router.post("/forgot-password", forgotPassword);
-router.post("/verify-reset-token", verifyResetToken);
-router.post("/reset-password", resetPassword);
+router.post("/forgot-password", forgotPasswordGuard, forgotPassword);
+router.post("/verify-reset-token", resetTokenGuard, verifyResetToken);
+router.post("/reset-password", resetTokenGuard, resetPassword);
+
+// Email verification
+// POST /api/auth/verify-email - Confirm email with signed token (public)
+router.post("/verify-email", verifyEmail);
+
+// POST /api/auth/resend-verification - Resend verification email (authenticated, throttled)
+router.post("/resend-verification", authRequired, verificationResendGuard, resendVerificationEmail);
+
+// ============================================
+// TWO-FACTOR AUTH (TOTP)
+// ============================================
+
+// POST /api/auth/2fa/verify-login - Second login step with challengeToken + code (public)
+router.post("/2fa/verify-login", twoFactorGuard, verifyTwoFactorLogin);
+
+// GET /api/auth/2fa/status - Current user's 2FA state
+router.get("/2fa/status", authRequired, getTwoFactorStatus);
+
+// POST /api/auth/2fa/setup - Generate secret + otpauth URI (session or setupToken)
+router.post("/2fa/setup", authOrTwoFactorSetup, blockImpersonation, blockApiKey, setupTwoFactor);
+
+// POST /api/auth/2fa/enable - Confirm enrollment, get recovery codes (session or setupToken)
+router.post("/2fa/enable", authOrTwoFactorSetup, blockImpersonation, blockApiKey, enableTwoFactor);
+
+// POST /api/auth/2fa/disable - Turn off 2FA (password + code)
+router.post("/2fa/disable", authRequired, blockImpersonation, blockApiKey, disableTwoFactor);
+
+// POST /api/auth/2fa/recovery-codes - Regenerate recovery codes
+router.post("/2fa/recovery-codes", authRequired, blockImpersonation, blockApiKey, regenerateRecoveryCodes);
 
 export default router;
@@ -0,0 +1,112 @@
+import { Request, Response } from "express";
+import { prisma } from "../../config/prisma";
+import { success, fail } from "../../utils/response";
+import { AuthedRequest } from "../../middleware/auth";
+import {
+  sendVerificationEmail,
+  verifyEmailVerificationToken,
+  VERIFICATION_RESEND_COOLDOWN_SECONDS,
+} from "../../services/emailVerification.service";
+
+/**
+ * POST /api/auth/verify-email
+ * Confirm an email address using the signed token from the verification email (public)
+ */
+export async function verifyEmail(req: Request, res: Response) {
+  try {
+    const { token } = req.body;
+
+    if (!token) {
+      return fail(res, "Token is required", 400);
+    }
+
+    const payload = verifyEmailVerificationToken(token);
+    if (!payload) {
+      return fail(res, "Invalid or expired verification link", 400);
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: payload.id },
+      select: { id: true, email: true, emailVerifiedAt: true },
+    });
+
+    // Email changed since the link was sent
+    if (!user || user.email !== payload.email) {
+      return fail(res, "Invalid or expired verification link", 400);
+    }
+
+    if (user.emailVerifiedAt) {
+      return success(res, { message: "Email already verified", emailVerifiedAt: user.emailVerifiedAt });
+    }
+
+    const updated = await prisma.user.update({
+      where: { id: user.id },
+      data: { emailVerifiedAt: new Date() },
+      select: { emailVerifiedAt: true },
+    });
+
+    try {
+      await prisma.auditLog.create({
+        data: {
+          userId: user.id,
+          actionType: "EMAIL_VERIFIED",
+          entityType: "USER",
+          entityId: user.id,
+          metaJson: { email: user.email },
+        },
+      });
+    } catch (auditErr) {
+      console.error("Audit log error:", auditErr);
+      // Don't fail the request if audit log fails
+    }
+
+    return success(res, {
+      message: "Email verified successfully",
+      emailVerifiedAt: updated.emailVerifiedAt,
+    });
+  } catch (err: any) {
+    console.error("verifyEmail error:", err);
+    return fail(res, "Failed to verify email", 500);
+  }
+}
+
+/**
+ * POST /api/auth/resend-verification
+ * Send a new verification email to the current user (throttled)
+ */
+export async function resendVerificationEmail(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.id },
+      select: { id: true, email: true, name: true, emailVerifiedAt: true, emailVerificationSentAt: true },
+    });
+
+    if (!user) {
+      return fail(res, "User not found", 404);
+    }
+
+    if (user.emailVerifiedAt) {
+      return fail(res, "Email is already verified", 400);
+    }
+
+    if (user.emailVerificationSentAt) {
+      const secondsSince = (Date.now() - user.emailVerificationSentAt.getTime()) / 1000;
+      if (secondsSince < VERIFICATION_RESEND_COOLDOWN_SECONDS) {
+        const retryAfter = Math.ceil(VERIFICATION_RESEND_COOLDOWN_SECONDS - secondsSince);
+        res.setHeader("Retry-After", String(retryAfter));
+        return fail(res, `Please wait ${retryAfter} second(s) before requesting another email`, 429);
+      }
+    }
+
+    await sendVerificationEmail(user);
+
+    return success(res, { message: "Verification email sent" });
+  } catch (err: any) {
+    console.error("resendVerificationEmail error:", err);
+    return fail(res, "Failed to send verification email", 500);
+  }
+}
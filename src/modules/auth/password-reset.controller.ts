@@ -5,6 +5,7 @@ import { success, fail } from "../../utils/response";
 import bcrypt from "bcryptjs";
 import crypto from "crypto";
 import { sendPasswordResetEmail } from "../../services/email.service";
+import { revokeAllUserSessions } from "../../services/session.service";
 
 /**
  * POST /api/auth/forgot-password
@@ -148,6 +149,9 @@ export async function resetPassword(req: Request, res: Response) {
       },
     });
 
+    // A reset means the old password may be compromised - sign out everywhere
+    await revokeAllUserSessions(user.id);
+
     // Create audit log
     await prisma.auditLog.create({
       data: {
@@ -0,0 +1,363 @@
+import { Request, Response } from "express";
+import { prisma } from "../../config/prisma";
+import { success, fail } from "../../utils/response";
+import { comparePassword } from "../../utils/hash";
+import { AuthedRequest } from "../../middleware/auth";
+import { createSession, getSessionContext } from "../../services/session.service";
+import {
+  hashRecoveryCodes,
+  isTwoFactorMandatory,
+  verifyTwoFactorChallenge,
+  verifyTwoFactorCode,
+} from "../../services/twoFactor.service";
+import {
+  buildOtpauthUri,
+  decryptSecret,
+  encryptSecret,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  verifyTotp,
+} from "../../utils/totp";
+
+/**
+ * GET /api/auth/2fa/status
+ * Current user's 2FA state
+ * ALL authenticated users
+ */
+export async function getTwoFactorStatus(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.id },
+      select: { twoFactorEnabled: true, twoFactorEnabledAt: true, twoFactorRecoveryCodes: true },
+    });
+
+    if (!user) {
+      return fail(res, "User not found", 404);
+    }
+
+    return success(res, {
+      enabled: user.twoFactorEnabled,
+      enabledAt: user.twoFactorEnabledAt,
+      mandatory: await isTwoFactorMandatory(req.user.role),
+      recoveryCodesRemaining: ((user.twoFactorRecoveryCodes as string[] | null) || []).length,
+    });
+  } catch (err: any) {
+    console.error("getTwoFactorStatus error:", err);
+    return fail(res, "Failed to get 2FA status", 500);
+  }
+}
+
+/**
+ * POST /api/auth/2fa/setup
+ * Start enrollment: generate a secret and the otpauth:// URI for the QR code.
+ * Accepts a session or the setupToken issued at login when 2FA is mandatory.
+ */
+export async function setupTwoFactor(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.id },
+      select: { email: true, twoFactorEnabled: true },
+    });
+
+    if (!user) {
+      return fail(res, "User not found", 404);
+    }
+
+    if (user.twoFactorEnabled) {
+      return fail(res, "Two-factor authentication is already enabled", 400);
+    }
+
+    const secret = generateTotpSecret();
+
+    // Stored as pending until the user proves they can produce a code
+    await prisma.user.update({
+      where: { id: req.user.id },
+      data: { twoFactorSecret: encryptSecret(secret), twoFactorLastStep: null },
+    });
+
+    return success(res, {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email),
+    });
+  } catch (err: any) {
+    console.error("setupTwoFactor error:", err);
+    return fail(res, "Failed to start 2FA setup", 500);
+  }
+}
+
+/**
+ * POST /api/auth/2fa/enable
+ * Confirm enrollment with a code from the authenticator app.
+ * Returns recovery codes (shown once). When enrolling via setupToken,
+ * also completes the login and returns a session.
+ */
+export async function enableTwoFactor(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    const { code } = req.body;
+
+    if (!code) {
+      return fail(res, "Verification code is required", 400);
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.id },
+      select: { id: true, role: true, email: true, name: true, twoFactorEnabled: true, twoFactorSecret: true },
+    });
+
+    if (!user) {
+      return fail(res, "User not found", 404);
+    }
+
+    if (user.twoFactorEnabled) {
+      return fail(res, "Two-factor authentication is already enabled", 400);
+    }
+
+    if (!user.twoFactorSecret) {
+      return fail(res, "Start 2FA setup first", 400);
+    }
+
+    const step = verifyTotp(decryptSecret(user.twoFactorSecret), code);
+    if (step === null) {
+      return fail(res, "Invalid verification code", 400);
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        twoFactorEnabled: true,
+        twoFactorEnabledAt: new Date(),
+        twoFactorLastStep: step,
+        twoFactorRecoveryCodes: hashRecoveryCodes(recoveryCodes),
+      },
+    });
+
+    try {
+      await prisma.auditLog.create({
+        data: {
+          userId: user.id,
+          actionType: "TWO_FACTOR_ENABLED",
+          entityType: "USER",
+          entityId: user.id,
+          metaJson: {},
+        },
+      });
+    } catch (auditErr) {
+      console.error("Audit log error:", auditErr);
+      // Don't fail the request if audit log fails
+    }
+
+    // Enrolled during a mandatory-2FA login - finish signing them in
+    const session = req.user.twoFactorSetup
+      ? await createSession(user, getSessionContext(req))
+      : null;
+
+    return success(res, {
+      message: "Two-factor authentication enabled",
+      recoveryCodes,
+      ...(session && {
+        token: session.token,
+        refreshToken: session.refreshToken,
+        accessTokenExpiresIn: session.accessTokenExpiresIn,
+        refreshTokenExpiresAt: session.refreshTokenExpiresAt,
+        user: { id: user.id, role: user.role, email: user.email, name: user.name },
+      }),
+    });
+  } catch (err: any) {
+    console.error("enableTwoFactor error:", err);
+    return fail(res, "Failed to enable 2FA", 500);
+  }
+}
+
+/**
+ * POST /api/auth/2fa/verify-login
+ * Second login step: exchange the challengeToken + TOTP/recovery code for a session (public)
+ */
+export async function verifyTwoFactorLogin(req: Request, res: Response) {
+  try {
+    const { challengeToken, code } = req.body;
+
+    if (!challengeToken || !code) {
+      return fail(res, "Challenge token and code are required", 400);
+    }
+
+    const userId = verifyTwoFactorChallenge(challengeToken, "2fa_login");
+    if (!userId) {
+      return fail(res, "Login challenge expired, please sign in again", 401);
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, role: true, email: true, name: true, active: true },
+    });
+
+    if (!user || !user.active) {
+      return fail(res, "Invalid credentials", 401);
+    }
+
+    const method = await verifyTwoFactorCode(user.id, code);
+    if (!method) {
+      return fail(res, "Invalid verification code", 401);
+    }
+
+    if (method === "recovery") {
+      try {
+        await prisma.auditLog.create({
+          data: {
+            userId: user.id,
+            actionType: "TWO_FACTOR_RECOVERY_CODE_USED",
+            entityType: "USER",
+            entityId: user.id,
+            metaJson: {},
+          },
+        });
+      } catch (auditErr) {
+        console.error("Audit log error:", auditErr);
+      }
+    }
+
+    const tokens = await createSession(user, getSessionContext(req));
+
+    return success(res, {
+      token: tokens.token,
+      refreshToken: tokens.refreshToken,
+      accessTokenExpiresIn: tokens.accessTokenExpiresIn,
+      refreshTokenExpiresAt: tokens.refreshTokenExpiresAt,
+      user: { id: user.id, role: user.role, email: user.email, name: user.name },
+    });
+  } catch (err: any) {
+    console.error("verifyTwoFactorLogin error:", err);
+    return fail(res, "Failed to verify 2FA code", 500);
+  }
+}
+
+/**
+ * POST /api/auth/2fa/disable
+ * Turn 2FA off (requires password + current code). Not allowed while mandatory for the role.
+ */
+export async function disableTwoFactor(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    const { password, code } = req.body;
+
+    if (!password || !code) {
+      return fail(res, "Password and verification code are required", 400);
+    }
+
+    if (await isTwoFactorMandatory(req.user.role)) {
+      return fail(res, "Two-factor authentication is mandatory for your role", 403);
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.id },
+      select: { id: true, passwordHash: true, twoFactorEnabled: true },
+    });
+
+    if (!user || !user.twoFactorEnabled) {
+      return fail(res, "Two-factor authentication is not enabled", 400);
+    }
+
+    const ok = await comparePassword(password, user.passwordHash);
+    if (!ok) {
+      return fail(res, "Password is incorrect", 400);
+    }
+
+    if (!(await verifyTwoFactorCode(user.id, code))) {
+      return fail(res, "Invalid verification code", 400);
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorRecoveryCodes: [],
+        twoFactorLastStep: null,
+        twoFactorEnabledAt: null,
+      },
+    });
+
+    try {
+      await prisma.auditLog.create({
+        data: {
+          userId: user.id,
+          actionType: "TWO_FACTOR_DISABLED",
+          entityType: "USER",
+          entityId: user.id,
+          metaJson: {},
+        },
+      });
+    } catch (auditErr) {
+      console.error("Audit log error:", auditErr);
+    }
+
+    return success(res, { message: "Two-factor authentication disabled" });
+  } catch (err: any) {
+    console.error("disableTwoFactor error:", err);
+    return fail(res, "Failed to disable 2FA", 500);
+  }
+}
+
+/**
+ * POST /api/auth/2fa/recovery-codes
+ * Replace all recovery codes (requires a current code). Old codes stop working.
+ */
+export async function regenerateRecoveryCodes(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    const { code } = req.body;
+
+    if (!code) {
+      return fail(res, "Verification code is required", 400);
+    }
+
+    if (!(await verifyTwoFactorCode(req.user.id, code))) {
+      return fail(res, "Invalid verification code", 400);
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+
+    await prisma.user.update({
+      where: { id: req.user.id },
+      data: { twoFactorRecoveryCodes: hashRecoveryCodes(recoveryCodes) },
+    });
+
+    try {
+      await prisma.auditLog.create({
+        data: {
+          userId: req.user.id,
+          actionType: "TWO_FACTOR_RECOVERY_CODES_REGENERATED",
+          entityType: "USER",
+          entityId: req.user.id,
+          metaJson: {},
+        },
+      });
+    } catch (auditErr) {
+      console.error("Audit log error:", auditErr);
+    }
+
+    return success(res, { recoveryCodes });
+  } catch (err: any) {
+    console.error("regenerateRecoveryCodes error:", err);
+    return fail(res, "Failed to regenerate recovery codes", 500);
+  }
+}
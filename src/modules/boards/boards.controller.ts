@@ -0,0 +1,278 @@
+import { Response } from "express";
+import { Prisma, TaskStatus } from "@prisma/client";
+import { prisma } from "../../config/prisma";
+import { AuthedRequest } from "../../middleware/auth";
+import { success, fail } from "../../utils/response";
+import { hasPermission } from "../../services/permission.service";
+import { isClientMember } from "../../services/clientAccess.service";
+import { getApiKeyClientScope } from "../../services/apiKey.service";
+import { withSlaStatus } from "../../services/sla.service";
+import {
+  TaskTransitionError,
+  assertTaskTransition,
+  recordTaskTransition,
+  runTaskTransitionEffects,
+} from "../../services/taskStatus.service";
+import {
+  BOARD_COLUMNS,
+  Board,
+  BoardError,
+  boardTaskWhere,
+  computeBoardRank,
+  getBoardRanks,
+  getColumnLimits,
+  parseBoardScope,
+  setBoardRank,
+  sortByBoardRank,
+} from "../../services/board.service";
+
+type BoardUser = NonNullable<AuthedRequest["user"]>;
+
+/**
+ * Resolve :scope/:scopeId and check the current user may view the board.
+ * Contract and client boards: tasks.manage or members of the client.
+ * Worker boards: tasks.manage or the worker themselves.
+ */
+async function loadBoard(user: BoardUser, scopeParam: string, scopeId: string): Promise<Board> {
+  const scope = parseBoardScope(scopeParam);
+  if (!scope) throw new BoardError("Board scope must be contract, client or worker");
+
+  let clientId: string | null = null;
+
+  if (scope === "CONTRACT") {
+    const contract = await prisma.contract.findUnique({ where: { id: scopeId }, select: { clientId: true } });
+    if (!contract) throw new BoardError("Contract not found", 404);
+    clientId = contract.clientId;
+  } else if (scope === "CLIENT") {
+    const client = await prisma.client.findUnique({ where: { id: scopeId }, select: { id: true } });
+    if (!client) throw new BoardError("Client not found", 404);
+    clientId = client.id;
+  } else {
+    const worker = await prisma.user.findUnique({ where: { id: scopeId }, select: { id: true } });
+    if (!worker) throw new BoardError("User not found", 404);
+  }
+
+  const scopeClientId = getApiKeyClientScope(user);
+  if (scopeClientId && clientId !== scopeClientId) throw new BoardError("Forbidden", 403);
+
+  const canView =
+    hasPermission(user, "tasks.manage") ||
+    (scope === "WORKER" ? scopeId === user.id : await isClientMember(clientId!, user.id));
+  if (!canView) throw new BoardError("Forbidden", 403);
+
+  return { scope, scopeId, where: boardTaskWhere(scope, scopeId) };
+}
+
+function handleError(res: Response, err: unknown, fn: string, message: string) {
+  if (err instanceof BoardError || err instanceof TaskTransitionError) return fail(res, err.message, err.status);
+  // Serialization failure: another move changed the same column
+  if ((err as any)?.code === "P2034") return fail(res, "The board changed at the same time, please retry", 409);
+  console.error(`${fn} error:`, err);
+  return fail(res, message, 500);
+}
+
+/**
+ * GET /boards/:scope/:scopeId
+ * Tasks of a contract, client or worker grouped into status columns, in
+ * board order, with each column's WIP limit
+ */
+export async function getBoard(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    const board = await loadBoard(req.user, req.params.scope, req.params.scopeId);
+
+    const [tasks, limits] = await Promise.all([
+      prisma.task.findMany({
+        where: board.where,
+        include: {
+          assignedTo: { select: { id: true, name: true } },
+          client: { select: { id: true, companyName: true } },
+        },
+      }),
+      getColumnLimits(board.scope, board.scopeId),
+    ]);
+    const ranks = await getBoardRanks(prisma, board, tasks.map((t) => t.id));
+    const ordered = sortByBoardRank(tasks, ranks).map((t) => ({ ...t, boardRank: ranks.get(t.id) ?? 0 }));
+
+    const columns = BOARD_COLUMNS.map((status) => {
+      const columnTasks = withSlaStatus(ordered.filter((t) => t.status === status));
+      const wipLimit = limits.get(status) ?? null;
+
+      return {
+        status,
+        count: columnTasks.length,
+        wipLimit,
+        overLimit: wipLimit !== null && columnTasks.length > wipLimit,
+        tasks: columnTasks,
+      };
+    });
+
+    return success(res, { scope: board.scope, scopeId: board.scopeId, columns });
+  } catch (err: any) {
+    return handleError(res, err, "getBoard", "Failed to fetch board");
+  }
+}
+
+/**
+ * POST /boards/:scope/:scopeId/move
+ * Move a task to a column and position in one step. Column changes follow the
+ * task status rules (GET /tasks/:id/transitions).
+ * tasks.manage or the assigned worker
+ * Body: { taskId, status, afterTaskId?, beforeTaskId?, force?, message? }
+ * force (tasks.manage only) moves into a column that is at its WIP limit.
+ */
+export async function moveBoardTask(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    const { taskId, status, afterTaskId, beforeTaskId, force, message } = req.body;
+
+    if (!taskId) return fail(res, "taskId is required", 400);
+    if (!BOARD_COLUMNS.includes(status)) {
+      return fail(res, `status must be one of: ${BOARD_COLUMNS.join(", ")}`, 400);
+    }
+    if (afterTaskId && beforeTaskId) {
+      return fail(res, "Provide afterTaskId or beforeTaskId, not both", 400);
+    }
+
+    const board = await loadBoard(req.user, req.params.scope, req.params.scopeId);
+    const canManage = hasPermission(req.user, "tasks.manage");
+
+    const task = await prisma.task.findFirst({ where: { ...board.where, id: taskId } });
+    if (!task) return fail(res, "Task not found on this board", 404);
+
+    if (!canManage && task.assignedToId !== req.user.id) {
+      return fail(res, "Forbidden: Only the assigned worker can move this task", 403);
+    }
+
+    const newStatus = status as TaskStatus;
+
+    // Column changes go through the task state machine; the audit entry records the board
+    const details: Record<string, any> = { board: { scope: board.scope, scopeId: board.scopeId } };
+    const checked =
+      newStatus !== task.status ? await assertTaskTransition(task, { status: newStatus }, req.user, details) : null;
+
+    const wipLimit = checked ? (await getColumnLimits(board.scope, board.scopeId)).get(newStatus) : undefined;
+
+    let boardRank = 0;
+    // Serializable, so concurrent moves cannot both pass the WIP limit count
+    const updatedTask = await prisma.$transaction(async (tx) => {
+      if (wipLimit !== undefined) {
+        const inColumn = await tx.task.count({ where: { ...board.where, status: newStatus } });
+        if (inColumn >= wipLimit) {
+          if (!(force && canManage)) {
+            throw new BoardError(`The ${newStatus} column is at its WIP limit of ${wipLimit}`, 409);
+          }
+          details.forcedOverWipLimit = true;
+        }
+      }
+
+      boardRank = await computeBoardRank(tx, board, newStatus, task.id, { afterTaskId, beforeTaskId });
+      await setBoardRank(tx, board, task.id, boardRank);
+
+      if (checked) {
+        return recordTaskTransition(tx, checked, {
+          message: message || `Moved to ${newStatus} on the board`,
+        });
+      }
+
+      const updated = await tx.task.findUniqueOrThrow({ where: { id: task.id } });
+
+      await tx.taskUpdate.create({
+        data: {
+          taskId: task.id,
+          userId: req.user!.id,
+          oldStatus: task.status,
+          newStatus,
+          message: message || "Reordered on the board",
+        },
+      });
+
+      return updated;
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    if (checked) {
+      await runTaskTransitionEffects(checked, updatedTask);
+    }
+
+    return success(res, { ...updatedTask, boardRank });
+  } catch (err: any) {
+    return handleError(res, err, "moveBoardTask", "Failed to move task");
+  }
+}
+
+/**
+ * GET /boards/:scope/:scopeId/limits
+ * WIP limits of a board by status (null = no limit)
+ */
+export async function getBoardLimits(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    const board = await loadBoard(req.user, req.params.scope, req.params.scopeId);
+    const limits = await getColumnLimits(board.scope, board.scopeId);
+
+    return success(res, Object.fromEntries(BOARD_COLUMNS.map((status) => [status, limits.get(status) ?? null])));
+  } catch (err: any) {
+    return handleError(res, err, "getBoardLimits", "Failed to fetch board limits");
+  }
+}
+
+/**
+ * PUT /boards/:scope/:scopeId/limits
+ * Set or clear WIP limits
+ * Body: { limits: { IN_PROGRESS: 5, WAITING: null, ... } }
+ */
+export async function updateBoardLimits(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    const board = await loadBoard(req.user, req.params.scope, req.params.scopeId);
+    const { limits } = req.body;
+
+    if (!limits || typeof limits !== "object" || Array.isArray(limits)) {
+      return fail(res, "limits must be an object keyed by status", 400);
+    }
+
+    for (const [status, value] of Object.entries(limits)) {
+      if (!BOARD_COLUMNS.includes(status as TaskStatus)) {
+        return fail(res, `Unknown status "${status}"`, 400);
+      }
+      if (value !== null && (!Number.isInteger(value) || (value as number) < 1)) {
+        return fail(res, `WIP limit for ${status} must be a positive integer or null`, 400);
+      }
+    }
+
+    const { scope, scopeId } = board;
+
+    await prisma.$transaction(
+      Object.entries(limits).map(([status, value]) => {
+        const key = { scope, scopeId, status: status as TaskStatus };
+        return value === null
+          ? prisma.boardColumnLimit.deleteMany({ where: key })
+          : prisma.boardColumnLimit.upsert({
+              where: { scope_scopeId_status: key },
+              create: { ...key, wipLimit: value as number, updatedById: req.user!.id },
+              update: { wipLimit: value as number, updatedById: req.user!.id },
+            });
+      })
+    );
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user.id,
+        actionType: "BOARD_LIMITS_UPDATED",
+        entityType: scope,
+        entityId: scopeId,
+        metaJson: { limits } as any,
+      },
+    });
+
+    const updated = await getColumnLimits(scope, scopeId);
+
+    return success(res, Object.fromEntries(BOARD_COLUMNS.map((status) => [status, updated.get(status) ?? null])));
+  } catch (err: any) {
+    return handleError(res, err, "updateBoardLimits", "Failed to update board limits");
+  }
+}
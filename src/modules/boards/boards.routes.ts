@@ -0,0 +1,28 @@
+import { Router } from "express";
+import { authRequired } from "../../middleware/auth";
+import { requirePermission } from "../../middleware/requirePermission";
+import { getBoard, moveBoardTask, getBoardLimits, updateBoardLimits } from "./boards.controller";
+
+const router = Router();
+
+// ============================================
+// TASK BOARDS (scope: contract | client | worker)
+// ============================================
+
+// GET /api/boards/:scope/:scopeId - Tasks grouped into status columns
+router.get("/:scope/:scopeId", authRequired, getBoard);
+
+// POST /api/boards/:scope/:scopeId/move - Move a task to a column and position
+router.post("/:scope/:scopeId/move", authRequired, moveBoardTask);
+
+// ============================================
+// WIP LIMITS
+// ============================================
+
+// GET /api/boards/:scope/:scopeId/limits - WIP limits per column
+router.get("/:scope/:scopeId/limits", authRequired, getBoardLimits);
+
+// PUT /api/boards/:scope/:scopeId/limits - Set or clear WIP limits
+router.put("/:scope/:scopeId/limits", authRequired, requirePermission("tasks.manage"), updateBoardLimits);
+
+export default router;
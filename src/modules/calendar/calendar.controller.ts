@@ -0,0 +1,105 @@
+import { Request, Response } from "express";
+import { prisma } from "../../config/prisma";
+import { env } from "../../config/env";
+import { AuthedRequest } from "../../middleware/auth";
+import { success, fail } from "../../utils/response";
+import {
+  buildICalendar,
+  findCalendarFeedUser,
+  getCalendarEvents,
+  regenerateCalendarFeed,
+} from "../../services/calendarFeed.service";
+
+function feedUrl(req: Request, token: string) {
+  const base = env.apiUrl || `${req.protocol}://${req.get("host")}`;
+  return `${base.replace(/\/$/, "")}/api/calendar/feeds/${token}.ics`;
+}
+
+/**
+ * GET /api/calendar/feed
+ * Whether I have a feed (the URL itself is only shown when generated)
+ */
+export async function getMyCalendarFeed(req: AuthedRequest, res: Response) {
+  try {
+    const feed = await prisma.calendarFeed.findUnique({ where: { userId: req.user!.id } });
+
+    return success(res, {
+      active: !!feed,
+      createdAt: feed?.createdAt ?? null,
+      lastAccessedAt: feed?.lastAccessedAt ?? null,
+    });
+  } catch (err: any) {
+    console.error("getMyCalendarFeed error:", err);
+    return fail(res, "Failed to fetch calendar feed", 500);
+  }
+}
+
+/**
+ * POST /api/calendar/feed
+ * Create my feed URL, or replace it (the old URL stops working)
+ */
+export async function regenerateMyCalendarFeed(req: AuthedRequest, res: Response) {
+  try {
+    const { token, feed } = await regenerateCalendarFeed(req.user!.id);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        actionType: "CALENDAR_FEED_GENERATED",
+        entityType: "USER",
+        entityId: req.user!.id,
+        metaJson: { feedId: feed.id } as any,
+      },
+    });
+
+    return success(res, { url: feedUrl(req, token), createdAt: feed.createdAt }, 201);
+  } catch (err: any) {
+    console.error("regenerateMyCalendarFeed error:", err);
+    return fail(res, "Failed to generate calendar feed", 500);
+  }
+}
+
+/**
+ * DELETE /api/calendar/feed
+ * Turn my feed off
+ */
+export async function deleteMyCalendarFeed(req: AuthedRequest, res: Response) {
+  try {
+    const { count } = await prisma.calendarFeed.deleteMany({ where: { userId: req.user!.id } });
+    if (count === 0) return fail(res, "No calendar feed", 404);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        actionType: "CALENDAR_FEED_REVOKED",
+        entityType: "USER",
+        entityId: req.user!.id,
+      },
+    });
+
+    return success(res, { message: "Calendar feed revoked" });
+  } catch (err: any) {
+    console.error("deleteMyCalendarFeed error:", err);
+    return fail(res, "Failed to revoke calendar feed", 500);
+  }
+}
+
+/**
+ * GET /api/calendar/feeds/:token.ics
+ * Public iCalendar feed; the secret token in the URL identifies the user
+ */
+export async function serveCalendarFeed(req: Request, res: Response) {
+  try {
+    const user = await findCalendarFeedUser(req.params.token);
+    if (!user) return res.status(404).send("Calendar feed not found");
+
+    const events = await getCalendarEvents(user);
+    const calendar = buildICalendar(`AMBO – ${user.name}`, events);
+
+    res.set("Cache-Control", "private, max-age=300");
+    return res.status(200).type("text/calendar; charset=utf-8").send(calendar);
+  } catch (err: any) {
+    console.error("serveCalendarFeed error:", err);
+    return res.status(500).send("Failed to build calendar feed");
+  }
+}
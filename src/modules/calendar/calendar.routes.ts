@@ -0,0 +1,34 @@
+import { Router } from "express";
+import { authRequired } from "../../middleware/auth";
+import { blockApiKey } from "../../middleware/blockApiKey";
+import { blockImpersonation } from "../../middleware/blockImpersonation";
+import {
+  getMyCalendarFeed,
+  regenerateMyCalendarFeed,
+  deleteMyCalendarFeed,
+  serveCalendarFeed,
+} from "./calendar.controller";
+
+const router = Router();
+
+// ============================================
+// PUBLIC FEED (secret token in the URL, no auth header)
+// ============================================
+
+// GET /api/calendar/feeds/:token.ics - iCalendar feed for calendar apps
+router.get("/feeds/:token.ics", serveCalendarFeed);
+
+// ============================================
+// MY FEED
+// ============================================
+
+// GET /api/calendar/feed - Feed status
+router.get("/feed", authRequired, getMyCalendarFeed);
+
+// POST /api/calendar/feed - Generate or regenerate the feed URL
+router.post("/feed", authRequired, blockApiKey, blockImpersonation, regenerateMyCalendarFeed);
+
+// DELETE /api/calendar/feed - Revoke the feed URL
+router.delete("/feed", authRequired, blockApiKey, blockImpersonation, deleteMyCalendarFeed);
+
+export default router;
@@ -2,6 +2,7 @@ import { Response } from "express";
 import { prisma } from "../../config/prisma";
 import { AuthedRequest } from "../../middleware/auth";
 import { success, fail } from "../../utils/response";
+import { getClientForUser, getClientMemberUserIds, isClientMember } from "../../services/clientAccess.service";
 import { sendNewMessageEmail } from "../../services/email.service";
 
 /**
@@ -173,9 +174,7 @@ export async function getAvailableContacts(req: AuthedRequest, res: Response) {
 
     } else if (req.user.role === "CLIENT_VIEWER") {
       // Client sees workers assigned to their tasks
-      const client = await prisma.client.findFirst({
-        where: { linkedUserId: req.user.id },
-      });
+      const client = await getClientForUser(req.user.id);
 
       if (!client) {
         console.log(`[available-contacts] No client found for user ${req.user.id}`);
@@ -303,9 +302,7 @@ export async function startChat(req: AuthedRequest, res: Response) {
       // contactId is the user ID (worker or admin)
       
       // First, get the client record for this user
-      const client = await prisma.client.findFirst({
-        where: { linkedUserId: req.user.id },
-      });
+      const client = await getClientForUser(req.user.id);
 
       if (!client) {
         return fail(res, "Client record not found", 404);
@@ -562,9 +559,7 @@ export async function getUserChats(req: AuthedRequest, res: Response) {
 
     } else {
       // CLIENT_VIEWER sees their chats - display shows WORKER name (who they're chatting with)
-      const client = await prisma.client.findFirst({
-        where: { linkedUserId: req.user.id },
-      });
+      const client = await getClientForUser(req.user.id);
 
       if (!client) {
         return success(res, []);
@@ -643,9 +638,6 @@ export async function getChannelMessages(req: AuthedRequest, res: Response) {
 
     const channel = await prisma.chatChannel.findUnique({
       where: { id: channelId },
-      include: {
-        client: { select: { linkedUserId: true } },
-      },
     });
 
     if (!channel) return fail(res, "Chat channel not found", 404);
@@ -653,7 +645,7 @@ export async function getChannelMessages(req: AuthedRequest, res: Response) {
     const hasAccess =
       req.user.role === "SUPER_ADMIN" ||
       channel.workerId === req.user.id ||
-      channel.client.linkedUserId === req.user.id;
+      (await isClientMember(channel.clientId, req.user.id, "chat"));
 
     if (!hasAccess) return fail(res, "Access denied", 403);
 
@@ -696,23 +688,18 @@ export async function sendMessage(req: AuthedRequest, res: Response) {
     const channel = await prisma.chatChannel.findUnique({
       where: { id: channelId },
       include: {
-        client: {
-          select: {
-            id: true,
-            linkedUserId: true,
-            linkedUser: { select: { email: true, name: true } },
-          },
-        },
         worker: { select: { id: true, name: true, email: true } },
       },
     });
 
     if (!channel) return fail(res, "Chat channel not found", 404);
 
+    const isClientSide = await isClientMember(channel.clientId, req.user.id, "chat");
+
     const hasAccess =
       req.user.role === "SUPER_ADMIN" ||
       channel.workerId === req.user.id ||
-      channel.client.linkedUserId === req.user.id;
+      isClientSide;
 
     if (!hasAccess) return fail(res, "Access denied", 403);
 
@@ -732,28 +719,25 @@ export async function sendMessage(req: AuthedRequest, res: Response) {
       data: { lastMessageAt: new Date() },
     });
 
-    // Determine recipient for notifications
-    const recipientEmail =
-      req.user.id === channel.client.linkedUserId
-        ? channel.worker?.email
-        : channel.client.linkedUser?.email;
-
-    const recipientName =
-      req.user.id === channel.client.linkedUserId
-        ? channel.worker?.name
-        : channel.client.linkedUser?.name;
+    // Client teammates message the worker; everyone else messages the client team
+    let recipients: { id: string; name: string; email: string }[] = [];
+    if (isClientSide) {
+      if (channel.worker) recipients = [channel.worker];
+    } else {
+      const memberIds = await getClientMemberUserIds(channel.clientId, "chat");
+      recipients = await prisma.user.findMany({
+        where: { id: { in: memberIds.filter((id) => id !== req.user!.id) } },
+        select: { id: true, name: true, email: true },
+      });
+    }
 
-    const recipientId =
-      req.user.id === channel.client.linkedUserId
-        ? channel.workerId
-        : channel.client.linkedUserId;
+    const chatUrl = `${process.env.FRONTEND_URL || "https://ambo-dash.lovable.app"}/messages/${channelId}`;
 
-    if (recipientEmail && recipientName) {
+    for (const recipient of recipients) {
       try {
-        const chatUrl = `${process.env.FRONTEND_URL || "https://ambo-dash.lovable.app"}/messages/${channelId}`;
         await sendNewMessageEmail(
-          recipientEmail,
-          recipientName,
+          recipient.email,
+          recipient.name,
           req.user.name,
           content,
           chatUrl
@@ -761,12 +745,10 @@ export async function sendMessage(req: AuthedRequest, res: Response) {
       } catch (emailError) {
         console.error("Email notification failed:", emailError);
       }
-    }
 
-    if (recipientId) {
       await prisma.notification.create({
         data: {
-          userId: recipientId,
+          userId: recipient.id,
           type: "NEW_MESSAGE",
           title: "New Message",
           body: `${req.user.name}: ${content.substring(0, 30)}...`,
@@ -883,9 +865,7 @@ export async function getUnreadCount(req: AuthedRequest, res: Response) {
       });
       channelIds = channels.map((c) => c.id);
     } else {
-      const client = await prisma.client.findFirst({
-        where: { linkedUserId: req.user.id },
-      });
+      const client = await getClientForUser(req.user.id);
 
       if (client) {
         const channels = await prisma.chatChannel.findMany({
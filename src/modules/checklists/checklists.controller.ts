@@ -0,0 +1,345 @@
+import { Response } from "express";
+import { prisma } from "../../config/prisma";
+import { AuthedRequest } from "../../middleware/auth";
+import { success, fail } from "../../utils/response";
+import { hasPermission } from "../../services/permission.service";
+import { getApiKeyClientScope } from "../../services/apiKey.service";
+import { getTaskAccess } from "../../services/taskWatcher.service";
+import {
+  MAX_CHECKLIST_DEPTH,
+  buildChecklistTree,
+  getChecklistItemDepth,
+  getChecklistProgress,
+} from "../../services/checklist.service";
+
+const ASSIGNABLE_ROLES = ["WORKER", "ADMIN", "SUPER_ADMIN"];
+
+const itemInclude = {
+  assignedTo: { select: { id: true, name: true, email: true } },
+};
+
+type TaskRef = { id: string; title: string; clientId: string | null; assignedToId: string | null };
+
+/**
+ * Who can add, edit and remove items: tasks.manage or the task's worker
+ */
+function canEditChecklist(user: NonNullable<AuthedRequest["user"]>, task: TaskRef) {
+  const scopeClientId = getApiKeyClientScope(user);
+  if (scopeClientId && task.clientId !== scopeClientId) return false;
+
+  return hasPermission(user, "tasks.manage") || task.assignedToId === user.id;
+}
+
+async function findTask(taskId: string): Promise<TaskRef | null> {
+  return prisma.task.findUnique({
+    where: { id: taskId },
+    select: { id: true, title: true, clientId: true, assignedToId: true },
+  });
+}
+
+/**
+ * Validate an item assignee (null clears it)
+ */
+async function validateAssignee(assignedToId: unknown): Promise<string | null> {
+  if (assignedToId === null) return null;
+
+  const assignee = await prisma.user.findUnique({
+    where: { id: String(assignedToId) },
+    select: { role: true, active: true },
+  });
+
+  if (!assignee || !assignee.active || !ASSIGNABLE_ROLES.includes(assignee.role)) {
+    return "Invalid assignedToId: user not found or cannot be assigned checklist items";
+  }
+
+  return null;
+}
+
+async function notifyAssignee(
+  assignedToId: string | null | undefined,
+  actorId: string,
+  task: TaskRef,
+  itemTitle: string
+) {
+  if (!assignedToId || assignedToId === actorId) return;
+
+  await prisma.notification.create({
+    data: {
+      userId: assignedToId,
+      type: "CHECKLIST_ITEM_ASSIGNED",
+      title: "Checklist Item Assigned",
+      body: `You've been assigned "${itemTitle}" on task "${task.title}".`,
+    },
+  });
+}
+
+/**
+ * GET /api/tasks/checklist/my
+ * Checklist items assigned to me across tasks (?done=true for completed ones)
+ */
+export async function getMyChecklistItems(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    const items = await prisma.taskChecklistItem.findMany({
+      where: { assignedToId: req.user.id, done: req.query.done === "true" },
+      include: {
+        task: { select: { id: true, title: true, status: true, dueDate: true, clientId: true } },
+      },
+      orderBy: [{ dueDate: "asc" }, { createdAt: "asc" }],
+    });
+
+    return success(res, items);
+  } catch (err: any) {
+    console.error("getMyChecklistItems error:", err);
+    return fail(res, "Failed to fetch checklist items", 500);
+  }
+}
+
+/**
+ * GET /api/tasks/:taskId/checklist
+ * The task's checklist as a tree, with progress
+ */
+export async function getChecklist(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    const task = await findTask(req.params.taskId);
+    if (!task) {
+      return fail(res, "Task not found", 404);
+    }
+
+    if (!(await getTaskAccess(req.user, task)).allowed) {
+      return fail(res, "Forbidden", 403);
+    }
+
+    const [items, progress] = await Promise.all([
+      prisma.taskChecklistItem.findMany({
+        where: { taskId: task.id },
+        include: itemInclude,
+        orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+      }),
+      getChecklistProgress([task.id]),
+    ]);
+
+    return success(res, {
+      items: buildChecklistTree(items),
+      progress: progress.get(task.id),
+    });
+  } catch (err: any) {
+    console.error("getChecklist error:", err);
+    return fail(res, "Failed to fetch checklist", 500);
+  }
+}
+
+/**
+ * POST /api/tasks/:taskId/checklist
+ * Add an item (or a sub-item with parentId)
+ * tasks.manage, or the task's worker
+ */
+export async function addChecklistItem(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    const { title, parentId, assignedToId, dueDate, position } = req.body;
+
+    const task = await findTask(req.params.taskId);
+    if (!task) {
+      return fail(res, "Task not found", 404);
+    }
+
+    if (!canEditChecklist(req.user, task)) {
+      return fail(res, "Forbidden: You do not have permission to edit this checklist", 403);
+    }
+
+    if (!title || typeof title !== "string" || !title.trim()) {
+      return fail(res, "Title is required", 400);
+    }
+
+    if (parentId) {
+      const parent = await prisma.taskChecklistItem.findUnique({
+        where: { id: parentId },
+        select: { taskId: true },
+      });
+      if (!parent || parent.taskId !== task.id) {
+        return fail(res, "Invalid parentId: item not found on this task", 400);
+      }
+      if ((await getChecklistItemDepth(parentId)) >= MAX_CHECKLIST_DEPTH) {
+        return fail(res, `Checklists can be nested at most ${MAX_CHECKLIST_DEPTH} levels deep`, 400);
+      }
+    }
+
+    if (assignedToId !== undefined && assignedToId !== null) {
+      const error = await validateAssignee(assignedToId);
+      if (error) return fail(res, error, 400);
+    }
+
+    let itemPosition = Number.isInteger(position) ? position : undefined;
+    if (itemPosition === undefined) {
+      const last = await prisma.taskChecklistItem.findFirst({
+        where: { taskId: task.id, parentId: parentId || null },
+        orderBy: { position: "desc" },
+        select: { position: true },
+      });
+      itemPosition = last ? last.position + 1 : 0;
+    }
+
+    const item = await prisma.taskChecklistItem.create({
+      data: {
+        taskId: task.id,
+        parentId: parentId || null,
+        title: title.trim(),
+        position: itemPosition,
+        assignedToId: assignedToId || null,
+        dueDate: dueDate ? new Date(dueDate) : null,
+        createdById: req.user.id,
+      },
+      include: itemInclude,
+    });
+
+    await notifyAssignee(item.assignedToId, req.user.id, task, item.title);
+
+    return success(res, item, 201);
+  } catch (err: any) {
+    console.error("addChecklistItem error:", err);
+    return fail(res, "Failed to add checklist item", 500);
+  }
+}
+
+/**
+ * PATCH /api/tasks/:taskId/checklist/:itemId
+ * Edit an item or check it off ({ done }). Checking items off is logged as a TaskUpdate.
+ * tasks.manage or the task's worker; the item's assignee may only change `done`
+ */
+export async function updateChecklistItem(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    const { taskId, itemId } = req.params;
+    const { title, assignedToId, dueDate, position, done } = req.body;
+
+    const task = await findTask(taskId);
+    if (!task) {
+      return fail(res, "Task not found", 404);
+    }
+
+    const item = await prisma.taskChecklistItem.findUnique({ where: { id: itemId } });
+    if (!item || item.taskId !== task.id) {
+      return fail(res, "Checklist item not found", 404);
+    }
+
+    const canEdit = canEditChecklist(req.user, task);
+    const isItemAssignee = item.assignedToId === req.user.id;
+    const editsFields = [title, assignedToId, dueDate, position].some((v) => v !== undefined);
+
+    if (!canEdit && !(isItemAssignee && !editsFields)) {
+      return fail(res, "Forbidden: You do not have permission to edit this checklist item", 403);
+    }
+
+    const data: any = {};
+
+    if (title !== undefined) {
+      if (typeof title !== "string" || !title.trim()) {
+        return fail(res, "Title cannot be empty", 400);
+      }
+      data.title = title.trim();
+    }
+
+    if (assignedToId !== undefined) {
+      const error = await validateAssignee(assignedToId);
+      if (error) return fail(res, error, 400);
+      data.assignedToId = assignedToId;
+    }
+
+    if (dueDate !== undefined) {
+      data.dueDate = dueDate ? new Date(dueDate) : null;
+    }
+
+    if (position !== undefined) {
+      if (!Number.isInteger(position)) {
+        return fail(res, "Position must be an integer", 400);
+      }
+      data.position = position;
+    }
+
+    const toggled = done !== undefined && !!done !== item.done;
+    if (toggled) {
+      data.done = !!done;
+      data.doneAt = done ? new Date() : null;
+      data.doneById = done ? req.user.id : null;
+    }
+
+    const updated = await prisma.taskChecklistItem.update({
+      where: { id: item.id },
+      data,
+      include: itemInclude,
+    });
+
+    if (toggled) {
+      await prisma.taskUpdate.create({
+        data: {
+          taskId: task.id,
+          userId: req.user.id,
+          message: done ? `Checked off "${item.title}"` : `Unchecked "${item.title}"`,
+        },
+      });
+    }
+
+    if (data.assignedToId && data.assignedToId !== item.assignedToId) {
+      await notifyAssignee(data.assignedToId, req.user.id, task, updated.title);
+    }
+
+    const progress = await getChecklistProgress([task.id]);
+
+    return success(res, { item: updated, progress: progress.get(task.id) });
+  } catch (err: any) {
+    console.error("updateChecklistItem error:", err);
+    return fail(res, "Failed to update checklist item", 500);
+  }
+}
+
+/**
+ * DELETE /api/tasks/:taskId/checklist/:itemId
+ * Remove an item and its sub-items
+ * tasks.manage, or the task's worker
+ */
+export async function deleteChecklistItem(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    const { taskId, itemId } = req.params;
+
+    const task = await findTask(taskId);
+    if (!task) {
+      return fail(res, "Task not found", 404);
+    }
+
+    if (!canEditChecklist(req.user, task)) {
+      return fail(res, "Forbidden: You do not have permission to edit this checklist", 403);
+    }
+
+    const item = await prisma.taskChecklistItem.findUnique({ where: { id: itemId } });
+    if (!item || item.taskId !== task.id) {
+      return fail(res, "Checklist item not found", 404);
+    }
+
+    await prisma.taskChecklistItem.delete({ where: { id: item.id } });
+
+    const progress = await getChecklistProgress([task.id]);
+
+    return success(res, { message: "Checklist item deleted", progress: progress.get(task.id) });
+  } catch (err: any) {
+    console.error("deleteChecklistItem error:", err);
+    return fail(res, "Failed to delete checklist item", 500);
+  }
+}
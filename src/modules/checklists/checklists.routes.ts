@@ -0,0 +1,28 @@
+import { Router } from "express";
+import {
+  getMyChecklistItems,
+  getChecklist,
+  addChecklistItem,
+  updateChecklistItem,
+  deleteChecklistItem,
+} from "./checklists.controller";
+import { authRequired } from "../../middleware/auth";
+
+const router = Router();
+
+// GET /api/tasks/checklist/my - Checklist items assigned to me
+router.get("/checklist/my", authRequired, getMyChecklistItems);
+
+// GET /api/tasks/:taskId/checklist - Checklist tree with progress
+router.get("/:taskId/checklist", authRequired, getChecklist);
+
+// POST /api/tasks/:taskId/checklist - Add an item / sub-item
+router.post("/:taskId/checklist", authRequired, addChecklistItem);
+
+// PATCH /api/tasks/:taskId/checklist/:itemId - Edit or check off an item
+router.patch("/:taskId/checklist/:itemId", authRequired, updateChecklistItem);
+
+// DELETE /api/tasks/:taskId/checklist/:itemId - Remove an item and its sub-items
+router.delete("/:taskId/checklist/:itemId", authRequired, deleteChecklistItem);
+
+export default router;
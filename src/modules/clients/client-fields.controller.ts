@@ -0,0 +1,60 @@
+import { Response } from "express";
+import { prisma } from "../../config/prisma";
+import { AuthedRequest } from "../../middleware/auth";
+import { success, fail } from "../../utils/response";
+import { getApiKeyClientScope } from "../../services/apiKey.service";
+import {
+  CUSTOM_FIELDS_INCLUDE,
+  CustomFieldError,
+  setCustomFieldValues,
+  setLabels,
+  withCustomFields,
+} from "../../services/customField.service";
+
+/**
+ * PATCH /clients/:id/fields
+ * Set custom field values and/or replace the labels of a client
+ * Body: { customFields?: { key: value | null }, labelIds?: string[] }
+ * clients.manage
+ */
+export async function updateClientFields(req: AuthedRequest, res: Response) {
+  try {
+    const { customFields, labelIds } = req.body;
+
+    if (customFields === undefined && labelIds === undefined) {
+      return fail(res, "Provide customFields and/or labelIds", 400);
+    }
+    if (customFields !== undefined && (!customFields || typeof customFields !== "object" || Array.isArray(customFields))) {
+      return fail(res, "customFields must be an object keyed by field key", 400);
+    }
+
+    const client = await prisma.client.findUnique({ where: { id: req.params.id } });
+    if (!client) return fail(res, "Client not found", 404);
+
+    const scopeClientId = getApiKeyClientScope(req.user);
+    if (scopeClientId && client.id !== scopeClientId) return fail(res, "Forbidden", 403);
+
+    if (customFields) await setCustomFieldValues("CLIENT", client.id, customFields);
+    if (labelIds !== undefined) await setLabels("CLIENT", client.id, labelIds);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        actionType: "CLIENT_FIELDS_UPDATED",
+        entityType: "CLIENT",
+        entityId: client.id,
+        metaJson: { customFields, labelIds } as any,
+      },
+    });
+
+    const [updated] = withCustomFields(
+      await prisma.client.findMany({ where: { id: client.id }, select: { id: true, ...CUSTOM_FIELDS_INCLUDE } })
+    );
+
+    return success(res, updated);
+  } catch (err: any) {
+    if (err instanceof CustomFieldError) return fail(res, err.message, err.status);
+    console.error("updateClientFields error:", err);
+    return fail(res, "Failed to update client fields", 500);
+  }
+}
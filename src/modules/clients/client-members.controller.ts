@@ -0,0 +1,347 @@
+import { Response } from "express";
+import { ClientRole } from "@prisma/client";
+import { prisma } from "../../config/prisma";
+import { AuthedRequest } from "../../middleware/auth";
+import { success, fail } from "../../utils/response";
+import { hasPermission } from "../../services/permission.service";
+import { revokeAllUserSessions } from "../../services/session.service";
+import {
+  CLIENT_ROLES,
+  clientRoleCan,
+  getClientMembership,
+  removeClientMember,
+} from "../../services/clientAccess.service";
+import {
+  issueInvitation,
+  serializeInvitation,
+  validateInvitee,
+} from "../../services/invitation.service";
+
+/**
+ * Staff with clients.manage manage any client's team; otherwise the caller
+ * must belong to the client (with the given capability).
+ */
+async function canAccessTeam(
+  user: NonNullable<AuthedRequest["user"]>,
+  clientId: string,
+  capability: "view" | "manage_team"
+): Promise<boolean> {
+  if (hasPermission(user, "clients.manage")) {
+    return true;
+  }
+
+  const membership = await getClientMembership(user.id);
+  return (
+    !!membership &&
+    membership.clientId === clientId &&
+    clientRoleCan(membership.role, capability)
+  );
+}
+
+async function countOwners(clientId: string) {
+  return prisma.clientMember.count({ where: { clientId, role: "OWNER" } });
+}
+
+/**
+ * GET /api/clients/:id/members
+ * Client team members and pending teammate invitations
+ * clients.manage, or any member of the client
+ */
+export async function listClientMembers(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    const { id } = req.params;
+
+    if (!(await canAccessTeam(req.user, id, "view"))) {
+      return fail(res, "Forbidden", 403);
+    }
+
+    const client = await prisma.client.findUnique({
+      where: { id },
+      select: { id: true, companyName: true, linkedUserId: true },
+    });
+
+    if (!client) {
+      return fail(res, "Client not found", 404);
+    }
+
+    // Adopt a pre-membership primary contact so they show up as OWNER
+    if (client.linkedUserId) {
+      await getClientMembership(client.linkedUserId);
+    }
+
+    const [members, invitations] = await Promise.all([
+      prisma.clientMember.findMany({
+        where: { clientId: id },
+        include: {
+          user: { select: { id: true, name: true, email: true, phone: true, active: true } },
+        },
+        orderBy: [{ role: "asc" }, { createdAt: "asc" }],
+      }),
+      prisma.invitation.findMany({
+        where: { clientId: id, acceptedAt: null, revokedAt: null, expiresAt: { gt: new Date() } },
+        include: { invitedBy: { select: { id: true, name: true } } },
+        orderBy: { createdAt: "desc" },
+      }),
+    ]);
+
+    return success(res, {
+      client: { id: client.id, companyName: client.companyName },
+      members: members.map((m) => ({
+        userId: m.userId,
+        name: m.user.name,
+        email: m.user.email,
+        phone: m.user.phone,
+        active: m.user.active,
+        role: m.role,
+        isPrimaryContact: client.linkedUserId === m.userId,
+        joinedAt: m.createdAt,
+      })),
+      pendingInvitations: invitations.map(serializeInvitation),
+    });
+  } catch (err: any) {
+    console.error("listClientMembers error:", err);
+    return fail(res, "Failed to get client members", 500);
+  }
+}
+
+/**
+ * POST /api/clients/:id/members/invite
+ * Invite a teammate into the client organization with a client role
+ * clients.manage, or client OWNER
+ */
+export async function inviteClientMember(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    const { id } = req.params;
+    const { name, email, phone, clientRole = "VIEWER" } = req.body;
+
+    if (!(await canAccessTeam(req.user, id, "manage_team"))) {
+      return fail(res, "Forbidden: Only client owners can invite teammates", 403);
+    }
+
+    if (!CLIENT_ROLES.includes(clientRole)) {
+      return fail(res, `clientRole must be one of: ${CLIENT_ROLES.join(", ")}`, 400);
+    }
+
+    const client = await prisma.client.findUnique({
+      where: { id },
+      select: { id: true, companyName: true },
+    });
+
+    if (!client) {
+      return fail(res, "Client not found", 404);
+    }
+
+    const error = await validateInvitee({ name, email });
+    if (error) {
+      return fail(res, error.message, error.status);
+    }
+
+    const invitation = await issueInvitation(
+      { name, email, phone, role: "CLIENT_VIEWER", clientId: id, clientRole: clientRole as ClientRole },
+      req.user
+    );
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user.id,
+        actionType: "CLIENT_MEMBER_INVITED",
+        entityType: "CLIENT",
+        entityId: id,
+        metaJson: {
+          invitationId: invitation.id,
+          email: invitation.email,
+          clientRole,
+        },
+      },
+    });
+
+    return success(res, {
+      message: "Invitation sent",
+      invitation: serializeInvitation(invitation),
+    }, 201);
+  } catch (err: any) {
+    console.error("inviteClientMember error:", err);
+    return fail(res, "Failed to invite teammate", 500);
+  }
+}
+
+/**
+ * PATCH /api/clients/:id/members/:userId
+ * Change a teammate's client role
+ * clients.manage, or client OWNER
+ */
+export async function updateClientMember(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    const { id, userId } = req.params;
+    const { role } = req.body;
+
+    if (!(await canAccessTeam(req.user, id, "manage_team"))) {
+      return fail(res, "Forbidden: Only client owners can change teammate roles", 403);
+    }
+
+    if (!CLIENT_ROLES.includes(role)) {
+      return fail(res, `role must be one of: ${CLIENT_ROLES.join(", ")}`, 400);
+    }
+
+    const member = await prisma.clientMember.findUnique({ where: { userId } });
+
+    if (!member || member.clientId !== id) {
+      return fail(res, "Member not found", 404);
+    }
+
+    if (member.role === "OWNER" && role !== "OWNER" && (await countOwners(id)) <= 1) {
+      return fail(res, "A client must keep at least one owner", 400);
+    }
+
+    const updated = await prisma.clientMember.update({
+      where: { userId },
+      data: { role },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user.id,
+        actionType: "CLIENT_MEMBER_ROLE_CHANGED",
+        entityType: "CLIENT",
+        entityId: id,
+        metaJson: {
+          memberUserId: userId,
+          previousRole: member.role,
+          role,
+        },
+      },
+    });
+
+    return success(res, updated);
+  } catch (err: any) {
+    console.error("updateClientMember error:", err);
+    return fail(res, "Failed to update member", 500);
+  }
+}
+
+/**
+ * DELETE /api/clients/:id/members/:userId
+ * Remove a teammate. Their login is deactivated and signed out everywhere.
+ * clients.manage, or client OWNER
+ */
+export async function deleteClientMember(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    const { id, userId } = req.params;
+
+    if (!(await canAccessTeam(req.user, id, "manage_team"))) {
+      return fail(res, "Forbidden: Only client owners can remove teammates", 403);
+    }
+
+    const member = await prisma.clientMember.findUnique({
+      where: { userId },
+      include: { user: { select: { email: true, name: true } } },
+    });
+
+    if (!member || member.clientId !== id) {
+      return fail(res, "Member not found", 404);
+    }
+
+    if (member.role === "OWNER" && (await countOwners(id)) <= 1) {
+      return fail(res, "A client must keep at least one owner", 400);
+    }
+
+    await removeClientMember(id, userId);
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { active: false },
+    });
+    await revokeAllUserSessions(userId);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user.id,
+        actionType: "CLIENT_MEMBER_REMOVED",
+        entityType: "CLIENT",
+        entityId: id,
+        metaJson: {
+          memberUserId: userId,
+          email: member.user.email,
+          role: member.role,
+        },
+      },
+    });
+
+    return success(res, { message: "Member removed" });
+  } catch (err: any) {
+    console.error("deleteClientMember error:", err);
+    return fail(res, "Failed to remove member", 500);
+  }
+}
+
+/**
+ * DELETE /api/clients/:id/invitations/:invitationId
+ * Revoke a pending teammate invitation
+ * clients.manage, or client OWNER
+ */
+export async function revokeClientInvitation(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    const { id, invitationId } = req.params;
+
+    if (!(await canAccessTeam(req.user, id, "manage_team"))) {
+      return fail(res, "Forbidden", 403);
+    }
+
+    const invitation = await prisma.invitation.findUnique({ where: { id: invitationId } });
+
+    if (!invitation || invitation.clientId !== id) {
+      return fail(res, "Invitation not found", 404);
+    }
+
+    if (invitation.acceptedAt) {
+      return fail(res, "Invitation has already been accepted", 400);
+    }
+
+    const updated = await prisma.invitation.update({
+      where: { id: invitationId },
+      data: { revokedAt: invitation.revokedAt ?? new Date() },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user.id,
+        actionType: "INVITATION_REVOKED",
+        entityType: "INVITATION",
+        entityId: invitationId,
+        metaJson: {
+          email: invitation.email,
+          clientId: id,
+          clientRole: invitation.clientRole,
+        },
+      },
+    });
+
+    return success(res, {
+      message: "Invitation revoked",
+      invitation: serializeInvitation(updated),
+    });
+  } catch (err: any) {
+    console.error("revokeClientInvitation error:", err);
+    return fail(res, "Failed to revoke invitation", 500);
+  }
+}
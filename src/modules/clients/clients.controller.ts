@@ -1,19 +1,39 @@
 import { Response } from "express";
 import { prisma } from "../../config/prisma";
 import { success, fail } from "../../utils/response";
+import { hasPermission } from "../../services/permission.service";
+import { getApiKeyClientScope } from "../../services/apiKey.service";
+import { addClientMember, getClientForUser, isClientMember } from "../../services/clientAccess.service";
 import { AuthedRequest } from "../../middleware/auth";
+import {
+  CUSTOM_FIELDS_INCLUDE,
+  CustomFieldError,
+  buildCustomFieldFilters,
+  withCustomFields,
+} from "../../services/customField.service";
 
 // GET /clients
 /**
  * Lists clients based on the authenticated user's role.
+ * Filters (admins and workers): ?labels=a,b and ?field[key]=value
  */
 export async function listClients(req: AuthedRequest, res: Response) {
-  // SUPER_ADMIN and ADMIN see all clients
-  if (req.user?.role === "SUPER_ADMIN" || req.user?.role === "ADMIN") {
+  let fieldFilters;
+  try {
+    fieldFilters = await buildCustomFieldFilters("CLIENT", req.query);
+  } catch (err) {
+    if (err instanceof CustomFieldError) return fail(res, err.message, err.status);
+    throw err;
+  }
+
+  // clients.manage sees all clients
+  if (req.user && hasPermission(req.user, "clients.manage")) {
+    const scopeClientId = getApiKeyClientScope(req.user);
     const all = await prisma.client.findMany({
-      include: { tasks: true },
+      where: scopeClientId ? { id: scopeClientId, AND: fieldFilters } : { AND: fieldFilters },
+      include: { tasks: true, ...CUSTOM_FIELDS_INCLUDE },
     });
-    return success(res, all);
+    return success(res, withCustomFields(all));
   }
 
   if (req.user?.role === "WORKER") {
@@ -24,22 +44,22 @@ export async function listClients(req: AuthedRequest, res: Response) {
             assignedToId: req.user.id,
           },
         },
+        AND: fieldFilters,
       },
-      include: { tasks: true },
+      include: { tasks: true, ...CUSTOM_FIELDS_INCLUDE },
     });
-    return success(res, myClients);
+    return success(res, withCustomFields(myClients));
   }
 
   if (req.user?.role === "CLIENT_VIEWER") {
-    const client = await prisma.client.findFirst({
-      where: {
-        linkedUserId: req.user.id,
-      },
-      include: { tasks: true },
+    const own = await getClientForUser(req.user.id);
+    if (!own) return fail(res, "No client profile", 404);
+    const client = await prisma.client.findUnique({
+      where: { id: own.id },
+      include: { tasks: true, ...CUSTOM_FIELDS_INCLUDE },
     });
-    if (!client) return fail(res, "No client profile", 404);
     // Since CLIENT_VIEWER should only see their own client, we return a single object, not an array.
-    return success(res, client); 
+    return success(res, client && withCustomFields([client])[0]); 
   }
 
   return fail(res, "Forbidden", 403);
@@ -62,17 +82,26 @@ export async function createClient(req: AuthedRequest, res: Response) {
   } = req.body;
 
   try {
-    const created = await prisma.client.create({
-      data: {
-        companyName,
-        contactPerson,
-        email,
-        phone,
-        whatsapp,
-        status,
-        notes,
-        linkedUserId: linkedUserId || undefined, // Allow linking during creation
-      },
+    const created = await prisma.$transaction(async (tx) => {
+      const client = await tx.client.create({
+        data: {
+          companyName,
+          contactPerson,
+          email,
+          phone,
+          whatsapp,
+          status,
+          notes,
+          linkedUserId: linkedUserId || undefined, // Allow linking during creation
+        },
+      });
+
+      // The linked login becomes the client's first owner
+      if (linkedUserId) {
+        await addClientMember(tx, { clientId: client.id, userId: linkedUserId, role: "OWNER" });
+      }
+
+      return client;
     });
 
     return success(res, created, 201);
@@ -92,7 +121,7 @@ export async function getClient(req: AuthedRequest, res: Response) {
   try {
     const client = await prisma.client.findUnique({
       where: { id },
-      include: { tasks: true, linkedUser: true }
+      include: { tasks: true, linkedUser: true, ...CUSTOM_FIELDS_INCLUDE }
     });
 
     if (!client) {
@@ -101,11 +130,15 @@ export async function getClient(req: AuthedRequest, res: Response) {
 
     // Basic Authorization Check
     const user = req.user;
-    if (user?.role === "CLIENT_VIEWER" && client.linkedUserId !== user.id) {
+    const scopeClientId = getApiKeyClientScope(user);
+    if (scopeClientId && client.id !== scopeClientId) {
+        return fail(res, "Forbidden", 403);
+    }
+    if (user?.role === "CLIENT_VIEWER" && !(await isClientMember(client.id, user.id))) {
         return fail(res, "Forbidden", 403);
     }
     
-    return success(res, client);
+    return success(res, withCustomFields([client])[0]);
   } catch (err: any) {
     console.error("getClient error:", err);
     return fail(res, "Failed to retrieve client", 500);
@@ -170,8 +203,8 @@ export async function assignClientToWorker(req: AuthedRequest, res: Response) {
       return fail(res, "clientId and workerId are required", 400);
     }
 
-    if (req.user?.role !== "SUPER_ADMIN") {
-      return fail(res, "Forbidden: Only Super Admins can assign clients", 403);
+    if (!req.user || !hasPermission(req.user, "clients.assign")) {
+      return fail(res, "Forbidden: You do not have permission to assign clients", 403);
     }
 
     // Check if client exists
@@ -245,8 +278,7 @@ export async function assignClientToWorker(req: AuthedRequest, res: Response) {
  */
 export async function getClients(req: AuthedRequest, res: Response) {
     try {
-        // Allow both SUPER_ADMIN and ADMIN
-        if (req.user?.role !== "SUPER_ADMIN" && req.user?.role !== "ADMIN") {
+        if (!hasPermission(req.user, "clients.manage")) {
              return fail(res, "Forbidden", 403);
         }
         
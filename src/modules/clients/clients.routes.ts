@@ -1,6 +1,8 @@
 import { Router } from "express";
 import { authRequired } from "../../middleware/auth";
-import { requireRole } from "../../middleware/requireRole";
+import { requirePermission } from "../../middleware/requirePermission";
+import { blockImpersonation } from "../../middleware/blockImpersonation";
+import { blockApiKey } from "../../middleware/blockApiKey";
 import {
   createClient,
   getClient,
@@ -9,6 +11,14 @@ import {
   assignClientToWorker,
   getClients,
 } from "./clients.controller";
+import {
+  listClientMembers,
+  inviteClientMember,
+  updateClientMember,
+  deleteClientMember,
+  revokeClientInvitation,
+} from "./client-members.controller";
+import { updateClientFields } from "./client-fields.controller";
 
 const router = Router();
 
@@ -21,7 +31,7 @@ router.get("/", authRequired, listClients);
 router.get(
   "/all-for-assign", 
   authRequired, 
-  requireRole("SUPER_ADMIN", "ADMIN"), 
+  requirePermission("clients.manage"), 
   getClients
 );
 
@@ -29,7 +39,7 @@ router.get(
 router.post(
   "/assign",
   authRequired,
-  requireRole("SUPER_ADMIN", "ADMIN"),
+  requirePermission("clients.assign"),
   assignClientToWorker
 );
 
@@ -37,7 +47,7 @@ router.post(
 router.post(
   "/",
   authRequired,
-  requireRole("SUPER_ADMIN", "ADMIN"),
+  requirePermission("clients.manage"),
   createClient
 );
 
@@ -50,8 +60,35 @@ router.get("/:id", authRequired, getClient);
 router.patch(
   "/:id",
   authRequired,
-  requireRole("SUPER_ADMIN", "ADMIN"),
+  requirePermission("clients.manage"),
   updateClient
 );
 
+// PATCH /api/clients/:id/fields - Custom field values and labels
+router.patch(
+  "/:id/fields",
+  authRequired,
+  requirePermission("clients.manage"),
+  updateClientFields
+);
+
+// ============================================
+// CLIENT TEAM (clients.manage or the client's own OWNER; access checked in controller)
+// ============================================
+
+// GET /api/clients/:id/members - Team members + pending invitations
+router.get("/:id/members", authRequired, listClientMembers);
+
+// POST /api/clients/:id/members/invite - Invite a teammate with a client role
+router.post("/:id/members/invite", authRequired, blockImpersonation, blockApiKey, inviteClientMember);
+
+// PATCH /api/clients/:id/members/:userId - Change a teammate's client role
+router.patch("/:id/members/:userId", authRequired, blockImpersonation, blockApiKey, updateClientMember);
+
+// DELETE /api/clients/:id/members/:userId - Remove a teammate
+router.delete("/:id/members/:userId", authRequired, blockImpersonation, blockApiKey, deleteClientMember);
+
+// DELETE /api/clients/:id/invitations/:invitationId - Revoke a teammate invitation
+router.delete("/:id/invitations/:invitationId", authRequired, blockImpersonation, blockApiKey, revokeClientInvitation);
+
 export default router;
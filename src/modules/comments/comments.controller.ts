@@ -2,69 +2,268 @@ import { Response } from "express";
 import { prisma } from "../../config/prisma";
 import { AuthedRequest } from "../../middleware/auth";
 import { success, fail } from "../../utils/response";
+import { hasPermission } from "../../services/permission.service";
+import { getTaskAccess, notifyTaskComment } from "../../services/taskWatcher.service";
+
+const commentAuthor = { select: { id: true, name: true, role: true } };
+
+/**
+ * Task + comment (404 when the comment is not on the task or is internal
+ * and the user is a client), after the access check
+ */
+async function loadComment(req: AuthedRequest, res: Response) {
+  const { taskId, commentId } = req.params;
+
+  const task = await prisma.task.findUnique({ where: { id: taskId } });
+  if (!task) {
+    fail(res, "Task not found", 404);
+    return null;
+  }
+
+  const access = await getTaskAccess(req.user, task);
+  if (!access.allowed) {
+    fail(res, "Forbidden", 403);
+    return null;
+  }
+
+  const comment = await prisma.taskComment.findUnique({ where: { id: commentId } });
+  if (!comment || comment.taskId !== taskId || (comment.internal && access.isClient)) {
+    fail(res, "Comment not found", 404);
+    return null;
+  }
+
+  return { task, comment, access };
+}
+
+/**
+ * Deleted comments stay in their thread without their content
+ */
+function serializeComment<T extends { content: string; deletedAt: Date | null; editedAt: Date | null }>(
+  comment: T
+) {
+  return {
+    ...comment,
+    content: comment.deletedAt ? "" : comment.content,
+    deleted: !!comment.deletedAt,
+    edited: !!comment.editedAt,
+  };
+}
 
 // GET /tasks/:taskId/comments
+// Threads: top-level comments (oldest first) with their replies
 export async function listComments(req: AuthedRequest, res: Response) {
-  const { taskId } = req.params;
+  try {
+    const { taskId } = req.params;
+
+    const task = await prisma.task.findUnique({
+      where: { id: taskId },
+    });
+    if (!task) return fail(res, "Task not found", 404);
+
+    const access = await getTaskAccess(req.user, task);
+    if (!access.allowed) return fail(res, "Forbidden", 403);
 
-  const comments = await prisma.taskComment.findMany({
-    where: { taskId },
-    include: {
-      user: { select: { id: true, name: true, role: true } },
-    },
-    orderBy: { createdAt: "asc" },
-  });
+    const comments = await prisma.taskComment.findMany({
+      where: { taskId, ...(access.isClient ? { internal: false } : {}) },
+      include: {
+        user: commentAuthor,
+      },
+      orderBy: { createdAt: "asc" },
+    });
+
+    const threads = comments
+      .filter((c) => !c.parentId)
+      .map((c) => ({
+        ...serializeComment(c),
+        replies: comments.filter((r) => r.parentId === c.id).map(serializeComment),
+      }))
+      // A deleted comment without replies has nothing left to show
+      .filter((c) => !c.deleted || c.replies.length > 0);
 
-  return success(res, comments);
+    return success(res, threads);
+  } catch (err: any) {
+    console.error("listComments error:", err);
+    return fail(res, "Failed to fetch comments", 500);
+  }
 }
 
 // POST /tasks/:taskId/comments
+// Body: { content, parentId?, internal? } (internal: staff only)
 export async function addComment(req: AuthedRequest, res: Response) {
-  const { taskId } = req.params;
-  const { content } = req.body;
-
-  const task = await prisma.task.findUnique({
-    where: { id: taskId },
-  });
-  if (!task) return fail(res, "Task not found", 404);
-
-  if (req.user?.role === "SUPER_ADMIN") {
-    // allowed
-  } else if (req.user?.role === "WORKER") {
-    if (task.assignedToId !== req.user.id) {
-      return fail(res, "Forbidden", 403);
+  try {
+    const { taskId } = req.params;
+    const { content, parentId, internal } = req.body;
+
+    if (!content || typeof content !== "string" || !content.trim()) {
+      return fail(res, "Comment content is required", 400);
     }
-  } else if (req.user?.role === "CLIENT_VIEWER") {
-    const client = await prisma.client.findFirst({
-      where: { linkedUserId: req.user.id },
+
+    const task = await prisma.task.findUnique({
+      where: { id: taskId },
     });
-    if (!client || client.id !== task.clientId) {
-      return fail(res, "Forbidden", 403);
+    if (!task) return fail(res, "Task not found", 404);
+
+    const access = await getTaskAccess(req.user, task);
+    if (!access.allowed) return fail(res, "Forbidden", 403);
+
+    if (internal && access.isClient) {
+      return fail(res, "Client users cannot post internal comments", 403);
     }
-  } else {
-    return fail(res, "Forbidden", 403);
-  }
 
-  const created = await prisma.taskComment.create({
-    data: {
-      taskId,
-      userId: req.user!.id,
-      content,
-      isClientComment: req.user!.role === "CLIENT_VIEWER",
-    },
-  });
-
-  await prisma.auditLog.create({
-    data: {
-      userId: req.user!.id,
-      actionType: "TASK_COMMENT_ADDED",
-      entityType: "TASK",
-      entityId: taskId,
-      metaJson: {
+    // Replies join the thread of the top-level comment and inherit its visibility
+    let parent: { id: string; internal: boolean } | null = null;
+    if (parentId) {
+      const replyTo = await prisma.taskComment.findUnique({ where: { id: parentId } });
+      if (!replyTo || replyTo.taskId !== taskId || (replyTo.internal && access.isClient)) {
+        return fail(res, "Parent comment not found", 404);
+      }
+      if (replyTo.deletedAt) return fail(res, "Cannot reply to a deleted comment", 400);
+
+      parent = replyTo.parentId
+        ? await prisma.taskComment.findUniqueOrThrow({ where: { id: replyTo.parentId } })
+        : replyTo;
+    }
+
+    const created = await prisma.taskComment.create({
+      data: {
+        taskId,
+        userId: req.user!.id,
         content,
-      } as any,
-    },
-  });
+        isClientComment: req.user!.role === "CLIENT_VIEWER",
+        internal: !!internal || !!parent?.internal,
+        parentId: parent?.id ?? null,
+      },
+    });
 
-  return success(res, created, 201);
+    // @mentions and watchers are notified; the comment stands even if that fails
+    let mentions: Awaited<ReturnType<typeof notifyTaskComment>> = [];
+    try {
+      mentions = await notifyTaskComment(task, created, req.user!);
+    } catch (err) {
+      console.error("notifyTaskComment error:", err);
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        actionType: "TASK_COMMENT_ADDED",
+        entityType: "TASK",
+        entityId: taskId,
+        metaJson: {
+          commentId: created.id,
+          content,
+          parentId: created.parentId,
+          internal: created.internal,
+          mentionedUserIds: mentions.map((u) => u.id),
+        } as any,
+      },
+    });
+
+    return success(res, { ...created, mentions }, 201);
+  } catch (err: any) {
+    console.error("addComment error:", err);
+    return fail(res, "Failed to add comment", 500);
+  }
+}
+
+// PATCH /tasks/:taskId/comments/:commentId
+// Author edits their comment; the previous text is kept in its history
+// Body: { content }
+export async function updateComment(req: AuthedRequest, res: Response) {
+  try {
+    const { content } = req.body;
+    if (!content || typeof content !== "string" || !content.trim()) {
+      return fail(res, "Comment content is required", 400);
+    }
+
+    const loaded = await loadComment(req, res);
+    if (!loaded) return;
+    const { comment } = loaded;
+
+    if (comment.userId !== req.user!.id) return fail(res, "Only the author can edit a comment", 403);
+    if (comment.deletedAt) return fail(res, "Cannot edit a deleted comment", 400);
+    if (comment.content === content) return success(res, serializeComment(comment));
+
+    const [updated] = await prisma.$transaction([
+      prisma.taskComment.update({
+        where: { id: comment.id },
+        data: { content, editedAt: new Date() },
+        include: { user: commentAuthor },
+      }),
+      prisma.taskCommentEdit.create({
+        data: { commentId: comment.id, previousContent: comment.content, editedById: req.user!.id },
+      }),
+    ]);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        actionType: "TASK_COMMENT_EDITED",
+        entityType: "TASK",
+        entityId: comment.taskId,
+        metaJson: { commentId: comment.id, previousContent: comment.content, content } as any,
+      },
+    });
+
+    return success(res, serializeComment(updated));
+  } catch (err: any) {
+    console.error("updateComment error:", err);
+    return fail(res, "Failed to update comment", 500);
+  }
+}
+
+// DELETE /tasks/:taskId/comments/:commentId
+// Soft delete by the author or tasks.manage; replies stay in the thread
+export async function deleteComment(req: AuthedRequest, res: Response) {
+  try {
+    const loaded = await loadComment(req, res);
+    if (!loaded) return;
+    const { comment } = loaded;
+
+    if (comment.userId !== req.user!.id && !hasPermission(req.user, "tasks.manage")) {
+      return fail(res, "Forbidden: You can only delete your own comments", 403);
+    }
+    if (comment.deletedAt) return fail(res, "Comment is already deleted", 400);
+
+    await prisma.taskComment.update({
+      where: { id: comment.id },
+      data: { deletedAt: new Date(), deletedById: req.user!.id },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        actionType: "TASK_COMMENT_DELETED",
+        entityType: "TASK",
+        entityId: comment.taskId,
+        metaJson: { commentId: comment.id, authorId: comment.userId, content: comment.content } as any,
+      },
+    });
+
+    return success(res, { message: "Comment deleted" });
+  } catch (err: any) {
+    console.error("deleteComment error:", err);
+    return fail(res, "Failed to delete comment", 500);
+  }
+}
+
+// GET /tasks/:taskId/comments/:commentId/edits
+// Previous versions of a comment, newest first
+export async function getCommentEdits(req: AuthedRequest, res: Response) {
+  try {
+    const loaded = await loadComment(req, res);
+    if (!loaded) return;
+
+    if (loaded.comment.deletedAt) return success(res, []);
+
+    const edits = await prisma.taskCommentEdit.findMany({
+      where: { commentId: loaded.comment.id },
+      orderBy: { editedAt: "desc" },
+    });
+
+    return success(res, edits);
+  } catch (err: any) {
+    console.error("getCommentEdits error:", err);
+    return fail(res, "Failed to fetch comment history", 500);
+  }
 }
@@ -1,10 +1,19 @@
 import { Router } from "express";
-import { listComments, addComment } from "./comments.controller";
+import {
+  listComments,
+  addComment,
+  updateComment,
+  deleteComment,
+  getCommentEdits,
+} from "./comments.controller";
 import { authRequired } from "../../middleware/auth";
 
 const router = Router();
 
 router.get("/:taskId/comments", authRequired, listComments);
 router.post("/:taskId/comments", authRequired, addComment);
+router.patch("/:taskId/comments/:commentId", authRequired, updateComment);
+router.delete("/:taskId/comments/:commentId", authRequired, deleteComment);
+router.get("/:taskId/comments/:commentId/edits", authRequired, getCommentEdits);
 
 export default router;
@@ -2,6 +2,16 @@ import { Response } from "express";
 import { prisma } from "../../config/prisma";
 import { AuthedRequest } from "../../middleware/auth";
 import { success, fail } from "../../utils/response";
+import { getClientForUser, getClientMemberUserIds, isClientMember } from "../../services/clientAccess.service";
+import { hasPermission } from "../../services/permission.service";
+import { getApiKeyClientScope } from "../../services/apiKey.service";
+import {
+  combineChecklistProgress,
+  getChecklistProgress,
+  withChecklistProgress,
+} from "../../services/checklist.service";
+import { generateContractTasks } from "../../services/contractTasks.service";
+import { withSlaStatus } from "../../services/sla.service";
 import {
   ensureSendbirdUser,
   ensureContractChannel,
@@ -30,6 +40,11 @@ export async function createContract(req: AuthedRequest, res: Response) {
       return fail(res, "Client ID, package type, and total price are required", 400);
     }
 
+    const scopeClientId = getApiKeyClientScope(req.user);
+    if (scopeClientId && clientId !== scopeClientId) {
+      return fail(res, "Forbidden", 403);
+    }
+
     // 1. Handle Services (Convert to String to be safe)
     let servicesValue = services;
     if (Array.isArray(services)) {
@@ -87,12 +102,14 @@ export async function getAllContracts(req: AuthedRequest, res: Response) {
       return fail(res, "Unauthorized", 401);
     }
 
-    // Allow both SUPER_ADMIN and ADMIN to view all contracts
-    if (req.user.role !== "SUPER_ADMIN" && req.user.role !== "ADMIN") {
+    if (!hasPermission(req.user, "contracts.manage")) {
       return fail(res, "Forbidden", 403);
     }
 
+    const scopeClientId = getApiKeyClientScope(req.user);
+
     const contracts = await prisma.contract.findMany({
+      where: scopeClientId ? { clientId: scopeClientId } : {},
       orderBy: { createdAt: "desc" },
       include: {
         client: true,
@@ -112,7 +129,7 @@ export async function getAllContracts(req: AuthedRequest, res: Response) {
 
 /**
  * GET /api/contracts/my
- * Get contracts for the authenticated user (CLIENT_VIEWER, SUPER_ADMIN, ADMIN, or WORKER)
+ * Get contracts for the authenticated user (contracts.manage, CLIENT_VIEWER or WORKER)
  * Now includes task/worker information and questionnaire status
  */
 export async function myContracts(req: AuthedRequest, res: Response) {
@@ -121,10 +138,11 @@ export async function myContracts(req: AuthedRequest, res: Response) {
       return fail(res, "Unauthorized", 401);
     }
 
-    // SUPER_ADMIN and ADMIN see all contracts with full details
-    if (req.user.role === "SUPER_ADMIN" || req.user.role === "ADMIN") {
-      // Super admin sees all contracts with full details
+    // contracts.manage sees all contracts with full details
+    if (hasPermission(req.user, "contracts.manage")) {
+      const scopeClientId = getApiKeyClientScope(req.user);
       const contracts = await prisma.contract.findMany({
+        where: scopeClientId ? { clientId: scopeClientId } : {},
         include: {
           client: {
             select: {
@@ -162,6 +180,7 @@ export async function myContracts(req: AuthedRequest, res: Response) {
         },
         orderBy: { createdAt: "desc" },
       }) : [];
+      const progress = await getChecklistProgress(allTasks.map((t) => t.id));
 
       // Transform for frontend
       const transformedContracts = contracts.map((contract: any) => {
@@ -179,6 +198,7 @@ export async function myContracts(req: AuthedRequest, res: Response) {
             status: task.status,
             priority: task.priority,
             dueDate: task.dueDate,
+            progress: progress.get(task.id),
             assignedWorker: task.assignedTo ? {
               id: task.assignedTo.id,
               name: task.assignedTo.name,
@@ -190,6 +210,7 @@ export async function myContracts(req: AuthedRequest, res: Response) {
           activeTasks: contractTasks.filter((t: any) => t.status === "IN_PROGRESS").length,
           completedTasks: contractTasks.filter((t: any) => t.status === "DONE").length,
           hasAssignedWorker: contractTasks.some((t: any) => t.assignedTo !== null),
+          progress: combineChecklistProgress(contractTasks.map((t: any) => progress.get(t.id))),
         };
       });
 
@@ -206,9 +227,7 @@ export async function myContracts(req: AuthedRequest, res: Response) {
 
     if (req.user.role === "CLIENT_VIEWER") {
       // Client viewer sees their own contracts with full details
-      const client = await prisma.client.findFirst({
-        where: { linkedUserId: req.user.id },
-      });
+      const client = await getClientForUser(req.user.id);
 
       if (!client) {
         return success(res, {
@@ -261,6 +280,8 @@ export async function myContracts(req: AuthedRequest, res: Response) {
         orderBy: { createdAt: "desc" },
       });
 
+      const progress = await getChecklistProgress(clientTasks.map((t) => t.id));
+
       // Transform for frontend with questionnaire and task info
       const transformedContracts = contracts.map((contract: any) => {
         return {
@@ -275,6 +296,7 @@ export async function myContracts(req: AuthedRequest, res: Response) {
             status: task.status,
             priority: task.priority,
             dueDate: task.dueDate,
+            progress: progress.get(task.id),
             assignedWorker: task.assignedTo ? {
               id: task.assignedTo.id,
               name: task.assignedTo.name,
@@ -286,6 +308,7 @@ export async function myContracts(req: AuthedRequest, res: Response) {
           activeTasks: clientTasks.filter((t: any) => t.status === "IN_PROGRESS").length,
           completedTasks: clientTasks.filter((t: any) => t.status === "DONE").length,
           hasAssignedWorker: clientTasks.some((t: any) => t.assignedTo !== null),
+          progress: combineChecklistProgress(clientTasks.map((t: any) => progress.get(t.id))),
         };
       });
 
@@ -359,6 +382,7 @@ export async function myContracts(req: AuthedRequest, res: Response) {
         },
         orderBy: { createdAt: "desc" },
       });
+      const progress = await getChecklistProgress(tasks.map((t) => t.id));
 
       // Transform for frontend
       const transformedContracts = contracts.map((contract: any) => {
@@ -376,6 +400,7 @@ export async function myContracts(req: AuthedRequest, res: Response) {
             status: task.status,
             priority: task.priority,
             dueDate: task.dueDate,
+            progress: progress.get(task.id),
             assignedWorker: task.assignedTo ? {
               id: task.assignedTo.id,
               name: task.assignedTo.name,
@@ -387,6 +412,7 @@ export async function myContracts(req: AuthedRequest, res: Response) {
           activeTasks: contractTasks.filter((t: any) => t.status === "IN_PROGRESS").length,
           completedTasks: contractTasks.filter((t: any) => t.status === "DONE").length,
           hasAssignedWorker: contractTasks.some((t: any) => t.assignedTo !== null),
+          progress: combineChecklistProgress(contractTasks.map((t: any) => progress.get(t.id))),
         };
       });
 
@@ -435,11 +461,14 @@ export async function getContract(req: AuthedRequest, res: Response) {
       return fail(res, "Contract not found", 404);
     }
 
+    const scopeClientId = getApiKeyClientScope(req.user);
+    if (scopeClientId && contract.clientId !== scopeClientId) {
+      return fail(res, "Forbidden", 403);
+    }
+
     // Check authorization - ADMIN also allowed
     if (req.user.role === "CLIENT_VIEWER") {
-      const client = await prisma.client.findFirst({
-        where: { linkedUserId: req.user.id },
-      });
+      const client = await getClientForUser(req.user.id);
 
       if (!client || client.id !== contract.clientId) {
         return fail(res, "Forbidden", 403);
@@ -463,7 +492,17 @@ export async function getContract(req: AuthedRequest, res: Response) {
       }
     }
 
-    return success(res, contract);
+    // Checklist progress across the client's tasks for this contract
+    const contractTasks = await prisma.task.findMany({
+      where: { clientId: contract.clientId },
+      select: { id: true },
+    });
+    const progress = await getChecklistProgress(contractTasks.map((t) => t.id));
+
+    return success(res, {
+      ...contract,
+      progress: combineChecklistProgress(Array.from(progress.values())),
+    });
   } catch (err: any) {
     console.error("getContract error:", err);
     return fail(res, "Failed to retrieve contract", 500);
@@ -491,11 +530,14 @@ export async function getContractTasks(req: AuthedRequest, res: Response) {
       return fail(res, "Contract not found", 404);
     }
 
+    const scopeClientId = getApiKeyClientScope(req.user);
+    if (scopeClientId && contract.clientId !== scopeClientId) {
+      return fail(res, "Forbidden", 403);
+    }
+
     // Check authorization - ADMIN also allowed
     if (req.user.role === "CLIENT_VIEWER") {
-      const client = await prisma.client.findFirst({
-        where: { linkedUserId: req.user.id },
-      });
+      const client = await getClientForUser(req.user.id);
 
       if (!client || client.id !== contract.clientId) {
         return fail(res, "Forbidden", 403);
@@ -520,7 +562,7 @@ export async function getContractTasks(req: AuthedRequest, res: Response) {
 
     // Get tasks for this contract's client
     const tasks = await prisma.task.findMany({
-      where: { clientId: contract.clientId },
+      where: { clientId: contract.clientId, archivedAt: null },
       include: {
         assignedTo: {
           select: { id: true, name: true, email: true },
@@ -533,7 +575,7 @@ export async function getContractTasks(req: AuthedRequest, res: Response) {
       orderBy: { createdAt: "desc" },
     });
 
-    return success(res, tasks);
+    return success(res, withSlaStatus(await withChecklistProgress(tasks)));
   } catch (err: any) {
     console.error("getContractTasks error:", err);
     return fail(res, "Failed to retrieve contract tasks", 500);
@@ -549,8 +591,7 @@ export async function updateContractStatus(req: AuthedRequest, res: Response) {
     const { id } = req.params;
     const { status } = req.body;
 
-    // Allow both SUPER_ADMIN and ADMIN
-    if (!req.user || (req.user.role !== "SUPER_ADMIN" && req.user.role !== "ADMIN")) {
+    if (!req.user || !hasPermission(req.user, "contracts.manage")) {
       return fail(res, "Forbidden", 403);
     }
 
@@ -562,6 +603,11 @@ export async function updateContractStatus(req: AuthedRequest, res: Response) {
       return fail(res, "Contract not found", 404);
     }
 
+    const scopeClientId = getApiKeyClientScope(req.user);
+    if (scopeClientId && contract.clientId !== scopeClientId) {
+      return fail(res, "Forbidden", 403);
+    }
+
     const updated = await prisma.contract.update({
       where: { id },
       data: { status },
@@ -581,6 +627,13 @@ export async function updateContractStatus(req: AuthedRequest, res: Response) {
       },
     });
 
+    // Create the tasks defined by the contract's service templates
+    if (status === ContractStatus.READY_FOR_ASSIGNMENT) {
+      await generateContractTasks(id, req.user.id).catch((err) =>
+        console.error("generateContractTasks error:", err)
+      );
+    }
+
     return success(res, updated);
   } catch (err: any) {
     console.error("updateContractStatus error:", err);
@@ -588,6 +641,52 @@ export async function updateContractStatus(req: AuthedRequest, res: Response) {
   }
 }
 
+/**
+ * POST /api/contracts/:id/generate-tasks
+ * Create the contract's tasks from its service templates (for contracts that
+ * became ready before templates existed, or after a failed generation)
+ * contracts.manage
+ */
+export async function generateTasksForContract(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    const { id } = req.params;
+
+    const contract = await prisma.contract.findUnique({ where: { id } });
+    if (!contract) {
+      return fail(res, "Contract not found", 404);
+    }
+
+    const scopeClientId = getApiKeyClientScope(req.user);
+    if (scopeClientId && contract.clientId !== scopeClientId) {
+      return fail(res, "Forbidden", 403);
+    }
+
+    if (contract.status === ContractStatus.AWAITING_PAYMENT || contract.status === ContractStatus.AWAITING_QUESTIONNAIRE) {
+      return fail(res, "Contract is not ready for assignment yet", 400);
+    }
+
+    const result = await generateContractTasks(id, req.user.id);
+    if (!result) {
+      return fail(res, "Tasks have already been generated for this contract", 409);
+    }
+
+    if (result.tasks.length === 0) {
+      return fail(res, "None of the contract's services have task templates", 400);
+    }
+
+    return success(res, {
+      message: `${result.tasks.length} task(s) created`,
+      tasks: result.tasks,
+      broadcast: result.broadcast,
+    }, 201);
+  } catch (err: any) {
+    console.error("generateTasksForContract error:", err);
+    return fail(res, "Failed to generate contract tasks", 500);
+  }
+}
+
 /**
  * GET /api/contracts/:id/chat
  * Retrieves necessary information (Sendbird App ID, User ID, Session Token, Channel URL)
@@ -602,13 +701,7 @@ export async function getContractChatInfo(req: AuthedRequest, res: Response) {
 
     const contract = await prisma.contract.findUnique({
       where: { id },
-      include: {
-        client: {
-          include: {
-            linkedUser: true,
-          },
-        },
-      },
+      include: { client: true },
     });
 
     if (!contract) return fail(res, "Contract not found", 404);
@@ -618,9 +711,8 @@ export async function getContractChatInfo(req: AuthedRequest, res: Response) {
     // 🔒 Authorisation:
     // SUPER_ADMIN and ADMIN: always allowed
     if (role === "CLIENT_VIEWER") {
-      // Must be the linked user for this client
-      const client = contract.client;
-      if (!client?.linkedUser || client.linkedUser.id !== user.id) {
+      // Must be a member of this client
+      if (!(await isClientMember(contract.clientId, user.id, "chat"))) {
         return fail(res, "Forbidden", 403);
       }
     }
@@ -647,12 +739,15 @@ export async function getContractChatInfo(req: AuthedRequest, res: Response) {
       email: user.email,
     });
 
-    // Determine channel members: client user + all workers assigned at this client
+    // Determine channel members: client team + all workers assigned at this client
     const members: string[] = [];
 
-    // client
-    const clientUser = contract.client?.linkedUser;
-    if (clientUser) {
+    // client team
+    const clientUsers = await prisma.user.findMany({
+      where: { id: { in: await getClientMemberUserIds(contract.clientId, "chat") } },
+      select: { id: true, name: true, email: true },
+    });
+    for (const clientUser of clientUsers) {
       await ensureSendbirdUser({
         id: clientUser.id,
         name: clientUser.name,
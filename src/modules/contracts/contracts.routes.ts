@@ -5,12 +5,13 @@ import {
   getContract,
   getContractTasks,
   updateContractStatus,
+  generateTasksForContract,
   getContractChatInfo,
   sendbirdSyncUser,
   createContract, 
 } from "./contracts.controller";
 import { authRequired } from "../../middleware/auth";
-import { requireRole } from "../../middleware/requireRole";
+import { requirePermission } from "../../middleware/requirePermission";
 
 const router = Router();
 
@@ -18,12 +19,12 @@ const router = Router();
 router.post(
   "/",
   authRequired,
-  requireRole("SUPER_ADMIN", "ADMIN"),
+  requirePermission("contracts.manage"),
   createContract  
 );
 
 // GET /api/contracts - Get all contracts - UPDATED: Added ADMIN role
-router.get("/", authRequired, requireRole("SUPER_ADMIN", "ADMIN"), getAllContracts);
+router.get("/", authRequired, requirePermission("contracts.manage"), getAllContracts);
 
 // GET /api/contracts/my - Get current user's contracts
 router.get("/my", authRequired, myContracts);
@@ -41,10 +42,18 @@ router.get("/:id/chat", authRequired, getContractChatInfo);
 router.patch(
   "/:id/status",
   authRequired,
-  requireRole("SUPER_ADMIN", "ADMIN"),
+  requirePermission("contracts.manage"),
   updateContractStatus
 );
 
+// POST /api/contracts/:id/generate-tasks - Create tasks from the service templates
+router.post(
+  "/:id/generate-tasks",
+  authRequired,
+  requirePermission("contracts.manage"),
+  generateTasksForContract
+);
+
 // POST /api/contracts/sendbird-sync-user - Sync user to Sendbird
 router.post("/sendbird-sync-user", authRequired, sendbirdSyncUser);
 
@@ -0,0 +1,179 @@
+import { Response } from "express";
+import { prisma } from "../../config/prisma";
+import { AuthedRequest } from "../../middleware/auth";
+import { success, fail } from "../../utils/response";
+import {
+  CUSTOM_FIELD_TYPES,
+  CustomFieldError,
+  FIELD_KEY_PATTERN,
+  normalizeFieldOptions,
+  parseCustomFieldEntity,
+} from "../../services/customField.service";
+
+function handleError(res: Response, err: unknown, fn: string, message: string) {
+  if (err instanceof CustomFieldError) return fail(res, err.message, err.status);
+  console.error(`${fn} error:`, err);
+  return fail(res, message, 500);
+}
+
+/**
+ * GET /api/custom-fields?entity=task|client
+ * Field definitions (all entity types when entity is omitted)
+ */
+export async function listFieldDefinitions(req: AuthedRequest, res: Response) {
+  try {
+    const entityType = req.query.entity ? parseCustomFieldEntity(req.query.entity) : undefined;
+    if (entityType === null) return fail(res, "entity must be task or client", 400);
+
+    const definitions = await prisma.customFieldDefinition.findMany({
+      where: entityType ? { entityType } : {},
+      orderBy: [{ entityType: "asc" }, { sortOrder: "asc" }, { createdAt: "asc" }],
+    });
+
+    return success(res, definitions);
+  } catch (err: any) {
+    return handleError(res, err, "listFieldDefinitions", "Failed to fetch custom fields");
+  }
+}
+
+/**
+ * POST /api/custom-fields
+ * Body: { entityType: "task" | "client", key, label, type, options?, sortOrder? }
+ */
+export async function createFieldDefinition(req: AuthedRequest, res: Response) {
+  try {
+    const { key, label, type, options, sortOrder = 0 } = req.body;
+
+    const entityType = parseCustomFieldEntity(req.body.entityType);
+    if (!entityType) return fail(res, "entityType must be task or client", 400);
+
+    if (typeof key !== "string" || !FIELD_KEY_PATTERN.test(key)) {
+      return fail(res, "key must start with a letter and use only a-z, 0-9 and _ (max 40)", 400);
+    }
+    if (!label || typeof label !== "string") return fail(res, "label is required", 400);
+    if (!CUSTOM_FIELD_TYPES.includes(type)) {
+      return fail(res, `type must be one of: ${CUSTOM_FIELD_TYPES.join(", ")}`, 400);
+    }
+    if (!Number.isInteger(sortOrder)) return fail(res, "sortOrder must be an integer", 400);
+
+    const existing = await prisma.customFieldDefinition.findUnique({
+      where: { entityType_key: { entityType, key } },
+    });
+    if (existing) return fail(res, `A ${entityType.toLowerCase()} field with key "${key}" already exists`, 409);
+
+    const definition = await prisma.customFieldDefinition.create({
+      data: { entityType, key, label, type, options: normalizeFieldOptions(type, options), sortOrder },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        actionType: "CUSTOM_FIELD_CREATED",
+        entityType: "CUSTOM_FIELD",
+        entityId: definition.id,
+        metaJson: { entityType, key, type, options: definition.options } as any,
+      },
+    });
+
+    return success(res, definition, 201);
+  } catch (err: any) {
+    return handleError(res, err, "createFieldDefinition", "Failed to create custom field");
+  }
+}
+
+/**
+ * PATCH /api/custom-fields/:id
+ * Body: { label?, options?, sortOrder? }. The key and type are fixed; an
+ * option still used by a task or client cannot be removed.
+ */
+export async function updateFieldDefinition(req: AuthedRequest, res: Response) {
+  try {
+    const { label, options, sortOrder, key, type } = req.body;
+
+    const definition = await prisma.customFieldDefinition.findUnique({ where: { id: req.params.id } });
+    if (!definition) return fail(res, "Custom field not found", 404);
+
+    if ((key !== undefined && key !== definition.key) || (type !== undefined && type !== definition.type)) {
+      return fail(res, "The key and type of a field cannot be changed; create a new field instead", 400);
+    }
+    if (label !== undefined && (!label || typeof label !== "string")) {
+      return fail(res, "label must be a non-empty string", 400);
+    }
+    if (sortOrder !== undefined && !Number.isInteger(sortOrder)) {
+      return fail(res, "sortOrder must be an integer", 400);
+    }
+
+    const data: Record<string, any> = {};
+    if (label !== undefined) data.label = label;
+    if (sortOrder !== undefined) data.sortOrder = sortOrder;
+
+    if (options !== undefined) {
+      const nextOptions = normalizeFieldOptions(definition.type, options);
+      const removed = definition.options.filter((o) => !nextOptions.includes(o));
+
+      if (removed.length > 0) {
+        const inUse = await prisma.customFieldValue.count({
+          where: {
+            definitionId: definition.id,
+            OR: [{ textValue: { in: removed } }, { optionValues: { hasSome: removed } }],
+          },
+        });
+        if (inUse > 0) {
+          return fail(res, `Options still in use cannot be removed: ${removed.join(", ")}`, 409);
+        }
+      }
+
+      data.options = nextOptions;
+    }
+
+    const updated = await prisma.customFieldDefinition.update({ where: { id: definition.id }, data });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        actionType: "CUSTOM_FIELD_UPDATED",
+        entityType: "CUSTOM_FIELD",
+        entityId: definition.id,
+        metaJson: { key: definition.key, changes: data } as any,
+      },
+    });
+
+    return success(res, updated);
+  } catch (err: any) {
+    return handleError(res, err, "updateFieldDefinition", "Failed to update custom field");
+  }
+}
+
+/**
+ * DELETE /api/custom-fields/:id
+ * Removes the field and every value stored for it
+ */
+export async function deleteFieldDefinition(req: AuthedRequest, res: Response) {
+  try {
+    const definition = await prisma.customFieldDefinition.findUnique({
+      where: { id: req.params.id },
+      include: { _count: { select: { values: true } } },
+    });
+    if (!definition) return fail(res, "Custom field not found", 404);
+
+    await prisma.customFieldDefinition.delete({ where: { id: definition.id } });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        actionType: "CUSTOM_FIELD_DELETED",
+        entityType: "CUSTOM_FIELD",
+        entityId: definition.id,
+        metaJson: {
+          entityType: definition.entityType,
+          key: definition.key,
+          valuesRemoved: definition._count.values,
+        } as any,
+      },
+    });
+
+    return success(res, { message: "Custom field deleted" });
+  } catch (err: any) {
+    return handleError(res, err, "deleteFieldDefinition", "Failed to delete custom field");
+  }
+}
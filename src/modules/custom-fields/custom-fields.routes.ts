@@ -0,0 +1,46 @@
+import { Router } from "express";
+import { authRequired } from "../../middleware/auth";
+import { requirePermission } from "../../middleware/requirePermission";
+import {
+  listFieldDefinitions,
+  createFieldDefinition,
+  updateFieldDefinition,
+  deleteFieldDefinition,
+} from "./custom-fields.controller";
+import { listLabels, createLabel, updateLabel, deleteLabel } from "./labels.controller";
+
+const router = Router();
+
+// ============================================
+// LABELS (static paths, before /:id)
+// ============================================
+
+// GET /api/custom-fields/labels?entity=task|client - List labels
+router.get("/labels", authRequired, listLabels);
+
+// POST /api/custom-fields/labels - Create a colored label
+router.post("/labels", authRequired, requirePermission("fields.manage"), createLabel);
+
+// PATCH /api/custom-fields/labels/:id - Rename or recolor a label
+router.patch("/labels/:id", authRequired, requirePermission("fields.manage"), updateLabel);
+
+// DELETE /api/custom-fields/labels/:id - Delete a label
+router.delete("/labels/:id", authRequired, requirePermission("fields.manage"), deleteLabel);
+
+// ============================================
+// FIELD DEFINITIONS
+// ============================================
+
+// GET /api/custom-fields?entity=task|client - List field definitions
+router.get("/", authRequired, listFieldDefinitions);
+
+// POST /api/custom-fields - Define a field
+router.post("/", authRequired, requirePermission("fields.manage"), createFieldDefinition);
+
+// PATCH /api/custom-fields/:id - Update label, options or order
+router.patch("/:id", authRequired, requirePermission("fields.manage"), updateFieldDefinition);
+
+// DELETE /api/custom-fields/:id - Delete a field and its values
+router.delete("/:id", authRequired, requirePermission("fields.manage"), deleteFieldDefinition);
+
+export default router;
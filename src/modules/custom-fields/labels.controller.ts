@@ -0,0 +1,152 @@
+import { Response } from "express";
+import { prisma } from "../../config/prisma";
+import { AuthedRequest } from "../../middleware/auth";
+import { success, fail } from "../../utils/response";
+import { LABEL_COLOR_PATTERN, parseCustomFieldEntity } from "../../services/customField.service";
+
+/**
+ * GET /api/custom-fields/labels?entity=task|client
+ * Labels with how many tasks / clients carry them
+ */
+export async function listLabels(req: AuthedRequest, res: Response) {
+  try {
+    const entityType = req.query.entity ? parseCustomFieldEntity(req.query.entity) : undefined;
+    if (entityType === null) return fail(res, "entity must be task or client", 400);
+
+    const labels = await prisma.label.findMany({
+      where: entityType ? { entityType } : {},
+      include: { _count: { select: { tasks: true, clients: true } } },
+      orderBy: [{ entityType: "asc" }, { name: "asc" }],
+    });
+
+    return success(
+      res,
+      labels.map(({ _count, ...label }) => ({
+        ...label,
+        usageCount: label.entityType === "TASK" ? _count.tasks : _count.clients,
+      }))
+    );
+  } catch (err: any) {
+    console.error("listLabels error:", err);
+    return fail(res, "Failed to fetch labels", 500);
+  }
+}
+
+/**
+ * POST /api/custom-fields/labels
+ * Body: { entityType: "task" | "client", name, color: "#rrggbb" }
+ */
+export async function createLabel(req: AuthedRequest, res: Response) {
+  try {
+    const { name, color } = req.body;
+
+    const entityType = parseCustomFieldEntity(req.body.entityType);
+    if (!entityType) return fail(res, "entityType must be task or client", 400);
+    if (!name || typeof name !== "string" || !name.trim()) return fail(res, "name is required", 400);
+    if (typeof color !== "string" || !LABEL_COLOR_PATTERN.test(color)) {
+      return fail(res, "color must be a hex color like #1f8ceb", 400);
+    }
+
+    const existing = await prisma.label.findUnique({
+      where: { entityType_name: { entityType, name: name.trim() } },
+    });
+    if (existing) return fail(res, `A ${entityType.toLowerCase()} label named "${name.trim()}" already exists`, 409);
+
+    const label = await prisma.label.create({
+      data: { entityType, name: name.trim(), color: color.toLowerCase() },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        actionType: "LABEL_CREATED",
+        entityType: "LABEL",
+        entityId: label.id,
+        metaJson: { entityType, name: label.name, color: label.color } as any,
+      },
+    });
+
+    return success(res, label, 201);
+  } catch (err: any) {
+    console.error("createLabel error:", err);
+    return fail(res, "Failed to create label", 500);
+  }
+}
+
+/**
+ * PATCH /api/custom-fields/labels/:id
+ * Body: { name?, color? }
+ */
+export async function updateLabel(req: AuthedRequest, res: Response) {
+  try {
+    const { name, color } = req.body;
+
+    const label = await prisma.label.findUnique({ where: { id: req.params.id } });
+    if (!label) return fail(res, "Label not found", 404);
+
+    const data: Record<string, any> = {};
+
+    if (name !== undefined) {
+      if (!name || typeof name !== "string" || !name.trim()) return fail(res, "name must be a non-empty string", 400);
+
+      const clash = await prisma.label.findUnique({
+        where: { entityType_name: { entityType: label.entityType, name: name.trim() } },
+      });
+      if (clash && clash.id !== label.id) return fail(res, `A label named "${name.trim()}" already exists`, 409);
+
+      data.name = name.trim();
+    }
+
+    if (color !== undefined) {
+      if (typeof color !== "string" || !LABEL_COLOR_PATTERN.test(color)) {
+        return fail(res, "color must be a hex color like #1f8ceb", 400);
+      }
+      data.color = color.toLowerCase();
+    }
+
+    const updated = await prisma.label.update({ where: { id: label.id }, data });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        actionType: "LABEL_UPDATED",
+        entityType: "LABEL",
+        entityId: label.id,
+        metaJson: { changes: data } as any,
+      },
+    });
+
+    return success(res, updated);
+  } catch (err: any) {
+    console.error("updateLabel error:", err);
+    return fail(res, "Failed to update label", 500);
+  }
+}
+
+/**
+ * DELETE /api/custom-fields/labels/:id
+ * Removes the label from every task / client carrying it
+ */
+export async function deleteLabel(req: AuthedRequest, res: Response) {
+  try {
+    const label = await prisma.label.findUnique({ where: { id: req.params.id } });
+    if (!label) return fail(res, "Label not found", 404);
+
+    await prisma.label.delete({ where: { id: label.id } });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        actionType: "LABEL_DELETED",
+        entityType: "LABEL",
+        entityId: label.id,
+        metaJson: { entityType: label.entityType, name: label.name } as any,
+      },
+    });
+
+    return success(res, { message: "Label deleted" });
+  } catch (err: any) {
+    console.error("deleteLabel error:", err);
+    return fail(res, "Failed to delete label", 500);
+  }
+}
@@ -2,6 +2,8 @@ import { Response } from "express";
 import { prisma } from "../../config/prisma";
 import { AuthedRequest } from "../../middleware/auth";
 import { success, fail } from "../../utils/response";
+import { hasPermission } from "../../services/permission.service";
+import { sumMinutes, toHours } from "../../services/timeTracking.service";
 
 /**
  * GET /api/export/clients
@@ -9,8 +11,8 @@ import { success, fail } from "../../utils/response";
  */
 export async function exportClients(req: AuthedRequest, res: Response) {
   try {
-    if (!req.user || req.user.role !== "SUPER_ADMIN") {
-      return fail(res, "Forbidden: Only super admins can export data", 403);
+    if (!req.user || !hasPermission(req.user, "export.read")) {
+      return fail(res, "Forbidden: You do not have permission to export data", 403);
     }
 
     const clients = await prisma.client.findMany({
@@ -55,8 +57,8 @@ export async function exportClients(req: AuthedRequest, res: Response) {
  */
 export async function exportContracts(req: AuthedRequest, res: Response) {
   try {
-    if (!req.user || req.user.role !== "SUPER_ADMIN") {
-      return fail(res, "Forbidden: Only super admins can export data", 403);
+    if (!req.user || !hasPermission(req.user, "export.read")) {
+      return fail(res, "Forbidden: You do not have permission to export data", 403);
     }
 
     const contracts = await prisma.contract.findMany({
@@ -109,8 +111,8 @@ export async function exportContracts(req: AuthedRequest, res: Response) {
  */
 export async function exportTasks(req: AuthedRequest, res: Response) {
   try {
-    if (!req.user || req.user.role !== "SUPER_ADMIN") {
-      return fail(res, "Forbidden: Only super admins can export data", 403);
+    if (!req.user || !hasPermission(req.user, "export.read")) {
+      return fail(res, "Forbidden: You do not have permission to export data", 403);
     }
 
     const tasks = await prisma.task.findMany({
@@ -125,6 +127,8 @@ export async function exportTasks(req: AuthedRequest, res: Response) {
       orderBy: { createdAt: "desc" },
     });
 
+    const loggedMinutes = await sumMinutes({}, "taskId");
+
     // Transform for export
     const exportData = tasks.map((task) => ({
       id: task.id,
@@ -135,6 +139,7 @@ export async function exportTasks(req: AuthedRequest, res: Response) {
       clientName: task.client?.companyName || "",
       assignedToName: task.assignedTo?.name || "Unassigned",
       assignedToEmail: task.assignedTo?.email || "",
+      hoursLogged: toHours(loggedMinutes.get(task.id) ?? 0),
       dueDate: task.dueDate,
       createdAt: task.createdAt,
       updatedAt: task.updatedAt,
@@ -157,8 +162,8 @@ export async function exportTasks(req: AuthedRequest, res: Response) {
  */
 export async function exportUsers(req: AuthedRequest, res: Response) {
   try {
-    if (!req.user || req.user.role !== "SUPER_ADMIN") {
-      return fail(res, "Forbidden: Only super admins can export data", 403);
+    if (!req.user || !hasPermission(req.user, "export.read")) {
+      return fail(res, "Forbidden: You do not have permission to export data", 403);
     }
 
     const users = await prisma.user.findMany({
@@ -202,8 +207,8 @@ export async function exportUsers(req: AuthedRequest, res: Response) {
  */
 export async function exportPayments(req: AuthedRequest, res: Response) {
   try {
-    if (!req.user || req.user.role !== "SUPER_ADMIN") {
-      return fail(res, "Forbidden: Only super admins can export data", 403);
+    if (!req.user || !hasPermission(req.user, "export.read")) {
+      return fail(res, "Forbidden: You do not have permission to export data", 403);
     }
 
     const payments = await prisma.payment.findMany({
@@ -249,8 +254,8 @@ export async function exportPayments(req: AuthedRequest, res: Response) {
  */
 export async function exportQuestionnaires(req: AuthedRequest, res: Response) {
   try {
-    if (!req.user || req.user.role !== "SUPER_ADMIN") {
-      return fail(res, "Forbidden: Only super admins can export data", 403);
+    if (!req.user || !hasPermission(req.user, "export.read")) {
+      return fail(res, "Forbidden: You do not have permission to export data", 403);
     }
 
     const questionnaires = await prisma.questionnaire.findMany({
@@ -295,8 +300,8 @@ export async function exportQuestionnaires(req: AuthedRequest, res: Response) {
  */
 export async function exportAuditLogs(req: AuthedRequest, res: Response) {
   try {
-    if (!req.user || req.user.role !== "SUPER_ADMIN") {
-      return fail(res, "Forbidden: Only super admins can export data", 403);
+    if (!req.user || !hasPermission(req.user, "export.read")) {
+      return fail(res, "Forbidden: You do not have permission to export data", 403);
     }
 
     const logs = await prisma.auditLog.findMany({
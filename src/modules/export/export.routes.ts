@@ -9,17 +9,17 @@ import {
   exportAuditLogs,
 } from "./export.controller";
 import { authRequired } from "../../middleware/auth";
-import { requireRole } from "../../middleware/requireRole";
+import { requirePermission } from "../../middleware/requirePermission";
 
 const router = Router();
 
 // All export endpoints require SUPER_ADMIN role
-router.get("/clients", authRequired, requireRole("SUPER_ADMIN"), exportClients);
-router.get("/contracts", authRequired, requireRole("SUPER_ADMIN"), exportContracts);
-router.get("/tasks", authRequired, requireRole("SUPER_ADMIN"), exportTasks);
-router.get("/users", authRequired, requireRole("SUPER_ADMIN"), exportUsers);
-router.get("/payments", authRequired, requireRole("SUPER_ADMIN"), exportPayments);
-router.get("/questionnaires", authRequired, requireRole("SUPER_ADMIN"), exportQuestionnaires);
-router.get("/audit-logs", authRequired, requireRole("SUPER_ADMIN"), exportAuditLogs);
+router.get("/clients", authRequired, requirePermission("export.read"), exportClients);
+router.get("/contracts", authRequired, requirePermission("export.read"), exportContracts);
+router.get("/tasks", authRequired, requirePermission("export.read"), exportTasks);
+router.get("/users", authRequired, requirePermission("export.read"), exportUsers);
+router.get("/payments", authRequired, requirePermission("export.read"), exportPayments);
+router.get("/questionnaires", authRequired, requirePermission("export.read"), exportQuestionnaires);
+router.get("/audit-logs", authRequired, requirePermission("export.read"), exportAuditLogs);
 
 export default router;
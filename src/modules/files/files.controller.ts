@@ -2,7 +2,9 @@ import { Response } from "express";
 import { prisma } from "../../config/prisma";
 import { AuthedRequest } from "../../middleware/auth";
 import { success, fail } from "../../utils/response";
+import { getClientForUser } from "../../services/clientAccess.service";
 import { uploadToCloudinary, deleteFromCloudinary } from "../../services/cloudinary.service";
+import { getApiKeyClientScope } from "../../services/apiKey.service";
 import multer from "multer";
 
 // Configure multer for memory storage
@@ -39,6 +41,42 @@ export const upload = multer({
   },
 });
 
+/**
+ * Client a file entity belongs to (null for users or unknown entities)
+ */
+async function getEntityClientId(entityType: string, entityId: string): Promise<string | null> {
+  switch (entityType) {
+    case "CLIENT":
+      return entityId;
+    case "TASK": {
+      const task = await prisma.task.findUnique({ where: { id: entityId }, select: { clientId: true } });
+      return task?.clientId ?? null;
+    }
+    case "CONTRACT": {
+      const contract = await prisma.contract.findUnique({ where: { id: entityId }, select: { clientId: true } });
+      return contract?.clientId ?? null;
+    }
+    case "QUESTIONNAIRE": {
+      const questionnaire = await prisma.questionnaire.findUnique({
+        where: { id: entityId },
+        select: { contract: { select: { clientId: true } } },
+      });
+      return questionnaire?.contract.clientId ?? null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Client-scoped API keys only reach files of entities belonging to their client
+ */
+async function isOutsideKeyScope(user: AuthedRequest["user"], entityType: string, entityId: string) {
+  const scopeClientId = getApiKeyClientScope(user);
+  if (!scopeClientId) return false;
+  return (await getEntityClientId(entityType, entityId)) !== scopeClientId;
+}
+
 /**
  * POST /api/files/upload
  * Upload a file to Cloudinary
@@ -65,6 +103,10 @@ export async function uploadFile(req: AuthedRequest, res: Response) {
       return fail(res, "Invalid entity type", 400);
     }
 
+    if (await isOutsideKeyScope(req.user, entityType, entityId)) {
+      return fail(res, "Forbidden", 403);
+    }
+
     // Upload to Cloudinary
     const folder = `ambo/${entityType.toLowerCase()}/${entityId}`;
     const uploadResult = await uploadToCloudinary(req.file, folder);
@@ -124,7 +166,9 @@ export async function getEntityFiles(req: AuthedRequest, res: Response) {
     // Check authorization based on entity type
     let isAuthorized = false;
 
-    if (req.user.role === "SUPER_ADMIN") {
+    if (await isOutsideKeyScope(req.user, entityType, entityId)) {
+      isAuthorized = false;
+    } else if (req.user.role === "SUPER_ADMIN") {
       isAuthorized = true;
     } else if (entityType === "TASK") {
       // Check if user is assigned to the task or is the client
@@ -137,9 +181,7 @@ export async function getEntityFiles(req: AuthedRequest, res: Response) {
         if (task.assignedToId === req.user.id) {
           isAuthorized = true;
         } else if (req.user.role === "CLIENT_VIEWER") {
-          const client = await prisma.client.findFirst({
-            where: { linkedUserId: req.user.id },
-          });
+          const client = await getClientForUser(req.user.id);
           if (client && task.clientId === client.id) {
             isAuthorized = true;
           }
@@ -153,9 +195,7 @@ export async function getEntityFiles(req: AuthedRequest, res: Response) {
       });
 
       if (contract && req.user.role === "CLIENT_VIEWER") {
-        const client = await prisma.client.findFirst({
-          where: { linkedUserId: req.user.id },
-        });
+        const client = await getClientForUser(req.user.id);
         if (client && contract.clientId === client.id) {
           isAuthorized = true;
         }
@@ -225,7 +265,9 @@ export async function getFile(req: AuthedRequest, res: Response) {
     // Check authorization
     let isAuthorized = false;
 
-    if (req.user.role === "SUPER_ADMIN" || file.uploadedById === req.user.id) {
+    if (await isOutsideKeyScope(req.user, file.entityType, file.entityId)) {
+      isAuthorized = false;
+    } else if (req.user.role === "SUPER_ADMIN" || file.uploadedById === req.user.id) {
       isAuthorized = true;
     } else {
       // Check entity-based authorization
@@ -242,9 +284,7 @@ export async function getFile(req: AuthedRequest, res: Response) {
           include: { client: true },
         });
         if (contract) {
-          const client = await prisma.client.findFirst({
-            where: { linkedUserId: req.user.id },
-          });
+          const client = await getClientForUser(req.user.id);
           if (client && contract.clientId === client.id) {
             isAuthorized = true;
           }
@@ -288,6 +328,10 @@ export async function deleteFile(req: AuthedRequest, res: Response) {
       return fail(res, "Forbidden: Only the uploader or admin can delete this file", 403);
     }
 
+    if (await isOutsideKeyScope(req.user, file.entityType, file.entityId)) {
+      return fail(res, "Forbidden", 403);
+    }
+
     // Delete from Cloudinary
     if (file.cloudinaryPublicId) {
       try {
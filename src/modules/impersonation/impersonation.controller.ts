@@ -0,0 +1,198 @@
+import { Response } from "express";
+import { prisma } from "../../config/prisma";
+import { AuthedRequest } from "../../middleware/auth";
+import { success, fail } from "../../utils/response";
+import { getSessionContext } from "../../services/session.service";
+import {
+  IMPERSONATABLE_ROLES,
+  endImpersonation,
+  startImpersonation,
+} from "../../services/impersonation.service";
+
+/**
+ * POST /api/impersonation
+ * Start a time-limited "view as user" session for a worker or client.
+ * Returns an access token for the target user (no refresh token).
+ * SUPER_ADMIN only
+ */
+export async function createImpersonation(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    if (req.user.role !== "SUPER_ADMIN") {
+      return fail(res, "Forbidden: Only super admins can impersonate users", 403);
+    }
+
+    const { userId, reason } = req.body;
+
+    if (!userId) {
+      return fail(res, "userId is required", 400);
+    }
+
+    const target = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, name: true, email: true, role: true, active: true },
+    });
+
+    if (!target) {
+      return fail(res, "User not found", 404);
+    }
+
+    if (!IMPERSONATABLE_ROLES.includes(target.role)) {
+      return fail(res, `Only ${IMPERSONATABLE_ROLES.join(", ")} users can be impersonated`, 400);
+    }
+
+    if (!target.active) {
+      return fail(res, "Cannot impersonate a deactivated user", 400);
+    }
+
+    const { token, expiresAt, impersonation } = await startImpersonation(
+      req.user,
+      target,
+      getSessionContext(req),
+      reason
+    );
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user.id,
+        actionType: "IMPERSONATION_STARTED",
+        entityType: "USER",
+        entityId: target.id,
+        metaJson: {
+          impersonationId: impersonation.id,
+          targetEmail: target.email,
+          targetRole: target.role,
+          reason: reason || null,
+          expiresAt: expiresAt.toISOString(),
+        },
+      },
+    });
+
+    return success(res, {
+      token,
+      expiresAt,
+      impersonationId: impersonation.id,
+      user: {
+        id: target.id,
+        name: target.name,
+        email: target.email,
+        role: target.role,
+      },
+    }, 201);
+  } catch (err: any) {
+    console.error("createImpersonation error:", err);
+    return fail(res, "Failed to start impersonation", 500);
+  }
+}
+
+/**
+ * POST /api/impersonation/end
+ * End an impersonation. Call with the impersonation token itself, or as the
+ * SUPER_ADMIN with { impersonationId }.
+ */
+export async function stopImpersonation(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    let impersonationId: string | undefined;
+    let adminId: string;
+
+    if (req.user.impersonator) {
+      impersonationId = req.user.impersonator.impersonationId;
+      adminId = req.user.impersonator.id;
+    } else {
+      if (req.user.role !== "SUPER_ADMIN") {
+        return fail(res, "Forbidden", 403);
+      }
+
+      impersonationId = req.body.impersonationId;
+      adminId = req.user.id;
+
+      if (!impersonationId) {
+        return fail(res, "impersonationId is required", 400);
+      }
+
+      const existing = await prisma.impersonationSession.findUnique({
+        where: { id: impersonationId },
+        select: { id: true },
+      });
+
+      if (!existing) {
+        return fail(res, "Impersonation session not found", 404);
+      }
+    }
+
+    const result = await endImpersonation(impersonationId);
+
+    if (result.count > 0) {
+      await prisma.auditLog.create({
+        data: {
+          userId: adminId,
+          actionType: "IMPERSONATION_ENDED",
+          entityType: "IMPERSONATION",
+          entityId: impersonationId,
+          metaJson: {},
+        },
+      });
+    }
+
+    return success(res, { message: "Impersonation ended" });
+  } catch (err: any) {
+    console.error("stopImpersonation error:", err);
+    return fail(res, "Failed to end impersonation", 500);
+  }
+}
+
+/**
+ * GET /api/impersonation
+ * Recent impersonation sessions (?active=true for live ones only)
+ * SUPER_ADMIN only
+ */
+export async function listImpersonations(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    if (req.user.role !== "SUPER_ADMIN") {
+      return fail(res, "Forbidden", 403);
+    }
+
+    const activeOnly = req.query.active === "true";
+
+    const sessions = await prisma.impersonationSession.findMany({
+      where: activeOnly ? { endedAt: null, expiresAt: { gt: new Date() } } : {},
+      include: {
+        admin: { select: { id: true, name: true, email: true } },
+        targetUser: { select: { id: true, name: true, email: true, role: true } },
+      },
+      orderBy: { createdAt: "desc" },
+      take: 100,
+    });
+
+    const now = new Date();
+
+    return success(res, {
+      sessions: sessions.map((s) => ({
+        id: s.id,
+        admin: s.admin,
+        targetUser: s.targetUser,
+        reason: s.reason,
+        ipAddress: s.ipAddress,
+        requestCount: s.requestCount,
+        createdAt: s.createdAt,
+        expiresAt: s.expiresAt,
+        endedAt: s.endedAt,
+        active: !s.endedAt && s.expiresAt > now,
+      })),
+    });
+  } catch (err: any) {
+    console.error("listImpersonations error:", err);
+    return fail(res, "Failed to get impersonation sessions", 500);
+  }
+}
@@ -0,0 +1,27 @@
+import { Router } from "express";
+import { authRequired } from "../../middleware/auth";
+import { requireRole } from "../../middleware/requireRole";
+import { blockImpersonation } from "../../middleware/blockImpersonation";
+import { blockApiKey } from "../../middleware/blockApiKey";
+import {
+  createImpersonation,
+  stopImpersonation,
+  listImpersonations,
+} from "./impersonation.controller";
+
+const router = Router();
+
+// ============================================
+// IMPERSONATION ("view as user")
+// ============================================
+
+// POST /api/impersonation/end - End an impersonation (impersonation token or SUPER_ADMIN)
+router.post("/end", authRequired, stopImpersonation);
+
+// GET /api/impersonation - Recent impersonation sessions
+router.get("/", authRequired, blockImpersonation, blockApiKey, requireRole("SUPER_ADMIN"), listImpersonations);
+
+// POST /api/impersonation - Start impersonating a worker or client
+router.post("/", authRequired, blockImpersonation, blockApiKey, requireRole("SUPER_ADMIN"), createImpersonation);
+
+export default router;
@@ -0,0 +1,401 @@
+import { Request, Response } from "express";
+import { Prisma, Role } from "@prisma/client";
+import { prisma } from "../../config/prisma";
+import { AuthedRequest } from "../../middleware/auth";
+import { success, fail } from "../../utils/response";
+import { hasPermission } from "../../services/permission.service";
+import { hashPassword } from "../../utils/hash";
+import {
+  canInviteRole,
+  findPendingInvitation,
+  getInvitationState,
+  issueInvitation,
+  reissueInvitation,
+  serializeInvitation,
+  validateNewInvitation,
+} from "../../services/invitation.service";
+import { addClientMember } from "../../services/clientAccess.service";
+
+// ============================================
+// ADMIN: MANAGE INVITATIONS
+// ============================================
+
+/**
+ * POST /api/invitations
+ * Invite a new team member by name, email and role. They set their own password.
+ * ADMIN (WORKER only), SUPER_ADMIN (ADMIN, WORKER)
+ */
+export async function createInvitation(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    if (!hasPermission(req.user, "invitations.manage")) {
+      return fail(res, "Forbidden", 403);
+    }
+
+    const { name, email, phone, role } = req.body;
+
+    const error = await validateNewInvitation({ name, email, role }, req.user);
+    if (error) {
+      return fail(res, error.message, error.status);
+    }
+
+    const invitation = await issueInvitation({ name, email, phone, role }, req.user);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user.id,
+        actionType: "INVITATION_SENT",
+        entityType: "INVITATION",
+        entityId: invitation.id,
+        metaJson: {
+          email: invitation.email,
+          name: invitation.name,
+          role: invitation.role,
+        },
+      },
+    });
+
+    return success(res, {
+      message: "Invitation sent",
+      invitation: serializeInvitation(invitation),
+    }, 201);
+  } catch (err: any) {
+    console.error("createInvitation error:", err);
+    return fail(res, "Failed to send invitation", 500);
+  }
+}
+
+/**
+ * GET /api/invitations
+ * List invitations. Defaults to pending; ?state=ALL|PENDING|ACCEPTED|REVOKED|EXPIRED
+ * Without admins.manage only WORKER invitations are listed
+ */
+export async function listInvitations(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    if (!hasPermission(req.user, "invitations.manage")) {
+      return fail(res, "Forbidden", 403);
+    }
+
+    const state = String(req.query.state || "PENDING").toUpperCase();
+    const now = new Date();
+
+    const where: Prisma.InvitationWhereInput = {};
+
+    if (!hasPermission(req.user, "admins.manage")) {
+      where.role = "WORKER";
+    }
+
+    if (state === "PENDING") {
+      Object.assign(where, { acceptedAt: null, revokedAt: null, expiresAt: { gt: now } });
+    } else if (state === "ACCEPTED") {
+      where.acceptedAt = { not: null };
+    } else if (state === "REVOKED") {
+      Object.assign(where, { acceptedAt: null, revokedAt: { not: null } });
+    } else if (state === "EXPIRED") {
+      Object.assign(where, { acceptedAt: null, revokedAt: null, expiresAt: { lte: now } });
+    }
+
+    const invitations = await prisma.invitation.findMany({
+      where,
+      include: { invitedBy: { select: { id: true, name: true, email: true } } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return success(res, {
+      invitations: invitations.map(serializeInvitation),
+      count: invitations.length,
+    });
+  } catch (err: any) {
+    console.error("listInvitations error:", err);
+    return fail(res, "Failed to get invitations", 500);
+  }
+}
+
+/**
+ * POST /api/invitations/:id/resend
+ * Re-send an invitation with a fresh link and expiry (the old link stops working)
+ * ADMIN (WORKER invites), SUPER_ADMIN
+ */
+export async function resendInvitation(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    if (!hasPermission(req.user, "invitations.manage")) {
+      return fail(res, "Forbidden", 403);
+    }
+
+    const { id } = req.params;
+
+    const invitation = await prisma.invitation.findUnique({ where: { id } });
+
+    if (!invitation) {
+      return fail(res, "Invitation not found", 404);
+    }
+
+    if (!canInviteRole(req.user, invitation.role)) {
+      return fail(res, "Forbidden", 403);
+    }
+
+    const state = getInvitationState(invitation);
+    if (state === "ACCEPTED" || state === "REVOKED") {
+      return fail(res, `Invitation has already been ${state.toLowerCase()}`, 400);
+    }
+
+    const updated = await reissueInvitation(invitation.id, req.user.name);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user.id,
+        actionType: "INVITATION_RESENT",
+        entityType: "INVITATION",
+        entityId: invitation.id,
+        metaJson: {
+          email: invitation.email,
+          sendCount: updated.sendCount,
+        },
+      },
+    });
+
+    return success(res, {
+      message: "Invitation resent",
+      invitation: serializeInvitation(updated),
+    });
+  } catch (err: any) {
+    console.error("resendInvitation error:", err);
+    return fail(res, "Failed to resend invitation", 500);
+  }
+}
+
+/**
+ * DELETE /api/invitations/:id
+ * Revoke a pending invitation
+ * ADMIN (WORKER invites), SUPER_ADMIN
+ */
+export async function revokeInvitation(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    if (!hasPermission(req.user, "invitations.manage")) {
+      return fail(res, "Forbidden", 403);
+    }
+
+    const { id } = req.params;
+
+    const invitation = await prisma.invitation.findUnique({ where: { id } });
+
+    if (!invitation) {
+      return fail(res, "Invitation not found", 404);
+    }
+
+    if (!canInviteRole(req.user, invitation.role)) {
+      return fail(res, "Forbidden", 403);
+    }
+
+    if (invitation.acceptedAt) {
+      return fail(res, "Invitation has already been accepted", 400);
+    }
+
+    const updated = await prisma.invitation.update({
+      where: { id },
+      data: { revokedAt: invitation.revokedAt ?? new Date() },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user.id,
+        actionType: "INVITATION_REVOKED",
+        entityType: "INVITATION",
+        entityId: invitation.id,
+        metaJson: {
+          email: invitation.email,
+          role: invitation.role,
+        },
+      },
+    });
+
+    return success(res, {
+      message: "Invitation revoked",
+      invitation: serializeInvitation(updated),
+    });
+  } catch (err: any) {
+    console.error("revokeInvitation error:", err);
+    return fail(res, "Failed to revoke invitation", 500);
+  }
+}
+
+// ============================================
+// PUBLIC: ACCEPT INVITATION
+// ============================================
+
+/**
+ * POST /api/invitations/verify
+ * Check an invite link before showing the set-password form (public)
+ */
+export async function verifyInvitation(req: Request, res: Response) {
+  try {
+    const { token } = req.body;
+
+    if (!token) {
+      return fail(res, "Token is required", 400);
+    }
+
+    const invitation = await findPendingInvitation(token);
+
+    if (!invitation) {
+      return fail(res, "Invalid or expired invitation", 400);
+    }
+
+    return success(res, {
+      valid: true,
+      email: invitation.email,
+      name: invitation.name,
+      role: invitation.role,
+      clientRole: invitation.clientRole,
+      companyName: invitation.client?.companyName ?? null,
+      invitedBy: invitation.invitedBy.name,
+      expiresAt: invitation.expiresAt,
+    });
+  } catch (err: any) {
+    console.error("verifyInvitation error:", err);
+    return fail(res, "Failed to verify invitation", 500);
+  }
+}
+
+/**
+ * POST /api/invitations/accept
+ * Accept an invitation by choosing a password. Creates the user account. (public)
+ */
+export async function acceptInvitation(req: Request, res: Response) {
+  try {
+    const { token, password, name, phone } = req.body;
+
+    if (!token || !password) {
+      return fail(res, "Token and password are required", 400);
+    }
+
+    if (password.length < 8) {
+      return fail(res, "Password must be at least 8 characters", 400);
+    }
+
+    const invitation = await findPendingInvitation(token);
+
+    if (!invitation) {
+      return fail(res, "Invalid or expired invitation", 400);
+    }
+
+    const existing = await prisma.user.findUnique({
+      where: { email: invitation.email },
+      select: { id: true },
+    });
+
+    if (existing) {
+      return fail(res, "An account with this email already exists", 409);
+    }
+
+    const passwordHash = await hashPassword(password);
+
+    const user = await prisma.$transaction(async (tx) => {
+      // Claim the invitation first, so a concurrent accept or a revoke wins cleanly
+      const now = new Date();
+      const claimed = await tx.invitation.updateMany({
+        where: { id: invitation.id, acceptedAt: null, revokedAt: null, expiresAt: { gt: now } },
+        data: { acceptedAt: now },
+      });
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      const created = await tx.user.create({
+        data: {
+          name: (name || invitation.name).trim(),
+          email: invitation.email,
+          phone: phone || invitation.phone,
+          passwordHash,
+          role: invitation.role as Role,
+          active: true,
+          // They received the link at this address
+          emailVerifiedAt: now,
+        },
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          phone: true,
+          role: true,
+          active: true,
+          createdAt: true,
+        },
+      });
+
+      await tx.invitation.update({
+        where: { id: invitation.id },
+        data: { acceptedUserId: created.id },
+      });
+
+      // Client teammate invitation: join the client organization
+      if (invitation.clientId) {
+        await addClientMember(tx, {
+          clientId: invitation.clientId,
+          userId: created.id,
+          role: invitation.clientRole || "VIEWER",
+          invitedById: invitation.invitedById,
+        });
+      }
+
+      await tx.auditLog.create({
+        data: {
+          userId: created.id,
+          actionType: "INVITATION_ACCEPTED",
+          entityType: "INVITATION",
+          entityId: invitation.id,
+          metaJson: {
+            email: created.email,
+            role: created.role,
+            invitedById: invitation.invitedById,
+            invitedByName: invitation.invitedBy.name,
+            clientId: invitation.clientId,
+            clientRole: invitation.clientRole,
+          },
+        },
+      });
+
+      await tx.notification.create({
+        data: {
+          userId: invitation.invitedById,
+          type: "INVITATION_ACCEPTED",
+          title: "Invitation accepted",
+          body: `${created.name} accepted your invitation and joined as ${invitation.clientRole ? `${invitation.clientRole} (client team)` : created.role}.`,
+        },
+      });
+
+      return created;
+    });
+
+    if (!user) {
+      return fail(res, "Invalid or expired invitation", 400);
+    }
+
+    return success(res, {
+      message: "Invitation accepted. You can now log in.",
+      user,
+    }, 201);
+  } catch (err: any) {
+    // Another invitation for the same address was accepted at the same time
+    if (err.code === "P2002") {
+      return fail(res, "An account with this email already exists", 409);
+    }
+    console.error("acceptInvitation error:", err);
+    return fail(res, "Failed to accept invitation", 500);
+  }
+}
@@ -0,0 +1,70 @@
+import { Router } from "express";
+import { authRequired } from "../../middleware/auth";
+import { requirePermission } from "../../middleware/requirePermission";
+import { bruteForceGuard } from "../../middleware/bruteForce";
+import {
+  createInvitation,
+  listInvitations,
+  resendInvitation,
+  revokeInvitation,
+  verifyInvitation,
+  acceptInvitation,
+} from "./invitations.controller";
+
+const router = Router();
+
+// Invite tokens are guessable only by brute force - throttle per IP
+const inviteTokenGuard = bruteForceGuard({
+  scope: "invitation_token",
+  maxAttempts: 5,
+  ipMultiplier: 2,
+});
+
+// ============================================
+// PUBLIC (invite link)
+// IMPORTANT: These specific routes MUST come before "/:id" routes
+// ============================================
+
+// POST /api/invitations/verify - Check an invite token
+router.post("/verify", inviteTokenGuard, verifyInvitation);
+
+// POST /api/invitations/accept - Set password and create the account
+router.post("/accept", inviteTokenGuard, acceptInvitation);
+
+// ============================================
+// ADMIN (ADMIN + SUPER_ADMIN)
+// ============================================
+
+// POST /api/invitations - Invite a new team member
+router.post(
+  "/",
+  authRequired,
+  requirePermission("invitations.manage"),
+  createInvitation
+);
+
+// GET /api/invitations - List invitations (?state=PENDING|ACCEPTED|REVOKED|EXPIRED|ALL)
+router.get(
+  "/",
+  authRequired,
+  requirePermission("invitations.manage"),
+  listInvitations
+);
+
+// POST /api/invitations/:id/resend - Resend with a fresh link
+router.post(
+  "/:id/resend",
+  authRequired,
+  requirePermission("invitations.manage"),
+  resendInvitation
+);
+
+// DELETE /api/invitations/:id - Revoke a pending invitation
+router.delete(
+  "/:id",
+  authRequired,
+  requirePermission("invitations.manage"),
+  revokeInvitation
+);
+
+export default router;
@@ -2,7 +2,20 @@ import { Response } from "express";
 import { prisma } from "../../config/prisma";
 import { AuthedRequest } from "../../middleware/auth";
 import { success, fail } from "../../utils/response";
+import { hasPermission } from "../../services/permission.service";
+import { broadcastTask, getBroadcastBlocker } from "../../services/jobBroadcast.service";
+import {
+  TaskTransitionError,
+  assertTaskTransition,
+  recordTaskTransition,
+} from "../../services/taskStatus.service";
 import { Prisma } from "@prisma/client";
+import {
+  CUSTOM_FIELDS_INCLUDE,
+  CustomFieldError,
+  buildCustomFieldFilters,
+  withCustomFields,
+} from "../../services/customField.service";
 
 // ============================================
 // WORKER ENDPOINTS
@@ -495,8 +508,8 @@ export async function pushToBroadcast(req: AuthedRequest, res: Response) {
       return fail(res, "Unauthorized", 401);
     }
 
-    if (!["ADMIN", "SUPER_ADMIN"].includes(req.user.role)) {
-      return fail(res, "Forbidden: Only admins can broadcast jobs", 403);
+    if (!hasPermission(req.user, "jobs.broadcast")) {
+      return fail(res, "Forbidden: You do not have permission to broadcast jobs", 403);
     }
 
     const { taskId } = req.params;
@@ -525,65 +538,16 @@ export async function pushToBroadcast(req: AuthedRequest, res: Response) {
     }
 
     // Check if task can be broadcasted
-    if (task.jobStatus !== "DRAFT") {
-      return fail(res, `Cannot broadcast task with status: ${task.jobStatus}`, 400);
-    }
-
-    if (task.assignedToId) {
-      return fail(res, "Cannot broadcast a task that is already assigned", 400);
+    const blocker = getBroadcastBlocker(task);
+    if (blocker) {
+      return fail(res, blocker, 400);
     }
 
     // Update task to OPEN - NOW INCLUDES postedById
-    const updatedTask = await prisma.$transaction(async (tx) => {
-      const updated = await tx.task.update({
-        where: { id: taskId },
-        data: {
-          jobStatus: "OPEN",
-          isPublic: true,
-          paymentAmount: amount,
-          deadline: deadline ? new Date(deadline) : null,
-          postedAt: new Date(),
-          postedById: req.user!.id,  // NEW: Track who broadcasted
-        },
-        include: {
-          client: { select: { companyName: true } },
-        },
-      });
-
-      // Notify all active workers about new job
-      const workers = await tx.user.findMany({
-        where: { role: "WORKER", active: true },
-        select: { id: true },
-      });
-
-      for (const worker of workers) {
-        await tx.notification.create({
-          data: {
-            userId: worker.id,
-            type: "NEW_JOB_AVAILABLE",
-            title: "New Job Available",
-            body: `"${task.title}" is now available. Payment: ₦${amount.toLocaleString()}`,
-          },
-        });
-      }
-
-      // Audit log
-      await tx.auditLog.create({
-        data: {
-          userId: req.user!.id,
-          actionType: "JOB_BROADCASTED",
-          entityType: "TASK",
-          entityId: taskId,
-          metaJson: {
-            jobTitle: task.title,
-            paymentAmount: amount,
-            deadline: deadline || null,
-            postedById: req.user!.id,
-          },
-        },
-      });
-
-      return updated;
+    const updatedTask = await broadcastTask(task, {
+      paymentAmount: amount,
+      deadline: deadline ? new Date(deadline) : null,
+      postedById: req.user.id,
     });
 
     return success(res, {
@@ -610,8 +574,8 @@ export async function getJobsWithPendingApplications(req: AuthedRequest, res: Re
       return fail(res, "Unauthorized", 401);
     }
 
-    if (!["ADMIN", "SUPER_ADMIN"].includes(req.user.role)) {
-      return fail(res, "Forbidden: Only admins can view pending applications", 403);
+    if (!hasPermission(req.user, "jobs.broadcast")) {
+      return fail(res, "Forbidden: You do not have permission to view pending applications", 403);
     }
 
     const jobs = await prisma.task.findMany({
@@ -690,8 +654,8 @@ export async function getJobApplications(req: AuthedRequest, res: Response) {
       return fail(res, "Unauthorized", 401);
     }
 
-    if (!["ADMIN", "SUPER_ADMIN"].includes(req.user.role)) {
-      return fail(res, "Forbidden: Only admins can view job applications", 403);
+    if (!hasPermission(req.user, "jobs.broadcast")) {
+      return fail(res, "Forbidden: You do not have permission to view job applications", 403);
     }
 
     const { taskId } = req.params;
@@ -791,8 +755,8 @@ export async function approveApplication(req: AuthedRequest, res: Response) {
       return fail(res, "Unauthorized", 401);
     }
 
-    if (!["ADMIN", "SUPER_ADMIN"].includes(req.user.role)) {
-      return fail(res, "Forbidden: Only admins can approve applications", 403);
+    if (!hasPermission(req.user, "jobs.approve")) {
+      return fail(res, "Forbidden: You do not have permission to approve applications", 403);
     }
 
     const { applicationId } = req.params;
@@ -824,6 +788,14 @@ export async function approveApplication(req: AuthedRequest, res: Response) {
       return fail(res, `Cannot approve application for job with status: ${application.task.jobStatus}`, 400);
     }
 
+    // The task goes back to NOT_STARTED for the new worker to accept
+    const checked = await assertTaskTransition(application.task, "ASSIGN_APPLICANT", req.user, {
+      applicationId,
+      approvedWorkerId: application.workerId,
+      approvedWorkerName: application.worker.name,
+      jobTitle: application.task.title,
+    });
+
     // Approve application and assign worker in transaction
     const result = await prisma.$transaction(async (tx) => {
       // Approve this application
@@ -851,14 +823,13 @@ export async function approveApplication(req: AuthedRequest, res: Response) {
         },
       });
 
-      // Assign worker to task and update job status
-      await tx.task.update({
-        where: { id: application.taskId },
+      // Assign worker to task and update job status (logged and audited by the transition)
+      await recordTaskTransition(tx, checked, {
+        message: `Assigned to ${application.worker.name} from the job board`,
         data: {
           assignedToId: application.workerId,
           jobStatus: "ASSIGNED",
           isPublic: false,  // Remove from job board
-          status: "NOT_STARTED",  // Ready for worker to accept
         },
       });
 
@@ -893,22 +864,6 @@ export async function approveApplication(req: AuthedRequest, res: Response) {
         });
       }
 
-      // Audit log
-      await tx.auditLog.create({
-        data: {
-          userId: req.user!.id,
-          actionType: "JOB_APPLICATION_APPROVED",
-          entityType: "TASK",
-          entityId: application.taskId,
-          metaJson: {
-            applicationId,
-            approvedWorkerId: application.workerId,
-            approvedWorkerName: application.worker.name,
-            jobTitle: application.task.title,
-          },
-        },
-      });
-
       return approvedApp;
     });
 
@@ -917,6 +872,7 @@ export async function approveApplication(req: AuthedRequest, res: Response) {
       application: result,
     });
   } catch (err: any) {
+    if (err instanceof TaskTransitionError) return fail(res, err.message, err.status);
     console.error("approveApplication error:", err);
     return fail(res, "Failed to approve application", 500);
   }
@@ -933,8 +889,8 @@ export async function rejectApplication(req: AuthedRequest, res: Response) {
       return fail(res, "Unauthorized", 401);
     }
 
-    if (!["ADMIN", "SUPER_ADMIN"].includes(req.user.role)) {
-      return fail(res, "Forbidden: Only admins can reject applications", 403);
+    if (!hasPermission(req.user, "jobs.approve")) {
+      return fail(res, "Forbidden: You do not have permission to reject applications", 403);
     }
 
     const { applicationId } = req.params;
@@ -1036,8 +992,8 @@ export async function reopenJob(req: AuthedRequest, res: Response) {
       return fail(res, "Unauthorized", 401);
     }
 
-    if (!["ADMIN", "SUPER_ADMIN"].includes(req.user.role)) {
-      return fail(res, "Forbidden: Only admins can reopen jobs", 403);
+    if (!hasPermission(req.user, "jobs.broadcast")) {
+      return fail(res, "Forbidden: You do not have permission to reopen jobs", 403);
     }
 
     const { taskId } = req.params;
@@ -1065,14 +1021,18 @@ export async function reopenJob(req: AuthedRequest, res: Response) {
     const hasOtherPendingApplications = task.applications.length > 0;
     const newStatus = hasOtherPendingApplications ? "REVIEWING" : "OPEN";
 
+    const checked = await assertTaskTransition(task, "REOPEN_JOB", req.user, {
+      jobTitle: task.title,
+      jobStatus: newStatus,
+    });
+
     const updatedTask = await prisma.$transaction(async (tx) => {
-      const updated = await tx.task.update({
-        where: { id: taskId },
+      // Unassigns the worker; logged and audited by the transition
+      const updated = await recordTaskTransition(tx, checked, {
+        message: `Job reopened (${newStatus})`,
         data: {
           jobStatus: newStatus,
           isPublic: true,
-          assignedToId: null,
-          status: "NOT_STARTED",
         },
       });
 
@@ -1095,20 +1055,6 @@ export async function reopenJob(req: AuthedRequest, res: Response) {
         }
       }
 
-      // Audit log
-      await tx.auditLog.create({
-        data: {
-          userId: req.user!.id,
-          actionType: "JOB_REOPENED",
-          entityType: "TASK",
-          entityId: taskId,
-          metaJson: {
-            jobTitle: task.title,
-            newStatus,
-          },
-        },
-      });
-
       return updated;
     });
 
@@ -1117,6 +1063,7 @@ export async function reopenJob(req: AuthedRequest, res: Response) {
       task: updatedTask,
     });
   } catch (err: any) {
+    if (err instanceof TaskTransitionError) return fail(res, err.message, err.status);
     console.error("reopenJob error:", err);
     return fail(res, "Failed to reopen job", 500);
   }
@@ -1126,6 +1073,7 @@ export async function reopenJob(req: AuthedRequest, res: Response) {
  * GET /api/jobs/all
  * Get all jobs (for admin job board management)
  * ADMIN, SUPER_ADMIN only
+ * Filters: ?status, ?search, ?labels=a,b, ?field[key]=value
  */
 export async function getAllJobs(req: AuthedRequest, res: Response) {
   try {
@@ -1133,7 +1081,7 @@ export async function getAllJobs(req: AuthedRequest, res: Response) {
       return fail(res, "Unauthorized", 401);
     }
 
-    if (!["ADMIN", "SUPER_ADMIN"].includes(req.user.role)) {
+    if (!hasPermission(req.user, "jobs.broadcast")) {
       return fail(res, "Forbidden", 403);
     }
 
@@ -1152,6 +1100,8 @@ export async function getAllJobs(req: AuthedRequest, res: Response) {
       ];
     }
 
+    where.AND = await buildCustomFieldFilters("TASK", req.query);
+
     const jobs = await prisma.task.findMany({
       where,
       include: {
@@ -1172,11 +1122,12 @@ export async function getAllJobs(req: AuthedRequest, res: Response) {
             applications: { where: { status: "PENDING" } },
           },
         },
+        ...CUSTOM_FIELDS_INCLUDE,
       },
       orderBy: { createdAt: "desc" },
     });
 
-    const transformedJobs = jobs.map((job) => ({
+    const transformedJobs = withCustomFields(jobs).map((job) => ({
       id: job.id,
       title: job.title,
       description: job.description,
@@ -1193,6 +1144,8 @@ export async function getAllJobs(req: AuthedRequest, res: Response) {
       client: job.client,
       assignedTo: job.assignedTo,
       pendingApplicationCount: job._count.applications,
+      labels: job.labels,
+      customFields: job.customFields,
     }));
 
     return success(res, {
@@ -1200,6 +1153,7 @@ export async function getAllJobs(req: AuthedRequest, res: Response) {
       count: transformedJobs.length,
     });
   } catch (err: any) {
+    if (err instanceof CustomFieldError) return fail(res, err.message, err.status);
     console.error("getAllJobs error:", err);
     return fail(res, "Failed to fetch jobs", 500);
   }
@@ -1221,8 +1175,8 @@ export async function getBroadcastHistory(req: AuthedRequest, res: Response) {
     }
 
     // SUPER_ADMIN only
-    if (req.user.role !== "SUPER_ADMIN") {
-      return fail(res, "Forbidden: Only super admins can view broadcast history", 403);
+    if (!hasPermission(req.user, "jobs.history")) {
+      return fail(res, "Forbidden: You do not have permission to view broadcast history", 403);
     }
 
     const { status, postedById, startDate, endDate } = req.query;
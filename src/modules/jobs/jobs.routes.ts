@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { authRequired } from "../../middleware/auth";
 import { requireRole } from "../../middleware/requireRole";
+import { requirePermission } from "../../middleware/requirePermission";
 import {
   // Worker endpoints
   getAvailableJobs,
@@ -51,7 +52,7 @@ router.get(
 router.get(
   "/broadcast-history",
   authRequired,
-  requireRole("SUPER_ADMIN"),
+  requirePermission("jobs.history"),
   getBroadcastHistory
 );
 
@@ -63,7 +64,7 @@ router.get(
 router.get(
   "/all",
   authRequired,
-  requireRole("ADMIN", "SUPER_ADMIN"),
+  requirePermission("jobs.broadcast"),
   getAllJobs
 );
 
@@ -71,7 +72,7 @@ router.get(
 router.get(
   "/pending-review",
   authRequired,
-  requireRole("ADMIN", "SUPER_ADMIN"),
+  requirePermission("jobs.broadcast"),
   getJobsWithPendingApplications
 );
 
@@ -79,7 +80,7 @@ router.get(
 router.post(
   "/:taskId/broadcast",
   authRequired,
-  requireRole("ADMIN", "SUPER_ADMIN"),
+  requirePermission("jobs.broadcast"),
   pushToBroadcast
 );
 
@@ -87,7 +88,7 @@ router.post(
 router.post(
   "/:taskId/reopen",
   authRequired,
-  requireRole("ADMIN", "SUPER_ADMIN"),
+  requirePermission("jobs.broadcast"),
   reopenJob
 );
 
@@ -95,7 +96,7 @@ router.post(
 router.get(
   "/:taskId/applications",
   authRequired,
-  requireRole("ADMIN", "SUPER_ADMIN"),
+  requirePermission("jobs.broadcast"),
   getJobApplications
 );
 
@@ -103,7 +104,7 @@ router.get(
 router.post(
   "/applications/:applicationId/approve",
   authRequired,
-  requireRole("ADMIN", "SUPER_ADMIN"),
+  requirePermission("jobs.approve"),
   approveApplication
 );
 
@@ -111,7 +112,7 @@ router.post(
 router.post(
   "/applications/:applicationId/reject",
   authRequired,
-  requireRole("ADMIN", "SUPER_ADMIN"),
+  requirePermission("jobs.approve"),
   rejectApplication
 );
 
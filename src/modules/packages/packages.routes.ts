@@ -8,7 +8,7 @@ import {
   deletePackage,
 } from "./packages.controller";
 import { authRequired, optionalAuth } from "../../middleware/auth";
-import { requireRole } from "../../middleware/requireRole";
+import { requirePermission } from "../../middleware/requirePermission";
 
 const router = Router();
 
@@ -27,7 +27,7 @@ router.get("/", optionalAuth, getActivePackages);
 router.get(
   "/all",
   authRequired,
-  requireRole("SUPER_ADMIN"),
+  requirePermission("catalog.manage"),
   getAllPackages
 );
 
@@ -38,7 +38,7 @@ router.get("/:id", authRequired, getPackage);
 router.post(
   "/",
   authRequired,
-  requireRole("SUPER_ADMIN"),
+  requirePermission("catalog.manage"),
   createPackage
 );
 
@@ -46,7 +46,7 @@ router.post(
 router.patch(
   "/:id",
   authRequired,
-  requireRole("SUPER_ADMIN"),
+  requirePermission("catalog.manage"),
   updatePackage
 );
 
@@ -54,7 +54,7 @@ router.patch(
 router.delete(
   "/:id",
   authRequired,
-  requireRole("SUPER_ADMIN"),
+  requirePermission("catalog.manage"),
   deletePackage
 );
 
@@ -4,6 +4,7 @@ import { Request, Response } from "express";
 import { prisma } from "../../config/prisma";
 import { AuthedRequest } from "../../middleware/auth";
 import { success, fail } from "../../utils/response";
+import { getClientMembership, clientRoleCan } from "../../services/clientAccess.service";
 
 const PAYSTACK_SECRET_KEY = process.env.PAYSTACK_SECRET_KEY || "";
 const PAYSTACK_BASE_URL = "https://api.paystack.co";
@@ -111,15 +112,18 @@ export async function initializePayment(req: AuthedRequest, res: Response) {
     }
 
     // Get client information
-    const client = await prisma.client.findFirst({
-      where: { linkedUserId: req.user.id },
-      select: { id: true, companyName: true, email: true },
-    });
+    const membership = await getClientMembership(req.user.id);
 
-    if (!client) {
+    if (!membership) {
       return fail(res, "Client not found. Please contact support.", 404);
     }
 
+    if (!clientRoleCan(membership.role, "billing")) {
+      return fail(res, "Forbidden: Only client owners and billing members can make payments", 403);
+    }
+
+    const client = membership.client;
+
     // --- CALCULATE USD AMOUNT ---
     let amountUSD = 0;
     let finalServices: string[] = [];
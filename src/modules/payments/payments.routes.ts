@@ -1,5 +1,7 @@
 import { Router } from "express";
 import { authRequired } from "../../middleware/auth";
+import { blockImpersonation } from "../../middleware/blockImpersonation";
+import { requireVerifiedEmail } from "../../middleware/requireVerifiedEmail";
 import {
   initializePayment,
   initiatePayment,
@@ -10,13 +12,13 @@ import {
 const router = Router();
 
 // POST /api/payments/initialize - Initialize payment for package selection (NEW - matches frontend)
-router.post("/initialize", authRequired, initializePayment);
+router.post("/initialize", authRequired, blockImpersonation, requireVerifiedEmail, initializePayment);
 
 // POST /api/payments/initiate - Legacy payment initialization (kept for backward compatibility)
-router.post("/initiate", authRequired, initiatePayment);
+router.post("/initiate", authRequired, blockImpersonation, requireVerifiedEmail, initiatePayment);
 
 // POST /api/payments/verify - Verify payment status
-router.post("/verify", authRequired, verifyPayment);
+router.post("/verify", authRequired, blockImpersonation, verifyPayment);
 
 // POST /api/payments/webhook - Paystack webhook (no auth required)
 router.post("/webhook", paystackWebhook);
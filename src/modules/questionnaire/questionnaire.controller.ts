@@ -2,6 +2,9 @@ import { Response } from "express";
 import { prisma } from "../../config/prisma";
 import { AuthedRequest } from "../../middleware/auth";
 import { success, fail } from "../../utils/response";
+import { getClientMembership, clientRoleCan, isClientMember } from "../../services/clientAccess.service";
+import { generateContractTasks } from "../../services/contractTasks.service";
+import { getApiKeyClientScope } from "../../services/apiKey.service";
 
 /**
  * POST /api/questionnaire
@@ -34,8 +37,8 @@ export async function submitQuestionnaire(req: AuthedRequest, res: Response) {
     if (req.user?.role === "SUPER_ADMIN") {
       isAuthorized = true;
     } else if (req.user?.role === "CLIENT_VIEWER" || req.user?.role === "CLIENT_ADMIN") {
-      // Check if the user is linked to the client who owns this contract
-      if (contract.client.linkedUserId === req.user.id) {
+      // Owners/approvers of the client who owns this contract
+      if (await isClientMember(contract.clientId, req.user.id, "approve")) {
         isAuthorized = true;
       }
     }
@@ -63,6 +66,10 @@ export async function submitQuestionnaire(req: AuthedRequest, res: Response) {
               where: { id: contractId },
               data: { status: "READY_FOR_ASSIGNMENT" },
           });
+
+           await generateContractTasks(contractId, req.user!.id).catch((err) =>
+             console.error("generateContractTasks error:", err)
+           );
       }
 
       return success(res, { message: "Questionnaire updated successfully", questionnaire: updatedQuestionnaire });
@@ -84,6 +91,11 @@ export async function submitQuestionnaire(req: AuthedRequest, res: Response) {
       },
     });
 
+    // Create the tasks defined by the contract's service templates
+    await generateContractTasks(contractId, req.user!.id).catch((err) =>
+      console.error("generateContractTasks error:", err)
+    );
+
     // Notify super admins
     const superAdmins = await prisma.user.findMany({
       where: { role: "SUPER_ADMIN", active: true },
@@ -137,16 +149,19 @@ export async function submitQuestionnaireForAll(req: AuthedRequest, res: Respons
       return fail(res, "Forbidden: Only clients can submit questionnaires", 403);
     }
 
-    // Find client linked to this user
-    const client = await prisma.client.findFirst({
-      where: { linkedUserId: req.user.id },
-      include: { contracts: true },
-    });
+    // Find client this user belongs to
+    const membership = await getClientMembership(req.user.id);
 
-    if (!client) {
+    if (!membership) {
       return fail(res, "Client not found for this user", 404);
     }
 
+    if (!clientRoleCan(membership.role, "approve")) {
+      return fail(res, "Forbidden: Only client owners and approvers can submit questionnaires", 403);
+    }
+
+    const client = membership.client;
+
     // Find all contracts awaiting questionnaire
     const awaitingContracts = await prisma.contract.findMany({
       where: {
@@ -228,6 +243,13 @@ export async function submitQuestionnaireForAll(req: AuthedRequest, res: Respons
       return questionnaires;
     });
 
+    // Create the tasks defined by each contract's service templates
+    for (const contract of awaitingContracts) {
+      await generateContractTasks(contract.id, req.user.id).catch((err) =>
+        console.error("generateContractTasks error:", err)
+      );
+    }
+
     return success(res, {
       questionnaires: result,
       count: result.length,
@@ -260,6 +282,11 @@ export async function getQuestionnaire(req: AuthedRequest, res: Response) {
       return fail(res, "Contract not found", 404);
     }
 
+    const scopeClientId = getApiKeyClientScope(req.user);
+    if (scopeClientId && contract.clientId !== scopeClientId) {
+      return fail(res, "Forbidden", 403);
+    }
+
     // Authorization Logic
     let isAuthorized = false;
 
@@ -275,7 +302,7 @@ export async function getQuestionnaire(req: AuthedRequest, res: Response) {
       });
       if (hasTask) isAuthorized = true;
     } else if (req.user?.role === "CLIENT_VIEWER" || req.user?.role === "CLIENT_ADMIN") {
-       if (contract.client.linkedUserId === req.user.id) {
+       if (await isClientMember(contract.clientId, req.user.id)) {
         isAuthorized = true;
       }
     }
@@ -341,8 +368,10 @@ export async function getMyQuestionnaires(req: AuthedRequest, res: Response) {
       });
     } else {
       // Get only tasks assigned to this worker
+      // A client-scoped API key only sees that client's questionnaires
+      const scopeClientId = getApiKeyClientScope(req.user);
       tasks = await prisma.task.findMany({
-        where: { assignedToId: req.user.id },
+        where: { assignedToId: req.user.id, ...(scopeClientId ? { clientId: scopeClientId } : {}) },
         include: {
           client: {
             include: {
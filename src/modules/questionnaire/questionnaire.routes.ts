@@ -1,13 +1,14 @@
 import { Router } from "express";
 import { submitQuestionnaire, submitQuestionnaireForAll, getQuestionnaire, getMyQuestionnaires } from "./questionnaire.controller";
 import { authRequired } from "../../middleware/auth";
+import { requireVerifiedEmail } from "../../middleware/requireVerifiedEmail";
 
 const router = Router();
 
 // IMPORTANT: Specific routes must come BEFORE parameterized routes
-router.post("/submit-all", authRequired, submitQuestionnaireForAll);
+router.post("/submit-all", authRequired, requireVerifiedEmail, submitQuestionnaireForAll);
 router.get("/my", authRequired, getMyQuestionnaires); // Workers get their questionnaires
-router.post("/", authRequired, submitQuestionnaire);
+router.post("/", authRequired, requireVerifiedEmail, submitQuestionnaire);
 router.get("/:contractId", authRequired, getQuestionnaire);
 
 export default router;
@@ -0,0 +1,419 @@
+import { Response } from "express";
+import { prisma } from "../../config/prisma";
+import { AuthedRequest } from "../../middleware/auth";
+import { success, fail } from "../../utils/response";
+import { RRuleError, parseRRule } from "../../utils/rrule";
+import { getApiKeyClientScope } from "../../services/apiKey.service";
+import { computeNextRun, previewOccurrences } from "../../services/taskRecurrence.service";
+
+const recurrenceInclude = {
+  assignedTo: { select: { id: true, name: true, email: true } },
+  client: { select: { id: true, companyName: true } },
+  contract: { select: { id: true, packageType: true, status: true } },
+};
+
+function parseDate(value: unknown): Date | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === "") return null;
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Check client / contract / assignee references. Returns an error message or null.
+ */
+async function validateReferences(data: {
+  clientId?: string | null;
+  contractId?: string | null;
+  assignedToId?: string | null;
+}): Promise<string | null> {
+  if (data.clientId) {
+    const client = await prisma.client.findUnique({ where: { id: data.clientId }, select: { id: true } });
+    if (!client) return "Invalid clientId: client does not exist";
+  }
+
+  if (data.contractId) {
+    const contract = await prisma.contract.findUnique({ where: { id: data.contractId }, select: { id: true } });
+    if (!contract) return "Invalid contractId: contract does not exist";
+  }
+
+  if (data.assignedToId) {
+    const worker = await prisma.user.findUnique({
+      where: { id: data.assignedToId },
+      select: { role: true },
+    });
+    if (!worker || worker.role !== "WORKER") return "Invalid assignedToId: worker not found";
+  }
+
+  return null;
+}
+
+function serializeRecurrence(recurrence: any) {
+  return {
+    ...recurrence,
+    upcoming: recurrence.active ? previewOccurrences(recurrence) : [],
+  };
+}
+
+/**
+ * GET /api/recurring-tasks
+ * Recurring task schedules (?contractId=, ?clientId=, ?active=true|false)
+ * tasks.create
+ */
+export async function listRecurrences(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    const { contractId, clientId, active } = req.query;
+    const scopeClientId = getApiKeyClientScope(req.user);
+
+    const where: any = {};
+    if (contractId) where.contractId = String(contractId);
+    if (clientId) where.clientId = String(clientId);
+    if (scopeClientId) where.clientId = scopeClientId;
+    if (active === "true" || active === "false") where.active = active === "true";
+
+    const recurrences = await prisma.taskRecurrence.findMany({
+      where,
+      include: { ...recurrenceInclude, _count: { select: { tasks: true } } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return success(res, recurrences.map(serializeRecurrence));
+  } catch (err: any) {
+    console.error("listRecurrences error:", err);
+    return fail(res, "Failed to fetch recurring tasks", 500);
+  }
+}
+
+/**
+ * GET /api/recurring-tasks/:id
+ * A schedule with its upcoming occurrences and created instances
+ * tasks.create
+ */
+export async function getRecurrence(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    const recurrence = await prisma.taskRecurrence.findUnique({
+      where: { id: req.params.id },
+      include: {
+        ...recurrenceInclude,
+        tasks: {
+          select: { id: true, title: true, status: true, dueDate: true, assignedToId: true, createdAt: true },
+          orderBy: { createdAt: "desc" },
+        },
+      },
+    });
+
+    if (!recurrence) return fail(res, "Recurring task not found", 404);
+
+    const scopeClientId = getApiKeyClientScope(req.user);
+    if (scopeClientId && recurrence.clientId !== scopeClientId) return fail(res, "Forbidden", 403);
+
+    return success(res, serializeRecurrence(recurrence));
+  } catch (err: any) {
+    console.error("getRecurrence error:", err);
+    return fail(res, "Failed to fetch recurring task", 500);
+  }
+}
+
+/**
+ * POST /api/recurring-tasks
+ * Create a schedule. Either pass the template fields, or { taskId } to turn an
+ * existing task into the first instance of the schedule.
+ * Body: { rrule, startAt?, endAt?, carryOverAssignee?, dueOffsetDays?,
+ *         taskId? | title, description, clientId?, contractId?, assignedToId?,
+ *         requiresApproval?, paymentAmount? }
+ * tasks.create
+ */
+export async function createRecurrence(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    const { rrule, taskId, carryOverAssignee, dueOffsetDays } = req.body;
+
+    try {
+      parseRRule(rrule);
+    } catch (err) {
+      if (err instanceof RRuleError) return fail(res, `Invalid rrule: ${err.message}`, 400);
+      throw err;
+    }
+
+    const startAt = parseDate(req.body.startAt);
+    const endAt = parseDate(req.body.endAt);
+    if (startAt === undefined && req.body.startAt !== undefined) return fail(res, "Invalid startAt", 400);
+    if (endAt === undefined && req.body.endAt !== undefined) return fail(res, "Invalid endAt", 400);
+
+    if (dueOffsetDays !== undefined && dueOffsetDays !== null && !Number.isInteger(dueOffsetDays)) {
+      return fail(res, "dueOffsetDays must be a whole number of days", 400);
+    }
+
+    // Template: from an existing task, or from the body
+    let template: {
+      title: string;
+      description: string;
+      clientId: string | null;
+      contractId: string | null;
+      assignedToId: string | null;
+      requiresApproval: boolean;
+      paymentAmount: any;
+    };
+    let sourceTask: { id: string; recurrenceId: string | null; createdAt: Date } | null = null;
+
+    if (taskId) {
+      const task = await prisma.task.findUnique({ where: { id: taskId } });
+      if (!task) return fail(res, "Task not found", 404);
+      if (task.recurrenceId) return fail(res, "Task already belongs to a recurring schedule", 400);
+
+      sourceTask = task;
+      template = {
+        title: task.title,
+        description: task.description,
+        clientId: task.clientId,
+        contractId: task.contractId,
+        assignedToId: task.assignedToId,
+        requiresApproval: task.requiresApproval,
+        paymentAmount: task.paymentAmount,
+      };
+    } else {
+      const { title, description, clientId, contractId, assignedToId, requiresApproval, paymentAmount } =
+        req.body;
+
+      if (!title || !description) {
+        return fail(res, "Title and description are required (or pass taskId)", 400);
+      }
+
+      const error = await validateReferences({ clientId, contractId, assignedToId });
+      if (error) return fail(res, error, 400);
+
+      // Use the contract's client when only contractId is given, like createTask
+      let finalClientId = clientId || null;
+      if (!finalClientId && contractId) {
+        const contract = await prisma.contract.findUnique({
+          where: { id: contractId },
+          select: { clientId: true },
+        });
+        finalClientId = contract?.clientId || null;
+      }
+
+      template = {
+        title,
+        description,
+        clientId: finalClientId,
+        contractId: contractId || null,
+        assignedToId: assignedToId || null,
+        requiresApproval: !!requiresApproval,
+        paymentAmount: paymentAmount ?? null,
+      };
+    }
+
+    const scopeClientId = getApiKeyClientScope(req.user);
+    if (scopeClientId && template.clientId !== scopeClientId) return fail(res, "Forbidden", 403);
+
+    const schedule = {
+      rrule: String(rrule).trim(),
+      startAt: startAt || sourceTask?.createdAt || new Date(),
+      endAt: endAt || null,
+      // The source task stands in for the first occurrence
+      occurrenceCount: sourceTask ? 1 : 0,
+    };
+
+    if (schedule.endAt && schedule.endAt <= schedule.startAt) {
+      return fail(res, "endAt must be after startAt", 400);
+    }
+
+    const nextRunAt = computeNextRun(schedule, sourceTask ? schedule.startAt : null);
+    if (!nextRunAt) {
+      return fail(res, "This schedule has no upcoming occurrences", 400);
+    }
+
+    const recurrence = await prisma.$transaction(async (tx) => {
+      const created = await tx.taskRecurrence.create({
+        data: {
+          ...template,
+          ...schedule,
+          carryOverAssignee: carryOverAssignee !== undefined ? !!carryOverAssignee : true,
+          dueOffsetDays: dueOffsetDays ?? null,
+          nextRunAt,
+          createdById: req.user!.id,
+        },
+        include: recurrenceInclude,
+      });
+
+      if (sourceTask) {
+        await tx.task.update({ where: { id: sourceTask.id }, data: { recurrenceId: created.id } });
+      }
+
+      return created;
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user.id,
+        actionType: "RECURRING_TASK_CREATED",
+        entityType: "TASK_RECURRENCE",
+        entityId: recurrence.id,
+        metaJson: {
+          title: recurrence.title,
+          rrule: recurrence.rrule,
+          contractId: recurrence.contractId,
+          sourceTaskId: sourceTask?.id || null,
+        } as any,
+      },
+    });
+
+    return success(res, serializeRecurrence(recurrence), 201);
+  } catch (err: any) {
+    console.error("createRecurrence error:", err);
+    return fail(res, "Failed to create recurring task", 500);
+  }
+}
+
+/**
+ * PATCH /api/recurring-tasks/:id
+ * Edit the template or the schedule; { active: false } pauses it.
+ * Resuming or changing the rule reschedules from now (missed occurrences are skipped).
+ * tasks.create
+ */
+export async function updateRecurrence(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    const recurrence = await prisma.taskRecurrence.findUnique({ where: { id: req.params.id } });
+    if (!recurrence) return fail(res, "Recurring task not found", 404);
+
+    const scopeClientId = getApiKeyClientScope(req.user);
+    if (scopeClientId && recurrence.clientId !== scopeClientId) return fail(res, "Forbidden", 403);
+
+    const {
+      title,
+      description,
+      clientId,
+      contractId,
+      assignedToId,
+      requiresApproval,
+      paymentAmount,
+      carryOverAssignee,
+      dueOffsetDays,
+      rrule,
+      active,
+    } = req.body;
+
+    const error = await validateReferences({ clientId, contractId, assignedToId });
+    if (error) return fail(res, error, 400);
+
+    if (rrule !== undefined) {
+      try {
+        parseRRule(rrule);
+      } catch (err) {
+        if (err instanceof RRuleError) return fail(res, `Invalid rrule: ${err.message}`, 400);
+        throw err;
+      }
+    }
+
+    if (dueOffsetDays !== undefined && dueOffsetDays !== null && !Number.isInteger(dueOffsetDays)) {
+      return fail(res, "dueOffsetDays must be a whole number of days", 400);
+    }
+
+    const startAt = parseDate(req.body.startAt);
+    const endAt = parseDate(req.body.endAt);
+    if (startAt === undefined && req.body.startAt !== undefined) return fail(res, "Invalid startAt", 400);
+    if (endAt === undefined && req.body.endAt !== undefined) return fail(res, "Invalid endAt", 400);
+    if (req.body.startAt !== undefined && !startAt) return fail(res, "startAt cannot be cleared", 400);
+
+    const data: any = {};
+    if (title !== undefined) data.title = title;
+    if (description !== undefined) data.description = description;
+    if (clientId !== undefined) data.clientId = clientId || null;
+    if (scopeClientId && clientId !== undefined && data.clientId !== scopeClientId) {
+      return fail(res, "Forbidden", 403);
+    }
+    if (contractId !== undefined) data.contractId = contractId || null;
+    if (assignedToId !== undefined) data.assignedToId = assignedToId || null;
+    if (requiresApproval !== undefined) data.requiresApproval = !!requiresApproval;
+    if (paymentAmount !== undefined) data.paymentAmount = paymentAmount;
+    if (carryOverAssignee !== undefined) data.carryOverAssignee = !!carryOverAssignee;
+    if (dueOffsetDays !== undefined) data.dueOffsetDays = dueOffsetDays;
+    if (rrule !== undefined) data.rrule = String(rrule).trim();
+    if (startAt) data.startAt = startAt;
+    if (endAt !== undefined) data.endAt = endAt;
+
+    const nextActive = active !== undefined ? !!active : recurrence.active;
+    const reschedule =
+      rrule !== undefined ||
+      startAt !== undefined ||
+      endAt !== undefined ||
+      (nextActive && !recurrence.active);
+
+    if (nextActive && reschedule) {
+      const schedule = {
+        rrule: data.rrule ?? recurrence.rrule,
+        startAt: data.startAt ?? recurrence.startAt,
+        endAt: data.endAt !== undefined ? data.endAt : recurrence.endAt,
+        occurrenceCount: recurrence.occurrenceCount,
+      };
+      const now = new Date();
+      data.nextRunAt = computeNextRun(schedule, now < schedule.startAt ? null : now);
+      if (!data.nextRunAt) {
+        return fail(res, "This schedule has no upcoming occurrences", 400);
+      }
+    }
+    data.active = nextActive;
+
+    const updated = await prisma.taskRecurrence.update({
+      where: { id: recurrence.id },
+      data,
+      include: recurrenceInclude,
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user.id,
+        actionType: "RECURRING_TASK_UPDATED",
+        entityType: "TASK_RECURRENCE",
+        entityId: recurrence.id,
+        metaJson: { fields: Object.keys(data) } as any,
+      },
+    });
+
+    return success(res, serializeRecurrence(updated));
+  } catch (err: any) {
+    console.error("updateRecurrence error:", err);
+    return fail(res, "Failed to update recurring task", 500);
+  }
+}
+
+/**
+ * DELETE /api/recurring-tasks/:id
+ * Delete a schedule. Tasks it already created are kept.
+ * tasks.create
+ */
+export async function deleteRecurrence(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    const recurrence = await prisma.taskRecurrence.findUnique({ where: { id: req.params.id } });
+    if (!recurrence) return fail(res, "Recurring task not found", 404);
+
+    const scopeClientId = getApiKeyClientScope(req.user);
+    if (scopeClientId && recurrence.clientId !== scopeClientId) return fail(res, "Forbidden", 403);
+
+    await prisma.taskRecurrence.delete({ where: { id: recurrence.id } });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user.id,
+        actionType: "RECURRING_TASK_DELETED",
+        entityType: "TASK_RECURRENCE",
+        entityId: recurrence.id,
+        metaJson: { title: recurrence.title, occurrenceCount: recurrence.occurrenceCount } as any,
+      },
+    });
+
+    return success(res, { message: "Recurring task deleted" });
+  } catch (err: any) {
+    console.error("deleteRecurrence error:", err);
+    return fail(res, "Failed to delete recurring task", 500);
+  }
+}
@@ -0,0 +1,33 @@
+import { Router } from "express";
+import { authRequired } from "../../middleware/auth";
+import { requirePermission } from "../../middleware/requirePermission";
+import {
+  listRecurrences,
+  getRecurrence,
+  createRecurrence,
+  updateRecurrence,
+  deleteRecurrence,
+} from "./recurring-tasks.controller";
+
+const router = Router();
+
+// ============================================
+// RECURRING TASK SCHEDULES
+// ============================================
+
+// GET /api/recurring-tasks - List schedules
+router.get("/", authRequired, requirePermission("tasks.create"), listRecurrences);
+
+// POST /api/recurring-tasks - Create a schedule (template fields or { taskId })
+router.post("/", authRequired, requirePermission("tasks.create"), createRecurrence);
+
+// GET /api/recurring-tasks/:id - Schedule with upcoming occurrences and instances
+router.get("/:id", authRequired, requirePermission("tasks.create"), getRecurrence);
+
+// PATCH /api/recurring-tasks/:id - Edit, pause ({ active: false }) or resume
+router.patch("/:id", authRequired, requirePermission("tasks.create"), updateRecurrence);
+
+// DELETE /api/recurring-tasks/:id - Delete a schedule (instances are kept)
+router.delete("/:id", authRequired, requirePermission("tasks.create"), deleteRecurrence);
+
+export default router;
@@ -2,6 +2,8 @@ import { Response } from "express";
 import { prisma } from "../../config/prisma";
 import { AuthedRequest } from "../../middleware/auth";
 import { success, fail } from "../../utils/response";
+import { getClientForUser, isClientMember } from "../../services/clientAccess.service";
+import { hasPermission } from "../../services/permission.service";
 
 /**
  * POST /api/reviews
@@ -36,7 +38,7 @@ export async function submitReview(req: AuthedRequest, res: Response) {
 
     // Only client can leave review
     if (req.user.role === "CLIENT_VIEWER") {
-      if (contract.client.linkedUserId !== req.user.id) {
+      if (!(await isClientMember(contract.clientId, req.user.id, "approve"))) {
         return fail(res, "Forbidden: You can only review your own contracts", 403);
       }
     } else if (req.user.role !== "SUPER_ADMIN") {
@@ -129,9 +131,7 @@ export async function getMyReviews(req: AuthedRequest, res: Response) {
 
     if (req.user.role === "CLIENT_VIEWER") {
       // Get client's reviews
-      const client = await prisma.client.findFirst({
-        where: { linkedUserId: req.user.id },
-      });
+      const client = await getClientForUser(req.user.id);
 
       if (!client) {
         return success(res, { reviews: [], count: 0 });
@@ -214,7 +214,7 @@ export async function getContractReview(req: AuthedRequest, res: Response) {
 
     // Check authorization
     if (req.user.role === "CLIENT_VIEWER") {
-      if (review.contract.client.linkedUserId !== req.user.id) {
+      if (!(await isClientMember(review.contract.clientId, req.user.id))) {
         return fail(res, "Forbidden", 403);
       }
     } else if (req.user.role !== "SUPER_ADMIN") {
@@ -234,8 +234,8 @@ export async function getContractReview(req: AuthedRequest, res: Response) {
  */
 export async function getReviewStats(req: AuthedRequest, res: Response) {
   try {
-    if (!req.user || req.user.role !== "SUPER_ADMIN") {
-      return fail(res, "Forbidden: Only super admins can access stats", 403);
+    if (!req.user || !hasPermission(req.user, "reviews.read_all")) {
+      return fail(res, "Forbidden: You do not have permission to access stats", 403);
     }
 
     const reviews = await prisma.review.findMany({
@@ -6,7 +6,7 @@ import {
   getReviewStats,
 } from "./reviews.controller";
 import { authRequired } from "../../middleware/auth";
-import { requireRole } from "../../middleware/requireRole";
+import { requirePermission } from "../../middleware/requirePermission";
 
 const router = Router();
 
@@ -17,7 +17,7 @@ router.post("/", authRequired, submitReview);
 router.get("/my", authRequired, getMyReviews);
 
 // Get review stats - UPDATED: Added ADMIN role
-router.get("/stats", authRequired, requireRole("SUPER_ADMIN", "ADMIN"), getReviewStats);
+router.get("/stats", authRequired, requirePermission("reviews.read_all"), getReviewStats);
 
 // Get review for specific contract
 router.get("/contract/:contractId", authRequired, getContractReview);
@@ -0,0 +1,349 @@
+import { Response } from "express";
+import { prisma } from "../../config/prisma";
+import { AuthedRequest } from "../../middleware/auth";
+import { success, fail } from "../../utils/response";
+import { PERMISSIONS } from "../../config/permissions";
+import {
+  ensureSystemRoles,
+  filterKnownPermissions,
+  hasPermission,
+  invalidatePermissionCache,
+} from "../../services/permission.service";
+
+// Custom roles can only build on staff roles
+const CUSTOM_ROLE_BASES = ["ADMIN", "WORKER"];
+
+/**
+ * GET /api/roles/permissions
+ * Permission catalog (name + description)
+ * roles.manage
+ */
+export async function getPermissionCatalog(req: AuthedRequest, res: Response) {
+  if (!req.user) return fail(res, "Unauthorized", 401);
+
+  return success(res, {
+    permissions: Object.entries(PERMISSIONS).map(([name, description]) => ({ name, description })),
+    note: "SUPER_ADMIN implicitly holds every permission",
+  });
+}
+
+/**
+ * GET /api/roles
+ * Role -> permission matrix (system + custom roles)
+ * roles.manage
+ */
+export async function listRoles(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    if (!hasPermission(req.user, "roles.manage")) {
+      return fail(res, "Forbidden", 403);
+    }
+
+    await ensureSystemRoles();
+
+    const roles = await prisma.roleDefinition.findMany({
+      include: {
+        permissions: { select: { permission: true } },
+        _count: { select: { users: true } },
+      },
+      orderBy: [{ isSystem: "desc" }, { name: "asc" }],
+    });
+
+    return success(res, {
+      roles: roles.map((r) => ({
+        id: r.id,
+        key: r.key,
+        name: r.name,
+        description: r.description,
+        baseRole: r.baseRole,
+        isSystem: r.isSystem,
+        permissions: r.permissions.map((p) => p.permission).sort(),
+        assignedUsers: r._count.users,
+      })),
+    });
+  } catch (err: any) {
+    console.error("listRoles error:", err);
+    return fail(res, "Failed to get roles", 500);
+  }
+}
+
+/**
+ * POST /api/roles
+ * Create a custom role on top of ADMIN or WORKER
+ * roles.manage
+ */
+export async function createRole(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    if (!hasPermission(req.user, "roles.manage")) {
+      return fail(res, "Forbidden", 403);
+    }
+
+    const { key, name, description, baseRole, permissions } = req.body;
+
+    if (!key || !name || !baseRole) {
+      return fail(res, "Key, name, and baseRole are required", 400);
+    }
+
+    if (!CUSTOM_ROLE_BASES.includes(baseRole)) {
+      return fail(res, `baseRole must be one of: ${CUSTOM_ROLE_BASES.join(", ")}`, 400);
+    }
+
+    const normalizedKey = String(key).trim().toUpperCase().replace(/[^A-Z0-9_]/g, "_");
+
+    const existing = await prisma.roleDefinition.findUnique({ where: { key: normalizedKey } });
+    if (existing) {
+      return fail(res, "A role with this key already exists", 409);
+    }
+
+    const role = await prisma.roleDefinition.create({
+      data: {
+        key: normalizedKey,
+        name,
+        description: description || null,
+        baseRole,
+        isSystem: false,
+        permissions: {
+          create: filterKnownPermissions(permissions).map((permission) => ({ permission })),
+        },
+      },
+      include: { permissions: { select: { permission: true } } },
+    });
+
+    invalidatePermissionCache();
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user.id,
+        actionType: "ROLE_CREATED",
+        entityType: "ROLE",
+        entityId: role.id,
+        metaJson: {
+          key: role.key,
+          baseRole: role.baseRole,
+          permissions: role.permissions.map((p) => p.permission),
+        },
+      },
+    });
+
+    return success(res, {
+      message: "Role created",
+      role: { ...role, permissions: role.permissions.map((p) => p.permission) },
+    }, 201);
+  } catch (err: any) {
+    console.error("createRole error:", err);
+    return fail(res, "Failed to create role", 500);
+  }
+}
+
+/**
+ * PATCH /api/roles/:id
+ * Update a role's name/description and replace its permission set.
+ * Works for system roles too (that's how the default matrix is edited).
+ * roles.manage
+ */
+export async function updateRole(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    if (!hasPermission(req.user, "roles.manage")) {
+      return fail(res, "Forbidden", 403);
+    }
+
+    const { id } = req.params;
+    const { name, description, permissions } = req.body;
+
+    const role = await prisma.roleDefinition.findUnique({
+      where: { id },
+      include: { permissions: { select: { permission: true } } },
+    });
+
+    if (!role) {
+      return fail(res, "Role not found", 404);
+    }
+
+    const nextPermissions =
+      permissions !== undefined ? filterKnownPermissions(permissions) : null;
+
+    const updated = await prisma.$transaction(async (tx) => {
+      if (nextPermissions) {
+        await tx.rolePermission.deleteMany({ where: { roleId: id } });
+        await tx.rolePermission.createMany({
+          data: nextPermissions.map((permission) => ({ roleId: id, permission })),
+        });
+      }
+
+      return tx.roleDefinition.update({
+        where: { id },
+        data: {
+          name: name ?? role.name,
+          description: description !== undefined ? description : role.description,
+        },
+        include: { permissions: { select: { permission: true } } },
+      });
+    });
+
+    invalidatePermissionCache();
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user.id,
+        actionType: "ROLE_UPDATED",
+        entityType: "ROLE",
+        entityId: id,
+        metaJson: {
+          key: role.key,
+          previousPermissions: role.permissions.map((p) => p.permission),
+          permissions: updated.permissions.map((p) => p.permission),
+        },
+      },
+    });
+
+    return success(res, {
+      message: "Role updated",
+      role: { ...updated, permissions: updated.permissions.map((p) => p.permission) },
+    });
+  } catch (err: any) {
+    console.error("updateRole error:", err);
+    return fail(res, "Failed to update role", 500);
+  }
+}
+
+/**
+ * DELETE /api/roles/:id
+ * Delete a custom role (must not be assigned to anyone)
+ * roles.manage
+ */
+export async function deleteRole(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    if (!hasPermission(req.user, "roles.manage")) {
+      return fail(res, "Forbidden", 403);
+    }
+
+    const { id } = req.params;
+
+    const role = await prisma.roleDefinition.findUnique({
+      where: { id },
+      include: { _count: { select: { users: true } } },
+    });
+
+    if (!role) {
+      return fail(res, "Role not found", 404);
+    }
+
+    if (role.isSystem) {
+      return fail(res, "System roles cannot be deleted", 400);
+    }
+
+    if (role._count.users > 0) {
+      return fail(res, "Role is still assigned to users", 400);
+    }
+
+    await prisma.roleDefinition.delete({ where: { id } });
+    invalidatePermissionCache();
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user.id,
+        actionType: "ROLE_DELETED",
+        entityType: "ROLE",
+        entityId: id,
+        metaJson: { key: role.key },
+      },
+    });
+
+    return success(res, { message: "Role deleted" });
+  } catch (err: any) {
+    console.error("deleteRole error:", err);
+    return fail(res, "Failed to delete role", 500);
+  }
+}
+
+/**
+ * PATCH /api/roles/users/:userId
+ * Assign (roleId) or clear (roleId: null) a user's custom role.
+ * The user's base role must match the custom role's baseRole.
+ * roles.manage
+ */
+export async function assignUserRole(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    if (!hasPermission(req.user, "roles.manage")) {
+      return fail(res, "Forbidden", 403);
+    }
+
+    const { userId } = req.params;
+    const { roleId } = req.body;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, role: true, email: true, customRoleId: true },
+    });
+
+    if (!user) {
+      return fail(res, "User not found", 404);
+    }
+
+    if (user.role === "SUPER_ADMIN") {
+      return fail(res, "SUPER_ADMIN always has every permission", 400);
+    }
+
+    if (roleId) {
+      const role = await prisma.roleDefinition.findUnique({ where: { id: roleId } });
+
+      if (!role || role.isSystem) {
+        return fail(res, "Custom role not found", 404);
+      }
+
+      if (role.baseRole !== user.role) {
+        return fail(res, `This role can only be assigned to ${role.baseRole} users`, 400);
+      }
+    }
+
+    const updated = await prisma.user.update({
+      where: { id: userId },
+      data: { customRoleId: roleId || null },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        role: true,
+        customRole: { select: { id: true, key: true, name: true } },
+      },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user.id,
+        actionType: "USER_ROLE_ASSIGNED",
+        entityType: "USER",
+        entityId: userId,
+        metaJson: {
+          userEmail: user.email,
+          previousCustomRoleId: user.customRoleId,
+          customRoleId: roleId || null,
+        },
+      },
+    });
+
+    return success(res, updated);
+  } catch (err: any) {
+    console.error("assignUserRole error:", err);
+    return fail(res, "Failed to assign role", 500);
+  }
+}
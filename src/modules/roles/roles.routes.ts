@@ -0,0 +1,37 @@
+import { Router } from "express";
+import { authRequired } from "../../middleware/auth";
+import { requirePermission } from "../../middleware/requirePermission";
+import {
+  getPermissionCatalog,
+  listRoles,
+  createRole,
+  updateRole,
+  deleteRole,
+  assignUserRole,
+} from "./roles.controller";
+
+const router = Router();
+
+// ============================================
+// ROLES & PERMISSIONS (roles.manage - SUPER_ADMIN by default)
+// ============================================
+
+// GET /api/roles/permissions - Permission catalog
+router.get("/permissions", authRequired, requirePermission("roles.manage"), getPermissionCatalog);
+
+// PATCH /api/roles/users/:userId - Assign or clear a user's custom role
+router.patch("/users/:userId", authRequired, requirePermission("roles.manage"), assignUserRole);
+
+// GET /api/roles - Role permission matrix
+router.get("/", authRequired, requirePermission("roles.manage"), listRoles);
+
+// POST /api/roles - Create a custom role
+router.post("/", authRequired, requirePermission("roles.manage"), createRole);
+
+// PATCH /api/roles/:id - Update role + replace its permissions
+router.patch("/:id", authRequired, requirePermission("roles.manage"), updateRole);
+
+// DELETE /api/roles/:id - Delete a custom role
+router.delete("/:id", authRequired, requirePermission("roles.manage"), deleteRole);
+
+export default router;
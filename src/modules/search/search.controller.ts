@@ -2,6 +2,8 @@ import { Response } from "express";
 import { prisma } from "../../config/prisma";
 import { AuthedRequest } from "../../middleware/auth";
 import { success, fail } from "../../utils/response";
+import { getClientForUser } from "../../services/clientAccess.service";
+import { getApiKeyClientScope } from "../../services/apiKey.service";
 
 /**
  * GET /api/search?q=query&type=clients,contracts,tasks
@@ -76,9 +78,7 @@ export async function globalSearch(req: AuthedRequest, res: Response) {
 
       // If CLIENT_VIEWER, only show their contracts
       if (req.user.role === "CLIENT_VIEWER") {
-        const client = await prisma.client.findFirst({
-          where: { linkedUserId: req.user.id },
-        });
+        const client = await getClientForUser(req.user.id);
 
         if (client) {
           contractWhere.clientId = client.id;
@@ -124,9 +124,7 @@ export async function globalSearch(req: AuthedRequest, res: Response) {
 
       // If CLIENT_VIEWER, only show tasks for their contracts
       if (req.user.role === "CLIENT_VIEWER") {
-        const client = await prisma.client.findFirst({
-          where: { linkedUserId: req.user.id },
-        });
+        const client = await getClientForUser(req.user.id);
 
         if (client) {
           taskWhere.clientId = client.id;
@@ -135,6 +133,12 @@ export async function globalSearch(req: AuthedRequest, res: Response) {
         }
       }
 
+      // Client-scoped API keys only find that client's tasks
+      const scopeClientId = getApiKeyClientScope(req.user);
+      if (scopeClientId) {
+        taskWhere.clientId = taskWhere.clientId === undefined || taskWhere.clientId === scopeClientId ? scopeClientId : "none";
+      }
+
       results.tasks = await prisma.task.findMany({
         where: taskWhere,
         select: {
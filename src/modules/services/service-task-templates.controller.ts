@@ -0,0 +1,219 @@
+import { Response } from "express";
+import { prisma } from "../../config/prisma";
+import { AuthedRequest } from "../../middleware/auth";
+import { success, fail } from "../../utils/response";
+
+function transformTemplate(template: any) {
+  return {
+    ...template,
+    paymentAmount: template.paymentAmount !== null ? Number(template.paymentAmount) : null,
+  };
+}
+
+/**
+ * Validate template fields; `current` is the stored template when updating.
+ * Returns an error message or null.
+ */
+function validateTemplate(body: any, current?: { paymentAmount: any; broadcast: boolean }): string | null {
+  const { dueOffsetDays, paymentAmount, broadcast } = body;
+
+  if (dueOffsetDays !== undefined && dueOffsetDays !== null) {
+    if (!Number.isInteger(dueOffsetDays) || dueOffsetDays < 0) {
+      return "dueOffsetDays must be a whole number of days (0 or more)";
+    }
+  }
+
+  if (paymentAmount !== undefined && paymentAmount !== null) {
+    const amount = Number(paymentAmount);
+    if (isNaN(amount) || amount <= 0) {
+      return "Payment amount must be a positive number";
+    }
+  }
+
+  const finalBroadcast = broadcast !== undefined ? !!broadcast : current?.broadcast ?? false;
+  const finalAmount = paymentAmount !== undefined ? paymentAmount : current?.paymentAmount ?? null;
+  if (finalBroadcast && (finalAmount === null || finalAmount === undefined)) {
+    return "A payment amount is required to broadcast generated tasks";
+  }
+
+  return null;
+}
+
+/**
+ * GET /api/services/:id/task-templates
+ * Task templates of a service (SUPER_ADMIN only)
+ */
+export async function listTaskTemplates(req: AuthedRequest, res: Response) {
+  try {
+    const { id } = req.params;
+
+    const service = await prisma.service.findUnique({ where: { id }, select: { id: true } });
+    if (!service) {
+      return fail(res, "Service not found", 404);
+    }
+
+    const templates = await prisma.serviceTaskTemplate.findMany({
+      where: { serviceId: id },
+      orderBy: { sortOrder: "asc" },
+    });
+
+    return success(res, templates.map(transformTemplate));
+  } catch (err: any) {
+    console.error("listTaskTemplates error:", err);
+    return fail(res, "Failed to fetch task templates", 500);
+  }
+}
+
+/**
+ * POST /api/services/:id/task-templates
+ * Add a task template to a service (SUPER_ADMIN only)
+ * Body: { title, description, dueOffsetDays?, paymentAmount?, broadcast?, requiresApproval?, sortOrder? }
+ */
+export async function createTaskTemplate(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    const { id } = req.params;
+    const { title, description, dueOffsetDays, paymentAmount, broadcast, requiresApproval, sortOrder } = req.body;
+
+    if (!title || !description) {
+      return fail(res, "Title and description are required", 400);
+    }
+
+    const error = validateTemplate(req.body);
+    if (error) return fail(res, error, 400);
+
+    const service = await prisma.service.findUnique({ where: { id }, select: { id: true, name: true } });
+    if (!service) {
+      return fail(res, "Service not found", 404);
+    }
+
+    const template = await prisma.serviceTaskTemplate.create({
+      data: {
+        serviceId: id,
+        title,
+        description,
+        dueOffsetDays: dueOffsetDays ?? null,
+        paymentAmount: paymentAmount ?? null,
+        broadcast: !!broadcast,
+        requiresApproval: !!requiresApproval,
+        sortOrder: sortOrder ?? 0,
+        createdById: req.user.id,
+      },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user.id,
+        actionType: "SERVICE_TASK_TEMPLATE_CREATED",
+        entityType: "SERVICE",
+        entityId: id,
+        metaJson: {
+          templateId: template.id,
+          serviceName: service.name,
+          title,
+        } as any,
+      },
+    });
+
+    return success(res, transformTemplate(template), 201);
+  } catch (err: any) {
+    console.error("createTaskTemplate error:", err);
+    return fail(res, "Failed to create task template", 500);
+  }
+}
+
+/**
+ * PATCH /api/services/:id/task-templates/:templateId
+ * Update a task template (SUPER_ADMIN only). Tasks already generated are not changed.
+ */
+export async function updateTaskTemplate(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    const { id, templateId } = req.params;
+
+    const existing = await prisma.serviceTaskTemplate.findFirst({
+      where: { id: templateId, serviceId: id },
+    });
+    if (!existing) {
+      return fail(res, "Task template not found", 404);
+    }
+
+    const error = validateTemplate(req.body, existing);
+    if (error) return fail(res, error, 400);
+
+    const { title, description, dueOffsetDays, paymentAmount, broadcast, requiresApproval, sortOrder } = req.body;
+
+    const data: any = {};
+    if (title !== undefined) data.title = title;
+    if (description !== undefined) data.description = description;
+    if (dueOffsetDays !== undefined) data.dueOffsetDays = dueOffsetDays;
+    if (paymentAmount !== undefined) data.paymentAmount = paymentAmount;
+    if (broadcast !== undefined) data.broadcast = !!broadcast;
+    if (requiresApproval !== undefined) data.requiresApproval = !!requiresApproval;
+    if (sortOrder !== undefined) data.sortOrder = sortOrder;
+
+    const template = await prisma.serviceTaskTemplate.update({
+      where: { id: templateId },
+      data,
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user.id,
+        actionType: "SERVICE_TASK_TEMPLATE_UPDATED",
+        entityType: "SERVICE",
+        entityId: id,
+        metaJson: {
+          templateId,
+          fields: Object.keys(data),
+        } as any,
+      },
+    });
+
+    return success(res, transformTemplate(template));
+  } catch (err: any) {
+    console.error("updateTaskTemplate error:", err);
+    return fail(res, "Failed to update task template", 500);
+  }
+}
+
+/**
+ * DELETE /api/services/:id/task-templates/:templateId
+ * Delete a task template (SUPER_ADMIN only). Tasks already generated are kept.
+ */
+export async function deleteTaskTemplate(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    const { id, templateId } = req.params;
+
+    const existing = await prisma.serviceTaskTemplate.findFirst({
+      where: { id: templateId, serviceId: id },
+    });
+    if (!existing) {
+      return fail(res, "Task template not found", 404);
+    }
+
+    await prisma.serviceTaskTemplate.delete({ where: { id: templateId } });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user.id,
+        actionType: "SERVICE_TASK_TEMPLATE_DELETED",
+        entityType: "SERVICE",
+        entityId: id,
+        metaJson: {
+          templateId,
+          title: existing.title,
+        } as any,
+      },
+    });
+
+    return success(res, { message: "Task template deleted" });
+  } catch (err: any) {
+    console.error("deleteTaskTemplate error:", err);
+    return fail(res, "Failed to delete task template", 500);
+  }
+}
@@ -7,8 +7,14 @@ import {
   updateService,
   deleteService,
 } from "./services.controller";
+import {
+  listTaskTemplates,
+  createTaskTemplate,
+  updateTaskTemplate,
+  deleteTaskTemplate,
+} from "./service-task-templates.controller";
 import { authRequired, optionalAuth } from "../../middleware/auth";
-import { requireRole } from "../../middleware/requireRole";
+import { requirePermission } from "../../middleware/requirePermission";
 
 const router = Router();
 
@@ -27,7 +33,7 @@ router.get("/", optionalAuth, getActiveServices);
 router.get(
   "/all",
   authRequired,
-  requireRole("SUPER_ADMIN"),
+  requirePermission("catalog.manage"),
   getAllServices
 );
 
@@ -38,7 +44,7 @@ router.get("/:id", authRequired, getService);
 router.post(
   "/",
   authRequired,
-  requireRole("SUPER_ADMIN"),
+  requirePermission("catalog.manage"),
   createService
 );
 
@@ -46,7 +52,7 @@ router.post(
 router.patch(
   "/:id",
   authRequired,
-  requireRole("SUPER_ADMIN"),
+  requirePermission("catalog.manage"),
   updateService
 );
 
@@ -54,8 +60,44 @@ router.patch(
 router.delete(
   "/:id",
   authRequired,
-  requireRole("SUPER_ADMIN"),
+  requirePermission("catalog.manage"),
   deleteService
 );
 
+// ============================================
+// TASK TEMPLATES (generated when a contract is ready for assignment)
+// ============================================
+
+// GET /api/services/:id/task-templates - List a service's task templates
+router.get(
+  "/:id/task-templates",
+  authRequired,
+  requirePermission("catalog.manage"),
+  listTaskTemplates
+);
+
+// POST /api/services/:id/task-templates - Add a task template
+router.post(
+  "/:id/task-templates",
+  authRequired,
+  requirePermission("catalog.manage"),
+  createTaskTemplate
+);
+
+// PATCH /api/services/:id/task-templates/:templateId - Update a task template
+router.patch(
+  "/:id/task-templates/:templateId",
+  authRequired,
+  requirePermission("catalog.manage"),
+  updateTaskTemplate
+);
+
+// DELETE /api/services/:id/task-templates/:templateId - Delete a task template
+router.delete(
+  "/:id/task-templates/:templateId",
+  authRequired,
+  requirePermission("catalog.manage"),
+  deleteTaskTemplate
+);
+
 export default router;
@@ -2,7 +2,14 @@ import { Response } from "express";
 import { prisma } from "../../config/prisma";
 import { AuthedRequest } from "../../middleware/auth";
 import { success, fail } from "../../utils/response";
-import { hashPassword } from "../../utils/hash";
+import { hasPermission } from "../../services/permission.service";
+import {
+  issueInvitation,
+  serializeInvitation,
+  validateNewInvitation,
+} from "../../services/invitation.service";
+import { revokeAllUserSessions } from "../../services/session.service";
+import { getWorkerLoads, normalizeSkills } from "../../services/workerCapacity.service";
 
 // ============================================
 // PLATFORM SETTINGS (Support Channels)
@@ -59,8 +66,8 @@ export async function getPlatformSettings(req: AuthedRequest, res: Response) {
       return fail(res, "Unauthorized", 401);
     }
 
-    if (req.user.role !== "SUPER_ADMIN") {
-      return fail(res, "Forbidden: Only super admins can view platform settings", 403);
+    if (!hasPermission(req.user, "settings.manage")) {
+      return fail(res, "Forbidden: You do not have permission to view platform settings", 403);
     }
 
     let settings = await prisma.platformSettings.findUnique({
@@ -92,8 +99,8 @@ export async function updatePlatformSettings(req: AuthedRequest, res: Response)
       return fail(res, "Unauthorized", 401);
     }
 
-    if (req.user.role !== "SUPER_ADMIN") {
-      return fail(res, "Forbidden: Only super admins can update platform settings", 403);
+    if (!hasPermission(req.user, "settings.manage")) {
+      return fail(res, "Forbidden: You do not have permission to update platform settings", 403);
     }
 
     const { 
@@ -104,6 +111,8 @@ export async function updatePlatformSettings(req: AuthedRequest, res: Response)
       // V3: Legal documents
       termsAndConditions,
       privacyPolicy,
+      // Security
+      requireAdminTwoFactor,
     } = req.body;
 
     // Build update data
@@ -125,6 +134,11 @@ export async function updatePlatformSettings(req: AuthedRequest, res: Response)
       updateData.privacyUpdatedAt = new Date();
     }
 
+    // Security
+    if (requireAdminTwoFactor !== undefined) {
+      updateData.requireAdminTwoFactor = Boolean(requireAdminTwoFactor);
+    }
+
     const settings = await prisma.platformSettings.upsert({
       where: { id: "default" },
       update: updateData,
@@ -138,6 +152,23 @@ export async function updatePlatformSettings(req: AuthedRequest, res: Response)
       },
     });
 
+    // Turning on mandatory 2FA signs out admins who haven't enrolled,
+    // so their next login goes through enrollment
+    if (updateData.requireAdminTwoFactor === true) {
+      const unenrolledAdmins = await prisma.user.findMany({
+        where: {
+          role: { in: ["ADMIN", "SUPER_ADMIN"] },
+          twoFactorEnabled: false,
+          id: { not: req.user.id },
+        },
+        select: { id: true },
+      });
+
+      for (const admin of unenrolledAdmins) {
+        await revokeAllUserSessions(admin.id);
+      }
+    }
+
     // Audit log
     await prisma.auditLog.create({
       data: {
@@ -150,6 +181,7 @@ export async function updatePlatformSettings(req: AuthedRequest, res: Response)
           supportEmail,
           supportInstagram,
           supportPhone,
+          requireAdminTwoFactor,
         },
       },
     });
@@ -258,8 +290,8 @@ export async function updateTermsAndConditions(req: AuthedRequest, res: Response
       return fail(res, "Unauthorized", 401);
     }
 
-    if (req.user.role !== "SUPER_ADMIN") {
-      return fail(res, "Forbidden: Only super admins can update terms", 403);
+    if (!hasPermission(req.user, "settings.manage")) {
+      return fail(res, "Forbidden: You do not have permission to update terms", 403);
     }
 
     const { content } = req.body;
@@ -314,8 +346,8 @@ export async function updatePrivacyPolicy(req: AuthedRequest, res: Response) {
       return fail(res, "Unauthorized", 401);
     }
 
-    if (req.user.role !== "SUPER_ADMIN") {
-      return fail(res, "Forbidden: Only super admins can update privacy policy", 403);
+    if (!hasPermission(req.user, "settings.manage")) {
+      return fail(res, "Forbidden: You do not have permission to update privacy policy", 403);
     }
 
     const { content } = req.body;
@@ -365,8 +397,9 @@ export async function updatePrivacyPolicy(req: AuthedRequest, res: Response) {
 // ============================================
 
 /**
- * POST /api/settings/create-admin
- * Create a new ADMIN user
+ * POST /api/settings/admins
+ * Invite a new admin user (no password is set by the admin - the invitee
+ * receives an expiring link and chooses their own password)
  * SUPER_ADMIN only
  */
 export async function createAdmin(req: AuthedRequest, res: Response) {
@@ -375,73 +408,42 @@ export async function createAdmin(req: AuthedRequest, res: Response) {
       return fail(res, "Unauthorized", 401);
     }
 
-    if (req.user.role !== "SUPER_ADMIN") {
-      return fail(res, "Forbidden: Only super admins can create admin users", 403);
+    if (!hasPermission(req.user, "admins.manage")) {
+      return fail(res, "Forbidden: You do not have permission to create admin users", 403);
     }
 
-    const { name, email, phone, password } = req.body;
+    const { name, email, phone } = req.body;
 
-    if (!name || !email || !password) {
-      return fail(res, "Name, email, and password are required", 400);
+    const error = await validateNewInvitation({ name, email, role: "ADMIN" }, req.user);
+    if (error) {
+      return fail(res, error.message, error.status);
     }
 
-    if (password.length < 6) {
-      return fail(res, "Password must be at least 6 characters", 400);
-    }
-
-    // Check if email exists
-    const existing = await prisma.user.findUnique({
-      where: { email: email.toLowerCase() },
-    });
-
-    if (existing) {
-      return fail(res, "A user with this email already exists", 409);
-    }
-
-    const passwordHash = await hashPassword(password);
-
-    const admin = await prisma.user.create({
-      data: {
-        name,
-        email: email.toLowerCase(),
-        phone: phone || null,
-        passwordHash,
-        role: "ADMIN",
-        active: true,
-      },
-      select: {
-        id: true,
-        name: true,
-        email: true,
-        phone: true,
-        role: true,
-        active: true,
-        createdAt: true,
-      },
-    });
+    const invitation = await issueInvitation({ name, email, phone, role: "ADMIN" }, req.user);
 
     // Audit log
     await prisma.auditLog.create({
       data: {
         userId: req.user.id,
-        actionType: "ADMIN_CREATED",
-        entityType: "USER",
-        entityId: admin.id,
+        actionType: "INVITATION_SENT",
+        entityType: "INVITATION",
+        entityId: invitation.id,
         metaJson: {
-          adminEmail: admin.email,
-          adminName: admin.name,
-          createdBy: req.user.email,
+          email: invitation.email,
+          name: invitation.name,
+          role: invitation.role,
+          invitedBy: req.user.email,
         },
       },
     });
 
     return success(res, {
-      message: "Admin user created successfully",
-      admin,
+      message: "Invitation sent. The admin user will set their own password.",
+      invitation: serializeInvitation(invitation),
     }, 201);
   } catch (err: any) {
     console.error("createAdmin error:", err);
-    return fail(res, "Failed to create admin user", 500);
+    return fail(res, "Failed to invite admin user", 500);
   }
 }
 
@@ -456,8 +458,8 @@ export async function getAdmins(req: AuthedRequest, res: Response) {
       return fail(res, "Unauthorized", 401);
     }
 
-    if (req.user.role !== "SUPER_ADMIN") {
-      return fail(res, "Forbidden: Only super admins can view admin users", 403);
+    if (!hasPermission(req.user, "admins.manage")) {
+      return fail(res, "Forbidden: You do not have permission to view admin users", 403);
     }
 
     const admins = await prisma.user.findMany({
@@ -495,8 +497,8 @@ export async function updateAdmin(req: AuthedRequest, res: Response) {
       return fail(res, "Unauthorized", 401);
     }
 
-    if (req.user.role !== "SUPER_ADMIN") {
-      return fail(res, "Forbidden: Only super admins can update admin users", 403);
+    if (!hasPermission(req.user, "admins.manage")) {
+      return fail(res, "Forbidden: You do not have permission to update admin users", 403);
     }
 
     const { id } = req.params;
@@ -531,6 +533,10 @@ export async function updateAdmin(req: AuthedRequest, res: Response) {
       },
     });
 
+    if (active === false) {
+      await revokeAllUserSessions(id);
+    }
+
     // Audit log
     await prisma.auditLog.create({
       data: {
@@ -565,8 +571,8 @@ export async function deactivateAdmin(req: AuthedRequest, res: Response) {
       return fail(res, "Unauthorized", 401);
     }
 
-    if (req.user.role !== "SUPER_ADMIN") {
-      return fail(res, "Forbidden: Only super admins can deactivate admin users", 403);
+    if (!hasPermission(req.user, "admins.manage")) {
+      return fail(res, "Forbidden: You do not have permission to deactivate admin users", 403);
     }
 
     const { id } = req.params;
@@ -588,6 +594,8 @@ export async function deactivateAdmin(req: AuthedRequest, res: Response) {
       data: { active: false },
     });
 
+    await revokeAllUserSessions(id);
+
     // Audit log
     await prisma.auditLog.create({
       data: {
@@ -624,7 +632,7 @@ export async function getWorkers(req: AuthedRequest, res: Response) {
       return fail(res, "Unauthorized", 401);
     }
 
-    if (!["ADMIN", "SUPER_ADMIN"].includes(req.user.role)) {
+    if (!hasPermission(req.user, "workers.manage")) {
       return fail(res, "Forbidden", 403);
     }
 
@@ -637,6 +645,8 @@ export async function getWorkers(req: AuthedRequest, res: Response) {
         phone: true,
         active: true,
         createdAt: true,
+        weeklyCapacityHours: true,
+        skills: true,
         _count: {
           select: {
             tasksAssigned: true,
@@ -647,6 +657,8 @@ export async function getWorkers(req: AuthedRequest, res: Response) {
       orderBy: { createdAt: "desc" },
     });
 
+    const loads = await getWorkerLoads(workers);
+
     return success(res, {
       workers: workers.map((w) => ({
         id: w.id,
@@ -655,6 +667,8 @@ export async function getWorkers(req: AuthedRequest, res: Response) {
         phone: w.phone,
         active: w.active,
         createdAt: w.createdAt,
+        skills: w.skills,
+        load: loads.get(w.id),
         totalTasks: w._count.tasksAssigned,
         totalApplications: w._count.jobApplications,
       })),
@@ -668,7 +682,8 @@ export async function getWorkers(req: AuthedRequest, res: Response) {
 
 /**
  * POST /api/settings/workers
- * Create a new worker
+ * Invite a new worker (no password is set by the admin - the invitee
+ * receives an expiring link and chooses their own password)
  * ADMIN, SUPER_ADMIN
  */
 export async function createWorker(req: AuthedRequest, res: Response) {
@@ -677,74 +692,42 @@ export async function createWorker(req: AuthedRequest, res: Response) {
       return fail(res, "Unauthorized", 401);
     }
 
-    if (!["ADMIN", "SUPER_ADMIN"].includes(req.user.role)) {
+    if (!hasPermission(req.user, "workers.manage")) {
       return fail(res, "Forbidden", 403);
     }
 
-    const { name, email, phone, password } = req.body;
-
-    if (!name || !email || !password) {
-      return fail(res, "Name, email, and password are required", 400);
-    }
+    const { name, email, phone } = req.body;
 
-    if (password.length < 6) {
-      return fail(res, "Password must be at least 6 characters", 400);
+    const error = await validateNewInvitation({ name, email, role: "WORKER" }, req.user);
+    if (error) {
+      return fail(res, error.message, error.status);
     }
 
-    // Check if email exists
-    const existing = await prisma.user.findUnique({
-      where: { email: email.toLowerCase() },
-    });
-
-    if (existing) {
-      return fail(res, "A user with this email already exists", 409);
-    }
-
-    const passwordHash = await hashPassword(password);
-
-    const worker = await prisma.user.create({
-      data: {
-        name,
-        email: email.toLowerCase(),
-        phone: phone || null,
-        passwordHash,
-        role: "WORKER",
-        active: true,
-      },
-      select: {
-        id: true,
-        name: true,
-        email: true,
-        phone: true,
-        role: true,
-        active: true,
-        createdAt: true,
-      },
-    });
+    const invitation = await issueInvitation({ name, email, phone, role: "WORKER" }, req.user);
 
     // Audit log
     await prisma.auditLog.create({
       data: {
         userId: req.user.id,
-        actionType: "WORKER_CREATED",
-        entityType: "USER",
-        entityId: worker.id,
+        actionType: "INVITATION_SENT",
+        entityType: "INVITATION",
+        entityId: invitation.id,
         metaJson: {
-          workerEmail: worker.email,
-          workerName: worker.name,
-          createdBy: req.user.email,
-          createdByRole: req.user.role,
+          email: invitation.email,
+          name: invitation.name,
+          role: invitation.role,
+          invitedBy: req.user.email,
         },
       },
     });
 
     return success(res, {
-      message: "Worker created successfully",
-      worker,
+      message: "Invitation sent. The worker will set their own password.",
+      invitation: serializeInvitation(invitation),
     }, 201);
   } catch (err: any) {
     console.error("createWorker error:", err);
-    return fail(res, "Failed to create worker", 500);
+    return fail(res, "Failed to invite worker", 500);
   }
 }
 
@@ -759,7 +742,7 @@ export async function getWorker(req: AuthedRequest, res: Response) {
       return fail(res, "Unauthorized", 401);
     }
 
-    if (!["ADMIN", "SUPER_ADMIN"].includes(req.user.role)) {
+    if (!hasPermission(req.user, "workers.manage")) {
       return fail(res, "Forbidden", 403);
     }
 
@@ -776,6 +759,8 @@ export async function getWorker(req: AuthedRequest, res: Response) {
         active: true,
         createdAt: true,
         updatedAt: true,
+        weeklyCapacityHours: true,
+        skills: true,
         tasksAssigned: {
           select: {
             id: true,
@@ -821,6 +806,8 @@ export async function getWorker(req: AuthedRequest, res: Response) {
       return fail(res, "User is not a worker", 400);
     }
 
+    const loads = await getWorkerLoads([worker]);
+
     // Calculate stats
     const completedTasks = worker.tasksAssigned.filter((t) => t.status === "DONE").length;
     const totalEarned = worker.tasksAssigned
@@ -835,6 +822,8 @@ export async function getWorker(req: AuthedRequest, res: Response) {
         phone: worker.phone,
         active: worker.active,
         createdAt: worker.createdAt,
+        skills: worker.skills,
+        load: loads.get(worker.id),
         stats: {
           totalTasks: worker._count.tasksAssigned,
           completedTasks,
@@ -856,6 +845,7 @@ export async function getWorker(req: AuthedRequest, res: Response) {
 /**
  * PATCH /api/settings/workers/:id
  * Update a worker
+ * Body: { name?, phone?, active?, weeklyCapacityHours?, skills? }
  * ADMIN, SUPER_ADMIN
  */
 export async function updateWorker(req: AuthedRequest, res: Response) {
@@ -864,12 +854,12 @@ export async function updateWorker(req: AuthedRequest, res: Response) {
       return fail(res, "Unauthorized", 401);
     }
 
-    if (!["ADMIN", "SUPER_ADMIN"].includes(req.user.role)) {
+    if (!hasPermission(req.user, "workers.manage")) {
       return fail(res, "Forbidden", 403);
     }
 
     const { id } = req.params;
-    const { name, phone, active } = req.body;
+    const { name, phone, active, weeklyCapacityHours, skills } = req.body;
 
     const worker = await prisma.user.findUnique({
       where: { id },
@@ -883,12 +873,26 @@ export async function updateWorker(req: AuthedRequest, res: Response) {
       return fail(res, "User is not a worker", 400);
     }
 
+    if (
+      weeklyCapacityHours !== undefined &&
+      (typeof weeklyCapacityHours !== "number" || weeklyCapacityHours < 0 || weeklyCapacityHours > 168)
+    ) {
+      return fail(res, "weeklyCapacityHours must be a number between 0 and 168", 400);
+    }
+
+    const nextSkills = skills === undefined ? worker.skills : normalizeSkills(skills);
+    if (!nextSkills) {
+      return fail(res, "skills must be an array of strings", 400);
+    }
+
     const updated = await prisma.user.update({
       where: { id },
       data: {
         name: name ?? worker.name,
         phone: phone ?? worker.phone,
         active: active ?? worker.active,
+        weeklyCapacityHours: weeklyCapacityHours ?? worker.weeklyCapacityHours,
+        skills: nextSkills,
       },
       select: {
         id: true,
@@ -896,10 +900,16 @@ export async function updateWorker(req: AuthedRequest, res: Response) {
         email: true,
         phone: true,
         active: true,
+        weeklyCapacityHours: true,
+        skills: true,
         updatedAt: true,
       },
     });
 
+    if (active === false) {
+      await revokeAllUserSessions(id);
+    }
+
     // Audit log
     await prisma.auditLog.create({
       data: {
@@ -908,7 +918,7 @@ export async function updateWorker(req: AuthedRequest, res: Response) {
         entityType: "USER",
         entityId: id,
         metaJson: {
-          changes: { name, phone, active },
+          changes: { name, phone, active, weeklyCapacityHours, skills },
           updatedBy: req.user.email,
           updatedByRole: req.user.role,
         },
@@ -936,7 +946,7 @@ export async function deactivateWorker(req: AuthedRequest, res: Response) {
       return fail(res, "Unauthorized", 401);
     }
 
-    if (!["ADMIN", "SUPER_ADMIN"].includes(req.user.role)) {
+    if (!hasPermission(req.user, "workers.manage")) {
       return fail(res, "Forbidden", 403);
     }
 
@@ -959,6 +969,8 @@ export async function deactivateWorker(req: AuthedRequest, res: Response) {
       data: { active: false },
     });
 
+    await revokeAllUserSessions(id);
+
     // Audit log
     await prisma.auditLog.create({
       data: {
@@ -997,7 +1009,7 @@ export async function adminJoinChat(req: AuthedRequest, res: Response) {
       return fail(res, "Unauthorized", 401);
     }
 
-    if (!["ADMIN", "SUPER_ADMIN"].includes(req.user.role)) {
+    if (!hasPermission(req.user, "chats.oversee")) {
       return fail(res, "Forbidden", 403);
     }
 
@@ -1076,7 +1088,7 @@ export async function getAllChats(req: AuthedRequest, res: Response) {
       return fail(res, "Unauthorized", 401);
     }
 
-    if (!["ADMIN", "SUPER_ADMIN"].includes(req.user.role)) {
+    if (!hasPermission(req.user, "chats.oversee")) {
       return fail(res, "Forbidden", 403);
     }
 
@@ -1,6 +1,6 @@
 import { Router } from "express";
 import { authRequired } from "../../middleware/auth";
-import { requireRole } from "../../middleware/requireRole";
+import { requirePermission } from "../../middleware/requirePermission";
 import {
   // Platform settings
   getSupportChannels,
@@ -59,7 +59,7 @@ router.get("/privacy", getPrivacyPolicy);
 router.patch(
   "/terms",
   authRequired,
-  requireRole("SUPER_ADMIN"),
+  requirePermission("settings.manage"),
   updateTermsAndConditions
 );
 
@@ -67,7 +67,7 @@ router.patch(
 router.patch(
   "/privacy",
   authRequired,
-  requireRole("SUPER_ADMIN"),
+  requirePermission("settings.manage"),
   updatePrivacyPolicy
 );
 
@@ -79,7 +79,7 @@ router.patch(
 router.post(
   "/admins",
   authRequired,
-  requireRole("SUPER_ADMIN"),
+  requirePermission("admins.manage"),
   createAdmin
 );
 
@@ -87,7 +87,7 @@ router.post(
 router.post(
   "/create-admin",
   authRequired,
-  requireRole("SUPER_ADMIN"),
+  requirePermission("admins.manage"),
   createAdmin
 );
 
@@ -95,7 +95,7 @@ router.post(
 router.get(
   "/admins",
   authRequired,
-  requireRole("SUPER_ADMIN"),
+  requirePermission("admins.manage"),
   getAdmins
 );
 
@@ -103,7 +103,7 @@ router.get(
 router.patch(
   "/admins/:id",
   authRequired,
-  requireRole("SUPER_ADMIN"),
+  requirePermission("admins.manage"),
   updateAdmin
 );
 
@@ -111,7 +111,7 @@ router.patch(
 router.delete(
   "/admins/:id",
   authRequired,
-  requireRole("SUPER_ADMIN"),
+  requirePermission("admins.manage"),
   deactivateAdmin
 );
 
@@ -123,7 +123,7 @@ router.delete(
 router.get(
   "/workers",
   authRequired,
-  requireRole("ADMIN", "SUPER_ADMIN"),
+  requirePermission("workers.manage"),
   getWorkers
 );
 
@@ -131,7 +131,7 @@ router.get(
 router.post(
   "/workers",
   authRequired,
-  requireRole("ADMIN", "SUPER_ADMIN"),
+  requirePermission("workers.manage"),
   createWorker
 );
 
@@ -139,7 +139,7 @@ router.post(
 router.get(
   "/workers/:id",
   authRequired,
-  requireRole("ADMIN", "SUPER_ADMIN"),
+  requirePermission("workers.manage"),
   getWorker
 );
 
@@ -147,7 +147,7 @@ router.get(
 router.patch(
   "/workers/:id",
   authRequired,
-  requireRole("ADMIN", "SUPER_ADMIN"),
+  requirePermission("workers.manage"),
   updateWorker
 );
 
@@ -155,7 +155,7 @@ router.patch(
 router.delete(
   "/workers/:id",
   authRequired,
-  requireRole("ADMIN", "SUPER_ADMIN"),
+  requirePermission("workers.manage"),
   deactivateWorker
 );
 
@@ -167,7 +167,7 @@ router.delete(
 router.get(
   "/chats",
   authRequired,
-  requireRole("ADMIN", "SUPER_ADMIN"),
+  requirePermission("chats.oversee"),
   getAllChats
 );
 
@@ -175,7 +175,7 @@ router.get(
 router.post(
   "/chats/:channelId/join",
   authRequired,
-  requireRole("ADMIN", "SUPER_ADMIN"),
+  requirePermission("chats.oversee"),
   adminJoinChat
 );
 
@@ -188,7 +188,7 @@ router.post(
 router.get(
   "/",
   authRequired,
-  requireRole("SUPER_ADMIN"),
+  requirePermission("settings.manage"),
   getPlatformSettings
 );
 
@@ -196,7 +196,7 @@ router.get(
 router.patch(
   "/",
   authRequired,
-  requireRole("SUPER_ADMIN"),
+  requirePermission("settings.manage"),
   updatePlatformSettings
 );
 
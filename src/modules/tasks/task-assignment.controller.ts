@@ -0,0 +1,100 @@
+import { Response } from "express";
+import { prisma } from "../../config/prisma";
+import { AuthedRequest } from "../../middleware/auth";
+import { success, fail } from "../../utils/response";
+import { getApiKeyClientScope } from "../../services/apiKey.service";
+import {
+  AssignmentError,
+  autoAssignTask,
+  normalizeSkills,
+  suggestAssignees,
+} from "../../services/workerCapacity.service";
+
+const DEFAULT_LIMIT = 5;
+
+function parseLimit(value: unknown): number | null {
+  if (value === undefined) return DEFAULT_LIMIT;
+  const limit = Number(value);
+  return Number.isInteger(limit) && limit >= 1 && limit <= 50 ? limit : null;
+}
+
+/**
+ * GET /tasks/:taskId/assignee-suggestions?limit=5
+ * Workers ranked by skill match, load, on-time history and past work for
+ * the same client
+ * tasks.manage
+ */
+export async function getAssigneeSuggestions(req: AuthedRequest, res: Response) {
+  try {
+    const limit = parseLimit(req.query.limit);
+    if (!limit) return fail(res, "limit must be an integer between 1 and 50", 400);
+
+    const task = await prisma.task.findUnique({ where: { id: req.params.taskId } });
+    if (!task) return fail(res, "Task not found", 404);
+
+    const scopeClientId = getApiKeyClientScope(req.user);
+    if (scopeClientId && task.clientId !== scopeClientId) return fail(res, "Forbidden", 403);
+
+    return success(res, await suggestAssignees(task, limit));
+  } catch (err: any) {
+    console.error("getAssigneeSuggestions error:", err);
+    return fail(res, "Failed to suggest assignees", 500);
+  }
+}
+
+/**
+ * POST /tasks/assignee-suggestions
+ * Same ranking for a task that is not created yet (or a client to assign)
+ * Body: { clientId?, requiredSkills?, estimatedHours?, limit? }
+ * tasks.create
+ */
+export async function getDraftAssigneeSuggestions(req: AuthedRequest, res: Response) {
+  try {
+    const { clientId, estimatedHours } = req.body;
+
+    const limit = parseLimit(req.body.limit);
+    if (!limit) return fail(res, "limit must be an integer between 1 and 50", 400);
+
+    const requiredSkills = normalizeSkills(req.body.requiredSkills ?? []);
+    if (!requiredSkills) return fail(res, "requiredSkills must be an array of strings", 400);
+
+    if (estimatedHours != null && (typeof estimatedHours !== "number" || estimatedHours <= 0)) {
+      return fail(res, "estimatedHours must be a positive number", 400);
+    }
+
+    const scopeClientId = getApiKeyClientScope(req.user);
+    if (scopeClientId && clientId !== scopeClientId) return fail(res, "Forbidden", 403);
+
+    const suggestions = await suggestAssignees(
+      { clientId: clientId || null, requiredSkills, estimatedHours: estimatedHours ?? null },
+      limit
+    );
+
+    return success(res, suggestions);
+  } catch (err: any) {
+    console.error("getDraftAssigneeSuggestions error:", err);
+    return fail(res, "Failed to suggest assignees", 500);
+  }
+}
+
+/**
+ * POST /tasks/:taskId/auto-assign
+ * Assign an unassigned, non-broadcast task to the top suggestion that has
+ * all required skills and free capacity
+ * tasks.manage
+ */
+export async function autoAssign(req: AuthedRequest, res: Response) {
+  try {
+    const task = await prisma.task.findUnique({ where: { id: req.params.taskId } });
+    if (!task) return fail(res, "Task not found", 404);
+
+    const scopeClientId = getApiKeyClientScope(req.user);
+    if (scopeClientId && task.clientId !== scopeClientId) return fail(res, "Forbidden", 403);
+
+    return success(res, await autoAssignTask(task, req.user!));
+  } catch (err: any) {
+    if (err instanceof AssignmentError) return fail(res, err.message, err.status);
+    console.error("autoAssign error:", err);
+    return fail(res, "Failed to auto-assign task", 500);
+  }
+}
@@ -0,0 +1,348 @@
+import crypto from "crypto";
+import { Response } from "express";
+import { Prisma, Task, TaskStatus } from "@prisma/client";
+import { prisma } from "../../config/prisma";
+import { AuthedRequest } from "../../middleware/auth";
+import { success, fail } from "../../utils/response";
+import { hasPermission } from "../../services/permission.service";
+import { getApiKeyClientScope } from "../../services/apiKey.service";
+import { TaskTransitionError, transitionTask } from "../../services/taskStatus.service";
+import { broadcastTask, getBroadcastBlocker } from "../../services/jobBroadcast.service";
+
+// Largest batch one request may touch; narrow the filter beyond this
+const MAX_BULK_TASKS = 500;
+
+const FILTER_KEYS = ["assignedToId", "clientId", "contractId", "status", "jobStatus", "dueBefore", "dueAfter", "archived"];
+
+type BulkUser = NonNullable<AuthedRequest["user"]>;
+
+type BulkOperation = {
+  // Per-task work; throw BulkItemError (or TaskTransitionError) to fail just this task
+  apply: (task: Task) => Promise<void>;
+  // Once all tasks ran, with the ones that succeeded
+  after?: (done: Task[]) => Promise<void>;
+};
+
+class BulkItemError extends Error {}
+
+/**
+ * filter -> where clause, or an error message. Archived tasks only match
+ * with archived: true.
+ */
+function buildFilterWhere(filter: Record<string, any>): Prisma.TaskWhereInput | string {
+  if (typeof filter !== "object" || Array.isArray(filter)) return "filter must be an object";
+
+  const keys = Object.keys(filter).filter((key) => filter[key] !== undefined);
+  if (keys.length === 0) return "filter needs at least one condition";
+
+  const unknown = keys.find((key) => !FILTER_KEYS.includes(key));
+  if (unknown) return `Unknown filter "${unknown}". Use: ${FILTER_KEYS.join(", ")}`;
+
+  const where: Prisma.TaskWhereInput = {};
+
+  if (filter.assignedToId !== undefined) where.assignedToId = filter.assignedToId;
+  if (filter.clientId !== undefined) where.clientId = filter.clientId;
+  if (filter.contractId !== undefined) where.contractId = filter.contractId;
+  if (filter.status) where.status = Array.isArray(filter.status) ? { in: filter.status } : filter.status;
+  if (filter.jobStatus) where.jobStatus = Array.isArray(filter.jobStatus) ? { in: filter.jobStatus } : filter.jobStatus;
+
+  if (filter.dueBefore || filter.dueAfter) {
+    const dueBefore = filter.dueBefore ? new Date(filter.dueBefore) : null;
+    const dueAfter = filter.dueAfter ? new Date(filter.dueAfter) : null;
+    if ((dueBefore && isNaN(dueBefore.getTime())) || (dueAfter && isNaN(dueAfter.getTime()))) {
+      return "dueBefore and dueAfter must be valid dates";
+    }
+    where.dueDate = { ...(dueBefore ? { lt: dueBefore } : {}), ...(dueAfter ? { gte: dueAfter } : {}) };
+  }
+
+  where.archivedAt = filter.archived === true ? { not: null } : null;
+
+  return where;
+}
+
+/**
+ * Request-level validation of the operation and its params. Returns the
+ * operation, or an error message.
+ */
+async function buildOperation(
+  user: BulkUser,
+  operation: string,
+  params: Record<string, any>,
+  batchId: string
+): Promise<BulkOperation | string> {
+  switch (operation) {
+    case "reassign": {
+      const { assignedToId } = params;
+      if (!assignedToId) return "params.assignedToId is required";
+
+      // Same check as PATCH /tasks/:id
+      const worker = await prisma.user.findUnique({
+        where: { id: assignedToId },
+        select: { id: true, role: true },
+      });
+      if (!worker || worker.role !== "WORKER") return "Invalid assignedToId: worker not found";
+
+      return {
+        apply: async (task) => {
+          if (task.assignedToId === assignedToId) throw new BulkItemError("Already assigned to this worker");
+          if (task.status === "DONE" || task.status === "REJECTED") {
+            throw new BulkItemError(`Cannot reassign a ${task.status} task`);
+          }
+          await prisma.task.update({ where: { id: task.id }, data: { assignedToId } });
+        },
+        after: async (done) => {
+          if (done.length === 0) return;
+          await prisma.notification.create({
+            data: {
+              userId: assignedToId,
+              type: "TASKS_ASSIGNED",
+              title: "Tasks Assigned to You",
+              body:
+                done.length === 1
+                  ? `"${done[0].title}" was assigned to you.`
+                  : `${done.length} tasks were assigned to you, including "${done[0].title}".`,
+            },
+          });
+        },
+      };
+    }
+
+    case "status": {
+      const { status, message } = params;
+      if (!status) return "params.status is required";
+
+      // Each task goes through the task state machine like PATCH /tasks/:id/status
+      return {
+        apply: async (task) => {
+          if (task.status === status) throw new BulkItemError(`Task is already ${status}`);
+          await transitionTask(task, { status: status as TaskStatus }, user, {
+            message: message || `Bulk status change to ${status}`,
+            details: { batchId },
+            audit: false,
+          });
+        },
+      };
+    }
+
+    case "dueDate": {
+      const { dueDate } = params;
+      if (dueDate === undefined) return "params.dueDate is required (null clears it)";
+
+      const nextDueDate = dueDate === null ? null : new Date(dueDate);
+      if (nextDueDate && isNaN(nextDueDate.getTime())) return "params.dueDate must be a valid date";
+
+      return {
+        apply: async (task) => {
+          if (task.status === "DONE" || task.status === "REJECTED") {
+            throw new BulkItemError(`Cannot change the due date of a ${task.status} task`);
+          }
+          // A new due date restarts the SLA escalation steps
+          await prisma.task.update({
+            where: { id: task.id },
+            data: { dueDate: nextDueDate, slaStage: "ON_TRACK", slaNotifiedAt: null },
+          });
+        },
+      };
+    }
+
+    case "paymentAmount": {
+      const amount = Number(params.paymentAmount);
+      if (params.paymentAmount === undefined || isNaN(amount) || amount <= 0) {
+        return "params.paymentAmount must be a positive number";
+      }
+
+      return {
+        apply: async (task) => {
+          if (task.workerPaymentStatus === "PAID") throw new BulkItemError("Worker has already been paid for this task");
+          await prisma.task.update({ where: { id: task.id }, data: { paymentAmount: amount } });
+        },
+      };
+    }
+
+    case "broadcast": {
+      // Without paymentAmount each task keeps the amount it already has
+      const amount = params.paymentAmount === undefined ? null : Number(params.paymentAmount);
+      if (amount !== null && (isNaN(amount) || amount <= 0)) {
+        return "params.paymentAmount must be a positive number";
+      }
+
+      const deadline = params.deadline ? new Date(params.deadline) : null;
+      if (deadline && isNaN(deadline.getTime())) return "params.deadline must be a valid date";
+
+      return {
+        apply: async (task) => {
+          // Same checks as POST /jobs/:taskId/broadcast
+          const blocker = getBroadcastBlocker(task);
+          if (blocker) throw new BulkItemError(blocker);
+
+          const paymentAmount = amount ?? (task.paymentAmount ? Number(task.paymentAmount) : 0);
+          if (paymentAmount <= 0) throw new BulkItemError("Payment amount is required");
+
+          await broadcastTask(task, {
+            paymentAmount,
+            deadline: deadline ?? task.deadline,
+            postedById: user.id,
+            notifyWorkers: false,
+            audit: false,
+          });
+        },
+        // One notification per worker for the whole batch
+        after: async (done) => {
+          if (done.length === 0) return;
+
+          const workers = await prisma.user.findMany({
+            where: { role: "WORKER", active: true },
+            select: { id: true },
+          });
+          for (const worker of workers) {
+            await prisma.notification.create({
+              data: {
+                userId: worker.id,
+                type: "NEW_JOB_AVAILABLE",
+                title: done.length === 1 ? "New Job Available" : "New Jobs Available",
+                body:
+                  done.length === 1
+                    ? `"${done[0].title}" is now available.`
+                    : `${done.length} new jobs are available, including "${done[0].title}".`,
+              },
+            });
+          }
+        },
+      };
+    }
+
+    case "archive":
+      return {
+        apply: async (task) => {
+          if (task.archivedAt) throw new BulkItemError("Task is already archived");
+          if (task.status !== "DONE" && task.status !== "REJECTED") {
+            throw new BulkItemError("Only DONE or REJECTED tasks can be archived");
+          }
+          await prisma.task.update({ where: { id: task.id }, data: { archivedAt: new Date() } });
+        },
+      };
+
+    case "unarchive":
+      return {
+        apply: async (task) => {
+          if (!task.archivedAt) throw new BulkItemError("Task is not archived");
+          await prisma.task.update({ where: { id: task.id }, data: { archivedAt: null } });
+        },
+      };
+
+    default:
+      return "operation must be one of: reassign, status, dueDate, paymentAmount, broadcast, archive, unarchive";
+  }
+}
+
+/**
+ * POST /tasks/bulk
+ * Run one operation over many tasks, picked by ID or by filter
+ * tasks.manage (broadcast also needs jobs.broadcast)
+ * Body: {
+ *   taskIds?: string[],
+ *   filter?: { assignedToId, clientId, contractId, status, jobStatus, dueBefore, dueAfter, archived },
+ *   operation: "reassign" | "status" | "dueDate" | "paymentAmount" | "broadcast" | "archive" | "unarchive",
+ *   params: { assignedToId } | { status, message? } | { dueDate } | { paymentAmount } | { paymentAmount?, deadline? } | {}
+ * }
+ * Each task is validated on its own; one task failing does not stop the rest.
+ */
+export async function bulkUpdateTasks(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    const { taskIds, filter, operation, params = {} } = req.body;
+
+    if (!!taskIds === !!filter) return fail(res, "Provide either taskIds or filter", 400);
+    if (taskIds && (!Array.isArray(taskIds) || taskIds.length === 0)) {
+      return fail(res, "taskIds must be a non-empty array", 400);
+    }
+    if (taskIds && taskIds.length > MAX_BULK_TASKS) {
+      return fail(res, `At most ${MAX_BULK_TASKS} tasks per request`, 400);
+    }
+    if (typeof params !== "object" || params === null) return fail(res, "params must be an object", 400);
+
+    let where: Prisma.TaskWhereInput;
+    if (taskIds) {
+      where = { id: { in: taskIds } };
+    } else {
+      const built = buildFilterWhere(filter);
+      if (typeof built === "string") return fail(res, built, 400);
+      where = built;
+    }
+
+    const scopeClientId = getApiKeyClientScope(req.user);
+    if (scopeClientId) where = { AND: [where, { clientId: scopeClientId }] };
+
+    if (operation === "broadcast" && !hasPermission(req.user, "jobs.broadcast")) {
+      return fail(res, "Forbidden: You do not have permission to broadcast jobs", 403);
+    }
+
+    const batchId = crypto.randomUUID();
+    const bulk = await buildOperation(req.user, operation, params, batchId);
+    if (typeof bulk === "string") return fail(res, bulk, 400);
+
+    const tasks = await prisma.task.findMany({ where, orderBy: { createdAt: "asc" }, take: MAX_BULK_TASKS + 1 });
+    if (tasks.length > MAX_BULK_TASKS) {
+      return fail(res, `The filter matches more than ${MAX_BULK_TASKS} tasks; narrow it down`, 400);
+    }
+
+    const results: { taskId: string; title?: string; ok: boolean; error?: string }[] = [];
+    const done: Task[] = [];
+
+    // IDs that do not exist (or are outside an API key's client)
+    if (taskIds) {
+      const found = new Set(tasks.map((t) => t.id));
+      for (const id of new Set<string>(taskIds)) {
+        if (!found.has(id)) results.push({ taskId: id, ok: false, error: "Task not found" });
+      }
+    }
+
+    for (const task of tasks) {
+      try {
+        await bulk.apply(task);
+        done.push(task);
+        results.push({ taskId: task.id, title: task.title, ok: true });
+      } catch (err) {
+        if (!(err instanceof BulkItemError) && !(err instanceof TaskTransitionError)) {
+          console.error(`bulkUpdateTasks ${operation} error on ${task.id}:`, err);
+        }
+        const error =
+          err instanceof BulkItemError || err instanceof TaskTransitionError ? err.message : "Unexpected error";
+        results.push({ taskId: task.id, title: task.title, ok: false, error });
+      }
+    }
+
+    if (bulk.after) await bulk.after(done);
+
+    const failed = results.filter((r) => !r.ok);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user.id,
+        actionType: "TASK_BULK_OPERATION",
+        entityType: "TASK_BATCH",
+        entityId: batchId,
+        metaJson: {
+          operation,
+          params,
+          selection: taskIds ? { taskIds } : { filter },
+          succeeded: done.map((t) => t.id),
+          failed: failed.map(({ taskId, error }) => ({ taskId, error })),
+        } as any,
+      },
+    });
+
+    return success(res, {
+      batchId,
+      operation,
+      total: results.length,
+      succeeded: done.length,
+      failed: failed.length,
+      results,
+    });
+  } catch (err: any) {
+    console.error("bulkUpdateTasks error:", err);
+    return fail(res, "Bulk operation failed", 500);
+  }
+}
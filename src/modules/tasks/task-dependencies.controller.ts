@@ -0,0 +1,165 @@
+import { Response } from "express";
+import { prisma } from "../../config/prisma";
+import { AuthedRequest } from "../../middleware/auth";
+import { success, fail } from "../../utils/response";
+import { isClientMember } from "../../services/clientAccess.service";
+import { hasPermission } from "../../services/permission.service";
+import { getApiKeyClientScope } from "../../services/apiKey.service";
+import { addDependency, DependencyError } from "../../services/taskDependency.service";
+
+const taskSummary = {
+  select: { id: true, title: true, status: true, dueDate: true, assignedToId: true },
+};
+
+/**
+ * GET /tasks/:taskId/dependencies
+ * Predecessors (must be DONE first) and successors of a task
+ * tasks.manage, the assigned worker, or the task's client
+ */
+export async function getTaskDependencies(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    const { taskId } = req.params;
+
+    const task = await prisma.task.findUnique({
+      where: { id: taskId },
+      include: {
+        predecessors: { include: { predecessor: taskSummary } },
+        successors: { include: { successor: taskSummary } },
+      },
+    });
+
+    if (!task) return fail(res, "Task not found", 404);
+
+    const scopeClientId = getApiKeyClientScope(req.user);
+    const canView =
+      (!scopeClientId || task.clientId === scopeClientId) &&
+      (hasPermission(req.user, "tasks.manage") ||
+        task.assignedToId === req.user.id ||
+        (req.user.role === "CLIENT_VIEWER" &&
+          !!task.clientId &&
+          (await isClientMember(task.clientId, req.user.id))));
+
+    if (!canView) return fail(res, "Forbidden", 403);
+
+    const predecessors = task.predecessors.map((d) => d.predecessor);
+
+    return success(res, {
+      taskId: task.id,
+      predecessors,
+      successors: task.successors.map((d) => d.successor),
+      blocked: predecessors.some((p) => p.status !== "DONE"),
+    });
+  } catch (err: any) {
+    console.error("getTaskDependencies error:", err);
+    return fail(res, "Failed to fetch task dependencies", 500);
+  }
+}
+
+/**
+ * POST /tasks/:taskId/dependencies
+ * Make this task wait for another one to finish
+ * Body: { predecessorId: string }
+ * tasks.manage
+ */
+export async function addTaskDependency(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    const { taskId } = req.params;
+    const { predecessorId } = req.body;
+
+    if (!predecessorId) {
+      return fail(res, "predecessorId is required", 400);
+    }
+
+    const [task, predecessor] = await Promise.all([
+      prisma.task.findUnique({ where: { id: taskId }, select: { id: true, title: true, status: true, clientId: true } }),
+      prisma.task.findUnique({
+        where: { id: predecessorId },
+        select: { id: true, title: true, status: true, clientId: true },
+      }),
+    ]);
+
+    if (!task) return fail(res, "Task not found", 404);
+    if (!predecessor) return fail(res, "Invalid predecessorId: task does not exist", 400);
+
+    const scopeClientId = getApiKeyClientScope(req.user);
+    if (scopeClientId && (task.clientId !== scopeClientId || predecessor.clientId !== scopeClientId)) {
+      return fail(res, "Forbidden", 403);
+    }
+
+    const dependency = await addDependency(predecessor.id, task.id, req.user.id);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user.id,
+        actionType: "TASK_DEPENDENCY_ADDED",
+        entityType: "TASK",
+        entityId: task.id,
+        metaJson: {
+          predecessorId: predecessor.id,
+          predecessorTitle: predecessor.title,
+        } as any,
+      },
+    });
+
+    return success(res, {
+      dependency,
+      warning:
+        task.status !== "NOT_STARTED" && predecessor.status !== "DONE"
+          ? "Task has already started; the dependency will only apply if it is reset"
+          : undefined,
+    }, 201);
+  } catch (err: any) {
+    if (err instanceof DependencyError) return fail(res, err.message, err.status);
+    console.error("addTaskDependency error:", err);
+    return fail(res, "Failed to add task dependency", 500);
+  }
+}
+
+/**
+ * DELETE /tasks/:taskId/dependencies/:predecessorId
+ * Remove a dependency
+ * tasks.manage
+ */
+export async function removeTaskDependency(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    const { taskId, predecessorId } = req.params;
+
+    const scopeClientId = getApiKeyClientScope(req.user);
+    if (scopeClientId) {
+      const tasks = await prisma.task.findMany({
+        where: { id: { in: [taskId, predecessorId] } },
+        select: { clientId: true },
+      });
+      if (tasks.some((t) => t.clientId !== scopeClientId)) return fail(res, "Forbidden", 403);
+    }
+
+    const result = await prisma.taskDependency.deleteMany({
+      where: { predecessorId, successorId: taskId },
+    });
+
+    if (result.count === 0) {
+      return fail(res, "Dependency not found", 404);
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user.id,
+        actionType: "TASK_DEPENDENCY_REMOVED",
+        entityType: "TASK",
+        entityId: taskId,
+        metaJson: { predecessorId } as any,
+      },
+    });
+
+    return success(res, { message: "Dependency removed" });
+  } catch (err: any) {
+    console.error("removeTaskDependency error:", err);
+    return fail(res, "Failed to remove task dependency", 500);
+  }
+}
@@ -0,0 +1,60 @@
+import { Response } from "express";
+import { prisma } from "../../config/prisma";
+import { AuthedRequest } from "../../middleware/auth";
+import { success, fail } from "../../utils/response";
+import { getApiKeyClientScope } from "../../services/apiKey.service";
+import {
+  CUSTOM_FIELDS_INCLUDE,
+  CustomFieldError,
+  setCustomFieldValues,
+  setLabels,
+  withCustomFields,
+} from "../../services/customField.service";
+
+/**
+ * PATCH /tasks/:taskId/fields
+ * Set custom field values and/or replace the labels of a task
+ * Body: { customFields?: { key: value | null }, labelIds?: string[] }
+ * tasks.manage
+ */
+export async function updateTaskFields(req: AuthedRequest, res: Response) {
+  try {
+    const { customFields, labelIds } = req.body;
+
+    if (customFields === undefined && labelIds === undefined) {
+      return fail(res, "Provide customFields and/or labelIds", 400);
+    }
+    if (customFields !== undefined && (!customFields || typeof customFields !== "object" || Array.isArray(customFields))) {
+      return fail(res, "customFields must be an object keyed by field key", 400);
+    }
+
+    const task = await prisma.task.findUnique({ where: { id: req.params.taskId } });
+    if (!task) return fail(res, "Task not found", 404);
+
+    const scopeClientId = getApiKeyClientScope(req.user);
+    if (scopeClientId && task.clientId !== scopeClientId) return fail(res, "Forbidden", 403);
+
+    if (customFields) await setCustomFieldValues("TASK", task.id, customFields);
+    if (labelIds !== undefined) await setLabels("TASK", task.id, labelIds);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        actionType: "TASK_FIELDS_UPDATED",
+        entityType: "TASK",
+        entityId: task.id,
+        metaJson: { customFields, labelIds } as any,
+      },
+    });
+
+    const [updated] = withCustomFields(
+      await prisma.task.findMany({ where: { id: task.id }, select: { id: true, ...CUSTOM_FIELDS_INCLUDE } })
+    );
+
+    return success(res, updated);
+  } catch (err: any) {
+    if (err instanceof CustomFieldError) return fail(res, err.message, err.status);
+    console.error("updateTaskFields error:", err);
+    return fail(res, "Failed to update task fields", 500);
+  }
+}
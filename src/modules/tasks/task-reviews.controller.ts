@@ -0,0 +1,273 @@
+import { Response } from "express";
+import { prisma } from "../../config/prisma";
+import { AuthedRequest } from "../../middleware/auth";
+import { success, fail } from "../../utils/response";
+import { getClientMembership, clientRoleCan, isClientMember } from "../../services/clientAccess.service";
+import { hasPermission } from "../../services/permission.service";
+import { getApiKeyClientScope } from "../../services/apiKey.service";
+import {
+  TaskTransitionError,
+  assertTaskTransition,
+  recordTaskTransition,
+  runTaskTransitionEffects,
+} from "../../services/taskStatus.service";
+
+async function loadTaskForDecision(taskId: string) {
+  return prisma.task.findUnique({
+    where: { id: taskId },
+    include: {
+      assignedTo: { select: { id: true, name: true } },
+      reviews: { where: { decision: "PENDING" }, orderBy: { round: "desc" }, take: 1 },
+    },
+  });
+}
+
+/**
+ * GET /tasks/reviews/pending
+ * Deliverables waiting for my decision (client approvers; tasks.manage sees all)
+ */
+export async function listPendingReviews(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    const where: any = {
+      requiresApproval: true,
+      status: "WAITING",
+      clientApprovalStatus: "PENDING",
+      reviews: { some: { decision: "PENDING" } },
+    };
+
+    const scopeClientId = getApiKeyClientScope(req.user);
+    if (scopeClientId) where.clientId = scopeClientId;
+
+    if (!hasPermission(req.user, "tasks.manage")) {
+      const membership = await getClientMembership(req.user.id);
+      if (!membership || !clientRoleCan(membership.role, "approve")) {
+        return success(res, []);
+      }
+      where.clientId = membership.clientId;
+    }
+
+    const tasks = await prisma.task.findMany({
+      where,
+      include: {
+        assignedTo: { select: { id: true, name: true } },
+        client: { select: { id: true, companyName: true } },
+        reviews: { where: { decision: "PENDING" }, take: 1 },
+      },
+      orderBy: { updatedAt: "asc" },
+    });
+
+    return success(res, tasks.map(({ reviews, ...task }) => ({ ...task, review: reviews[0] || null })));
+  } catch (err: any) {
+    console.error("listPendingReviews error:", err);
+    return fail(res, "Failed to fetch pending reviews", 500);
+  }
+}
+
+/**
+ * GET /tasks/:taskId/reviews
+ * Review rounds of a task with their deliverables
+ * tasks.manage, the assigned worker, or the task's client
+ */
+export async function getTaskReviews(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    const { taskId } = req.params;
+
+    const task = await prisma.task.findUnique({
+      where: { id: taskId },
+      select: {
+        id: true,
+        clientId: true,
+        assignedToId: true,
+        requiresApproval: true,
+        clientApprovalStatus: true,
+        revisionCount: true,
+        reviews: {
+          include: {
+            submittedBy: { select: { id: true, name: true } },
+            decidedBy: { select: { id: true, name: true } },
+          },
+          orderBy: { round: "desc" },
+        },
+      },
+    });
+
+    if (!task) return fail(res, "Task not found", 404);
+
+    const scopeClientId = getApiKeyClientScope(req.user);
+    const canView =
+      (!scopeClientId || task.clientId === scopeClientId) &&
+      (hasPermission(req.user, "tasks.manage") ||
+        task.assignedToId === req.user.id ||
+        (!!task.clientId && (await isClientMember(task.clientId, req.user.id))));
+
+    if (!canView) return fail(res, "Forbidden", 403);
+
+    const fileIds = task.reviews.flatMap((r) => (Array.isArray(r.fileIds) ? (r.fileIds as string[]) : []));
+    const files = fileIds.length
+      ? await prisma.file.findMany({
+          where: { id: { in: fileIds } },
+          select: { id: true, filename: true, fileUrl: true, fileType: true, fileSize: true, createdAt: true },
+        })
+      : [];
+    const filesById = new Map(files.map((f) => [f.id, f]));
+
+    const { reviews, ...summary } = task;
+
+    return success(res, {
+      ...summary,
+      reviews: reviews.map(({ fileIds, ...review }) => ({
+        ...review,
+        files: (Array.isArray(fileIds) ? (fileIds as string[]) : [])
+          .map((id) => filesById.get(id))
+          .filter(Boolean),
+      })),
+    });
+  } catch (err: any) {
+    console.error("getTaskReviews error:", err);
+    return fail(res, "Failed to fetch task reviews", 500);
+  }
+}
+
+/**
+ * POST /tasks/:taskId/approve
+ * Client approves the submitted deliverable: the task is DONE and its payout
+ * becomes eligible
+ * Body: { comments?: string }
+ */
+export async function approveTask(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    const { taskId } = req.params;
+    const { comments } = req.body;
+
+    const task = await loadTaskForDecision(taskId);
+    if (!task) return fail(res, "Task not found", 404);
+
+    // Client approvers (or tasks.manage on their behalf) move the task to DONE
+    const review = task.reviews[0];
+    const isClient = !!task.clientId && (await isClientMember(task.clientId, req.user.id));
+    const checked = await assertTaskTransition(task, "CLIENT_APPROVE", req.user, {
+      round: review?.round,
+      revisionCount: task.revisionCount,
+      comments: comments || null,
+      onBehalfOfClient: !isClient,
+    });
+    if (!review) return fail(res, "Task is not awaiting client review", 400);
+
+    const now = new Date();
+    const currentMeta = (task.meta as Record<string, any>) || {};
+
+    const updatedTask = await prisma.$transaction(async (tx) => {
+      const updated = await recordTaskTransition(tx, checked, {
+        message: `Approved by client${comments ? `: ${comments}` : ""}`,
+        data: {
+          meta: {
+            ...currentMeta,
+            completedAt: now.toISOString(),
+            completedBy: task.assignedToId,
+            approvedAt: now.toISOString(),
+            approvedBy: req.user!.id,
+          },
+        },
+      });
+
+      await tx.taskReview.update({
+        where: { id: review.id },
+        data: {
+          decision: "APPROVED",
+          comments: comments || null,
+          decidedById: req.user!.id,
+          decidedAt: now,
+        },
+      });
+
+      return updated;
+    });
+
+    // Worker notified, successors unblocked
+    await runTaskTransitionEffects(checked, updatedTask);
+
+    return success(res, {
+      task: updatedTask,
+      message: "Deliverable approved. The task is complete.",
+    });
+  } catch (err: any) {
+    if (err instanceof TaskTransitionError) return fail(res, err.message, err.status);
+    console.error("approveTask error:", err);
+    return fail(res, "Failed to approve task", 500);
+  }
+}
+
+/**
+ * POST /tasks/:taskId/request-revision
+ * Client sends the deliverable back to the worker
+ * Body: { comments: string }
+ */
+export async function requestTaskRevision(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    const { taskId } = req.params;
+    const { comments } = req.body;
+
+    if (!comments || typeof comments !== "string" || !comments.trim()) {
+      return fail(res, "Comments are required when requesting a revision", 400);
+    }
+
+    const task = await loadTaskForDecision(taskId);
+    if (!task) return fail(res, "Task not found", 404);
+
+    // Back to IN_PROGRESS for the worker, with one more revision counted
+    const review = task.reviews[0];
+    const isClient = !!task.clientId && (await isClientMember(task.clientId, req.user.id));
+    const checked = await assertTaskTransition(task, "REQUEST_REVISION", req.user, {
+      round: review?.round,
+      revisionCount: task.revisionCount + 1,
+      comments: comments.trim(),
+    });
+    if (!review) return fail(res, "Task is not awaiting client review", 400);
+
+    const updatedTask = await prisma.$transaction(async (tx) => {
+      const updated = await recordTaskTransition(tx, checked, {
+        message: `Revision requested: ${comments.trim()}`,
+      });
+
+      await tx.taskReview.update({
+        where: { id: review.id },
+        data: {
+          decision: "REVISION_REQUESTED",
+          comments: comments.trim(),
+          decidedById: req.user!.id,
+          decidedAt: new Date(),
+        },
+      });
+
+      await tx.taskComment.create({
+        data: {
+          taskId,
+          userId: req.user!.id,
+          content: `Revision requested: ${comments.trim()}`,
+          isClientComment: isClient,
+        },
+      });
+
+      return updated;
+    });
+
+    await runTaskTransitionEffects(checked, updatedTask);
+
+    return success(res, {
+      task: updatedTask,
+      message: "Revision requested. The worker has been notified.",
+    });
+  } catch (err: any) {
+    if (err instanceof TaskTransitionError) return fail(res, err.message, err.status);
+    console.error("requestTaskRevision error:", err);
+    return fail(res, "Failed to request revision", 500);
+  }
+}
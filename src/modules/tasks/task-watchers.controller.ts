@@ -0,0 +1,98 @@
+import { Response } from "express";
+import { prisma } from "../../config/prisma";
+import { AuthedRequest } from "../../middleware/auth";
+import { success, fail } from "../../utils/response";
+import {
+  getTaskAccess,
+  getTaskAudience,
+  getTaskWatcherIds,
+  setTaskWatching,
+} from "../../services/taskWatcher.service";
+
+/**
+ * The task plus the users who can see it, or an error response
+ */
+async function loadWatchableTask(req: AuthedRequest, res: Response) {
+  const task = await prisma.task.findUnique({
+    where: { id: req.params.taskId },
+    select: { id: true, title: true, clientId: true, assignedToId: true },
+  });
+  if (!task) {
+    fail(res, "Task not found", 404);
+    return null;
+  }
+
+  const access = await getTaskAccess(req.user, task);
+  if (!access.allowed) {
+    fail(res, "Forbidden", 403);
+    return null;
+  }
+
+  return { task, audience: await getTaskAudience(task) };
+}
+
+/**
+ * GET /tasks/:taskId/watchers
+ * Who is notified about this task, and whether I am
+ * Anyone who can see the task
+ */
+export async function getTaskWatchers(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    const loaded = await loadWatchableTask(req, res);
+    if (!loaded) return;
+
+    const watcherIds = new Set(await getTaskWatcherIds(loaded.task, loaded.audience));
+
+    return success(res, {
+      watching: watcherIds.has(req.user.id),
+      watchers: loaded.audience
+        .filter((u) => watcherIds.has(u.id))
+        .map(({ id, name, role }) => ({ id, name, role })),
+    });
+  } catch (err: any) {
+    console.error("getTaskWatchers error:", err);
+    return fail(res, "Failed to fetch watchers", 500);
+  }
+}
+
+/**
+ * POST /tasks/:taskId/watch
+ * Follow a task: get notified about its comments
+ */
+export async function watchTask(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    const loaded = await loadWatchableTask(req, res);
+    if (!loaded) return;
+
+    await setTaskWatching(loaded.task.id, req.user.id, true);
+
+    return success(res, { watching: true });
+  } catch (err: any) {
+    console.error("watchTask error:", err);
+    return fail(res, "Failed to follow task", 500);
+  }
+}
+
+/**
+ * DELETE /tasks/:taskId/watch
+ * Unfollow a task (also opts out of the automatic subscription)
+ */
+export async function unwatchTask(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    const loaded = await loadWatchableTask(req, res);
+    if (!loaded) return;
+
+    await setTaskWatching(loaded.task.id, req.user.id, false);
+
+    return success(res, { watching: false });
+  } catch (err: any) {
+    console.error("unwatchTask error:", err);
+    return fail(res, "Failed to unfollow task", 500);
+  }
+}
@@ -2,13 +2,40 @@ import { Response } from "express";
 import { prisma } from "../../config/prisma";
 import { AuthedRequest } from "../../middleware/auth";
 import { success, fail } from "../../utils/response";
+import { getClientForUser, isClientMember } from "../../services/clientAccess.service";
+import { hasPermission } from "../../services/permission.service";
+import { getApiKeyClientScope } from "../../services/apiKey.service";
+import {
+  buildChecklistTree,
+  getChecklistProgress,
+  withChecklistProgress,
+} from "../../services/checklist.service";
+import { getSlaStatus, withSlaStatus } from "../../services/sla.service";
+import { TaskReviewError, submitTaskForReview } from "../../services/taskReview.service";
+import {
+  TaskTransitionError,
+  assertTaskTransition,
+  getAvailableTransitions,
+  recordTaskTransition,
+  runTaskTransitionEffects,
+  transitionTask,
+} from "../../services/taskStatus.service";
+import {
+  CUSTOM_FIELDS_INCLUDE,
+  CustomFieldError,
+  buildCustomFieldFilters,
+  withCustomFields,
+} from "../../services/customField.service";
+import { AssignmentError, autoAssignTask, normalizeSkills } from "../../services/workerCapacity.service";
 
 /**
  * GET /tasks
  * Role behavior:
- *  - SUPER_ADMIN, ADMIN: all tasks
+ *  - tasks.manage: all tasks
  *  - WORKER: tasks assigned to me
  *  - CLIENT_VIEWER: tasks for my company
+ * Archived tasks are left out unless ?archived=true (then only those)
+ * Filters: ?labels=a,b and ?field[key]=value (see buildCustomFieldFilters)
  */
 export async function listTasks(req: AuthedRequest, res: Response) {
   const role = req.user?.role;
@@ -16,45 +43,60 @@ export async function listTasks(req: AuthedRequest, res: Response) {
 
   if (!role || !userId) return fail(res, "Unauthorized", 401);
 
-  // SUPER_ADMIN and ADMIN see all tasks
-  if (role === "SUPER_ADMIN" || role === "ADMIN") {
+  const archivedAt = req.query.archived === "true" ? { not: null } : null;
+
+  let fieldFilters;
+  try {
+    fieldFilters = await buildCustomFieldFilters("TASK", req.query);
+  } catch (err) {
+    if (err instanceof CustomFieldError) return fail(res, err.message, err.status);
+    throw err;
+  }
+
+  // tasks.manage sees all tasks (client-scoped API keys: that client's)
+  if (hasPermission(req.user, "tasks.manage")) {
+    const scopeClientId = getApiKeyClientScope(req.user);
     const all = await prisma.task.findMany({
+      where: scopeClientId
+        ? { clientId: scopeClientId, archivedAt, AND: fieldFilters }
+        : { archivedAt, AND: fieldFilters },
       include: {
         client: true,
         assignedTo: { select: { id: true, name: true } },
+        ...CUSTOM_FIELDS_INCLUDE,
       },
       orderBy: { createdAt: "desc" },
     });
-    return success(res, all);
+    return success(res, withSlaStatus(withCustomFields(all)));
   }
 
   if (role === "WORKER") {
     const mine = await prisma.task.findMany({
-      where: { assignedToId: userId },
+      where: { assignedToId: userId, archivedAt, AND: fieldFilters },
       include: {
         client: true,
         assignedTo: { select: { id: true, name: true } },
+        ...CUSTOM_FIELDS_INCLUDE,
       },
       orderBy: { dueDate: "asc" },
     });
-    return success(res, mine);
+    return success(res, withSlaStatus(withCustomFields(mine)));
   }
 
   if (role === "CLIENT_VIEWER") {
-    const client = await prisma.client.findFirst({
-      where: { linkedUserId: userId },
-    });
+    const client = await getClientForUser(userId);
     if (!client) return fail(res, "No client", 404);
 
     const theirs = await prisma.task.findMany({
-      where: { clientId: client.id },
+      where: { clientId: client.id, archivedAt, AND: fieldFilters },
       include: {
         client: true,
         assignedTo: { select: { id: true, name: true } },
+        ...CUSTOM_FIELDS_INCLUDE,
       },
       orderBy: { dueDate: "asc" },
     });
-    return success(res, theirs);
+    return success(res, withSlaStatus(withCustomFields(theirs)));
   }
 
   return fail(res, "Forbidden", 403);
@@ -78,6 +120,7 @@ export async function getMyTasks(req: AuthedRequest, res: Response) {
 
     const where: any = {
       assignedToId: req.user.id,
+      archivedAt: null,
     };
 
     if (status) {
@@ -109,7 +152,7 @@ export async function getMyTasks(req: AuthedRequest, res: Response) {
       ],
     });
 
-    return success(res, tasks);
+    return success(res, withSlaStatus(await withChecklistProgress(tasks)));
   } catch (err: any) {
     console.error("getMyTasks error:", err);
     return fail(res, "Failed to fetch tasks", 500);
@@ -130,7 +173,9 @@ export async function getTask(req: AuthedRequest, res: Response) {
     include: {
       client: true,
       assignedTo: { select: { id: true, name: true } },
+      // Flat list; GET /tasks/:taskId/comments has the threads
       comments: {
+        where: { deletedAt: null, ...(role === "CLIENT_VIEWER" ? { internal: false } : {}) },
         include: {
           user: { select: { id: true, name: true, role: true } },
         },
@@ -142,24 +187,51 @@ export async function getTask(req: AuthedRequest, res: Response) {
         },
         orderBy: { timestamp: "asc" },
       },
+      checklistItems: {
+        include: {
+          assignedTo: { select: { id: true, name: true } },
+        },
+        orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+      },
+      predecessors: {
+        include: {
+          predecessor: { select: { id: true, title: true, status: true } },
+        },
+      },
+      ...CUSTOM_FIELDS_INCLUDE,
     },
   });
 
   if (!task) return fail(res, "Task not found", 404);
 
-  // SUPER_ADMIN and ADMIN can see all tasks
-  if (role === "SUPER_ADMIN" || role === "ADMIN") return success(res, task);
+  const scopeClientId = getApiKeyClientScope(req.user);
+  if (scopeClientId && task.clientId !== scopeClientId) return fail(res, "Forbidden", 403);
+
+  // Checklist as a tree plus rolled-up progress
+  const [{ checklistItems, predecessors, ...rest }] = withCustomFields([task]);
+  const progress = await getChecklistProgress([task.id]);
+  const result = {
+    ...rest,
+    checklist: buildChecklistTree(checklistItems),
+    progress: progress.get(task.id),
+    // Finish-to-start dependencies not yet DONE
+    blockedBy: predecessors.map((d) => d.predecessor).filter((p) => p.status !== "DONE"),
+    sla: getSlaStatus(task),
+  };
+
+  // tasks.manage can see all tasks
+  if (hasPermission(req.user, "tasks.manage")) return success(res, result);
 
   if (role === "WORKER") {
-    if (task.assignedToId === userId) return success(res, task);
+    // Assigned worker, or a worker with a checklist item on the task
+    if (task.assignedToId === userId) return success(res, result);
+    if (checklistItems.some((item) => item.assignedToId === userId)) return success(res, result);
     return fail(res, "Forbidden", 403);
   }
 
-  if (role === "CLIENT_VIEWER") {
-    const client = await prisma.client.findFirst({
-      where: { linkedUserId: userId },
-    });
-    if (client && task.clientId === client.id) return success(res, task);
+  if (role === "CLIENT_VIEWER" && userId) {
+    const client = await getClientForUser(userId);
+    if (client && task.clientId === client.id) return success(res, result);
     return fail(res, "Forbidden", 403);
   }
 
@@ -174,6 +246,9 @@ export async function getTask(req: AuthedRequest, res: Response) {
  * - If linked to a contract = CRITICAL (package work)
  * - If standalone (no contract) = PRIORITY
  * - Can override with forcePriority: true
+ *
+ * autoAssign: true without assignedToId picks the best-ranked worker with the
+ * required skills and free capacity (see POST /tasks/:taskId/auto-assign)
  */
 export async function createTask(req: AuthedRequest, res: Response) {
   try {
@@ -187,8 +262,19 @@ export async function createTask(req: AuthedRequest, res: Response) {
       assignedToId,
       requiresApproval,
       forcePriority,   // V3: If true, use the provided priority instead of auto
+      estimatedHours,
+      requiredSkills,
+      autoAssign,      // Pick a worker by capacity and skills when assignedToId is not given
     } = req.body;
 
+    const skills = normalizeSkills(requiredSkills ?? []);
+    if (!skills) {
+      return fail(res, "requiredSkills must be an array of strings", 400);
+    }
+    if (estimatedHours != null && (typeof estimatedHours !== "number" || estimatedHours <= 0)) {
+      return fail(res, "estimatedHours must be a positive number", 400);
+    }
+
     // validate clientId if provided
     if (clientId) {
       const clientExists = await prisma.client.findUnique({
@@ -241,6 +327,11 @@ export async function createTask(req: AuthedRequest, res: Response) {
     // V3: Determine clientId - use contract's client if contractId provided but no clientId
     const finalClientId = clientId || linkedContract?.clientId || null;
 
+    const scopeClientId = getApiKeyClientScope(req.user);
+    if (scopeClientId && (finalClientId !== scopeClientId || (linkedContract && linkedContract.clientId !== scopeClientId))) {
+      return fail(res, "Forbidden", 403);
+    }
+
     // create task
     const created = await prisma.task.create({
       data: {
@@ -252,6 +343,8 @@ export async function createTask(req: AuthedRequest, res: Response) {
         contractId: contractId || null,
         assignedToId: assignedToId || null,
         requiresApproval: !!requiresApproval,
+        estimatedHours: estimatedHours ?? null,
+        requiredSkills: skills,
         createdById: req.user!.id,
       },
     });
@@ -267,6 +360,17 @@ export async function createTask(req: AuthedRequest, res: Response) {
       },
     });
 
+    // New tasks are never broadcast yet, so auto-assign applies unless a worker was picked
+    if (autoAssign && !assignedToId) {
+      try {
+        const { task, suggestion } = await autoAssignTask(created, req.user!);
+        return success(res, { ...task, autoAssign: { assigned: true, score: suggestion.score } }, 201);
+      } catch (err) {
+        if (!(err instanceof AssignmentError)) throw err;
+        return success(res, { ...created, autoAssign: { assigned: false, reason: err.message } }, 201);
+      }
+    }
+
     return success(res, created, 201);
   } catch (err) {
     console.error("createTask error:", err);
@@ -286,9 +390,11 @@ export async function createTask(req: AuthedRequest, res: Response) {
  * - Can override with forcePriority: true
  *
  * Supports updating:
- *   status, title, description, priority, dueDate, assignedToId, contractId
+ *   status, title, description, priority, dueDate, assignedToId, contractId,
+ *   estimatedHours, requiredSkills
  *
- * Also logs status changes into taskUpdate + auditLog.
+ * Status changes go through the task state machine, which logs them into
+ * taskUpdate + auditLog.
  */
 export async function updateTask(req: AuthedRequest, res: Response) {
   try {
@@ -302,6 +408,8 @@ export async function updateTask(req: AuthedRequest, res: Response) {
       assignedToId,
       contractId,      // V3: Can link/unlink contract
       forcePriority,   // V3: Override auto-priority
+      estimatedHours,
+      requiredSkills,
     } = req.body;
 
     // 1. Load current task
@@ -312,8 +420,13 @@ export async function updateTask(req: AuthedRequest, res: Response) {
       return fail(res, "Task not found", 404);
     }
 
-    // 2. Permission check - ADMIN also allowed
-    const isAdmin = req.user?.role === "SUPER_ADMIN" || req.user?.role === "ADMIN";
+    const scopeClientId = getApiKeyClientScope(req.user);
+    if (scopeClientId && task.clientId !== scopeClientId) {
+      return fail(res, "Forbidden", 403);
+    }
+
+    // 2. Permission check - tasks.manage or the assigned worker
+    const isAdmin = hasPermission(req.user, "tasks.manage");
     const isAssignedWorker = req.user?.id === task.assignedToId;
 
     if (!isAdmin && !isAssignedWorker) {
@@ -323,9 +436,9 @@ export async function updateTask(req: AuthedRequest, res: Response) {
     // 3. Validate reassignment if changing assignedToId
     let nextAssignedToId = task.assignedToId;
     if (assignedToId && assignedToId !== task.assignedToId) {
-      // only SUPER_ADMIN or ADMIN can reassign
+      // only tasks.manage can reassign
       if (!isAdmin) {
-        return fail(res, "Only SUPER_ADMIN or ADMIN can reassign tasks", 403);
+        return fail(res, "Forbidden: You do not have permission to reassign tasks", 403);
       }
 
       const workerExists = await prisma.user.findUnique({
@@ -370,48 +483,60 @@ export async function updateTask(req: AuthedRequest, res: Response) {
       }
     }
 
+    // Effort and skills feed worker load and assignment suggestions (tasks.manage)
+    let nextEstimatedHours = task.estimatedHours;
+    let nextRequiredSkills = task.requiredSkills;
+
+    if (estimatedHours !== undefined && isAdmin) {
+      if (estimatedHours !== null && (typeof estimatedHours !== "number" || estimatedHours <= 0)) {
+        return fail(res, "estimatedHours must be a positive number or null", 400);
+      }
+      nextEstimatedHours = estimatedHours;
+    }
+
+    if (requiredSkills !== undefined && isAdmin) {
+      const skills = normalizeSkills(requiredSkills);
+      if (!skills) {
+        return fail(res, "requiredSkills must be an array of strings", 400);
+      }
+      nextRequiredSkills = skills;
+    }
+
+    // Status changes go through the task state machine
+    const statusChanged = !!status && status !== task.status;
+    const checked = statusChanged ? await assertTaskTransition(task, { status }, req.user!) : null;
+
+    // A new due date restarts the SLA escalation steps
+    const nextDueDate = dueDate ? new Date(dueDate) : task.dueDate;
+    const dueDateChanged = nextDueDate?.getTime() !== task.dueDate?.getTime();
+
     // 4. Build update payload safely
-    const updated = await prisma.task.update({
-      where: { id },
-      data: {
-        status: status ?? task.status,
-        title: title ?? task.title,
-        description: description ?? task.description,
-        priority: nextPriority,
-        dueDate: dueDate ? new Date(dueDate) : task.dueDate,
-        assignedToId: nextAssignedToId,
-        contractId: nextContractId,
-      },
-    });
+    const data = {
+      title: title ?? task.title,
+      description: description ?? task.description,
+      priority: nextPriority,
+      dueDate: nextDueDate,
+      assignedToId: nextAssignedToId,
+      contractId: nextContractId,
+      estimatedHours: nextEstimatedHours,
+      requiredSkills: nextRequiredSkills,
+      ...(dueDateChanged ? { slaStage: "ON_TRACK" as const, slaNotifiedAt: null } : {}),
+    };
 
-    // 5. If status changed, log taskUpdate + auditLog
-    if (status && status !== task.status) {
-      await prisma.taskUpdate.create({
-        data: {
-          taskId: id,
-          userId: req.user!.id,
-          oldStatus: task.status,
-          newStatus: status,
-          message: "Status updated via updateTask",
-        },
-      });
+    // 5. If status changed, the transition logs taskUpdate + auditLog
+    const updated = checked
+      ? await prisma.$transaction((tx) =>
+          recordTaskTransition(tx, checked, { data, message: "Status updated via updateTask" })
+        )
+      : await prisma.task.update({ where: { id }, data });
 
-      await prisma.auditLog.create({
-        data: {
-          userId: req.user!.id,
-          actionType: "TASK_STATUS_CHANGE",
-          entityType: "TASK",
-          entityId: id,
-          metaJson: {
-            oldStatus: task.status,
-            newStatus: status,
-          } as any,
-        },
-      });
+    if (checked) {
+      await runTaskTransitionEffects(checked, updated);
     }
 
     return success(res, updated);
   } catch (err) {
+    if (err instanceof TaskTransitionError) return fail(res, err.message, err.status);
     console.error("updateTask error:", err);
     return fail(res, "Task update failed", 500);
   }
@@ -429,28 +554,32 @@ export async function updateTaskStatus(req: AuthedRequest, res: Response) {
   const task = await prisma.task.findUnique({ where: { id } });
   if (!task) return fail(res, "Task not found", 404);
 
-  // SUPER_ADMIN, ADMIN, or assigned worker can push status
+  // tasks.manage or assigned worker can push status
   if (
-    req.user?.role !== "SUPER_ADMIN" &&
-    req.user?.role !== "ADMIN" &&
+    !hasPermission(req.user, "tasks.manage") &&
     req.user?.id !== task.assignedToId
   ) {
     return fail(res, "Forbidden", 403);
   }
 
-  const updatedTask = await prisma.task.update({
-    where: { id },
-    data: {
-      status: newStatus ?? task.status,
-    },
-  });
+  // Status changes go through the task state machine
+  if (newStatus && newStatus !== task.status) {
+    try {
+      const updatedTask = await transitionTask(task, { status: newStatus }, req.user!, { message, attachmentUrl });
+      return success(res, updatedTask);
+    } catch (err) {
+      if (err instanceof TaskTransitionError) return fail(res, err.message, err.status);
+      throw err;
+    }
+  }
 
+  // Progress note without a status change
   await prisma.taskUpdate.create({
     data: {
       taskId: id,
       userId: req.user!.id,
       oldStatus: task.status,
-      newStatus: newStatus ?? task.status,
+      newStatus: task.status,
       message,
       attachmentUrl,
     },
@@ -464,13 +593,43 @@ export async function updateTaskStatus(req: AuthedRequest, res: Response) {
       entityId: id,
       metaJson: {
         oldStatus: task.status,
-        newStatus: newStatus ?? task.status,
+        newStatus: task.status,
         message,
       } as any,
     },
   });
 
-  return success(res, updatedTask);
+  return success(res, task);
+}
+
+/**
+ * GET /tasks/:id/transitions
+ * Statuses the current user can move the task to, and the actions
+ * (with their endpoints) that get it there
+ */
+export async function getTaskTransitions(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    const task = await prisma.task.findUnique({ where: { id: req.params.id } });
+    if (!task) return fail(res, "Task not found", 404);
+
+    const { actors, transitions } = await getAvailableTransitions(task, req.user);
+
+    // Client members without approval rights may look but have no moves
+    if (actors.length === 0 && !(task.clientId && (await isClientMember(task.clientId, req.user.id)))) {
+      return fail(res, "Forbidden", 403);
+    }
+
+    return success(res, {
+      status: task.status,
+      nextStatuses: [...new Set(transitions.map((t) => t.to))],
+      transitions,
+    });
+  } catch (err: any) {
+    console.error("getTaskTransitions error:", err);
+    return fail(res, "Failed to fetch task transitions", 500);
+  }
 }
 
 /**
@@ -491,7 +650,7 @@ export async function acceptTask(req: AuthedRequest, res: Response) {
     const task = await prisma.task.findUnique({
       where: { id: taskId },
       include: {
-        client: { include: { linkedUser: true } },
+        client: true,
         assignedTo: true,
       },
     });
@@ -505,72 +664,23 @@ export async function acceptTask(req: AuthedRequest, res: Response) {
       return fail(res, "This task is not assigned to you", 403);
     }
 
-    // Verify task is in correct status
-    if (task.status !== "NOT_STARTED") {
-      return fail(res, `Task is already in ${task.status} status`, 400);
-    }
+    // Status, predecessors, notifications and audit via the state machine
+    await transitionTask(task, "ACCEPT", req.user, { message: "Task accepted" });
 
-    // Update task status
-    const updatedTask = await prisma.task.update({
+    const updatedTask = await prisma.task.findUnique({
       where: { id: taskId },
-      data: {
-        status: "IN_PROGRESS",
-        updatedAt: new Date(),
-      },
       include: {
         client: true,
         assignedTo: true,
       },
     });
 
-    // Notify client
-    if (task.client?.linkedUser) {
-      await prisma.notification.create({
-        data: {
-          userId: task.client.linkedUser.id,
-          type: "TASK_ACCEPTED",
-          title: "Task Accepted",
-          body: `${task.assignedTo?.name || 'A worker'} has accepted your task: ${task.title}`,
-        },
-      });
-    }
-
-    // Notify admin (both SUPER_ADMIN and ADMIN)
-    const admins = await prisma.user.findMany({
-      where: { role: { in: ["SUPER_ADMIN", "ADMIN"] }, active: true },
-      select: { id: true },
-    });
-
-    for (const admin of admins) {
-      await prisma.notification.create({
-        data: {
-          userId: admin.id,
-          type: "TASK_ACCEPTED",
-          title: "Task Accepted",
-          body: `${task.assignedTo?.name || 'Worker'} accepted task: ${task.title}${task.client ? ` for ${task.client.companyName}` : ''}`,
-        },
-      });
-    }
-
-    // Audit log
-    await prisma.auditLog.create({
-      data: {
-        userId: req.user.id,
-        actionType: "TASK_ACCEPTED",
-        entityType: "TASK",
-        entityId: taskId,
-        metaJson: {
-          taskTitle: task.title,
-          clientId: task.clientId || null,
-        } as any,
-      },
-    });
-
     return success(res, {
       task: updatedTask,
       message: "Task accepted successfully",
     });
   } catch (err: any) {
+    if (err instanceof TaskTransitionError) return fail(res, err.message, err.status);
     console.error("acceptTask error:", err);
     return fail(res, "Failed to accept task", 500);
   }
@@ -614,13 +724,12 @@ export async function declineTask(req: AuthedRequest, res: Response) {
       return fail(res, "This task is not assigned to you", 403);
     }
 
-    // Update task - set assignedTo to null and add decline reason in meta
-    const taskWithMeta = task as any;
-    const currentMeta = (taskWithMeta.meta as Record<string, any>) || {};
-    const updatedTask = await prisma.task.update({
-      where: { id: taskId },
+    // Unassign the worker, notify admins and audit via the state machine
+    const currentMeta = (task.meta as Record<string, any>) || {};
+    await transitionTask(task, "DECLINE", req.user, {
+      message: `Declined: ${reason}`,
+      details: { reason },
       data: {
-        assignedToId: null, // Unassign the worker
         meta: {
           ...currentMeta,
           declined: true,
@@ -629,42 +738,13 @@ export async function declineTask(req: AuthedRequest, res: Response) {
           declineReason: reason,
           declinedAt: new Date().toISOString(),
         },
-        updatedAt: new Date(),
-      } as any,
-      include: {
-        client: true,
       },
     });
 
-    // Notify all admins about the decline (both SUPER_ADMIN and ADMIN)
-    const admins = await prisma.user.findMany({
-      where: { role: { in: ["SUPER_ADMIN", "ADMIN"] }, active: true },
-      select: { id: true },
-    });
-
-    for (const admin of admins) {
-      await prisma.notification.create({
-        data: {
-          userId: admin.id,
-          type: "TASK_DECLINED",
-          title: "Task Declined - Action Required",
-          body: `${task.assignedTo?.name || 'Worker'} declined task: ${task.title}${task.client ? ` for ${task.client.companyName}` : ''}. Reason: ${reason}`,
-        },
-      });
-    }
-
-    // Audit log
-    await prisma.auditLog.create({
-      data: {
-        userId: req.user.id,
-        actionType: "TASK_DECLINED",
-        entityType: "TASK",
-        entityId: taskId,
-        metaJson: {
-          taskTitle: task.title,
-          clientId: task.clientId || null,
-          reason,
-        } as any,
+    const updatedTask = await prisma.task.findUnique({
+      where: { id: taskId },
+      include: {
+        client: true,
       },
     });
 
@@ -673,6 +753,7 @@ export async function declineTask(req: AuthedRequest, res: Response) {
       message: "Task declined. Admin has been notified.",
     });
   } catch (err: any) {
+    if (err instanceof TaskTransitionError) return fail(res, err.message, err.status);
     console.error("declineTask error:", err);
     return fail(res, "Failed to decline task", 500);
   }
@@ -680,8 +761,9 @@ export async function declineTask(req: AuthedRequest, res: Response) {
 
 /**
  * POST /tasks/:taskId/complete
- * Worker marks task as complete
- * Body: { notes?: string }
+ * Worker marks task as complete. Tasks with requiresApproval go to client
+ * review instead (see task-reviews.controller).
+ * Body: { notes?: string, fileIds?: string[] }
  */
 export async function completeTask(req: AuthedRequest, res: Response) {
   try {
@@ -698,7 +780,7 @@ export async function completeTask(req: AuthedRequest, res: Response) {
     const task = await prisma.task.findUnique({
       where: { id: taskId },
       include: {
-        client: { include: { linkedUser: true } },
+        client: true,
         assignedTo: true,
       },
     });
@@ -712,73 +794,41 @@ export async function completeTask(req: AuthedRequest, res: Response) {
       return fail(res, "This task is not assigned to you", 403);
     }
 
-    // Verify task is in progress
-    if (task.status !== "IN_PROGRESS" && task.status !== "WAITING") {
-      return fail(res, `Task must be IN_PROGRESS to mark as complete (currently ${task.status})`, 400);
+    // Deliverables that need the client's sign-off go to review instead of DONE
+    if (task.requiresApproval) {
+      const { fileIds } = req.body;
+      if (fileIds !== undefined && !Array.isArray(fileIds)) {
+        return fail(res, "fileIds must be an array", 400);
+      }
+
+      const { task: submittedTask, review } = await submitTaskForReview(task, req.user, notes, fileIds);
+      return success(res, {
+        task: submittedTask,
+        review,
+        message: "Task submitted for client review.",
+      });
     }
 
-    // Update task status
-    const taskWithMeta = task as any;
-    const currentMeta = (taskWithMeta.meta as Record<string, any>) || {};
-    const updatedTask = await prisma.task.update({
-      where: { id: taskId },
+    // Status, notifications and unblocked successors via the state machine
+    const currentMeta = (task.meta as Record<string, any>) || {};
+    await transitionTask(task, "COMPLETE", req.user, {
+      message: notes ? `Completed: ${notes}` : "Completed",
+      details: { notes: notes || "" },
       data: {
-        status: "DONE",
         meta: {
           ...currentMeta,
           completionNotes: notes || "",
           completedAt: new Date().toISOString(),
           completedBy: req.user.id,
         },
-        updatedAt: new Date(),
-      } as any,
-      include: {
-        client: true,
-        assignedTo: true,
       },
     });
 
-    // Notify client
-    if (task.client?.linkedUser) {
-      await prisma.notification.create({
-        data: {
-          userId: task.client.linkedUser.id,
-          type: "TASK_COMPLETED",
-          title: "Task Completed",
-          body: `${task.assignedTo?.name || 'Your worker'} completed your task: ${task.title}${notes ? `. Notes: ${notes}` : ""}`,
-        },
-      });
-    }
-
-    // Notify admin (both SUPER_ADMIN and ADMIN)
-    const admins = await prisma.user.findMany({
-      where: { role: { in: ["SUPER_ADMIN", "ADMIN"] }, active: true },
-      select: { id: true },
-    });
-
-    for (const admin of admins) {
-      await prisma.notification.create({
-        data: {
-          userId: admin.id,
-          type: "TASK_COMPLETED",
-          title: "Task Completed",
-          body: `${task.assignedTo?.name || 'Worker'} completed task: ${task.title}${task.client ? ` for ${task.client.companyName}` : ''}`,
-        },
-      });
-    }
-
-    // Audit log
-    await prisma.auditLog.create({
-      data: {
-        userId: req.user.id,
-        actionType: "TASK_COMPLETED",
-        entityType: "TASK",
-        entityId: taskId,
-        metaJson: {
-          taskTitle: task.title,
-          clientId: task.clientId || null,
-          notes: notes || "",
-        } as any,
+    const updatedTask = await prisma.task.findUnique({
+      where: { id: taskId },
+      include: {
+        client: true,
+        assignedTo: true,
       },
     });
 
@@ -787,6 +837,8 @@ export async function completeTask(req: AuthedRequest, res: Response) {
       message: "Task marked as complete. Client and admin have been notified.",
     });
   } catch (err: any) {
+    if (err instanceof TaskTransitionError) return fail(res, err.message, err.status);
+    if (err instanceof TaskReviewError) return fail(res, err.message, 400);
     console.error("completeTask error:", err);
     return fail(res, "Failed to complete task", 500);
   }
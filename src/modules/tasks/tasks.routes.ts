@@ -9,9 +9,25 @@ import {
   acceptTask,
   declineTask,
   completeTask,
+  getTaskTransitions,
 } from "./tasks.controller";
+import {
+  getTaskDependencies,
+  addTaskDependency,
+  removeTaskDependency,
+} from "./task-dependencies.controller";
+import {
+  listPendingReviews,
+  getTaskReviews,
+  approveTask,
+  requestTaskRevision,
+} from "./task-reviews.controller";
+import { bulkUpdateTasks } from "./task-bulk.controller";
+import { getTaskWatchers, watchTask, unwatchTask } from "./task-watchers.controller";
+import { updateTaskFields } from "./task-fields.controller";
+import { getAssigneeSuggestions, getDraftAssigneeSuggestions, autoAssign } from "./task-assignment.controller";
 import { authRequired } from "../../middleware/auth";
-import { requireRole } from "../../middleware/requireRole";
+import { requirePermission } from "../../middleware/requirePermission";
 
 const router = Router();
 
@@ -21,6 +37,38 @@ router.post("/:taskId/accept", authRequired, acceptTask); // Worker accepts task
 router.post("/:taskId/decline", authRequired, declineTask); // Worker declines task
 router.post("/:taskId/complete", authRequired, completeTask); // Worker completes task
 
+// Bulk operations over many tasks (MUST come before /:id routes)
+router.post("/bulk", authRequired, requirePermission("tasks.manage"), bulkUpdateTasks);
+
+// Assignment suggestions (capacity, skills, history)
+router.post("/assignee-suggestions", authRequired, requirePermission("tasks.create"), getDraftAssigneeSuggestions);
+router.get("/:taskId/assignee-suggestions", authRequired, requirePermission("tasks.manage"), getAssigneeSuggestions);
+router.post("/:taskId/auto-assign", authRequired, requirePermission("tasks.manage"), autoAssign);
+
+// Client review of requiresApproval tasks
+router.get("/reviews/pending", authRequired, listPendingReviews);
+router.get("/:taskId/reviews", authRequired, getTaskReviews);
+router.post("/:taskId/approve", authRequired, approveTask);
+router.post("/:taskId/request-revision", authRequired, requestTaskRevision);
+
+// Finish-to-start dependencies
+router.get("/:taskId/dependencies", authRequired, getTaskDependencies);
+router.post("/:taskId/dependencies", authRequired, requirePermission("tasks.manage"), addTaskDependency);
+router.delete(
+  "/:taskId/dependencies/:predecessorId",
+  authRequired,
+  requirePermission("tasks.manage"),
+  removeTaskDependency
+);
+
+// Watchers (notified about comments)
+router.get("/:taskId/watchers", authRequired, getTaskWatchers);
+router.post("/:taskId/watch", authRequired, watchTask);
+router.delete("/:taskId/watch", authRequired, unwatchTask);
+
+// Custom field values and labels
+router.patch("/:taskId/fields", authRequired, requirePermission("tasks.manage"), updateTaskFields);
+
 // List tasks (role-based)
 router.get("/", authRequired, listTasks);
 
@@ -31,13 +79,16 @@ router.get("/:id", authRequired, getTask);
 router.post(
   "/",
   authRequired,
-  requireRole("SUPER_ADMIN", "ADMIN"),
+  requirePermission("tasks.create"),
   createTask
 );
 
 // Update task (general)
 router.patch("/:id", authRequired, updateTask);
 
+// Legal next statuses for the current user
+router.get("/:id/transitions", authRequired, getTaskTransitions);
+
 // Update task status (legacy - can keep or remove)
 router.patch("/:id/status", authRequired, updateTaskStatus);
 
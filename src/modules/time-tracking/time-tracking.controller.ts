@@ -0,0 +1,637 @@
+import { Response } from "express";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../../config/prisma";
+import { AuthedRequest } from "../../middleware/auth";
+import { success, fail } from "../../utils/response";
+import { hasPermission } from "../../services/permission.service";
+import { getApiKeyClientScope } from "../../services/apiKey.service";
+import {
+  MAX_ENTRY_MINUTES,
+  TimeEntryError,
+  assertWeekEditable,
+  buildWeekSummary,
+  findOverlappingEntry,
+  minutesBetween,
+  splitAtWeekBoundaries,
+  toHours,
+  validateEntryWindow,
+  weekStartOf,
+} from "../../services/timeTracking.service";
+
+type TrackingUser = NonNullable<AuthedRequest["user"]>;
+
+/**
+ * Load a task the current worker may log time on (assigned to them, and
+ * within a client-scoped API key's client)
+ */
+async function loadTrackableTask(taskId: string, user: TrackingUser) {
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    select: { id: true, title: true, status: true, assignedToId: true, clientId: true },
+  });
+
+  if (!task) throw new TimeEntryError("Task not found", 404);
+  if (task.assignedToId !== user.id) throw new TimeEntryError("This task is not assigned to you", 403);
+
+  const scopeClientId = getApiKeyClientScope(user);
+  if (scopeClientId && task.clientId !== scopeClientId) throw new TimeEntryError("Forbidden", 403);
+
+  return task;
+}
+
+/**
+ * The user's own entries; for a client-scoped API key only those on that
+ * client's tasks
+ */
+function ownEntriesWhere(user: TrackingUser) {
+  const scopeClientId = getApiKeyClientScope(user);
+  return { userId: user.id, ...(scopeClientId ? { task: { clientId: scopeClientId } } : {}) };
+}
+
+// Timesheets span every client, so client-scoped API keys cannot use them
+const SCOPED_KEY_TIMESHEET_MESSAGE = "Timesheets are not available to client-scoped API keys";
+
+function parseWeek(value: unknown): Date | null {
+  const date = value ? new Date(String(value)) : new Date();
+  return isNaN(date.getTime()) ? null : weekStartOf(date);
+}
+
+function handleError(res: Response, err: unknown, fn: string, message: string) {
+  if (err instanceof TimeEntryError) return fail(res, err.message, err.status);
+  // Serialization failure: a concurrent request changed the same entries
+  if ((err as any)?.code === "P2034") return fail(res, "Time entries changed at the same time, please retry", 409);
+  console.error(`${fn} error:`, err);
+  return fail(res, message, 500);
+}
+
+// ============================================
+// TIME ENTRIES (assigned worker)
+// ============================================
+
+/**
+ * GET /api/time/tasks/:taskId
+ * Time entries on a task with the total
+ * The assigned worker or tasks.manage
+ */
+export async function getTaskTimeEntries(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    const task = await prisma.task.findUnique({
+      where: { id: req.params.taskId },
+      select: { id: true, assignedToId: true, clientId: true },
+    });
+    if (!task) return fail(res, "Task not found", 404);
+
+    const scopeClientId = getApiKeyClientScope(req.user);
+    if (scopeClientId && task.clientId !== scopeClientId) return fail(res, "Forbidden", 403);
+
+    if (!hasPermission(req.user, "tasks.manage") && task.assignedToId !== req.user.id) {
+      return fail(res, "Forbidden", 403);
+    }
+
+    const entries = await prisma.timeEntry.findMany({
+      where: { taskId: task.id },
+      include: { user: { select: { id: true, name: true } } },
+      orderBy: { startedAt: "desc" },
+    });
+
+    const totalMinutes = entries.reduce((sum, e) => sum + (e.durationMinutes ?? 0), 0);
+
+    return success(res, { entries, totalMinutes, totalHours: toHours(totalMinutes) });
+  } catch (err: any) {
+    console.error("getTaskTimeEntries error:", err);
+    return fail(res, "Failed to fetch time entries", 500);
+  }
+}
+
+/**
+ * GET /api/time/running
+ * My running timer, if any
+ * WORKER
+ */
+export async function getRunningTimer(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    const entry = await prisma.timeEntry.findFirst({
+      where: { ...ownEntriesWhere(req.user), endedAt: null },
+      include: { task: { select: { id: true, title: true } } },
+    });
+
+    return success(res, entry);
+  } catch (err: any) {
+    console.error("getRunningTimer error:", err);
+    return fail(res, "Failed to fetch running timer", 500);
+  }
+}
+
+/**
+ * POST /api/time/tasks/:taskId/start
+ * Start a timer on a task (one running timer per worker)
+ * Body: { note?: string }
+ */
+export async function startTimer(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    const task = await loadTrackableTask(req.params.taskId, req.user);
+
+    if (task.status !== "IN_PROGRESS" && task.status !== "WAITING") {
+      return fail(res, `Timers can only run on tasks in progress (currently ${task.status})`, 400);
+    }
+
+    const now = new Date();
+    await assertWeekEditable(req.user.id, now);
+
+    const userId = req.user.id;
+
+    // Serializable, so two quick starts cannot both pass the overlap check
+    const entry = await prisma.$transaction(
+      async (tx) => {
+        const overlap = await findOverlappingEntry(userId, now, null, undefined, tx);
+        if (overlap) {
+          throw new TimeEntryError(
+            overlap.endedAt === null
+              ? `A timer is already running on "${overlap.task.title}"`
+              : `Overlaps an existing entry on "${overlap.task.title}"`,
+            409
+          );
+        }
+
+        return tx.timeEntry.create({
+          data: {
+            taskId: task.id,
+            userId,
+            source: "TIMER",
+            startedAt: now,
+            note: req.body.note || null,
+          },
+        });
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+
+    return success(res, entry, 201);
+  } catch (err: any) {
+    return handleError(res, err, "startTimer", "Failed to start timer");
+  }
+}
+
+/**
+ * POST /api/time/stop
+ * Stop my running timer. A timer left running longer than MAX_ENTRY_MINUTES
+ * is stopped at that length (correct it by editing the entry); time that runs
+ * into a new week is split into one entry per week.
+ * Body: { note?: string }
+ */
+export async function stopTimer(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    const entry = await prisma.timeEntry.findFirst({
+      where: { ...ownEntriesWhere(req.user), endedAt: null },
+    });
+    if (!entry) return fail(res, "No timer is running", 404);
+
+    const now = new Date();
+    const maxEnd = new Date(entry.startedAt.getTime() + MAX_ENTRY_MINUTES * 60 * 1000);
+    const capped = now > maxEnd;
+    const parts = splitAtWeekBoundaries(entry.startedAt, capped ? maxEnd : now);
+
+    for (const part of parts.slice(1)) {
+      await assertWeekEditable(req.user.id, part.startedAt);
+    }
+
+    const note = req.body.note !== undefined ? req.body.note || null : entry.note;
+
+    const taskInclude = { task: { select: { id: true, title: true } } };
+
+    const [updated, ...continued] = await prisma.$transaction(async (tx) => {
+      // Claim the running entry, so a double stop cannot add the continuations twice
+      const { count } = await tx.timeEntry.updateMany({
+        where: { id: entry.id, endedAt: null },
+        data: {
+          endedAt: parts[0].endedAt,
+          durationMinutes: minutesBetween(parts[0].startedAt, parts[0].endedAt),
+          note,
+        },
+      });
+      if (count === 0) throw new TimeEntryError("Timer was already stopped", 409);
+
+      const stopped = await tx.timeEntry.findUniqueOrThrow({ where: { id: entry.id }, include: taskInclude });
+
+      const rest = [];
+      for (const part of parts.slice(1)) {
+        rest.push(
+          await tx.timeEntry.create({
+            data: {
+              taskId: entry.taskId,
+              userId: entry.userId,
+              source: "TIMER",
+              startedAt: part.startedAt,
+              endedAt: part.endedAt,
+              durationMinutes: minutesBetween(part.startedAt, part.endedAt),
+              note,
+            },
+            include: taskInclude,
+          })
+        );
+      }
+
+      return [stopped, ...rest];
+    });
+
+    return success(res, { ...updated, capped, continued });
+  } catch (err: any) {
+    return handleError(res, err, "stopTimer", "Failed to stop timer");
+  }
+}
+
+/**
+ * POST /api/time/tasks/:taskId/entries
+ * Log time manually
+ * Body: { startedAt, endedAt, note? }
+ */
+export async function createTimeEntry(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    const { startedAt, endedAt, note } = req.body;
+    if (!startedAt || !endedAt) {
+      return fail(res, "startedAt and endedAt are required", 400);
+    }
+
+    const task = await loadTrackableTask(req.params.taskId, req.user);
+
+    const start = new Date(startedAt);
+    const end = new Date(endedAt);
+    const minutes = await validateEntryWindow(req.user.id, start, end);
+
+    const entry = await prisma.timeEntry.create({
+      data: {
+        taskId: task.id,
+        userId: req.user.id,
+        source: "MANUAL",
+        startedAt: start,
+        endedAt: end,
+        durationMinutes: minutes,
+        note: note || null,
+      },
+    });
+
+    return success(res, entry, 201);
+  } catch (err: any) {
+    return handleError(res, err, "createTimeEntry", "Failed to create time entry");
+  }
+}
+
+/**
+ * PATCH /api/time/entries/:id
+ * Edit one of my finished entries
+ * Body: { startedAt?, endedAt?, note? }
+ */
+export async function updateTimeEntry(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    const entry = await prisma.timeEntry.findFirst({ where: { id: req.params.id, ...ownEntriesWhere(req.user) } });
+    if (!entry) return fail(res, "Time entry not found", 404);
+
+    if (!entry.endedAt) {
+      return fail(res, "Stop the timer before editing this entry", 400);
+    }
+
+    // The week the entry currently sits in must be editable too
+    await assertWeekEditable(req.user.id, entry.startedAt);
+
+    const { startedAt, endedAt, note } = req.body;
+    const start = startedAt !== undefined ? new Date(startedAt) : entry.startedAt;
+    const end = endedAt !== undefined ? new Date(endedAt) : entry.endedAt;
+
+    const minutes = await validateEntryWindow(req.user.id, start, end, entry.id);
+
+    const updated = await prisma.timeEntry.update({
+      where: { id: entry.id },
+      data: {
+        startedAt: start,
+        endedAt: end,
+        durationMinutes: minutes,
+        ...(note !== undefined ? { note: note || null } : {}),
+      },
+    });
+
+    return success(res, updated);
+  } catch (err: any) {
+    return handleError(res, err, "updateTimeEntry", "Failed to update time entry");
+  }
+}
+
+/**
+ * DELETE /api/time/entries/:id
+ * Delete one of my entries (also discards a running timer)
+ */
+export async function deleteTimeEntry(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    const entry = await prisma.timeEntry.findFirst({ where: { id: req.params.id, ...ownEntriesWhere(req.user) } });
+    if (!entry) return fail(res, "Time entry not found", 404);
+
+    await assertWeekEditable(req.user.id, entry.startedAt);
+
+    await prisma.timeEntry.delete({ where: { id: entry.id } });
+
+    return success(res, { message: "Time entry deleted" });
+  } catch (err: any) {
+    return handleError(res, err, "deleteTimeEntry", "Failed to delete time entry");
+  }
+}
+
+// ============================================
+// TIMESHEETS
+// ============================================
+
+/**
+ * GET /api/time/timesheets/my?weekStart=YYYY-MM-DD
+ * My week (defaults to the current one) with totals and timesheet status
+ */
+export async function getMyTimesheet(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    if (getApiKeyClientScope(req.user)) return fail(res, SCOPED_KEY_TIMESHEET_MESSAGE, 403);
+
+    const weekStart = parseWeek(req.query.weekStart);
+    if (!weekStart) return fail(res, "Invalid weekStart", 400);
+
+    const [summary, timesheet] = await Promise.all([
+      buildWeekSummary(req.user.id, weekStart),
+      prisma.timesheet.findUnique({
+        where: { userId_weekStart: { userId: req.user.id, weekStart } },
+        include: { reviewedBy: { select: { id: true, name: true } } },
+      }),
+    ]);
+
+    return success(res, { ...summary, timesheet });
+  } catch (err: any) {
+    console.error("getMyTimesheet error:", err);
+    return fail(res, "Failed to fetch timesheet", 500);
+  }
+}
+
+/**
+ * POST /api/time/timesheets/submit
+ * Submit a week for approval; its entries are locked until an admin rejects it
+ * Body: { weekStart?: "YYYY-MM-DD" }
+ */
+export async function submitTimesheet(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    if (getApiKeyClientScope(req.user)) return fail(res, SCOPED_KEY_TIMESHEET_MESSAGE, 403);
+
+    const weekStart = parseWeek(req.body.weekStart);
+    if (!weekStart) return fail(res, "Invalid weekStart", 400);
+
+    const existing = await prisma.timesheet.findUnique({
+      where: { userId_weekStart: { userId: req.user.id, weekStart } },
+    });
+    if (existing && (existing.status === "SUBMITTED" || existing.status === "APPROVED")) {
+      return fail(res, `Timesheet is already ${existing.status.toLowerCase()}`, 400);
+    }
+
+    const summary = await buildWeekSummary(req.user.id, weekStart);
+    if (summary.running) {
+      return fail(res, "Stop the running timer before submitting this week", 400);
+    }
+    if (summary.entries.length === 0) {
+      return fail(res, "There is no time logged for this week", 400);
+    }
+
+    const timesheet = await prisma.$transaction(async (tx) => {
+      const sheet = await tx.timesheet.upsert({
+        where: { userId_weekStart: { userId: req.user!.id, weekStart } },
+        create: {
+          userId: req.user!.id,
+          weekStart,
+          status: "SUBMITTED",
+          totalMinutes: summary.totalMinutes,
+          submittedAt: new Date(),
+        },
+        update: {
+          status: "SUBMITTED",
+          totalMinutes: summary.totalMinutes,
+          submittedAt: new Date(),
+          reviewedById: null,
+          reviewedAt: null,
+          reviewNote: null,
+        },
+      });
+
+      await tx.timeEntry.updateMany({
+        where: { id: { in: summary.entries.map((e) => e.id) } },
+        data: { timesheetId: sheet.id },
+      });
+
+      return sheet;
+    });
+
+    const approvers = await prisma.user.findMany({
+      where: { role: { in: ["SUPER_ADMIN", "ADMIN"] }, active: true },
+      select: { id: true },
+    });
+
+    for (const approver of approvers) {
+      await prisma.notification.create({
+        data: {
+          userId: approver.id,
+          type: "TIMESHEET_SUBMITTED",
+          title: "Timesheet Submitted",
+          body: `${req.user.name} submitted ${summary.totalHours}h for the week of ${weekStart.toISOString().slice(0, 10)}.`,
+        },
+      });
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user.id,
+        actionType: "TIMESHEET_SUBMITTED",
+        entityType: "TIMESHEET",
+        entityId: timesheet.id,
+        metaJson: {
+          weekStart: weekStart.toISOString(),
+          totalMinutes: summary.totalMinutes,
+        } as any,
+      },
+    });
+
+    return success(res, timesheet);
+  } catch (err: any) {
+    console.error("submitTimesheet error:", err);
+    return fail(res, "Failed to submit timesheet", 500);
+  }
+}
+
+/**
+ * GET /api/time/timesheets
+ * Timesheets for review (?status=SUBMITTED, ?userId=, ?weekStart=)
+ * timesheets.approve
+ */
+export async function listTimesheets(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+
+    const { status, userId, weekStart } = req.query;
+
+    const where: any = {};
+    if (status) where.status = String(status);
+    if (userId) where.userId = String(userId);
+    if (weekStart) {
+      const week = parseWeek(weekStart);
+      if (!week) return fail(res, "Invalid weekStart", 400);
+      where.weekStart = week;
+    }
+
+    const timesheets = await prisma.timesheet.findMany({
+      where,
+      include: {
+        user: { select: { id: true, name: true, email: true } },
+        reviewedBy: { select: { id: true, name: true } },
+      },
+      orderBy: [{ weekStart: "desc" }, { submittedAt: "asc" }],
+    });
+
+    return success(res, timesheets.map((t) => ({ ...t, totalHours: toHours(t.totalMinutes) })));
+  } catch (err: any) {
+    console.error("listTimesheets error:", err);
+    return fail(res, "Failed to fetch timesheets", 500);
+  }
+}
+
+/**
+ * GET /api/time/timesheets/:id
+ * A timesheet with its week breakdown
+ * The owner or timesheets.approve
+ */
+export async function getTimesheet(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+    if (getApiKeyClientScope(req.user)) return fail(res, SCOPED_KEY_TIMESHEET_MESSAGE, 403);
+
+    const timesheet = await prisma.timesheet.findUnique({
+      where: { id: req.params.id },
+      include: {
+        user: { select: { id: true, name: true, email: true } },
+        reviewedBy: { select: { id: true, name: true } },
+      },
+    });
+    if (!timesheet) return fail(res, "Timesheet not found", 404);
+
+    if (timesheet.userId !== req.user.id && !hasPermission(req.user, "timesheets.approve")) {
+      return fail(res, "Forbidden", 403);
+    }
+
+    const summary = await buildWeekSummary(timesheet.userId, timesheet.weekStart);
+
+    return success(res, { ...summary, timesheet });
+  } catch (err: any) {
+    console.error("getTimesheet error:", err);
+    return fail(res, "Failed to fetch timesheet", 500);
+  }
+}
+
+/**
+ * Approve or reject a submitted timesheet
+ */
+async function reviewTimesheet(req: AuthedRequest, res: Response, decision: "APPROVED" | "REJECTED") {
+  const timesheet = await prisma.timesheet.findUnique({
+    where: { id: req.params.id },
+    include: { user: { select: { id: true, name: true } } },
+  });
+  if (!timesheet) return fail(res, "Timesheet not found", 404);
+
+  if (timesheet.status !== "SUBMITTED") {
+    return fail(res, `Only submitted timesheets can be reviewed (currently ${timesheet.status})`, 400);
+  }
+
+  if (timesheet.userId === req.user!.id) {
+    return fail(res, "You cannot review your own timesheet", 403);
+  }
+
+  const { note } = req.body;
+  if (decision === "REJECTED" && !note) {
+    return fail(res, "A note is required when rejecting a timesheet", 400);
+  }
+
+  const updated = await prisma.timesheet.update({
+    where: { id: timesheet.id },
+    data: {
+      status: decision,
+      reviewedById: req.user!.id,
+      reviewedAt: new Date(),
+      reviewNote: note || null,
+    },
+  });
+
+  const week = timesheet.weekStart.toISOString().slice(0, 10);
+  await prisma.notification.create({
+    data: {
+      userId: timesheet.userId,
+      type: decision === "APPROVED" ? "TIMESHEET_APPROVED" : "TIMESHEET_REJECTED",
+      title: decision === "APPROVED" ? "Timesheet Approved" : "Timesheet Rejected",
+      body:
+        decision === "APPROVED"
+          ? `Your timesheet for the week of ${week} (${toHours(timesheet.totalMinutes)}h) was approved.`
+          : `Your timesheet for the week of ${week} was rejected: ${note}. Correct your entries and submit it again.`,
+    },
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      actionType: decision === "APPROVED" ? "TIMESHEET_APPROVED" : "TIMESHEET_REJECTED",
+      entityType: "TIMESHEET",
+      entityId: timesheet.id,
+      metaJson: {
+        workerId: timesheet.userId,
+        workerName: timesheet.user.name,
+        weekStart: timesheet.weekStart.toISOString(),
+        totalMinutes: timesheet.totalMinutes,
+        note: note || null,
+      } as any,
+    },
+  });
+
+  return success(res, updated);
+}
+
+/**
+ * POST /api/time/timesheets/:id/approve
+ * Body: { note?: string }
+ * timesheets.approve
+ */
+export async function approveTimesheet(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+    return await reviewTimesheet(req, res, "APPROVED");
+  } catch (err: any) {
+    console.error("approveTimesheet error:", err);
+    return fail(res, "Failed to approve timesheet", 500);
+  }
+}
+
+/**
+ * POST /api/time/timesheets/:id/reject
+ * Body: { note: string }
+ * timesheets.approve
+ */
+export async function rejectTimesheet(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) return fail(res, "Unauthorized", 401);
+    return await reviewTimesheet(req, res, "REJECTED");
+  } catch (err: any) {
+    console.error("rejectTimesheet error:", err);
+    return fail(res, "Failed to reject timesheet", 500);
+  }
+}
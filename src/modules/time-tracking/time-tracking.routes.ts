@@ -0,0 +1,79 @@
+import { Router } from "express";
+import { authRequired } from "../../middleware/auth";
+import { requirePermission } from "../../middleware/requirePermission";
+import {
+  getTaskTimeEntries,
+  getRunningTimer,
+  startTimer,
+  stopTimer,
+  createTimeEntry,
+  updateTimeEntry,
+  deleteTimeEntry,
+  getMyTimesheet,
+  submitTimesheet,
+  listTimesheets,
+  getTimesheet,
+  approveTimesheet,
+  rejectTimesheet,
+} from "./time-tracking.controller";
+
+const router = Router();
+
+// ============================================
+// TIMERS & TIME ENTRIES
+// ============================================
+
+// GET /api/time/running - My running timer
+router.get("/running", authRequired, getRunningTimer);
+
+// POST /api/time/stop - Stop my running timer
+router.post("/stop", authRequired, stopTimer);
+
+// GET /api/time/tasks/:taskId - Time entries on a task
+router.get("/tasks/:taskId", authRequired, getTaskTimeEntries);
+
+// POST /api/time/tasks/:taskId/start - Start a timer
+router.post("/tasks/:taskId/start", authRequired, startTimer);
+
+// POST /api/time/tasks/:taskId/entries - Log time manually
+router.post("/tasks/:taskId/entries", authRequired, createTimeEntry);
+
+// PATCH /api/time/entries/:id - Edit an entry
+router.patch("/entries/:id", authRequired, updateTimeEntry);
+
+// DELETE /api/time/entries/:id - Delete an entry
+router.delete("/entries/:id", authRequired, deleteTimeEntry);
+
+// ============================================
+// TIMESHEETS
+// ============================================
+
+// GET /api/time/timesheets/my - My week with totals
+router.get("/timesheets/my", authRequired, getMyTimesheet);
+
+// POST /api/time/timesheets/submit - Submit a week for approval
+router.post("/timesheets/submit", authRequired, submitTimesheet);
+
+// GET /api/time/timesheets - Timesheets for review
+router.get("/timesheets", authRequired, requirePermission("timesheets.approve"), listTimesheets);
+
+// GET /api/time/timesheets/:id - Timesheet detail (owner or approver)
+router.get("/timesheets/:id", authRequired, getTimesheet);
+
+// POST /api/time/timesheets/:id/approve - Approve a timesheet
+router.post(
+  "/timesheets/:id/approve",
+  authRequired,
+  requirePermission("timesheets.approve"),
+  approveTimesheet
+);
+
+// POST /api/time/timesheets/:id/reject - Reject a timesheet
+router.post(
+  "/timesheets/:id/reject",
+  authRequired,
+  requirePermission("timesheets.approve"),
+  rejectTimesheet
+);
+
+export default router;
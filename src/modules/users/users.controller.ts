@@ -2,6 +2,9 @@ import { Response } from "express";
 import { prisma } from "../../config/prisma";
 import { AuthedRequest } from "../../middleware/auth";
 import { success, fail } from "../../utils/response";
+import { hasPermission } from "../../services/permission.service";
+import { revokeAllUserSessions } from "../../services/session.service";
+import { clearLockouts } from "../../middleware/bruteForce";
 
 /**
  * GET /api/users
@@ -13,8 +16,8 @@ export async function getAllUsers(req: AuthedRequest, res: Response) {
       return fail(res, "Unauthorized", 401);
     }
 
-    if (req.user.role !== "SUPER_ADMIN") {
-      return fail(res, "Forbidden: Only SUPER_ADMIN can view all users", 403);
+    if (!hasPermission(req.user, "users.manage")) {
+      return fail(res, "Forbidden: You do not have permission to view all users", 403);
     }
 
     const users = await prisma.user.findMany({
@@ -48,8 +51,8 @@ export async function getUser(req: AuthedRequest, res: Response) {
       return fail(res, "Unauthorized", 401);
     }
 
-    if (req.user.role !== "SUPER_ADMIN") {
-      return fail(res, "Forbidden: Only SUPER_ADMIN can view users", 403);
+    if (!hasPermission(req.user, "users.manage")) {
+      return fail(res, "Forbidden: You do not have permission to view users", 403);
     }
 
     const { id } = req.params;
@@ -90,8 +93,8 @@ export async function approveUser(req: AuthedRequest, res: Response) {
       return fail(res, "Unauthorized", 401);
     }
 
-    if (req.user.role !== "SUPER_ADMIN") {
-      return fail(res, "Forbidden: Only SUPER_ADMIN can approve users", 403);
+    if (!hasPermission(req.user, "users.manage")) {
+      return fail(res, "Forbidden: You do not have permission to approve users", 403);
     }
 
     const { id } = req.params;
@@ -173,8 +176,8 @@ export async function rejectUser(req: AuthedRequest, res: Response) {
       return fail(res, "Unauthorized", 401);
     }
 
-    if (req.user.role !== "SUPER_ADMIN") {
-      return fail(res, "Forbidden: Only SUPER_ADMIN can reject users", 403);
+    if (!hasPermission(req.user, "users.manage")) {
+      return fail(res, "Forbidden: You do not have permission to reject users", 403);
     }
 
     const { id } = req.params;
@@ -214,6 +217,8 @@ export async function rejectUser(req: AuthedRequest, res: Response) {
       },
     });
 
+    await revokeAllUserSessions(updatedUser.id);
+
     // Audit log
     try {
       await prisma.auditLog.create({
@@ -254,8 +259,8 @@ export async function toggleUserActive(req: AuthedRequest, res: Response) {
       return fail(res, "Unauthorized", 401);
     }
 
-    if (req.user.role !== "SUPER_ADMIN") {
-      return fail(res, "Forbidden: Only SUPER_ADMIN can modify users", 403);
+    if (!hasPermission(req.user, "users.manage")) {
+      return fail(res, "Forbidden: You do not have permission to modify users", 403);
     }
 
     const { id } = req.params;
@@ -288,6 +293,11 @@ export async function toggleUserActive(req: AuthedRequest, res: Response) {
       },
     });
 
+    // Kill existing sessions so the deactivation takes effect on every device
+    if (!updatedUser.active) {
+      await revokeAllUserSessions(updatedUser.id);
+    }
+
     // Audit log
     try {
       await prisma.auditLog.create({
@@ -313,4 +323,63 @@ export async function toggleUserActive(req: AuthedRequest, res: Response) {
     console.error("toggleUserActive error:", err);
     return fail(res, "Failed to toggle user status", 500);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * DELETE /api/users/:id/lockout
+ * Clear brute-force lockouts/counters for a user's account (all scopes).
+ * Optional body/query `ip` also clears that IP's counters.
+ * SUPER_ADMIN only
+ */
+export async function clearUserLockout(req: AuthedRequest, res: Response) {
+  try {
+    if (!req.user) {
+      return fail(res, "Unauthorized", 401);
+    }
+
+    if (!hasPermission(req.user, "users.manage")) {
+      return fail(res, "Forbidden: You do not have permission to clear lockouts", 403);
+    }
+
+    const { id } = req.params;
+    const ip = (req.body?.ip || req.query.ip) as string | undefined;
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: { id: true, email: true, name: true },
+    });
+
+    if (!user) {
+      return fail(res, "User not found", 404);
+    }
+
+    const cleared = await clearLockouts(user.email, ip);
+
+    // Audit log
+    try {
+      await prisma.auditLog.create({
+        data: {
+          userId: req.user.id,
+          actionType: "ACCOUNT_LOCKOUT_CLEARED",
+          entityType: "USER",
+          entityId: user.id,
+          metaJson: {
+            userEmail: user.email,
+            ip: ip || null,
+            clearedRecords: cleared,
+          },
+        },
+      });
+    } catch (auditErr) {
+      console.error("Audit log error:", auditErr);
+    }
+
+    return success(res, {
+      message: cleared > 0 ? "Lockout cleared" : "No active lockout for this user",
+      cleared,
+    });
+  } catch (err: any) {
+    console.error("clearUserLockout error:", err);
+    return fail(res, "Failed to clear lockout", 500);
+  }
+}
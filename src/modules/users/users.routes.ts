@@ -1,29 +1,33 @@
 import { Router } from "express";
 import { authRequired } from "../../middleware/auth";
-import { requireRole } from "../../middleware/requireRole";
+import { requirePermission } from "../../middleware/requirePermission";
 import {
   getAllUsers,
   getUser,
   approveUser,
   rejectUser,
   toggleUserActive,
+  clearUserLockout,
 } from "./users.controller";
 
 const router = Router();
 
 // GET /api/users - Get all users (SUPER_ADMIN only)
-router.get("/", authRequired, requireRole("SUPER_ADMIN"), getAllUsers);
+router.get("/", authRequired, requirePermission("users.manage"), getAllUsers);
 
 // GET /api/users/:id - Get specific user (SUPER_ADMIN only)
-router.get("/:id", authRequired, requireRole("SUPER_ADMIN"), getUser);
+router.get("/:id", authRequired, requirePermission("users.manage"), getUser);
 
 // POST /api/users/:id/approve - Approve CLIENT_VIEWER_PENDING user (SUPER_ADMIN only)
-router.post("/:id/approve", authRequired, requireRole("SUPER_ADMIN"), approveUser);
+router.post("/:id/approve", authRequired, requirePermission("users.manage"), approveUser);
 
 // POST /api/users/:id/reject - Reject CLIENT_VIEWER_PENDING user (SUPER_ADMIN only)
-router.post("/:id/reject", authRequired, requireRole("SUPER_ADMIN"), rejectUser);
+router.post("/:id/reject", authRequired, requirePermission("users.manage"), rejectUser);
 
 // PATCH /api/users/:id/toggle-active - Toggle user active status (SUPER_ADMIN only)
-router.patch("/:id/toggle-active", authRequired, requireRole("SUPER_ADMIN"), toggleUserActive);
+router.patch("/:id/toggle-active", authRequired, requirePermission("users.manage"), toggleUserActive);
+
+// DELETE /api/users/:id/lockout - Clear brute-force lockouts for a user (SUPER_ADMIN only)
+router.delete("/:id/lockout", authRequired, requirePermission("users.manage"), clearUserLockout);
 
 export default router;
\ No newline at end of file
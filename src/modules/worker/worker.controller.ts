@@ -2,7 +2,10 @@ import { Response } from "express";
 import { prisma } from "../../config/prisma";
 import { AuthedRequest } from "../../middleware/auth";
 import { success, fail } from "../../utils/response";
+import { hasPermission } from "../../services/permission.service";
 import { Prisma } from "@prisma/client";
+import { PAYOUT_ELIGIBLE_WHERE, isPayoutEligible } from "../../services/taskReview.service";
+import { sumMinutes, toHours, weekStartOf } from "../../services/timeTracking.service";
 
 // ============================================
 // WORKER DASHBOARD & EARNINGS
@@ -102,6 +105,18 @@ export async function getWorkerDashboard(req: AuthedRequest, res: Response) {
       },
     });
 
+    // Logged hours (finished time entries)
+    const weekStart = weekStartOf(now);
+    const [totalMinutes, thisWeekMinutes, thisMonthMinutes, runningTimer] = await Promise.all([
+      sumMinutes({ userId: workerId }, "userId"),
+      sumMinutes({ userId: workerId, startedAt: { gte: weekStart } }, "userId"),
+      sumMinutes({ userId: workerId, startedAt: { gte: startOfMonth } }, "userId"),
+      prisma.timeEntry.findFirst({
+        where: { userId: workerId, endedAt: null },
+        select: { id: true, startedAt: true, task: { select: { id: true, title: true } } },
+      }),
+    ]);
+
     // Get recent tasks (last 5)
     const recentTasks = await prisma.task.findMany({
       where: { assignedToId: workerId },
@@ -141,6 +156,12 @@ export async function getWorkerDashboard(req: AuthedRequest, res: Response) {
           pending: pendingApplications,
         },
         availableJobs,
+        hours: {
+          total: toHours(totalMinutes.get(workerId) ?? 0),
+          thisWeek: toHours(thisWeekMinutes.get(workerId) ?? 0),
+          thisMonth: toHours(thisMonthMinutes.get(workerId) ?? 0),
+          runningTimer,
+        },
       },
       recentTasks: recentTasks.map((t) => ({
         ...t,
@@ -460,10 +481,13 @@ export async function exportPaymentHistory(req: AuthedRequest, res: Response) {
       },
     });
 
+    const loggedMinutes = await sumMinutes({ taskId: { in: payments.map((p) => p.id) } }, "taskId");
+
     const exportData = payments.map((p) => ({
       taskId: p.id,
       taskTitle: p.title,
       clientName: p.client?.companyName || "Unknown",
+      hoursLogged: toHours(loggedMinutes.get(p.id) ?? 0),
       amount: p.paymentAmount ? Number(p.paymentAmount) : 0,
       currency: "NGN",
       paymentStatus: p.workerPaymentStatus,
@@ -517,7 +541,7 @@ export async function getPendingWorkerPayments(req: AuthedRequest, res: Response
       return fail(res, "Unauthorized", 401);
     }
 
-    if (!["ADMIN", "SUPER_ADMIN"].includes(req.user.role)) {
+    if (!hasPermission(req.user, "payouts.read")) {
       return fail(res, "Forbidden", 403);
     }
 
@@ -525,7 +549,7 @@ export async function getPendingWorkerPayments(req: AuthedRequest, res: Response
 
     const tasks = await prisma.task.findMany({
       where: {
-        status: "DONE",
+        ...PAYOUT_ELIGIBLE_WHERE,
         paymentAmount: { not: null },
         workerPaymentStatus: status as any,
         assignedToId: { not: null },
@@ -586,7 +610,7 @@ export async function markPaymentAsPaid(req: AuthedRequest, res: Response) {
       return fail(res, "Unauthorized", 401);
     }
 
-    if (!["ADMIN", "SUPER_ADMIN"].includes(req.user.role)) {
+    if (!hasPermission(req.user, "payouts.mark_paid")) {
       return fail(res, "Forbidden", 403);
     }
 
@@ -609,6 +633,10 @@ export async function markPaymentAsPaid(req: AuthedRequest, res: Response) {
       return fail(res, "Can only mark payment for completed tasks", 400);
     }
 
+    if (!isPayoutEligible(task)) {
+      return fail(res, "Task is awaiting client approval", 400);
+    }
+
     if (!task.paymentAmount) {
       return fail(res, "Task has no payment amount set", 400);
     }
@@ -685,7 +713,7 @@ export async function bulkMarkPaymentsAsPaid(req: AuthedRequest, res: Response)
       return fail(res, "Unauthorized", 401);
     }
 
-    if (!["ADMIN", "SUPER_ADMIN"].includes(req.user.role)) {
+    if (!hasPermission(req.user, "payouts.mark_paid")) {
       return fail(res, "Forbidden", 403);
     }
 
@@ -699,7 +727,7 @@ export async function bulkMarkPaymentsAsPaid(req: AuthedRequest, res: Response)
     const tasks = await prisma.task.findMany({
       where: {
         id: { in: taskIds },
-        status: "DONE",
+        ...PAYOUT_ELIGIBLE_WHERE,
         paymentAmount: { not: null },
         workerPaymentStatus: "PENDING",
       },
@@ -792,8 +820,8 @@ export async function getWorkersEarningsOverview(req: AuthedRequest, res: Respon
     }
 
     // Only SUPER_ADMIN can see financial overview
-    if (req.user.role !== "SUPER_ADMIN") {
-      return fail(res, "Forbidden: Only super admins can access earnings overview", 403);
+    if (!hasPermission(req.user, "payouts.overview")) {
+      return fail(res, "Forbidden: You do not have permission to access earnings overview", 403);
     }
 
     const workers = await prisma.user.findMany({
@@ -874,8 +902,8 @@ export async function exportAllWorkerPayments(req: AuthedRequest, res: Response)
     }
 
     // SUPER_ADMIN only
-    if (req.user.role !== "SUPER_ADMIN") {
-      return fail(res, "Forbidden: Only super admins can export all worker payments", 403);
+    if (!hasPermission(req.user, "payouts.overview")) {
+      return fail(res, "Forbidden: You do not have permission to export all worker payments", 403);
     }
 
     const { workerId, year, month, status } = req.query;
@@ -945,6 +973,8 @@ export async function exportAllWorkerPayments(req: AuthedRequest, res: Response)
     });
 
     // Transform to export format
+    const loggedMinutes = await sumMinutes({ taskId: { in: payments.map((p) => p.id) } }, "taskId");
+
     const exportData = payments.map((p) => ({
       workerName: p.assignedTo?.name || "Unknown",
       workerEmail: p.assignedTo?.email || "Unknown",
@@ -952,6 +982,7 @@ export async function exportAllWorkerPayments(req: AuthedRequest, res: Response)
       taskId: p.id,
       taskTitle: p.title,
       clientName: p.client?.companyName || "Unknown",
+      hoursLogged: toHours(loggedMinutes.get(p.id) ?? 0),
       amount: p.paymentAmount ? Number(p.paymentAmount) : 0,
       currency: "NGN",
       paymentStatus: p.workerPaymentStatus,
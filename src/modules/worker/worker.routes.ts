@@ -1,6 +1,8 @@
 import { Router } from "express";
 import { authRequired } from "../../middleware/auth";
 import { requireRole } from "../../middleware/requireRole";
+import { requirePermission } from "../../middleware/requirePermission";
+import { blockImpersonation } from "../../middleware/blockImpersonation";
 import {
   // Worker endpoints
   getWorkerDashboard,
@@ -62,7 +64,7 @@ router.get(
 router.get(
   "/admin/payments",
   authRequired,
-  requireRole("ADMIN", "SUPER_ADMIN"),
+  requirePermission("payouts.read"),
   getPendingWorkerPayments
 );
 
@@ -70,7 +72,8 @@ router.get(
 router.post(
   "/admin/payments/:taskId/mark-paid",
   authRequired,
-  requireRole("ADMIN", "SUPER_ADMIN"),
+  blockImpersonation,
+  requirePermission("payouts.mark_paid"),
   markPaymentAsPaid
 );
 
@@ -78,7 +81,8 @@ router.post(
 router.post(
   "/admin/payments/bulk-pay",
   authRequired,
-  requireRole("ADMIN", "SUPER_ADMIN"),
+  blockImpersonation,
+  requirePermission("payouts.mark_paid"),
   bulkMarkPaymentsAsPaid
 );
 
@@ -90,7 +94,7 @@ router.post(
 router.get(
   "/admin/earnings-overview",
   authRequired,
-  requireRole("SUPER_ADMIN"),
+  requirePermission("payouts.overview"),
   getWorkersEarningsOverview
 );
 
@@ -98,7 +102,7 @@ router.get(
 router.get(
   "/admin/export-all-payments",
   authRequired,
-  requireRole("SUPER_ADMIN"),
+  requirePermission("payouts.overview"),
   exportAllWorkerPayments
 );
 
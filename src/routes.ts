@@ -5,6 +5,7 @@ import usersRoutes from "./modules/users/users.routes";
 import tasksRoutes from "./modules/tasks/tasks.routes";
 import clientsRoutes from "./modules/clients/clients.routes";
 import commentsRoutes from "./modules/comments/comments.routes";
+import checklistsRoutes from "./modules/checklists/checklists.routes";
 import activityRoutes from "./modules/activity/activity.routes";
 
 import paymentsRoutes from "./modules/payments/payments.routes";
@@ -22,6 +23,7 @@ router.use("/users", usersRoutes);
 router.use("/tasks", tasksRoutes);
 router.use("/clients", clientsRoutes);
 router.use("/tasks", commentsRoutes); // /api/tasks/:taskId/comments
+router.use("/tasks", checklistsRoutes); // /api/tasks/:taskId/checklist
 router.use("/activity", activityRoutes);
 
 // Payment & Contract Flow
@@ -1,5 +1,6 @@
 import app from "./app";
 import { env } from "./config/env";
+import { startScheduler } from "./services/scheduler.service";
 
 // Existing route imports
 import authRouter from "./modules/auth/auth.routes";
@@ -56,6 +57,7 @@ app.use("/api/settings", settingsRouter);
 // ============================================
 
 app.listen(env.port, () => {
+  startScheduler();
   console.log(`
 ╔════════════════════════════════════════════════════════╗
 ║                    AMBO Backend V2                      ║
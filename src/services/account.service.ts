@@ -0,0 +1,435 @@
+import crypto from "crypto";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../config/prisma";
+import { hashPassword } from "../utils/hash";
+import { getClientMembership } from "./clientAccess.service";
+import { serializeApiKey } from "./apiKey.service";
+
+export const DELETED_USER_NAME = "Deleted user";
+
+// Replaces the user's own email/phone inside messages and comments they wrote
+const REDACTED = "[removed]";
+
+// Audit metaJson keys holding the user's own details, on entries they made
+const PERSONAL_AUDIT_KEYS: Record<string, string[]> = {
+  EMAIL_CHANGED: ["previousEmail", "email"],
+  EMAIL_CHANGE_REQUESTED: ["newEmail"],
+  EMAIL_VERIFIED: ["email"],
+  CLIENT_SELF_REGISTERED: ["userEmail", "userName"],
+  INVITATION_SENT: ["invitedBy"],
+  INVITATION_ACCEPTED: ["email"],
+};
+
+// ...and on any entry about an invitation sent to them
+const INVITATION_AUDIT_KEYS = ["email", "name"];
+
+function redactMeta(meta: Prisma.JsonValue, keys: string[]) {
+  if (!meta || typeof meta !== "object" || Array.isArray(meta)) return null;
+
+  const present = keys.filter((key) => key in meta);
+  if (present.length === 0) return null;
+
+  return { ...meta, ...Object.fromEntries(present.map((key) => [key, REDACTED])) };
+}
+
+/**
+ * Everything we hold about a user, for the "download my data" bundle.
+ * Hashes, 2FA secrets and tokens are never included.
+ */
+export async function buildPersonalDataExport(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      pendingEmail: true,
+      phone: true,
+      role: true,
+      active: true,
+      emailVerifiedAt: true,
+      twoFactorEnabled: true,
+      createdAt: true,
+      updatedAt: true,
+    },
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  const [
+    membership,
+    sessions,
+    apiKeys,
+    tasksAssigned,
+    comments,
+    taskUpdates,
+    messages,
+    notifications,
+    jobApplications,
+    files,
+    payments,
+    activity,
+    timeEntries,
+  ] = await Promise.all([
+    getClientMembership(userId),
+    prisma.session.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        userAgent: true,
+        ipAddress: true,
+        createdAt: true,
+        lastUsedAt: true,
+        expiresAt: true,
+        revokedAt: true,
+      },
+      orderBy: { createdAt: "desc" },
+    }),
+    prisma.apiKey.findMany({ where: { userId }, orderBy: { createdAt: "desc" } }),
+    prisma.task.findMany({
+      where: { assignedToId: userId },
+      select: {
+        id: true,
+        title: true,
+        status: true,
+        dueDate: true,
+        paymentAmount: true,
+        workerPaymentStatus: true,
+        paidAt: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: "desc" },
+    }),
+    prisma.taskComment.findMany({
+      where: { userId },
+      select: { id: true, taskId: true, content: true, createdAt: true },
+      orderBy: { createdAt: "desc" },
+    }),
+    prisma.taskUpdate.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        taskId: true,
+        oldStatus: true,
+        newStatus: true,
+        message: true,
+        attachmentUrl: true,
+        timestamp: true,
+      },
+      orderBy: { timestamp: "desc" },
+    }),
+    prisma.message.findMany({
+      where: { senderId: userId },
+      select: { id: true, channelId: true, content: true, attachments: true, createdAt: true },
+      orderBy: { createdAt: "desc" },
+    }),
+    prisma.notification.findMany({
+      where: { userId },
+      select: { id: true, type: true, title: true, body: true, read: true, createdAt: true },
+      orderBy: { createdAt: "desc" },
+    }),
+    prisma.jobApplication.findMany({
+      where: { workerId: userId },
+      select: {
+        id: true,
+        taskId: true,
+        status: true,
+        coverNote: true,
+        appliedAt: true,
+        reviewedAt: true,
+        rejectionReason: true,
+      },
+      orderBy: { appliedAt: "desc" },
+    }),
+    prisma.file.findMany({
+      where: { uploadedById: userId },
+      select: {
+        id: true,
+        filename: true,
+        fileUrl: true,
+        fileType: true,
+        fileSize: true,
+        entityType: true,
+        entityId: true,
+        description: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: "desc" },
+    }),
+    prisma.payment.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        reference: true,
+        amount: true,
+        currency: true,
+        status: true,
+        channel: true,
+        paidAt: true,
+        customerEmail: true,
+        contractId: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: "desc" },
+    }),
+    prisma.auditLog.findMany({
+      where: { userId },
+      select: { id: true, actionType: true, entityType: true, entityId: true, timestamp: true },
+      orderBy: { timestamp: "desc" },
+    }),
+    prisma.timeEntry.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        taskId: true,
+        source: true,
+        startedAt: true,
+        endedAt: true,
+        durationMinutes: true,
+        note: true,
+      },
+      orderBy: { startedAt: "desc" },
+    }),
+  ]);
+
+  return {
+    exportedAt: new Date().toISOString(),
+    profile: user,
+    client: membership
+      ? {
+          id: membership.clientId,
+          companyName: membership.client.companyName,
+          clientRole: membership.role,
+          isPrimaryContact: membership.client.linkedUserId === userId,
+        }
+      : null,
+    sessions,
+    apiKeys: apiKeys.map(serializeApiKey),
+    tasksAssigned,
+    comments,
+    taskUpdates,
+    messages,
+    notifications,
+    jobApplications,
+    files,
+    payments,
+    activity,
+    timeEntries,
+  };
+}
+
+/**
+ * Why a user cannot delete their account right now (null = they can)
+ */
+export async function getDeletionBlocker(user: { id: string; role: string }): Promise<string | null> {
+  if (user.role === "SUPER_ADMIN") {
+    return "Super admin accounts cannot be deleted";
+  }
+
+  const activeTasks = await prisma.task.count({
+    where: { assignedToId: user.id, status: { in: ["IN_PROGRESS", "WAITING"] } },
+  });
+  if (activeTasks > 0) {
+    return `You have ${activeTasks} task(s) in progress. Complete or hand them over first`;
+  }
+
+  const membership = await getClientMembership(user.id);
+  if (membership?.role === "OWNER") {
+    const [owners, members] = await Promise.all([
+      prisma.clientMember.count({ where: { clientId: membership.clientId, role: "OWNER" } }),
+      prisma.clientMember.count({ where: { clientId: membership.clientId } }),
+    ]);
+    if (owners <= 1 && members > 1) {
+      return "You are the only owner of your client team. Make another member an owner first";
+    }
+  }
+
+  return null;
+}
+
+/**
+ * GDPR erasure. The User row is kept as an anonymous tombstone so payments,
+ * task payouts and audit history stay intact; everything that identifies the
+ * person is removed:
+ *  - profile fields, credentials, 2FA, sessions, API keys, calendar feed and notifications
+ *  - their email/phone inside Messages and TaskComments they wrote (authorship
+ *    then resolves to the anonymous tombstone)
+ *  - Client contact fields they were the contact for
+ *  - invitations addressed to them and job application cover notes
+ */
+export async function anonymizeUser(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, phone: true },
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  // Make sure a legacy primary contact has a membership row to remove
+  await getClientMembership(userId);
+
+  const placeholderEmail = `deleted+${user.id}@deleted.local`;
+  const unusablePasswordHash = await hashPassword(crypto.randomBytes(32).toString("hex"));
+  const identifiers = [user.email, user.phone].filter((v): v is string => !!v && v.length >= 5);
+
+  await prisma.$transaction(async (tx) => {
+    // Their own contact details inside what they wrote
+    for (const identifier of identifiers) {
+      const [messages, comments] = await Promise.all([
+        tx.message.findMany({
+          where: { senderId: userId, content: { contains: identifier, mode: "insensitive" } },
+          select: { id: true, content: true },
+        }),
+        tx.taskComment.findMany({
+          where: { userId, content: { contains: identifier, mode: "insensitive" } },
+          select: { id: true, content: true },
+        }),
+      ]);
+      const commentEdits = await tx.taskCommentEdit.findMany({
+        where: { comment: { userId }, previousContent: { contains: identifier, mode: "insensitive" } },
+        select: { id: true, previousContent: true },
+      });
+      const pattern = new RegExp(identifier.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "gi");
+
+      for (const m of messages) {
+        await tx.message.update({ where: { id: m.id }, data: { content: m.content.replace(pattern, REDACTED) } });
+      }
+      for (const c of comments) {
+        await tx.taskComment.update({ where: { id: c.id }, data: { content: c.content.replace(pattern, REDACTED) } });
+      }
+      for (const e of commentEdits) {
+        await tx.taskCommentEdit.update({
+          where: { id: e.id },
+          data: { previousContent: e.previousContent.replace(pattern, REDACTED) },
+        });
+      }
+    }
+
+    // Client organizations: drop membership and hand over / blank the contact fields
+    const clients = await tx.client.findMany({
+      where: {
+        OR: [
+          { linkedUserId: userId },
+          { email: { equals: user.email, mode: "insensitive" } },
+          { members: { some: { userId } } },
+        ],
+      },
+      select: { id: true, email: true, linkedUserId: true },
+    });
+
+    await tx.clientMember.deleteMany({ where: { userId } });
+
+    for (const client of clients) {
+      const wasContact =
+        client.linkedUserId === userId || client.email.toLowerCase() === user.email.toLowerCase();
+
+      if (!wasContact) continue;
+
+      const next = await tx.clientMember.findFirst({
+        where: { clientId: client.id, user: { active: true } },
+        orderBy: [{ role: "asc" }, { createdAt: "asc" }],
+        include: { user: { select: { id: true, name: true, email: true, phone: true } } },
+      });
+
+      await tx.client.update({
+        where: { id: client.id },
+        data: next
+          ? {
+              linkedUserId: next.userId,
+              contactPerson: next.user.name,
+              email: next.user.email,
+              phone: next.user.phone || "",
+            }
+          : {
+              linkedUserId: null,
+              contactPerson: DELETED_USER_NAME,
+              email: `deleted+${client.id}@deleted.local`,
+              phone: "",
+              whatsapp: null,
+            },
+      });
+    }
+
+    const invitationWhere: Prisma.InvitationWhereInput = {
+      OR: [{ acceptedUserId: userId }, { email: { equals: user.email, mode: "insensitive" } }],
+    };
+    const invitationIds = (await tx.invitation.findMany({ where: invitationWhere, select: { id: true } })).map(
+      (i) => i.id
+    );
+
+    // Contact details the audit history recorded about them
+    const auditEntries = await tx.auditLog.findMany({
+      where: {
+        OR: [
+          { userId, actionType: { in: Object.keys(PERSONAL_AUDIT_KEYS) } },
+          { entityType: "INVITATION", entityId: { in: invitationIds } },
+        ],
+      },
+      select: { id: true, userId: true, actionType: true, entityType: true, entityId: true, metaJson: true },
+    });
+
+    for (const entry of auditEntries) {
+      const keys = [
+        ...(entry.userId === userId ? PERSONAL_AUDIT_KEYS[entry.actionType] ?? [] : []),
+        ...(entry.entityType === "INVITATION" && invitationIds.includes(entry.entityId) ? INVITATION_AUDIT_KEYS : []),
+      ];
+      const redacted = redactMeta(entry.metaJson, keys);
+      if (redacted) {
+        await tx.auditLog.update({ where: { id: entry.id }, data: { metaJson: redacted } });
+      }
+    }
+
+    await tx.invitation.updateMany({
+      where: invitationWhere,
+      data: {
+        name: DELETED_USER_NAME,
+        email: placeholderEmail,
+        phone: null,
+        revokedAt: new Date(),
+      },
+    });
+
+    await tx.jobApplication.updateMany({
+      where: { workerId: userId },
+      data: { coverNote: null },
+    });
+
+    await tx.notification.deleteMany({ where: { userId } });
+    await tx.session.deleteMany({ where: { userId } });
+    await tx.calendarFeed.deleteMany({ where: { userId } });
+    await tx.apiKey.updateMany({
+      where: { userId },
+      data: { revokedAt: new Date(), lastUsedIp: null },
+    });
+    await tx.authThrottle.deleteMany({
+      where: { key: { endsWith: `:account:${user.email.toLowerCase()}` } },
+    });
+
+    await tx.user.update({
+      where: { id: userId },
+      data: {
+        name: DELETED_USER_NAME,
+        email: placeholderEmail,
+        pendingEmail: null,
+        phone: null,
+        passwordHash: unusablePasswordHash,
+        active: false,
+        resetToken: null,
+        resetTokenExpiry: null,
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorRecoveryCodes: [],
+        twoFactorLastStep: null,
+        twoFactorEnabledAt: null,
+        customRoleId: null,
+        deletedAt: new Date(),
+      },
+    });
+  });
+
+  return { deletedAt: new Date() };
+}
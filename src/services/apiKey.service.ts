@@ -0,0 +1,115 @@
+import crypto from "crypto";
+import { prisma } from "../config/prisma";
+import { hashToken } from "./session.service";
+
+export const API_KEY_PREFIX = "ambo";
+
+// Only write lastUsedAt once per minute per key
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Permissions whose endpoints honour a key's client scope. A client-scoped key
+ * can only hold these; the rest (exports, analytics, payouts, timesheets...)
+ * act on every client.
+ */
+export const CLIENT_SCOPABLE_PERMISSIONS = ["tasks.create", "tasks.manage", "contracts.manage"];
+
+/**
+ * Does this bearer value look like an API key (rather than a JWT)?
+ */
+export function isApiKey(value: string): boolean {
+  return value.startsWith(`${API_KEY_PREFIX}_`);
+}
+
+/**
+ * New raw key "ambo_<prefix>_<secret>" + what gets stored
+ */
+export function generateApiKey() {
+  const prefix = crypto.randomBytes(4).toString("hex");
+  const secret = crypto.randomBytes(24).toString("base64url");
+  const key = `${API_KEY_PREFIX}_${prefix}_${secret}`;
+  return { key, prefix, keyHash: hashToken(key) };
+}
+
+/**
+ * Resolve a raw key to a usable (not revoked/expired) key with its owner
+ */
+export async function findActiveApiKey(rawKey: string) {
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: hashToken(rawKey) },
+    include: {
+      user: {
+        select: { id: true, role: true, email: true, name: true, active: true, customRoleId: true },
+      },
+    },
+  });
+
+  if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt < new Date())) {
+    return null;
+  }
+
+  return apiKey;
+}
+
+/**
+ * Record usage (throttled so busy integrations don't write on every call)
+ */
+export async function touchApiKey(
+  apiKey: { id: string; lastUsedAt: Date | null },
+  ipAddress?: string | null
+) {
+  if (apiKey.lastUsedAt && Date.now() - apiKey.lastUsedAt.getTime() < TOUCH_INTERVAL_MS) {
+    return;
+  }
+
+  await prisma.apiKey.update({
+    where: { id: apiKey.id },
+    data: { lastUsedAt: new Date(), lastUsedIp: ipAddress || null },
+  });
+}
+
+/**
+ * Safe shape for listings (never includes the hash)
+ */
+export function serializeApiKey(apiKey: {
+  id: string;
+  name: string;
+  prefix: string;
+  userId: string;
+  createdById: string;
+  permissions: string[];
+  clientId: string | null;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+  user?: { id: string; name: string; email: string; isServiceAccount?: boolean } | null;
+}) {
+  const now = new Date();
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    displayKey: `${API_KEY_PREFIX}_${apiKey.prefix}_…`,
+    userId: apiKey.userId,
+    user: apiKey.user || undefined,
+    createdById: apiKey.createdById,
+    permissions: apiKey.permissions,
+    clientId: apiKey.clientId,
+    expiresAt: apiKey.expiresAt,
+    lastUsedAt: apiKey.lastUsedAt,
+    lastUsedIp: apiKey.lastUsedIp,
+    revokedAt: apiKey.revokedAt,
+    createdAt: apiKey.createdAt,
+    active: !apiKey.revokedAt && (!apiKey.expiresAt || apiKey.expiresAt > now),
+  };
+}
+
+/**
+ * Client an API-key request is restricted to (null = not restricted)
+ */
+export function getApiKeyClientScope(
+  user: { apiKey?: { clientId: string | null } } | undefined
+): string | null {
+  return user?.apiKey?.clientId ?? null;
+}
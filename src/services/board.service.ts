@@ -0,0 +1,139 @@
+import { BoardScope, Prisma, TaskStatus } from "@prisma/client";
+import { prisma } from "../config/prisma";
+
+// Gap between ranks when appending or renumbering a column
+const RANK_STEP = 1024;
+
+// Below this gap two neighbours are renumbered before inserting between them
+const MIN_RANK_GAP = 1e-6;
+
+export const BOARD_COLUMNS: TaskStatus[] = ["NOT_STARTED", "IN_PROGRESS", "WAITING", "DONE", "REJECTED"];
+
+export type Board = { scope: BoardScope; scopeId: string; where: Prisma.TaskWhereInput };
+
+export class BoardError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+/**
+ * "contract" | "client" | "worker" from the URL -> BoardScope
+ */
+export function parseBoardScope(value: string): BoardScope | null {
+  const scope = value.toUpperCase() as BoardScope;
+  return (["CONTRACT", "CLIENT", "WORKER"] as BoardScope[]).includes(scope) ? scope : null;
+}
+
+/**
+ * Tasks that belong to a board (archived tasks are off the board)
+ */
+export function boardTaskWhere(scope: BoardScope, scopeId: string): Prisma.TaskWhereInput {
+  switch (scope) {
+    case "CONTRACT":
+      return { contractId: scopeId, archivedAt: null };
+    case "CLIENT":
+      return { clientId: scopeId, archivedAt: null };
+    case "WORKER":
+      return { assignedToId: scopeId, archivedAt: null };
+  }
+}
+
+/**
+ * Rank of each task on a board (tasks without a position are missing)
+ */
+export async function getBoardRanks(
+  client: Prisma.TransactionClient,
+  board: Pick<Board, "scope" | "scopeId">,
+  taskIds: string[]
+) {
+  const positions = await client.boardPosition.findMany({
+    where: { scope: board.scope, scopeId: board.scopeId, taskId: { in: taskIds } },
+    select: { taskId: true, rank: true },
+  });
+  return new Map(positions.map((p) => [p.taskId, p.rank]));
+}
+
+/**
+ * Tasks in board order: by rank on this board (0 without a position), then createdAt
+ */
+export function sortByBoardRank<T extends { id: string; createdAt: Date }>(tasks: T[], ranks: Map<string, number>) {
+  return [...tasks].sort(
+    (a, b) => (ranks.get(a.id) ?? 0) - (ranks.get(b.id) ?? 0) || a.createdAt.getTime() - b.createdAt.getTime()
+  );
+}
+
+/**
+ * Store a task's rank on a board
+ */
+export async function setBoardRank(tx: Prisma.TransactionClient, board: Board, taskId: string, rank: number) {
+  const { scope, scopeId } = board;
+  await tx.boardPosition.upsert({
+    where: { scope_scopeId_taskId: { scope, scopeId, taskId } },
+    create: { scope, scopeId, taskId, rank },
+    update: { rank },
+  });
+}
+
+/**
+ * Rank that places a task in `status` on the board, right after `afterTaskId`
+ * or right before `beforeTaskId` (neither: bottom of the column). Renumbers
+ * the column when the neighbours are too close together.
+ */
+export async function computeBoardRank(
+  tx: Prisma.TransactionClient,
+  board: Board,
+  status: TaskStatus,
+  taskId: string,
+  anchor: { afterTaskId?: string; beforeTaskId?: string }
+): Promise<number> {
+  const tasks = await tx.task.findMany({
+    where: { ...board.where, status, id: { not: taskId } },
+    select: { id: true, createdAt: true },
+  });
+  const ranks = await getBoardRanks(tx, board, tasks.map((t) => t.id));
+  let column = sortByBoardRank(tasks, ranks).map((t) => ({ id: t.id, rank: ranks.get(t.id) ?? 0 }));
+
+  let index = column.length; // insert before column[index]
+  const anchorId = anchor.afterTaskId ?? anchor.beforeTaskId;
+  if (anchorId) {
+    const anchorIndex = column.findIndex((t) => t.id === anchorId);
+    if (anchorIndex === -1) {
+      throw new BoardError("The task to place next to is not in the target column of this board");
+    }
+    index = anchor.afterTaskId ? anchorIndex + 1 : anchorIndex;
+  }
+
+  const rankAt = (i: number) => column[i]?.rank;
+  let prev = rankAt(index - 1);
+  let next = rankAt(index);
+
+  if (prev !== undefined && next !== undefined && next - prev < MIN_RANK_GAP) {
+    column = await renumberColumn(tx, board, column);
+    prev = rankAt(index - 1);
+    next = rankAt(index);
+  }
+
+  if (prev === undefined && next === undefined) return 0;
+  if (prev === undefined) return next! - RANK_STEP;
+  if (next === undefined) return prev + RANK_STEP;
+  return (prev + next) / 2;
+}
+
+async function renumberColumn(tx: Prisma.TransactionClient, board: Board, column: { id: string; rank: number }[]) {
+  const renumbered = column.map((task, i) => ({ id: task.id, rank: (i + 1) * RANK_STEP }));
+
+  for (const task of renumbered) {
+    await setBoardRank(tx, board, task.id, task.rank);
+  }
+
+  return renumbered;
+}
+
+/**
+ * WIP limits of a board keyed by status
+ */
+export async function getColumnLimits(scope: BoardScope, scopeId: string) {
+  const limits = await prisma.boardColumnLimit.findMany({ where: { scope, scopeId } });
+  return new Map(limits.map((l) => [l.status, l.wipLimit]));
+}
@@ -0,0 +1,281 @@
+import crypto from "crypto";
+import { Prisma, Role, TaskStatus } from "@prisma/client";
+import { prisma } from "../config/prisma";
+import { hashToken } from "./session.service";
+import { getClientForUser } from "./clientAccess.service";
+import { getPermissionsFor, hasPermission } from "./permission.service";
+import { getDueAt } from "./sla.service";
+
+// Events whose date is older than this are left out of feeds
+const FEED_HISTORY_DAYS = 60;
+
+// Only write lastAccessedAt once per hour (calendar apps poll often)
+const TOUCH_INTERVAL_MS = 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type FeedUser = { id: string; name: string; role: Role; permissions: string[] };
+
+export type CalendarEvent = {
+  uid: string;
+  summary: string;
+  description: string;
+  at: Date;
+  updatedAt: Date;
+  status: "CONFIRMED" | "TENTATIVE" | "CANCELLED";
+  categories: string[];
+};
+
+/**
+ * Create or replace the user's feed secret; any previous URL stops working.
+ * Returns the raw token (only ever shown here).
+ */
+export async function regenerateCalendarFeed(userId: string) {
+  const token = crypto.randomBytes(24).toString("base64url");
+  const tokenHash = hashToken(token);
+
+  const feed = await prisma.calendarFeed.upsert({
+    where: { userId },
+    create: { userId, tokenHash },
+    update: { tokenHash, createdAt: new Date(), lastAccessedAt: null },
+  });
+
+  return { token, feed };
+}
+
+/**
+ * Owner of a feed token, or null when the token is unknown or the user inactive
+ */
+export async function findCalendarFeedUser(token: string) {
+  const feed = await prisma.calendarFeed.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: { select: { id: true, name: true, role: true, active: true, customRoleId: true } } },
+  });
+
+  if (!feed || !feed.user.active) return null;
+
+  if (!feed.lastAccessedAt || Date.now() - feed.lastAccessedAt.getTime() >= TOUCH_INTERVAL_MS) {
+    await prisma.calendarFeed.update({ where: { id: feed.id }, data: { lastAccessedAt: new Date() } });
+  }
+
+  return { ...feed.user, permissions: await getPermissionsFor(feed.user) };
+}
+
+function taskEvent(
+  task: {
+    id: string;
+    title: string;
+    status: TaskStatus;
+    dueDate: Date | null;
+    deadline: Date | null;
+    updatedAt: Date;
+    client: { companyName: string } | null;
+  },
+  forClient: boolean
+): CalendarEvent {
+  const summary = task.status === "DONE" ? `✓ ${task.title}` : `Due: ${task.title}`;
+  const details = [`Status: ${task.status}`, task.client && !forClient ? `Client: ${task.client.companyName}` : null];
+
+  return {
+    uid: `task-${task.id}`,
+    summary,
+    description: details.filter(Boolean).join("\n"),
+    at: getDueAt(task)!,
+    updatedAt: task.updatedAt,
+    status: task.status === "REJECTED" ? "CANCELLED" : "CONFIRMED",
+    categories: ["Task"],
+  };
+}
+
+/**
+ * Tasks whose due date (dueDate, else the job deadline) is on or after `since`
+ */
+function dueSince(since: Date): Prisma.TaskWhereInput {
+  return { OR: [{ dueDate: { gte: since } }, { dueDate: null, deadline: { gte: since } }] };
+}
+
+/**
+ * Contracts have no stored milestones; the delivery milestone is the latest
+ * due date among the contract's tasks
+ */
+async function contractMilestones(where: Prisma.ContractWhereInput, since: Date): Promise<CalendarEvent[]> {
+  const contracts = await prisma.contract.findMany({
+    where: { ...where, status: { not: "CANCELLED" } },
+    select: { id: true, packageType: true, status: true, updatedAt: true, client: { select: { companyName: true } } },
+  });
+  if (contracts.length === 0) return [];
+
+  const tasks = await prisma.task.findMany({
+    where: {
+      contractId: { in: contracts.map((c) => c.id) },
+      status: { not: "REJECTED" },
+      OR: [{ dueDate: { not: null } }, { deadline: { not: null } }],
+    },
+    select: { contractId: true, dueDate: true, deadline: true, updatedAt: true },
+  });
+
+  return contracts.flatMap((contract) => {
+    const own = tasks.filter((t) => t.contractId === contract.id);
+    if (own.length === 0) return [];
+
+    const at = new Date(Math.max(...own.map((t) => getDueAt(t)!.getTime())));
+    if (at < since) return [];
+
+    const lastTaskUpdate = new Date(Math.max(...own.map((t) => t.updatedAt.getTime())));
+    const updatedAt = lastTaskUpdate > contract.updatedAt ? lastTaskUpdate : contract.updatedAt;
+
+    return [
+      {
+        uid: `contract-${contract.id}-delivery`,
+        summary: `${contract.status === "COMPLETE" ? "✓ " : ""}${contract.packageType} delivery – ${contract.client.companyName}`,
+        description: `Contract status: ${contract.status}\nLast task due date of the contract`,
+        at,
+        updatedAt,
+        status: "CONFIRMED",
+        categories: ["Contract"],
+      },
+    ];
+  });
+}
+
+/**
+ * Events a user's feed shows, following what they can see in the app:
+ *  - tasks.manage: every task due date; contracts.manage: every contract milestone
+ *  - WORKER: their assigned tasks, plus deadlines of jobs with a pending application
+ *  - CLIENT_VIEWER: their company's tasks and contract milestones
+ * A task is due on its dueDate, else its job deadline. Archived tasks and
+ * events older than FEED_HISTORY_DAYS are left out.
+ */
+export async function getCalendarEvents(user: FeedUser): Promise<CalendarEvent[]> {
+  const since = new Date(Date.now() - FEED_HISTORY_DAYS * DAY_MS);
+  const taskSelect = {
+    id: true,
+    title: true,
+    status: true,
+    dueDate: true,
+    deadline: true,
+    updatedAt: true,
+    client: { select: { companyName: true } },
+  } as const;
+  const dueTasks: Prisma.TaskWhereInput = { archivedAt: null, ...dueSince(since) };
+
+  const events: CalendarEvent[] = [];
+  const client = user.role === "CLIENT_VIEWER" ? await getClientForUser(user.id) : null;
+
+  if (hasPermission(user, "tasks.manage")) {
+    const tasks = await prisma.task.findMany({ where: dueTasks, select: taskSelect });
+    events.push(...tasks.map((t) => taskEvent(t, false)));
+  } else if (user.role === "WORKER") {
+    const tasks = await prisma.task.findMany({ where: { ...dueTasks, assignedToId: user.id }, select: taskSelect });
+    events.push(...tasks.map((t) => taskEvent(t, false)));
+  } else if (client) {
+    const tasks = await prisma.task.findMany({ where: { ...dueTasks, clientId: client.id }, select: taskSelect });
+    events.push(...tasks.map((t) => taskEvent(t, true)));
+  }
+
+  if (hasPermission(user, "contracts.manage")) {
+    events.push(...(await contractMilestones({}, since)));
+  } else if (client) {
+    events.push(...(await contractMilestones({ clientId: client.id }, since)));
+  }
+
+  if (user.role === "WORKER") {
+    const applications = await prisma.jobApplication.findMany({
+      where: {
+        workerId: user.id,
+        status: "PENDING",
+        task: { deadline: { gte: since }, archivedAt: null, assignedToId: null },
+      },
+      select: {
+        appliedAt: true,
+        task: { select: { id: true, title: true, deadline: true, updatedAt: true } },
+      },
+    });
+
+    events.push(
+      ...applications.map(({ appliedAt, task }): CalendarEvent => ({
+        uid: `job-${task.id}`,
+        summary: `Job deadline: ${task.title} (applied)`,
+        description: "You applied for this job; it is not assigned yet",
+        at: task.deadline!,
+        updatedAt: task.updatedAt > appliedAt ? task.updatedAt : appliedAt,
+        status: "TENTATIVE",
+        categories: ["Job"],
+      }))
+    );
+  }
+
+  return events;
+}
+
+function escapeText(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+function formatUtc(date: Date) {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function formatDay(date: Date) {
+  return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+// Lines longer than 75 octets continue on the next line after a space (RFC 5545 3.1)
+function foldLine(line: string) {
+  const parts: string[] = [];
+  let current = "";
+
+  for (const char of line) {
+    if (Buffer.byteLength(current + char) > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+/**
+ * RFC 5545 calendar. Dates at midnight UTC become all-day events, other
+ * times are zero-length timed events.
+ */
+export function buildICalendar(name: string, events: CalendarEvent[], now = new Date()) {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//AMBO//Task Calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+  ];
+
+  for (const event of events) {
+    const allDay = event.at.getTime() % DAY_MS === 0;
+
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}@ambo`,
+      `DTSTAMP:${formatUtc(now)}`,
+      `LAST-MODIFIED:${formatUtc(event.updatedAt)}`,
+      // Increases whenever the source record changes, so clients replace the event
+      `SEQUENCE:${Math.floor(event.updatedAt.getTime() / 1000)}`,
+      ...(allDay
+        ? [`DTSTART;VALUE=DATE:${formatDay(event.at)}`, `DTEND;VALUE=DATE:${formatDay(new Date(event.at.getTime() + DAY_MS))}`]
+        : [`DTSTART:${formatUtc(event.at)}`, `DTEND:${formatUtc(event.at)}`]),
+      `SUMMARY:${escapeText(event.summary)}`,
+      `DESCRIPTION:${escapeText(event.description)}`,
+      `CATEGORIES:${event.categories.map(escapeText).join(",")}`,
+      `STATUS:${event.status}`,
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT"
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
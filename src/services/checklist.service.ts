@@ -0,0 +1,116 @@
+import { prisma } from "../config/prisma";
+
+// Item > sub-item > sub-sub-item
+export const MAX_CHECKLIST_DEPTH = 3;
+
+export interface ChecklistProgress {
+  total: number;
+  done: number;
+  // null when the task has no checklist
+  percent: number | null;
+}
+
+function toProgress(total: number, done: number): ChecklistProgress {
+  return { total, done, percent: total > 0 ? Math.round((done / total) * 100) : null };
+}
+
+/**
+ * Checklist progress per task, counted over leaf items (an item with
+ * sub-items is done when its sub-items are)
+ */
+export async function getChecklistProgress(taskIds: string[]): Promise<Map<string, ChecklistProgress>> {
+  const progress = new Map<string, ChecklistProgress>();
+
+  if (taskIds.length === 0) {
+    return progress;
+  }
+
+  const groups = await prisma.taskChecklistItem.groupBy({
+    by: ["taskId", "done"],
+    where: { taskId: { in: taskIds }, children: { none: {} } },
+    _count: { _all: true },
+  });
+
+  const counts = new Map<string, { total: number; done: number }>();
+  for (const group of groups) {
+    const entry = counts.get(group.taskId) || { total: 0, done: 0 };
+    entry.total += group._count._all;
+    if (group.done) entry.done += group._count._all;
+    counts.set(group.taskId, entry);
+  }
+
+  for (const taskId of taskIds) {
+    const entry = counts.get(taskId) || { total: 0, done: 0 };
+    progress.set(taskId, toProgress(entry.total, entry.done));
+  }
+
+  return progress;
+}
+
+/**
+ * Roll several tasks' progress up into one (e.g. a contract)
+ */
+export function combineChecklistProgress(items: (ChecklistProgress | undefined)[]): ChecklistProgress {
+  let total = 0;
+  let done = 0;
+  for (const item of items) {
+    if (!item) continue;
+    total += item.total;
+    done += item.done;
+  }
+  return toProgress(total, done);
+}
+
+/**
+ * Attach `progress` to each task in a list
+ */
+export async function withChecklistProgress<T extends { id: string }>(
+  tasks: T[]
+): Promise<(T & { progress: ChecklistProgress })[]> {
+  const progress = await getChecklistProgress(tasks.map((t) => t.id));
+  return tasks.map((task) => ({ ...task, progress: progress.get(task.id)! }));
+}
+
+/**
+ * Nest a flat, position-ordered item list into a tree
+ */
+export function buildChecklistTree<T extends { id: string; parentId: string | null }>(
+  items: T[]
+): (T & { children: any[] })[] {
+  const nodes = new Map<string, T & { children: any[] }>();
+  for (const item of items) {
+    nodes.set(item.id, { ...item, children: [] });
+  }
+
+  const roots: (T & { children: any[] })[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  return roots;
+}
+
+/**
+ * How deep an item sits (top-level = 1)
+ */
+export async function getChecklistItemDepth(itemId: string): Promise<number> {
+  let depth = 0;
+  let currentId: string | null = itemId;
+
+  while (currentId && depth <= MAX_CHECKLIST_DEPTH) {
+    const item: { parentId: string | null } | null = await prisma.taskChecklistItem.findUnique({
+      where: { id: currentId },
+      select: { parentId: true },
+    });
+    if (!item) break;
+    depth++;
+    currentId = item.parentId;
+  }
+
+  return depth;
+}
@@ -0,0 +1,159 @@
+import { ClientRole, Prisma } from "@prisma/client";
+import { prisma } from "../config/prisma";
+
+/**
+ * What each client-side role may do inside its organization
+ */
+export type ClientCapability = "view" | "chat" | "approve" | "billing" | "manage_team";
+
+const CLIENT_ROLE_CAPABILITIES: Record<ClientRole, ClientCapability[]> = {
+  OWNER: ["view", "chat", "approve", "billing", "manage_team"],
+  APPROVER: ["view", "chat", "approve"],
+  BILLING: ["view", "chat", "billing"],
+  VIEWER: ["view", "chat"],
+};
+
+export const CLIENT_ROLES = Object.keys(CLIENT_ROLE_CAPABILITIES) as ClientRole[];
+
+export function clientRoleCan(role: ClientRole, capability: ClientCapability): boolean {
+  return CLIENT_ROLE_CAPABILITIES[role].includes(capability);
+}
+
+/**
+ * The client organization a user belongs to, with their client role.
+ * Clients created before memberships existed only have linkedUserId; that
+ * user is adopted as OWNER the first time they are resolved.
+ */
+export async function getClientMembership(userId: string) {
+  const membership = await prisma.clientMember.findUnique({
+    where: { userId },
+    include: { client: true },
+  });
+
+  if (membership) {
+    return membership;
+  }
+
+  const legacyClient = await prisma.client.findFirst({
+    where: { linkedUserId: userId },
+  });
+
+  if (!legacyClient) {
+    return null;
+  }
+
+  const created = await prisma.clientMember.upsert({
+    where: { userId },
+    create: { clientId: legacyClient.id, userId, role: "OWNER" },
+    update: {},
+    include: { client: true },
+  });
+
+  return created;
+}
+
+/**
+ * Drop-in replacement for prisma.client.findFirst({ where: { linkedUserId } })
+ */
+export async function getClientForUser(userId: string) {
+  const membership = await getClientMembership(userId);
+  return membership?.client ?? null;
+}
+
+/**
+ * Is the user a member of this client (optionally with a given capability)?
+ */
+export async function isClientMember(
+  clientId: string,
+  userId: string,
+  capability: ClientCapability = "view"
+): Promise<boolean> {
+  const membership = await getClientMembership(userId);
+  return (
+    !!membership &&
+    membership.clientId === clientId &&
+    clientRoleCan(membership.role, capability)
+  );
+}
+
+/**
+ * Active user IDs of every member of a client (for notifications)
+ */
+export async function getClientMemberUserIds(
+  clientId: string,
+  capability: ClientCapability = "view"
+): Promise<string[]> {
+  const [members, client] = await Promise.all([
+    prisma.clientMember.findMany({
+      where: { clientId, user: { active: true } },
+      select: { userId: true, role: true },
+    }),
+    prisma.client.findUnique({
+      where: { id: clientId },
+      select: { linkedUserId: true },
+    }),
+  ]);
+
+  const ids = new Set(
+    members.filter((m) => clientRoleCan(m.role, capability)).map((m) => m.userId)
+  );
+
+  // Legacy primary contact without a membership row yet
+  if (client?.linkedUserId && !members.some((m) => m.userId === client.linkedUserId)) {
+    ids.add(client.linkedUserId);
+  }
+
+  return Array.from(ids);
+}
+
+/**
+ * Add a user to a client. The first member also becomes the primary contact.
+ */
+export async function addClientMember(
+  tx: Prisma.TransactionClient,
+  data: { clientId: string; userId: string; role: ClientRole; invitedById?: string | null }
+) {
+  const member = await tx.clientMember.create({
+    data: {
+      clientId: data.clientId,
+      userId: data.userId,
+      role: data.role,
+      invitedById: data.invitedById ?? null,
+    },
+  });
+
+  await tx.client.updateMany({
+    where: { id: data.clientId, linkedUserId: null },
+    data: { linkedUserId: data.userId },
+  });
+
+  return member;
+}
+
+/**
+ * Remove a member. If they were the primary contact, hand that over to
+ * another owner (or any remaining member).
+ */
+export async function removeClientMember(clientId: string, userId: string) {
+  await prisma.$transaction(async (tx) => {
+    await tx.clientMember.deleteMany({ where: { clientId, userId } });
+
+    const client = await tx.client.findUnique({
+      where: { id: clientId },
+      select: { linkedUserId: true },
+    });
+
+    if (client?.linkedUserId !== userId) return;
+
+    const next = await tx.clientMember.findFirst({
+      where: { clientId },
+      orderBy: [{ role: "asc" }, { createdAt: "asc" }],
+      select: { userId: true },
+    });
+
+    await tx.client.update({
+      where: { id: clientId },
+      data: { linkedUserId: next?.userId ?? null },
+    });
+  });
+}
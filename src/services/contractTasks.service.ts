@@ -0,0 +1,153 @@
+import { Prisma, Task } from "@prisma/client";
+import { prisma } from "../config/prisma";
+import { broadcastTask } from "./jobBroadcast.service";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Service names on a contract. `Contract.services` is a JSON array of names
+ * for paid contracts, but manually created ones store a comma-separated string.
+ */
+export function getContractServiceNames(services: Prisma.JsonValue): string[] {
+  let names: unknown[] = [];
+
+  if (Array.isArray(services)) {
+    names = services.map((s: any) => (s && typeof s === "object" ? s.name : s));
+  } else if (typeof services === "string") {
+    names = services.split(",");
+  }
+
+  return names
+    .filter((name): name is string => typeof name === "string")
+    .map((name) => name.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Create the tasks for every template of the contract's services, and push
+ * the ones marked `broadcast` to the job board. Runs at most once per
+ * contract: the `tasksGeneratedAt` claim and the tasks are written in one
+ * transaction, so a failure leaves the contract ready for a retry. Returns
+ * null if the tasks were already generated.
+ */
+export async function generateContractTasks(
+  contractId: string,
+  actorId: string
+): Promise<{ tasks: Task[]; broadcast: number } | null> {
+  const now = new Date();
+
+  const contract = await prisma.contract.findUniqueOrThrow({ where: { id: contractId } });
+  if (contract.tasksGeneratedAt) return null;
+
+  const names = getContractServiceNames(contract.services);
+  const services = names.length
+    ? await prisma.service.findMany({
+        where: { OR: names.map((name) => ({ name: { equals: name, mode: "insensitive" as const } })) },
+        include: { taskTemplates: { orderBy: { sortOrder: "asc" } } },
+        orderBy: { sortOrder: "asc" },
+      })
+    : [];
+
+  const templates = services.flatMap((service) =>
+    service.taskTemplates.map((template) => ({ service, template }))
+  );
+
+  // Nothing to generate yet; leave the contract unclaimed so it can be retried
+  if (templates.length === 0) return { tasks: [], broadcast: 0 };
+
+  const created = await prisma.$transaction(async (tx) => {
+    const claimed = await tx.contract.updateMany({
+      where: { id: contractId, tasksGeneratedAt: null },
+      data: { tasksGeneratedAt: now },
+    });
+    if (claimed.count === 0) return null;
+
+    const rows: { task: Task; template: (typeof templates)[number]["template"] }[] = [];
+
+    for (const { service, template } of templates) {
+      const task = await tx.task.create({
+        data: {
+          title: template.title,
+          description: template.description,
+          // Contract work is CRITICAL, same as createTask
+          priority: "CRITICAL",
+          dueDate: template.dueOffsetDays !== null ? new Date(now.getTime() + template.dueOffsetDays * DAY_MS) : null,
+          clientId: contract.clientId,
+          contractId: contract.id,
+          requiresApproval: template.requiresApproval,
+          paymentAmount: template.paymentAmount,
+          createdById: template.createdById,
+          serviceTemplateId: template.id,
+          meta: {
+            serviceId: service.id,
+            serviceName: service.name,
+            serviceTemplateId: template.id,
+          },
+        },
+      });
+      rows.push({ task, template });
+    }
+
+    return rows;
+  });
+  if (!created) return null;
+
+  // Broadcasting notifies workers, so it happens once the tasks are committed;
+  // a task that fails to broadcast stays a draft and can be broadcast by hand
+  const tasks: Task[] = [];
+  let broadcast = 0;
+
+  for (const { task, template } of created) {
+    const amount = template.paymentAmount ? Number(template.paymentAmount) : 0;
+    if (!template.broadcast || amount <= 0) {
+      tasks.push(task);
+      continue;
+    }
+
+    try {
+      tasks.push(
+        await broadcastTask(task, {
+          paymentAmount: amount,
+          deadline: task.dueDate,
+          postedById: template.createdById,
+        })
+      );
+      broadcast++;
+    } catch (err) {
+      console.error(`broadcastTask error for generated task ${task.id}:`, err);
+      tasks.push(task);
+    }
+  }
+
+  await prisma.auditLog.create({
+    data: {
+      userId: actorId,
+      actionType: "CONTRACT_TASKS_GENERATED",
+      entityType: "CONTRACT",
+      entityId: contractId,
+      metaJson: {
+        taskIds: tasks.map((t) => t.id),
+        broadcast,
+      } as any,
+    },
+  });
+
+  const admins = await prisma.user.findMany({
+    where: { role: "SUPER_ADMIN", active: true },
+    select: { id: true },
+  });
+
+  for (const admin of admins) {
+    await prisma.notification.create({
+      data: {
+        userId: admin.id,
+        type: "CONTRACT_TASKS_GENERATED",
+        title: "Contract Tasks Generated",
+        body: `${tasks.length} task(s) were created for contract ${contractId}` +
+          (broadcast ? `, ${broadcast} of them posted to the job board.` : "."),
+      },
+    });
+  }
+
+  return { tasks, broadcast };
+}
@@ -0,0 +1,304 @@
+import { CustomFieldDefinition, CustomFieldEntity, CustomFieldType, Prisma } from "@prisma/client";
+import { prisma } from "../config/prisma";
+
+export const CUSTOM_FIELD_TYPES: CustomFieldType[] = ["TEXT", "NUMBER", "DATE", "SELECT", "MULTI_SELECT"];
+
+export const FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]{0,39}$/;
+
+export const LABEL_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+const MAX_TEXT_LENGTH = 1000;
+
+export class CustomFieldError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * Included with tasks and clients so withCustomFields() can flatten the values
+ */
+export const CUSTOM_FIELDS_INCLUDE = {
+  customFieldValues: { include: { definition: { select: { key: true, type: true } } } },
+  labels: { select: { id: true, name: true, color: true } },
+} as const;
+
+type FieldRow = Pick<CustomFieldDefinition, "key" | "type">;
+
+type StoredValue = {
+  textValue: string | null;
+  numberValue: number | null;
+  dateValue: Date | null;
+  optionValues: string[];
+};
+
+/**
+ * "task" / "client" (any case) -> entity type, null if unknown
+ */
+export function parseCustomFieldEntity(value: unknown): CustomFieldEntity | null {
+  const upper = typeof value === "string" ? value.toUpperCase() : "";
+  return upper === "TASK" || upper === "CLIENT" ? upper : null;
+}
+
+/**
+ * Choices of a SELECT / MULTI_SELECT field: non-empty, trimmed, unique
+ */
+export function normalizeFieldOptions(type: CustomFieldType, options: unknown): string[] {
+  if (type !== "SELECT" && type !== "MULTI_SELECT") {
+    return [];
+  }
+
+  if (!Array.isArray(options) || options.some((o) => typeof o !== "string" || !o.trim())) {
+    throw new CustomFieldError("options must be an array of non-empty strings");
+  }
+
+  const unique = [...new Set(options.map((o: string) => o.trim()))];
+  if (unique.length === 0) throw new CustomFieldError(`A ${type} field needs at least one option`);
+
+  return unique;
+}
+
+/**
+ * Validate a value for a field; returns the columns to store, or null to
+ * clear the value (null, "" or an empty selection)
+ */
+function parseFieldValue(definition: CustomFieldDefinition, raw: unknown): StoredValue | null {
+  const empty: StoredValue = { textValue: null, numberValue: null, dateValue: null, optionValues: [] };
+  const invalid = (expected: string) =>
+    new CustomFieldError(`Invalid value for "${definition.key}": expected ${expected}`);
+
+  if (raw === null || raw === undefined || raw === "") return null;
+
+  switch (definition.type) {
+    case "TEXT": {
+      if (typeof raw !== "string") throw invalid("text");
+      if (raw.length > MAX_TEXT_LENGTH) throw invalid(`at most ${MAX_TEXT_LENGTH} characters`);
+      return raw.trim() ? { ...empty, textValue: raw.trim() } : null;
+    }
+    case "NUMBER": {
+      const value = typeof raw === "string" && raw.trim() ? Number(raw) : raw;
+      if (typeof value !== "number" || !Number.isFinite(value)) throw invalid("a number");
+      return { ...empty, numberValue: value };
+    }
+    case "DATE": {
+      const value = typeof raw === "string" ? new Date(raw) : null;
+      if (!value || isNaN(value.getTime())) throw invalid("an ISO date");
+      return { ...empty, dateValue: value };
+    }
+    case "SELECT": {
+      if (typeof raw !== "string" || !definition.options.includes(raw)) {
+        throw invalid(`one of ${definition.options.join(", ")}`);
+      }
+      return { ...empty, textValue: raw };
+    }
+    case "MULTI_SELECT": {
+      if (!Array.isArray(raw) || raw.some((o) => typeof o !== "string" || !definition.options.includes(o))) {
+        throw invalid(`a list of ${definition.options.join(", ")}`);
+      }
+      return raw.length > 0 ? { ...empty, optionValues: [...new Set(raw as string[])] } : null;
+    }
+  }
+}
+
+function readFieldValue(type: CustomFieldType, value: StoredValue) {
+  switch (type) {
+    case "NUMBER":
+      return value.numberValue;
+    case "DATE":
+      return value.dateValue;
+    case "MULTI_SELECT":
+      return value.optionValues;
+    default:
+      return value.textValue;
+  }
+}
+
+/**
+ * Replace the included customFieldValues with a { key: value } map
+ */
+export function withCustomFields<T extends { customFieldValues: (StoredValue & { definition: FieldRow })[] }>(
+  records: T[]
+) {
+  return records.map(({ customFieldValues, ...record }) => ({
+    ...record,
+    customFields: Object.fromEntries(
+      customFieldValues.map((v) => [v.definition.key, readFieldValue(v.definition.type, v)])
+    ),
+  }));
+}
+
+/**
+ * Set custom field values on a task or client. `values` is keyed by field
+ * key; null clears a value and fields left out are unchanged. Everything is
+ * validated before anything is written.
+ */
+export async function setCustomFieldValues(
+  entityType: CustomFieldEntity,
+  entityId: string,
+  values: Record<string, unknown>
+) {
+  const definitions = await prisma.customFieldDefinition.findMany({
+    where: { entityType, key: { in: Object.keys(values) } },
+  });
+  const byKey = new Map(definitions.map((d) => [d.key, d]));
+
+  const writes = Object.entries(values).map(([key, raw]) => {
+    const definition = byKey.get(key);
+    if (!definition) throw new CustomFieldError(`Unknown ${entityType.toLowerCase()} field "${key}"`);
+    return { definition, value: parseFieldValue(definition, raw) };
+  });
+
+  const owner = entityType === "TASK" ? { taskId: entityId } : { clientId: entityId };
+
+  await prisma.$transaction(
+    writes.map(({ definition, value }) => {
+      if (!value) {
+        return prisma.customFieldValue.deleteMany({ where: { definitionId: definition.id, ...owner } });
+      }
+
+      const where =
+        entityType === "TASK"
+          ? { definitionId_taskId: { definitionId: definition.id, taskId: entityId } }
+          : { definitionId_clientId: { definitionId: definition.id, clientId: entityId } };
+
+      return prisma.customFieldValue.upsert({
+        where,
+        create: { definitionId: definition.id, ...owner, ...value },
+        update: value,
+      });
+    })
+  );
+}
+
+/**
+ * Replace the labels of a task or client (labels must belong to that entity type)
+ */
+export async function setLabels(entityType: CustomFieldEntity, entityId: string, labelIds: unknown) {
+  if (!Array.isArray(labelIds) || labelIds.some((id) => typeof id !== "string")) {
+    throw new CustomFieldError("labelIds must be an array of label ids");
+  }
+
+  const ids = [...new Set(labelIds as string[])];
+  const found = await prisma.label.count({ where: { entityType, id: { in: ids } } });
+  if (found !== ids.length) throw new CustomFieldError(`Unknown ${entityType.toLowerCase()} label`);
+
+  const labels = { set: ids.map((id) => ({ id })) };
+
+  if (entityType === "TASK") {
+    await prisma.task.update({ where: { id: entityId }, data: { labels } });
+  } else {
+    await prisma.client.update({ where: { id: entityId }, data: { labels } });
+  }
+}
+
+type EntityFilter = {
+  customFieldValues?: { some: Prisma.CustomFieldValueWhereInput };
+  labels?: { some: Prisma.LabelWhereInput };
+};
+
+function parseFilterNumber(key: string, raw: unknown) {
+  const value = Number(raw);
+  if (typeof raw !== "string" || !raw.trim() || !Number.isFinite(value)) {
+    throw new CustomFieldError(`Filter on "${key}" expects a number`);
+  }
+  return value;
+}
+
+function parseFilterDate(key: string, raw: unknown) {
+  const value = typeof raw === "string" ? new Date(raw) : null;
+  if (!value || isNaN(value.getTime())) throw new CustomFieldError(`Filter on "${key}" expects an ISO date`);
+  return value;
+}
+
+function listParam(raw: unknown): string[] {
+  const values = Array.isArray(raw) ? raw : [raw];
+  return values
+    .filter((v): v is string => typeof v === "string")
+    .flatMap((v) => v.split(","))
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Prisma conditions (to AND together) for list filters:
+ *  - ?labels=a,b            has every listed label (id or name)
+ *  - ?field[key]=value      TEXT contains; SELECT / MULTI_SELECT any of a,b;
+ *                           NUMBER equals; DATE same UTC day
+ *  - ?field[key][gte]=..&field[key][lte]=..   NUMBER and DATE ranges
+ */
+export async function buildCustomFieldFilters(
+  entityType: CustomFieldEntity,
+  query: Record<string, unknown>
+): Promise<EntityFilter[]> {
+  const filters: EntityFilter[] = [];
+
+  for (const label of listParam(query.labels)) {
+    filters.push({
+      labels: { some: { entityType, OR: [{ id: label }, { name: { equals: label, mode: "insensitive" } }] } },
+    });
+  }
+
+  const fieldQuery = query.field;
+  if (!fieldQuery) return filters;
+  if (typeof fieldQuery !== "object" || Array.isArray(fieldQuery)) {
+    throw new CustomFieldError("Use field[key]=value to filter by custom fields");
+  }
+
+  const entries = Object.entries(fieldQuery as Record<string, unknown>);
+  const definitions = await prisma.customFieldDefinition.findMany({
+    where: { entityType, key: { in: entries.map(([key]) => key) } },
+  });
+
+  for (const [key, raw] of entries) {
+    const definition = definitions.find((d) => d.key === key);
+    if (!definition) throw new CustomFieldError(`Unknown ${entityType.toLowerCase()} field "${key}"`);
+
+    const isRange = !!raw && typeof raw === "object" && !Array.isArray(raw);
+    if (isRange && definition.type !== "NUMBER" && definition.type !== "DATE") {
+      throw new CustomFieldError("Range filters only apply to NUMBER and DATE fields");
+    }
+
+    let condition: Prisma.CustomFieldValueWhereInput;
+
+    if (isRange) {
+      const { gte, lte } = raw as Record<string, unknown>;
+      const parse = definition.type === "NUMBER" ? parseFilterNumber : parseFilterDate;
+      const range = {
+        ...(gte !== undefined ? { gte: parse(key, gte) } : {}),
+        ...(lte !== undefined ? { lte: parse(key, lte) } : {}),
+      };
+      condition = definition.type === "NUMBER" ? { numberValue: range as any } : { dateValue: range as any };
+    } else {
+      const values = listParam(raw);
+      if (values.length === 0) continue;
+
+      switch (definition.type) {
+        case "TEXT":
+          condition = { textValue: { contains: values.join(","), mode: "insensitive" } };
+          break;
+        case "NUMBER":
+          condition = { numberValue: parseFilterNumber(key, values[0]) };
+          break;
+        case "DATE": {
+          const day = parseFilterDate(key, values[0]);
+          day.setUTCHours(0, 0, 0, 0);
+          condition = { dateValue: { gte: day, lt: new Date(day.getTime() + 24 * 60 * 60 * 1000) } };
+          break;
+        }
+        case "SELECT":
+          condition = { textValue: { in: values } };
+          break;
+        case "MULTI_SELECT":
+          condition = { optionValues: { hasSome: values } };
+          break;
+      }
+    }
+
+    filters.push({ customFieldValues: { some: { definitionId: definition.id, ...condition } } });
+  }
+
+  return filters;
+}
@@ -259,3 +259,243 @@ export async function sendTaskAssignmentEmail(
     throw new Error("Failed to send task assignment email");
   }
 }
+
+/**
+ * Send account lockout warning email
+ */
+export async function sendAccountLockedEmail(
+  toEmail: string,
+  userName: string,
+  lockedUntil: Date,
+  resetUrl: string
+): Promise<void> {
+  try {
+    await resend.emails.send({
+      from: `${FROM_NAME} <${FROM_EMAIL}>`,
+      to: toEmail,
+      subject: "Your account has been temporarily locked",
+      html: `
+        <!DOCTYPE html>
+        <html>
+          <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Account Temporarily Locked</title>
+          </head>
+          <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <div style="background-color: #f8f9fa; padding: 20px; border-radius: 10px;">
+              <h1 style="color: #dc2626; margin-top: 0;">🔒 Account Temporarily Locked</h1>
+              <p>Hi ${userName},</p>
+              <p>We noticed too many unsuccessful attempts to access your AMBO account, so we've locked it temporarily to keep it safe.</p>
+              <p>You can try again after <strong>${lockedUntil.toUTCString()}</strong>.</p>
+              <p>If this wasn't you, we recommend resetting your password:</p>
+              <div style="text-align: center; margin: 30px 0;">
+                <a href="${resetUrl}" style="background-color: #2563eb; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block; font-weight: bold;">Reset Password</a>
+              </div>
+              <hr style="border: none; border-top: 1px solid #ddd; margin: 30px 0;">
+              <p style="color: #999; font-size: 12px; text-align: center;">
+                © ${new Date().getFullYear()} AMBO. All rights reserved.
+              </p>
+            </div>
+          </body>
+        </html>
+      `,
+    });
+  } catch (error) {
+    console.error("Error sending account locked email:", error);
+    throw new Error("Failed to send account locked email");
+  }
+}
+
+/**
+ * Send email address verification email
+ */
+export async function sendEmailVerificationEmail(
+  toEmail: string,
+  userName: string,
+  verifyUrl: string
+): Promise<void> {
+  try {
+    await resend.emails.send({
+      from: `${FROM_NAME} <${FROM_EMAIL}>`,
+      to: toEmail,
+      subject: "Verify your email address",
+      html: `
+        <!DOCTYPE html>
+        <html>
+          <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Verify Your Email</title>
+          </head>
+          <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <div style="background-color: #f8f9fa; padding: 20px; border-radius: 10px;">
+              <h1 style="color: #2563eb; margin-top: 0;">Verify Your Email</h1>
+              <p>Hi ${userName},</p>
+              <p>Thanks for signing up with AMBO. Please confirm this is your email address so you can choose a package and complete your onboarding.</p>
+              <div style="text-align: center; margin: 30px 0;">
+                <a href="${verifyUrl}" style="background-color: #2563eb; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block; font-weight: bold;">Verify Email</a>
+              </div>
+              <p>Or copy and paste this link into your browser:</p>
+              <p style="word-break: break-all; color: #2563eb;">${verifyUrl}</p>
+              <p style="color: #666; font-size: 14px; margin-top: 30px;">
+                <strong>This link will expire in 24 hours.</strong>
+              </p>
+              <hr style="border: none; border-top: 1px solid #ddd; margin: 30px 0;">
+              <p style="color: #999; font-size: 12px; text-align: center;">
+                © ${new Date().getFullYear()} AMBO. All rights reserved.
+              </p>
+            </div>
+          </body>
+        </html>
+      `,
+    });
+  } catch (error) {
+    console.error("Error sending email verification email:", error);
+    throw new Error("Failed to send email verification email");
+  }
+}
+
+/**
+ * Send team invitation email
+ */
+export async function sendInvitationEmail(
+  toEmail: string,
+  inviteeName: string,
+  inviterName: string,
+  roleName: string,
+  acceptUrl: string,
+  expiresAt: Date
+): Promise<void> {
+  try {
+    await resend.emails.send({
+      from: `${FROM_NAME} <${FROM_EMAIL}>`,
+      to: toEmail,
+      subject: `${inviterName} invited you to join AMBO`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+          <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>You're Invited to AMBO</title>
+          </head>
+          <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <div style="background-color: #f8f9fa; padding: 20px; border-radius: 10px;">
+              <h1 style="color: #2563eb; margin-top: 0;">You're Invited 🎉</h1>
+              <p>Hi ${inviteeName},</p>
+              <p>${inviterName} has invited you to join AMBO as a <strong>${roleName}</strong>.</p>
+              <p>Click the button below to set your password and activate your account:</p>
+              <div style="text-align: center; margin: 30px 0;">
+                <a href="${acceptUrl}" style="background-color: #2563eb; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block; font-weight: bold;">Accept Invitation</a>
+              </div>
+              <p>Or copy and paste this link into your browser:</p>
+              <p style="word-break: break-all; color: #2563eb;">${acceptUrl}</p>
+              <p style="color: #666; font-size: 14px; margin-top: 30px;">
+                <strong>This invitation expires on ${expiresAt.toUTCString()}.</strong>
+              </p>
+              <hr style="border: none; border-top: 1px solid #ddd; margin: 30px 0;">
+              <p style="color: #999; font-size: 12px; text-align: center;">
+                © ${new Date().getFullYear()} AMBO. All rights reserved.
+              </p>
+            </div>
+          </body>
+        </html>
+      `,
+    });
+  } catch (error) {
+    console.error("Error sending invitation email:", error);
+    throw new Error("Failed to send invitation email");
+  }
+}
+
+/**
+ * Send email change confirmation (to the new address)
+ */
+export async function sendEmailChangeConfirmationEmail(
+  toEmail: string,
+  userName: string,
+  confirmUrl: string
+): Promise<void> {
+  try {
+    await resend.emails.send({
+      from: `${FROM_NAME} <${FROM_EMAIL}>`,
+      to: toEmail,
+      subject: "Confirm your new email address",
+      html: `
+        <!DOCTYPE html>
+        <html>
+          <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Confirm Your New Email</title>
+          </head>
+          <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <div style="background-color: #f8f9fa; padding: 20px; border-radius: 10px;">
+              <h1 style="color: #2563eb; margin-top: 0;">Confirm Your New Email</h1>
+              <p>Hi ${userName},</p>
+              <p>You asked to change the email address on your AMBO account to this one. Click the button below to confirm the change:</p>
+              <div style="text-align: center; margin: 30px 0;">
+                <a href="${confirmUrl}" style="background-color: #2563eb; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block; font-weight: bold;">Confirm Email</a>
+              </div>
+              <p>Or copy and paste this link into your browser:</p>
+              <p style="word-break: break-all; color: #2563eb;">${confirmUrl}</p>
+              <p style="color: #666; font-size: 14px; margin-top: 30px;">
+                <strong>This link will expire in 24 hours.</strong> Until you confirm, you keep signing in with your current email.
+              </p>
+              <hr style="border: none; border-top: 1px solid #ddd; margin: 30px 0;">
+              <p style="color: #999; font-size: 12px; text-align: center;">
+                © ${new Date().getFullYear()} AMBO. All rights reserved.
+              </p>
+            </div>
+          </body>
+        </html>
+      `,
+    });
+  } catch (error) {
+    console.error("Error sending email change confirmation email:", error);
+    throw new Error("Failed to send email change confirmation email");
+  }
+}
+
+/**
+ * Send email changed notice (to the previous address)
+ */
+export async function sendEmailChangedNoticeEmail(
+  toEmail: string,
+  userName: string,
+  newEmail: string
+): Promise<void> {
+  try {
+    await resend.emails.send({
+      from: `${FROM_NAME} <${FROM_EMAIL}>`,
+      to: toEmail,
+      subject: "Your AMBO email address was changed",
+      html: `
+        <!DOCTYPE html>
+        <html>
+          <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Email Address Changed</title>
+          </head>
+          <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <div style="background-color: #f8f9fa; padding: 20px; border-radius: 10px;">
+              <h1 style="color: #dc2626; margin-top: 0;">Email Address Changed</h1>
+              <p>Hi ${userName},</p>
+              <p>The email address on your AMBO account was changed to <strong>${newEmail}</strong>. You will sign in with the new address from now on.</p>
+              <p>If you did not make this change, please contact support immediately.</p>
+              <hr style="border: none; border-top: 1px solid #ddd; margin: 30px 0;">
+              <p style="color: #999; font-size: 12px; text-align: center;">
+                © ${new Date().getFullYear()} AMBO. All rights reserved.
+              </p>
+            </div>
+          </body>
+        </html>
+      `,
+    });
+  } catch (error) {
+    console.error("Error sending email changed notice:", error);
+    throw new Error("Failed to send email changed notice");
+  }
+}
@@ -0,0 +1,98 @@
+import jwt from "jsonwebtoken";
+import { prisma } from "../config/prisma";
+import { env } from "../config/env";
+import { sendEmailChangeConfirmationEmail, sendEmailVerificationEmail } from "./email.service";
+
+const VERIFICATION_TOKEN_TTL = "24h";
+
+/**
+ * Minimum gap between verification emails for one user
+ */
+export const VERIFICATION_RESEND_COOLDOWN_SECONDS = 60;
+
+/**
+ * Sign a verification token. The email is part of the payload so a token
+ * stops working if the address changes before it is used.
+ */
+export function signEmailVerificationToken(userId: string, email: string): string {
+  return jwt.sign({ id: userId, email, purpose: "email_verify" }, env.jwtSecret, {
+    expiresIn: VERIFICATION_TOKEN_TTL,
+  });
+}
+
+/**
+ * Verify a token; returns { id, email } or null when invalid/expired
+ */
+export function verifyEmailVerificationToken(token: string): { id: string; email: string } | null {
+  try {
+    const decoded = jwt.verify(token, env.jwtSecret) as any;
+    if (decoded.purpose !== "email_verify" || !decoded.id || !decoded.email) {
+      return null;
+    }
+    return { id: decoded.id, email: decoded.email };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Email a fresh verification link and stamp emailVerificationSentAt
+ */
+export async function sendVerificationEmail(user: { id: string; email: string; name: string }) {
+  const token = signEmailVerificationToken(user.id, user.email);
+  const frontendUrl = process.env.FRONTEND_URL || "https://ambo-dash.lovable.app";
+  const verifyLink = `${frontendUrl}/verify-email?token=${token}`;
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { emailVerificationSentAt: new Date() },
+  });
+
+  await sendEmailVerificationEmail(user.email, user.name, verifyLink);
+}
+
+/**
+ * Sign an email-change token. Bound to the current address too, so it stops
+ * working if the email changes another way first.
+ */
+export function signEmailChangeToken(userId: string, email: string, newEmail: string): string {
+  return jwt.sign({ id: userId, email, newEmail, purpose: "email_change" }, env.jwtSecret, {
+    expiresIn: VERIFICATION_TOKEN_TTL,
+  });
+}
+
+/**
+ * Verify an email-change token; returns { id, email, newEmail } or null
+ */
+export function verifyEmailChangeToken(
+  token: string
+): { id: string; email: string; newEmail: string } | null {
+  try {
+    const decoded = jwt.verify(token, env.jwtSecret) as any;
+    if (decoded.purpose !== "email_change" || !decoded.id || !decoded.email || !decoded.newEmail) {
+      return null;
+    }
+    return { id: decoded.id, email: decoded.email, newEmail: decoded.newEmail };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Record the requested address and email a confirmation link to it
+ */
+export async function sendEmailChangeConfirmation(
+  user: { id: string; email: string; name: string },
+  newEmail: string
+) {
+  const token = signEmailChangeToken(user.id, user.email, newEmail);
+  const frontendUrl = process.env.FRONTEND_URL || "https://ambo-dash.lovable.app";
+  const confirmLink = `${frontendUrl}/confirm-email-change?token=${token}`;
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { pendingEmail: newEmail },
+  });
+
+  await sendEmailChangeConfirmationEmail(newEmail, user.name, confirmLink);
+}
@@ -0,0 +1,134 @@
+import { Response } from "express";
+import jwt from "jsonwebtoken";
+import { prisma } from "../config/prisma";
+import { env } from "../config/env";
+import { SessionContext } from "./session.service";
+
+/**
+ * Roles that can be impersonated. Staff accounts are deliberately excluded.
+ */
+export const IMPERSONATABLE_ROLES = ["WORKER", "CLIENT_VIEWER", "CLIENT_VIEWER_PENDING"];
+
+export interface Impersonator {
+  id: string;
+  name: string;
+  email: string;
+  impersonationId: string;
+}
+
+/**
+ * Start impersonating a user. Returns a short-lived access token for the target
+ * that is tied to an ImpersonationSession (and to the admin's own session).
+ */
+export async function startImpersonation(
+  admin: { id: string; sessionId?: string },
+  target: { id: string; role: string; email: string; name: string },
+  context: SessionContext,
+  reason?: string | null
+) {
+  const expiresAt = new Date(Date.now() + env.impersonationTtlMinutes * 60 * 1000);
+
+  const impersonation = await prisma.impersonationSession.create({
+    data: {
+      adminId: admin.id,
+      adminSessionId: admin.sessionId || null,
+      targetUserId: target.id,
+      reason: reason || null,
+      userAgent: context.userAgent,
+      ipAddress: context.ipAddress,
+      expiresAt,
+    },
+  });
+
+  const token = jwt.sign(
+    { id: target.id, role: target.role, email: target.email, name: target.name, imp: impersonation.id },
+    env.jwtSecret,
+    { expiresIn: env.impersonationTtlMinutes * 60 }
+  );
+
+  return { token, expiresAt, impersonation };
+}
+
+/**
+ * Load a live impersonation: not ended/expired, admin still an active
+ * SUPER_ADMIN and the admin's own session not revoked.
+ */
+export async function findActiveImpersonation(impersonationId: string) {
+  const impersonation = await prisma.impersonationSession.findUnique({
+    where: { id: impersonationId },
+    include: {
+      admin: { select: { id: true, name: true, email: true, role: true, active: true } },
+      targetUser: {
+        select: { id: true, role: true, email: true, name: true, active: true, customRoleId: true },
+      },
+    },
+  });
+
+  if (
+    !impersonation ||
+    impersonation.endedAt ||
+    impersonation.expiresAt < new Date() ||
+    !impersonation.admin.active ||
+    impersonation.admin.role !== "SUPER_ADMIN"
+  ) {
+    return null;
+  }
+
+  if (impersonation.adminSessionId) {
+    const adminSession = await prisma.session.findUnique({
+      where: { id: impersonation.adminSessionId },
+      select: { revokedAt: true, expiresAt: true },
+    });
+    if (!adminSession || adminSession.revokedAt || adminSession.expiresAt < new Date()) {
+      return null;
+    }
+  }
+
+  return impersonation;
+}
+
+/**
+ * Write one AuditLog row per impersonated request once the response is sent
+ */
+export function auditImpersonatedRequest(
+  req: { method: string; originalUrl: string; ip?: string },
+  res: Response,
+  impersonator: Impersonator,
+  effectiveUserId: string
+) {
+  res.on("finish", () => {
+    Promise.all([
+      prisma.auditLog.create({
+        data: {
+          userId: impersonator.id,
+          actionType: "IMPERSONATED_REQUEST",
+          entityType: "USER",
+          entityId: effectiveUserId,
+          metaJson: {
+            impersonationId: impersonator.impersonationId,
+            realUserId: impersonator.id,
+            effectiveUserId,
+            method: req.method,
+            path: req.originalUrl,
+            statusCode: res.statusCode,
+            ipAddress: req.ip || null,
+          },
+        },
+      }),
+      prisma.impersonationSession.update({
+        where: { id: impersonator.impersonationId },
+        data: { requestCount: { increment: 1 } },
+      }),
+    ]).catch((err) => console.error("Impersonation audit error:", err));
+  });
+}
+
+/**
+ * Mark an impersonation as ended (idempotent)
+ */
+export async function endImpersonation(impersonationId: string) {
+  return prisma.impersonationSession.updateMany({
+    where: { id: impersonationId, endedAt: null },
+    data: { endedAt: new Date() },
+  });
+}
@@ -0,0 +1,270 @@
+import crypto from "crypto";
+import { ClientRole, Role } from "@prisma/client";
+import { prisma } from "../config/prisma";
+import { getRoleDisplayName } from "../middleware/requireRole";
+import { hashToken } from "./session.service";
+import { hasPermission } from "./permission.service";
+import { sendInvitationEmail } from "./email.service";
+
+export const INVITATION_TTL_DAYS = 7;
+
+/**
+ * Permission needed to invite each role (any one of them)
+ */
+const INVITE_PERMISSIONS: Partial<Record<Role, string[]>> = {
+  ADMIN: ["admins.manage"],
+  WORKER: ["invitations.manage", "workers.manage"],
+};
+
+export function canInviteRole(
+  inviter: { role: string; permissions?: string[] },
+  role: string
+): boolean {
+  const permissions = INVITE_PERMISSIONS[role as Role] || [];
+  return permissions.some((p) => hasPermission(inviter, p));
+}
+
+export type InvitationState = "PENDING" | "ACCEPTED" | "REVOKED" | "EXPIRED";
+
+export function getInvitationState(invitation: {
+  acceptedAt: Date | null;
+  revokedAt: Date | null;
+  expiresAt: Date;
+}): InvitationState {
+  if (invitation.acceptedAt) return "ACCEPTED";
+  if (invitation.revokedAt) return "REVOKED";
+  if (invitation.expiresAt < new Date()) return "EXPIRED";
+  return "PENDING";
+}
+
+function newInvitationToken() {
+  const token = crypto.randomBytes(32).toString("hex");
+  const expiresAt = new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+  return { token, tokenHash: hashToken(token), expiresAt };
+}
+
+function getClientRoleDisplayName(role: ClientRole): string {
+  return role.charAt(0) + role.slice(1).toLowerCase();
+}
+
+async function deliverInvitation(
+  invitation: {
+    id: string;
+    email: string;
+    name: string;
+    role: Role;
+    clientRole?: ClientRole | null;
+    client?: { companyName: string } | null;
+  },
+  inviterName: string,
+  token: string,
+  expiresAt: Date
+) {
+  const frontendUrl = process.env.FRONTEND_URL || "https://ambo-dash.lovable.app";
+  const acceptUrl = `${frontendUrl}/accept-invite?token=${token}`;
+
+  // Client teammates see "Approver at Acme" instead of "Client Viewer"
+  const roleName =
+    invitation.clientRole && invitation.client
+      ? `${getClientRoleDisplayName(invitation.clientRole)} at ${invitation.client.companyName}`
+      : getRoleDisplayName(invitation.role);
+
+  // Never log the link itself: the token in it is enough to accept the invite
+  console.log("📨 Sending invitation", invitation.id);
+
+  try {
+    await sendInvitationEmail(
+      invitation.email,
+      invitation.name,
+      inviterName,
+      roleName,
+      acceptUrl,
+      expiresAt
+    );
+  } catch (emailError) {
+    console.error("Invitation email failed:", emailError);
+    // Continue anyway - admins can resend
+  }
+}
+
+/**
+ * Create an invitation and email the invite link.
+ * Caller is responsible for permission checks and duplicate detection.
+ */
+export async function issueInvitation(
+  data: {
+    name: string;
+    email: string;
+    phone?: string | null;
+    role: Role;
+    clientId?: string | null;
+    clientRole?: ClientRole | null;
+  },
+  inviter: { id: string; name: string }
+) {
+  const { token, tokenHash, expiresAt } = newInvitationToken();
+
+  const invitation = await prisma.invitation.create({
+    data: {
+      name: data.name.trim(),
+      email: data.email.toLowerCase().trim(),
+      phone: data.phone || null,
+      role: data.role,
+      clientId: data.clientId || null,
+      clientRole: data.clientRole || null,
+      tokenHash,
+      expiresAt,
+      invitedById: inviter.id,
+    },
+    include: { client: { select: { companyName: true } } },
+  });
+
+  await deliverInvitation(invitation, inviter.name, token, expiresAt);
+
+  return invitation;
+}
+
+/**
+ * Issue a fresh token (old link stops working), extend expiry and email again
+ */
+export async function reissueInvitation(invitationId: string, inviterName: string) {
+  const { token, tokenHash, expiresAt } = newInvitationToken();
+
+  const invitation = await prisma.invitation.update({
+    where: { id: invitationId },
+    data: {
+      tokenHash,
+      expiresAt,
+      lastSentAt: new Date(),
+      sendCount: { increment: 1 },
+    },
+    include: { client: { select: { companyName: true } } },
+  });
+
+  await deliverInvitation(invitation, inviterName, token, expiresAt);
+
+  return invitation;
+}
+
+/**
+ * Look up a pending (not accepted/revoked/expired) invitation by raw token
+ */
+export async function findPendingInvitation(token: string) {
+  const invitation = await prisma.invitation.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: {
+      invitedBy: { select: { id: true, name: true } },
+      client: { select: { id: true, companyName: true } },
+    },
+  });
+
+  if (!invitation || getInvitationState(invitation) !== "PENDING") {
+    return null;
+  }
+
+  return invitation;
+}
+
+/**
+ * Is there already a live invitation for this email?
+ */
+export async function hasPendingInvitation(email: string): Promise<boolean> {
+  const count = await prisma.invitation.count({
+    where: {
+      email: email.toLowerCase().trim(),
+      acceptedAt: null,
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+  });
+  return count > 0;
+}
+
+/**
+ * Public-safe shape returned by the admin endpoints
+ */
+export function serializeInvitation(invitation: {
+  id: string;
+  email: string;
+  name: string;
+  phone: string | null;
+  role: Role;
+  clientId?: string | null;
+  clientRole?: ClientRole | null;
+  expiresAt: Date;
+  lastSentAt: Date;
+  sendCount: number;
+  acceptedAt: Date | null;
+  acceptedUserId: string | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+  invitedBy?: { id: string; name: string; email?: string } | null;
+}) {
+  return {
+    id: invitation.id,
+    email: invitation.email,
+    name: invitation.name,
+    phone: invitation.phone,
+    role: invitation.role,
+    clientId: invitation.clientId ?? null,
+    clientRole: invitation.clientRole ?? null,
+    state: getInvitationState(invitation),
+    expiresAt: invitation.expiresAt,
+    lastSentAt: invitation.lastSentAt,
+    sendCount: invitation.sendCount,
+    acceptedAt: invitation.acceptedAt,
+    acceptedUserId: invitation.acceptedUserId,
+    revokedAt: invitation.revokedAt,
+    createdAt: invitation.createdAt,
+    invitedBy: invitation.invitedBy || null,
+  };
+}
+
+/**
+ * Shared checks before inviting someone. Returns an error to send back, or null.
+ */
+export async function validateNewInvitation(
+  data: { name?: string; email?: string; role?: string },
+  inviter: { role: string; permissions?: string[] }
+): Promise<{ message: string; status: number } | null> {
+  if (!data.name || !data.email || !data.role) {
+    return { message: "Name, email, and role are required", status: 400 };
+  }
+
+  if (!canInviteRole(inviter, data.role)) {
+    return { message: `Forbidden: You cannot invite users with role ${data.role}`, status: 403 };
+  }
+
+  return validateInvitee({ name: data.name, email: data.email });
+}
+
+/**
+ * Invitee checks shared by staff and client teammate invitations.
+ * Returns an error to send back, or null.
+ */
+export async function validateInvitee(
+  data: { name?: string; email?: string }
+): Promise<{ message: string; status: number } | null> {
+  if (!data.name || !data.email) {
+    return { message: "Name and email are required", status: 400 };
+  }
+
+  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  if (!emailRegex.test(data.email)) {
+    return { message: "Invalid email format", status: 400 };
+  }
+
+  const existing = await prisma.user.findUnique({
+    where: { email: data.email.toLowerCase().trim() },
+    select: { id: true },
+  });
+  if (existing) {
+    return { message: "A user with this email already exists", status: 409 };
+  }
+
+  if (await hasPendingInvitation(data.email)) {
+    return { message: "A pending invitation already exists for this email. Resend it instead.", status: 409 };
+  }
+
+  return null;
+}
@@ -0,0 +1,88 @@
+import { Task } from "@prisma/client";
+import { prisma } from "../config/prisma";
+
+/**
+ * Why a task cannot go to the job board (null = it can)
+ */
+export function getBroadcastBlocker(task: Pick<Task, "jobStatus" | "assignedToId">): string | null {
+  if (task.jobStatus !== "DRAFT") return `Cannot broadcast task with status: ${task.jobStatus}`;
+  if (task.assignedToId) return "Cannot broadcast a task that is already assigned";
+  return null;
+}
+
+/**
+ * Open a DRAFT task on the job board: set the payout and deadline, notify
+ * every active worker and audit who posted it. Callers validate the task
+ * (getBroadcastBlocker) and the amount. Bulk broadcasts turn off the
+ * per-task notifications and audit entry and send their own summary.
+ */
+export async function broadcastTask(
+  task: { id: string; title: string },
+  options: {
+    paymentAmount: number;
+    deadline: Date | null;
+    postedById: string;
+    notifyWorkers?: boolean;
+    audit?: boolean;
+  }
+) {
+  const { paymentAmount, deadline, postedById, notifyWorkers = true, audit = true } = options;
+
+  return prisma.$transaction(async (tx) => {
+    const updated = await tx.task.update({
+      where: { id: task.id },
+      data: {
+        jobStatus: "OPEN",
+        isPublic: true,
+        paymentAmount,
+        deadline,
+        // The deadline may be new, so restart the SLA escalation steps
+        slaStage: "ON_TRACK",
+        slaNotifiedAt: null,
+        postedAt: new Date(),
+        postedById,
+      },
+      include: {
+        client: { select: { companyName: true } },
+      },
+    });
+
+    // Notify all active workers about new job
+    const workers = notifyWorkers
+      ? await tx.user.findMany({
+          where: { role: "WORKER", active: true },
+          select: { id: true },
+        })
+      : [];
+
+    for (const worker of workers) {
+      await tx.notification.create({
+        data: {
+          userId: worker.id,
+          type: "NEW_JOB_AVAILABLE",
+          title: "New Job Available",
+          body: `"${task.title}" is now available. Payment: ₦${paymentAmount.toLocaleString()}`,
+        },
+      });
+    }
+
+    if (!audit) return updated;
+
+    await tx.auditLog.create({
+      data: {
+        userId: postedById,
+        actionType: "JOB_BROADCASTED",
+        entityType: "TASK",
+        entityId: task.id,
+        metaJson: {
+          jobTitle: task.title,
+          paymentAmount,
+          deadline: deadline ? deadline.toISOString() : null,
+          postedById,
+        },
+      },
+    });
+
+    return updated;
+  });
+}
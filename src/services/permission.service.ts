@@ -0,0 +1,130 @@
+import { Prisma, Role } from "@prisma/client";
+import { prisma } from "../config/prisma";
+import { DEFAULT_ROLE_PERMISSIONS, PERMISSIONS } from "../config/permissions";
+
+const CACHE_TTL_MS = 60 * 1000;
+
+// Role definition id / system key -> permissions
+let cache: { byKey: Map<string, string[]>; byId: Map<string, string[]>; loadedAt: number } | null = null;
+
+/**
+ * Create any missing system RoleDefinition rows with the default permissions.
+ * Existing rows are never touched, so edits made via /api/roles stick.
+ */
+export async function ensureSystemRoles() {
+  const existing = await prisma.roleDefinition.findMany({
+    where: { key: { in: Object.keys(DEFAULT_ROLE_PERMISSIONS) } },
+    select: { key: true },
+  });
+  const existingKeys = new Set(existing.map((r) => r.key));
+
+  for (const [key, permissions] of Object.entries(DEFAULT_ROLE_PERMISSIONS)) {
+    if (existingKeys.has(key)) continue;
+
+    await prisma.roleDefinition.create({
+      data: {
+        key,
+        name: key,
+        baseRole: key as Role,
+        isSystem: true,
+        permissions: { create: permissions.map((permission) => ({ permission })) },
+      },
+    });
+  }
+}
+
+async function loadMatrix() {
+  if (cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) {
+    return cache;
+  }
+
+  await ensureSystemRoles();
+
+  const roles = await prisma.roleDefinition.findMany({
+    include: { permissions: { select: { permission: true } } },
+  });
+
+  const byKey = new Map<string, string[]>();
+  const byId = new Map<string, string[]>();
+  for (const role of roles) {
+    const permissions = role.permissions.map((p) => p.permission);
+    byId.set(role.id, permissions);
+    if (role.isSystem) {
+      byKey.set(role.key, permissions);
+    }
+  }
+
+  cache = { byKey, byId, loadedAt: Date.now() };
+  return cache;
+}
+
+/**
+ * Drop the cached matrix (call after editing roles or permissions)
+ */
+export function invalidatePermissionCache() {
+  cache = null;
+}
+
+/**
+ * Effective permissions for a user: SUPER_ADMIN gets everything, a custom role
+ * replaces the base role's set, otherwise the system role's set applies.
+ */
+export async function getPermissionsFor(user: {
+  role: string;
+  customRoleId?: string | null;
+}): Promise<string[]> {
+  if (user.role === "SUPER_ADMIN") {
+    return Object.keys(PERMISSIONS);
+  }
+
+  const matrix = await loadMatrix();
+
+  if (user.customRoleId && matrix.byId.has(user.customRoleId)) {
+    return matrix.byId.get(user.customRoleId)!;
+  }
+
+  return matrix.byKey.get(user.role) || [];
+}
+
+/**
+ * Prisma filter for users who hold a permission (the database-side
+ * counterpart of getPermissionsFor)
+ */
+export async function permissionHolderWhere(permission: string): Promise<Prisma.UserWhereInput> {
+  const matrix = await loadMatrix();
+
+  const roleKeys = [...matrix.byKey].filter(([, perms]) => perms.includes(permission)).map(([key]) => key);
+  const roleIds = [...matrix.byId].filter(([, perms]) => perms.includes(permission)).map(([id]) => id);
+
+  return {
+    OR: [
+      { role: "SUPER_ADMIN" },
+      { customRoleId: { in: roleIds } },
+      // Users without a (known) custom role fall back to their system role
+      {
+        role: { in: roleKeys as Role[] },
+        OR: [{ customRoleId: null }, { customRoleId: { notIn: [...matrix.byId.keys()] } }],
+      },
+    ],
+  };
+}
+
+/**
+ * Check a permission on an authenticated request user
+ */
+export function hasPermission(
+  user: { role: string; permissions?: string[] } | undefined,
+  permission: string
+): boolean {
+  if (!user) return false;
+  if (user.role === "SUPER_ADMIN") return true;
+  return (user.permissions || []).includes(permission);
+}
+
+/**
+ * Keep only names that exist in the permission catalog
+ */
+export function filterKnownPermissions(permissions: unknown): string[] {
+  if (!Array.isArray(permissions)) return [];
+  return Array.from(new Set(permissions.filter((p) => typeof p === "string" && p in PERMISSIONS)));
+}
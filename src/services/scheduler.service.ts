@@ -0,0 +1,49 @@
+import { env } from "../config/env";
+import { runDueRecurrences } from "./taskRecurrence.service";
+import { runSlaChecks } from "./sla.service";
+
+interface ScheduledJob {
+  name: string;
+  run: () => Promise<unknown>;
+}
+
+/**
+ * Background jobs run on every tick, one after another
+ */
+const JOBS: ScheduledJob[] = [
+  { name: "recurring-tasks", run: () => runDueRecurrences() },
+  { name: "sla-checker", run: () => runSlaChecks() },
+];
+
+let running = false;
+
+async function tick() {
+  // Skip a tick rather than overlap with a slow previous one
+  if (running) return;
+  running = true;
+
+  try {
+    for (const job of JOBS) {
+      try {
+        await job.run();
+      } catch (err) {
+        console.error(`Scheduler job "${job.name}" failed:`, err);
+      }
+    }
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Start the in-process scheduler (disable with SCHEDULER_ENABLED=false,
+ * e.g. on extra API replicas)
+ */
+export function startScheduler() {
+  if (!env.schedulerEnabled) {
+    return;
+  }
+
+  setInterval(tick, env.schedulerIntervalSeconds * 1000).unref();
+  void tick();
+}
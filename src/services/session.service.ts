@@ -0,0 +1,202 @@
+import crypto from "crypto";
+import { Request } from "express";
+import jwt from "jsonwebtoken";
+import { prisma } from "../config/prisma";
+import { env } from "../config/env";
+
+export interface SessionUser {
+  id: string;
+  role: string;
+  email: string;
+  name: string;
+}
+
+export interface SessionContext {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+export interface IssuedTokens {
+  token: string;
+  refreshToken: string;
+  accessTokenExpiresIn: string;
+  refreshTokenExpiresAt: Date;
+  sessionId: string;
+}
+
+/**
+ * SHA-256 a random token before it touches the database
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Pull user agent + IP off the request for session bookkeeping
+ */
+export function getSessionContext(req: Request): SessionContext {
+  return {
+    userAgent: req.get("user-agent") || null,
+    ipAddress: req.ip || null,
+  };
+}
+
+/**
+ * Sign a short-lived access token bound to a session
+ */
+export function signAccessToken(user: SessionUser, sessionId: string): string {
+  return jwt.sign(
+    { id: user.id, role: user.role, email: user.email, name: user.name, sid: sessionId },
+    env.jwtSecret,
+    { expiresIn: env.accessTokenTtl as jwt.SignOptions["expiresIn"] }
+  );
+}
+
+function newRefreshToken() {
+  const refreshToken = crypto.randomBytes(48).toString("hex");
+  const expiresAt = new Date(Date.now() + env.refreshTokenTtlDays * 24 * 60 * 60 * 1000);
+  return { refreshToken, refreshTokenHash: hashToken(refreshToken), expiresAt };
+}
+
+/**
+ * Start a new session (login) and issue an access + refresh token pair
+ */
+export async function createSession(
+  user: SessionUser,
+  context: SessionContext
+): Promise<IssuedTokens> {
+  const { refreshToken, refreshTokenHash, expiresAt } = newRefreshToken();
+
+  const session = await prisma.session.create({
+    data: {
+      userId: user.id,
+      refreshTokenHash,
+      userAgent: context.userAgent,
+      ipAddress: context.ipAddress,
+      expiresAt,
+    },
+  });
+
+  return {
+    token: signAccessToken(user, session.id),
+    refreshToken,
+    accessTokenExpiresIn: env.accessTokenTtl,
+    refreshTokenExpiresAt: expiresAt,
+    sessionId: session.id,
+  };
+}
+
+/**
+ * Exchange a refresh token for a new token pair.
+ * The old session is revoked and replaced. Presenting a token that was already
+ * rotated is treated as theft and revokes every session for that user.
+ * Returns null when the token is unknown, expired, revoked or the user is inactive.
+ */
+export async function rotateSession(
+  refreshToken: string,
+  context: SessionContext
+): Promise<{ tokens: IssuedTokens; user: SessionUser } | null> {
+  const session = await prisma.session.findUnique({
+    where: { refreshTokenHash: hashToken(refreshToken) },
+    include: {
+      user: { select: { id: true, role: true, email: true, name: true, active: true } },
+    },
+  });
+
+  if (!session) {
+    return null;
+  }
+
+  if (session.revokedAt) {
+    if (session.replacedById) {
+      console.warn(`Refresh token reuse detected for user ${session.userId}, revoking all sessions`);
+      await revokeAllUserSessions(session.userId);
+    }
+    return null;
+  }
+
+  if (session.expiresAt < new Date() || !session.user.active) {
+    await revokeSession(session.id);
+    return null;
+  }
+
+  const { refreshToken: nextToken, refreshTokenHash, expiresAt } = newRefreshToken();
+  const user: SessionUser = {
+    id: session.user.id,
+    role: session.user.role,
+    email: session.user.email,
+    name: session.user.name,
+  };
+
+  const next = await prisma.$transaction(async (tx) => {
+    // Claim the old session first; only one concurrent refresh can win
+    const claimed = await tx.session.updateMany({
+      where: { id: session.id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    if (claimed.count !== 1) {
+      return null;
+    }
+
+    const created = await tx.session.create({
+      data: {
+        userId: session.userId,
+        refreshTokenHash,
+        userAgent: context.userAgent ?? session.userAgent,
+        ipAddress: context.ipAddress ?? session.ipAddress,
+        expiresAt,
+      },
+    });
+
+    await tx.session.update({
+      where: { id: session.id },
+      data: { replacedById: created.id },
+    });
+
+    return created;
+  });
+
+  // The same token was rotated concurrently - treat it like reuse
+  if (!next) {
+    console.warn(`Concurrent refresh token use detected for user ${session.userId}, revoking all sessions`);
+    await revokeAllUserSessions(session.userId);
+    return null;
+  }
+
+  return {
+    user,
+    tokens: {
+      token: signAccessToken(user, next.id),
+      refreshToken: nextToken,
+      accessTokenExpiresIn: env.accessTokenTtl,
+      refreshTokenExpiresAt: expiresAt,
+      sessionId: next.id,
+    },
+  };
+}
+
+/**
+ * Revoke a single session (logout)
+ */
+export async function revokeSession(sessionId: string) {
+  await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
+
+/**
+ * Revoke every active session for a user, optionally keeping one (e.g. the current device)
+ */
+export async function revokeAllUserSessions(userId: string, exceptSessionId?: string) {
+  const result = await prisma.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}),
+    },
+    data: { revokedAt: new Date() },
+  });
+
+  return result.count;
+}
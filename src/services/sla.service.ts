@@ -0,0 +1,179 @@
+import { SlaStage, Task, TaskStatus } from "@prisma/client";
+import { prisma } from "../config/prisma";
+import { env } from "../config/env";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const STAGE_ORDER: SlaStage[] = ["ON_TRACK", "DUE_SOON", "OVERDUE", "ESCALATED"];
+
+type SlaTask = Pick<Task, "status" | "dueDate" | "deadline" | "completedAt" | "updatedAt">;
+
+/**
+ * The date a task is measured against: its due date, else the job deadline
+ */
+export function getDueAt(task: Pick<Task, "dueDate" | "deadline">): Date | null {
+  return task.dueDate ?? task.deadline ?? null;
+}
+
+function daysBetween(from: Date, to: Date): number {
+  return Math.ceil((to.getTime() - from.getTime()) / DAY_MS);
+}
+
+/**
+ * Overdue flag and days late, as of now for open tasks and as of completion
+ * for finished ones
+ */
+export function getSlaStatus(task: SlaTask, now = new Date()) {
+  const dueAt = getDueAt(task);
+
+  if (!dueAt || task.status === "REJECTED") {
+    return { dueAt, overdue: false, daysLate: 0, dueSoon: false };
+  }
+
+  if (task.status === "DONE") {
+    const completedAt = task.completedAt ?? task.updatedAt;
+    const late = completedAt > dueAt;
+    return { dueAt, overdue: false, daysLate: late ? daysBetween(dueAt, completedAt) : 0, dueSoon: false };
+  }
+
+  const overdue = now > dueAt;
+  return {
+    dueAt,
+    overdue,
+    daysLate: overdue ? daysBetween(dueAt, now) : 0,
+    dueSoon: !overdue && dueAt.getTime() - now.getTime() <= env.slaDueSoonHours * HOUR_MS,
+  };
+}
+
+/**
+ * Attach `sla` to each task of a listing
+ */
+export function withSlaStatus<T extends SlaTask>(tasks: T[], now = new Date()) {
+  return tasks.map((task) => ({ ...task, sla: getSlaStatus(task, now) }));
+}
+
+/**
+ * Finished on or before the due date? Null when the task has no due date
+ * or is not DONE.
+ */
+export function isCompletedOnTime(task: SlaTask): boolean | null {
+  const dueAt = getDueAt(task);
+  if (!dueAt || task.status !== "DONE") return null;
+  return (task.completedAt ?? task.updatedAt) <= dueAt;
+}
+
+/**
+ * completedAt after a status change: stamped when the task reaches DONE,
+ * cleared when it is reopened
+ */
+export function nextCompletedAt(task: Pick<Task, "status" | "completedAt">, nextStatus: TaskStatus): Date | null {
+  if (nextStatus !== "DONE") return null;
+  return task.status === "DONE" ? task.completedAt : new Date();
+}
+
+/**
+ * Stage an open task should be in right now
+ */
+function targetStage(dueAt: Date, now: Date): SlaStage {
+  const untilDue = dueAt.getTime() - now.getTime();
+
+  if (untilDue > env.slaDueSoonHours * HOUR_MS) return "ON_TRACK";
+  if (untilDue > 0) return "DUE_SOON";
+  if (-untilDue < env.slaEscalateAfterHours * HOUR_MS) return "OVERDUE";
+  return "ESCALATED";
+}
+
+/**
+ * Scheduler job: move open tasks with a due date through
+ * DUE_SOON (worker reminded) -> OVERDUE (worker warned) -> ESCALATED
+ * (admins told). Each step is claimed with a conditional update so a task
+ * is only notified once per step.
+ */
+export async function runSlaChecks(now = new Date()) {
+  const horizon = new Date(now.getTime() + env.slaDueSoonHours * HOUR_MS);
+
+  const tasks = await prisma.task.findMany({
+    where: {
+      status: { notIn: ["DONE", "REJECTED"] },
+      slaStage: { not: "ESCALATED" },
+      OR: [{ dueDate: { lte: horizon } }, { dueDate: null, deadline: { lte: horizon } }],
+    },
+    select: {
+      id: true,
+      title: true,
+      dueDate: true,
+      deadline: true,
+      slaStage: true,
+      assignedToId: true,
+      client: { select: { companyName: true } },
+      assignedTo: { select: { name: true } },
+    },
+  });
+
+  let escalated = 0;
+  let admins: { id: string }[] | null = null;
+
+  for (const task of tasks) {
+    const dueAt = getDueAt(task)!;
+    const stage = targetStage(dueAt, now);
+
+    if (STAGE_ORDER.indexOf(stage) <= STAGE_ORDER.indexOf(task.slaStage)) continue;
+
+    const claimed = await prisma.task.updateMany({
+      where: { id: task.id, slaStage: task.slaStage },
+      data: { slaStage: stage, slaNotifiedAt: now },
+    });
+    if (claimed.count === 0) continue;
+
+    const due = dueAt.toISOString().slice(0, 10);
+    const daysLate = daysBetween(dueAt, now);
+
+    // Worker: reminder before the due date, warning once it has passed
+    if (task.assignedToId) {
+      if (stage === "DUE_SOON") {
+        await prisma.notification.create({
+          data: {
+            userId: task.assignedToId,
+            type: "TASK_DUE_SOON",
+            title: "Task Due Soon",
+            body: `"${task.title}" is due on ${due}.`,
+          },
+        });
+      } else if (task.slaStage !== "OVERDUE") {
+        await prisma.notification.create({
+          data: {
+            userId: task.assignedToId,
+            type: "TASK_OVERDUE",
+            title: "Task Overdue",
+            body: `"${task.title}" was due on ${due} and is now overdue.`,
+          },
+        });
+      }
+    }
+
+    // Admins: once escalated, or straight away when nobody is assigned
+    if (stage === "ESCALATED" || (stage === "OVERDUE" && !task.assignedToId)) {
+      admins ??= await prisma.user.findMany({
+        where: { role: { in: ["SUPER_ADMIN", "ADMIN"] }, active: true },
+        select: { id: true },
+      });
+
+      for (const admin of admins) {
+        await prisma.notification.create({
+          data: {
+            userId: admin.id,
+            type: "TASK_SLA_ESCALATED",
+            title: "Overdue Task",
+            body:
+              `"${task.title}"${task.client ? ` for ${task.client.companyName}` : ""} is ${daysLate} day(s) overdue` +
+              (task.assignedTo ? ` (assigned to ${task.assignedTo.name}).` : " and has no assignee."),
+          },
+        });
+      }
+      escalated++;
+    }
+  }
+
+  return { checked: tasks.length, escalated };
+}
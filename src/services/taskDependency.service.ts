@@ -0,0 +1,155 @@
+import { Prisma, TaskStatus } from "@prisma/client";
+import { prisma } from "../config/prisma";
+
+/**
+ * Statuses that count as "started": a task with unfinished predecessors
+ * cannot move into any of these
+ */
+export const STARTED_STATUSES: TaskStatus[] = ["IN_PROGRESS", "WAITING", "DONE"];
+
+export class DependencyError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * Would adding predecessor -> successor close a loop? True when the
+ * predecessor is already (transitively) downstream of the successor.
+ */
+export async function wouldCreateCycle(
+  predecessorId: string,
+  successorId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<boolean> {
+  if (predecessorId === successorId) {
+    return true;
+  }
+
+  const visited = new Set<string>([successorId]);
+  let frontier = [successorId];
+
+  while (frontier.length > 0) {
+    const edges = await db.taskDependency.findMany({
+      where: { predecessorId: { in: frontier } },
+      select: { successorId: true },
+    });
+
+    const next: string[] = [];
+    for (const edge of edges) {
+      if (edge.successorId === predecessorId) {
+        return true;
+      }
+      if (!visited.has(edge.successorId)) {
+        visited.add(edge.successorId);
+        next.push(edge.successorId);
+      }
+    }
+    frontier = next;
+  }
+
+  return false;
+}
+
+/**
+ * Make successorId wait for predecessorId. The cycle check and the insert
+ * run in one serializable transaction, so two concurrent adds cannot close
+ * a loop between them.
+ */
+export async function addDependency(predecessorId: string, successorId: string, createdById: string) {
+  try {
+    return await prisma.$transaction(
+      async (tx) => {
+        if (await wouldCreateCycle(predecessorId, successorId, tx)) {
+          throw new DependencyError("This dependency would create a cycle");
+        }
+
+        return tx.taskDependency.create({
+          data: { predecessorId, successorId, createdById },
+          include: {
+            predecessor: { select: { id: true, title: true, status: true, dueDate: true, assignedToId: true } },
+          },
+        });
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+  } catch (err: any) {
+    if (err.code === "P2002") throw new DependencyError("Dependency already exists", 409);
+    if (err.code === "P2034") throw new DependencyError("Dependencies changed at the same time, please retry", 409);
+    throw err;
+  }
+}
+
+/**
+ * Predecessors of a task that are not DONE yet
+ */
+export async function getUnfinishedPredecessors(taskId: string) {
+  const dependencies = await prisma.taskDependency.findMany({
+    where: { successorId: taskId, predecessor: { status: { not: "DONE" } } },
+    include: { predecessor: { select: { id: true, title: true, status: true } } },
+  });
+
+  return dependencies.map((d) => d.predecessor);
+}
+
+/**
+ * Error message when a task may not move to `nextStatus` because of
+ * unfinished predecessors (null = allowed)
+ */
+export async function getStartBlocker(
+  task: { id: string; status: TaskStatus },
+  nextStatus: TaskStatus
+): Promise<string | null> {
+  if (!STARTED_STATUSES.includes(nextStatus) || STARTED_STATUSES.includes(task.status)) {
+    return null;
+  }
+
+  const blockers = await getUnfinishedPredecessors(task.id);
+  if (blockers.length === 0) {
+    return null;
+  }
+
+  return `Task is blocked by unfinished task(s): ${blockers.map((b) => `"${b.title}" (${b.status})`).join(", ")}`;
+}
+
+/**
+ * After a task is DONE, notify the assignee of every successor whose last
+ * blocker this was. Returns the IDs of the unblocked tasks.
+ */
+export async function notifyUnblockedSuccessors(taskId: string, taskTitle: string): Promise<string[]> {
+  const dependencies = await prisma.taskDependency.findMany({
+    where: { predecessorId: taskId },
+    include: {
+      successor: { select: { id: true, title: true, status: true, assignedToId: true } },
+    },
+  });
+
+  const unblocked: string[] = [];
+
+  for (const { successor } of dependencies) {
+    if (successor.status !== "NOT_STARTED") continue;
+
+    const remaining = await prisma.taskDependency.count({
+      where: { successorId: successor.id, predecessor: { status: { not: "DONE" } } },
+    });
+    if (remaining > 0) continue;
+
+    unblocked.push(successor.id);
+
+    if (successor.assignedToId) {
+      await prisma.notification.create({
+        data: {
+          userId: successor.assignedToId,
+          type: "TASK_UNBLOCKED",
+          title: "Task Ready to Start",
+          body: `"${taskTitle}" is done, so you can now start: ${successor.title}`,
+        },
+      });
+    }
+  }
+
+  return unblocked;
+}
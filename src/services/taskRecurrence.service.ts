@@ -0,0 +1,201 @@
+import { Prisma, TaskRecurrence } from "@prisma/client";
+import { prisma } from "../config/prisma";
+import { nextOccurrence, parseRRule, upcomingOccurrences } from "../utils/rrule";
+
+// Missed occurrences created per schedule per scheduler tick (after downtime)
+const MAX_CATCH_UP_PER_RUN = 5;
+
+type Schedule = Pick<TaskRecurrence, "rrule" | "startAt" | "endAt" | "occurrenceCount">;
+
+/**
+ * Next occurrence after `after`, honouring COUNT (against occurrenceCount)
+ * and the schedule's end date. Null when the schedule is finished.
+ */
+export function computeNextRun(schedule: Schedule, after: Date | null): Date | null {
+  const rule = parseRRule(schedule.rrule);
+
+  if (rule.count && schedule.occurrenceCount >= rule.count) {
+    return null;
+  }
+
+  const next = nextOccurrence(rule, schedule.startAt, after);
+  if (!next || (schedule.endAt && next > schedule.endAt)) {
+    return null;
+  }
+
+  return next;
+}
+
+/**
+ * Upcoming occurrence dates for previews
+ */
+export function previewOccurrences(schedule: Schedule & { nextRunAt: Date | null }, limit = 5): Date[] {
+  if (!schedule.nextRunAt) return [];
+
+  const rule = parseRRule(schedule.rrule);
+  const remaining = rule.count ? rule.count - schedule.occurrenceCount : limit;
+  const dates = [
+    schedule.nextRunAt,
+    ...upcomingOccurrences(rule, schedule.startAt, schedule.nextRunAt, limit - 1),
+  ];
+
+  return dates
+    .filter((d) => !schedule.endAt || d <= schedule.endAt)
+    .slice(0, Math.max(0, Math.min(limit, remaining)));
+}
+
+/**
+ * Assignee for a new instance: the previous instance's worker when carrying
+ * over, else the schedule's assignee (only if still an active worker)
+ */
+async function resolveAssignee(recurrence: TaskRecurrence): Promise<string | null> {
+  const candidates: string[] = [];
+
+  if (recurrence.carryOverAssignee) {
+    const previous = await prisma.task.findFirst({
+      where: { recurrenceId: recurrence.id, assignedToId: { not: null } },
+      orderBy: { createdAt: "desc" },
+      select: { assignedToId: true },
+    });
+    if (previous?.assignedToId) candidates.push(previous.assignedToId);
+  }
+
+  if (recurrence.assignedToId) candidates.push(recurrence.assignedToId);
+
+  for (const userId of candidates) {
+    const worker = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true, active: true },
+    });
+    if (worker?.active && worker.role === "WORKER") return userId;
+  }
+
+  return null;
+}
+
+/**
+ * Create the Task (and its audit entry) for one occurrence of a schedule
+ */
+export async function materializeOccurrence(
+  tx: Prisma.TransactionClient,
+  recurrence: TaskRecurrence,
+  occurrenceAt: Date,
+  occurrence: number,
+  assignedToId: string | null
+) {
+  const task = await tx.task.create({
+    data: {
+      title: `${recurrence.title} (${occurrenceAt.toISOString().slice(0, 10)})`,
+      description: recurrence.description,
+      // Same auto-priority as createTask: contract work is CRITICAL
+      priority: recurrence.contractId ? "CRITICAL" : "PRIORITY",
+      dueDate:
+        recurrence.dueOffsetDays !== null
+          ? new Date(occurrenceAt.getTime() + recurrence.dueOffsetDays * 24 * 60 * 60 * 1000)
+          : null,
+      clientId: recurrence.clientId,
+      contractId: recurrence.contractId,
+      assignedToId,
+      requiresApproval: recurrence.requiresApproval,
+      paymentAmount: recurrence.paymentAmount,
+      createdById: recurrence.createdById,
+      recurrenceId: recurrence.id,
+      meta: {
+        recurrenceId: recurrence.id,
+        occurrence,
+        occurrenceAt: occurrenceAt.toISOString(),
+      },
+    },
+  });
+
+  await tx.auditLog.create({
+    data: {
+      userId: recurrence.createdById,
+      actionType: "TASK_CREATED",
+      entityType: "TASK",
+      entityId: task.id,
+      metaJson: {
+        recurrenceId: recurrence.id,
+        occurrence,
+        assignedToId,
+      } as any,
+    },
+  });
+
+  return task;
+}
+
+/**
+ * Scheduler job: create every occurrence that has come due. Each occurrence
+ * is claimed with a conditional update in the same transaction that creates
+ * its task, so concurrent runners never create the same instance twice and
+ * a failed create leaves the occurrence due for the next run.
+ */
+export async function runDueRecurrences(now = new Date()) {
+  let created = 0;
+
+  const due = await prisma.taskRecurrence.findMany({
+    where: { active: true, nextRunAt: { lte: now } },
+    orderBy: { nextRunAt: "asc" },
+  });
+
+  for (const recurrence of due) {
+    let current: TaskRecurrence = recurrence;
+
+    for (let i = 0; i < MAX_CATCH_UP_PER_RUN && current.nextRunAt && current.nextRunAt <= now; i++) {
+      const occurrenceAt: Date = current.nextRunAt;
+      const occurrence = current.occurrenceCount + 1;
+
+      let next: Date | null;
+      try {
+        next = computeNextRun({ ...current, occurrenceCount: occurrence }, occurrenceAt);
+      } catch (err) {
+        console.error(`Recurrence ${current.id} has an invalid rule:`, err);
+        await prisma.taskRecurrence.update({ where: { id: current.id }, data: { active: false } });
+        break;
+      }
+
+      let task;
+      try {
+        const assignedToId = await resolveAssignee(current);
+
+        task = await prisma.$transaction(async (tx) => {
+          const claimed = await tx.taskRecurrence.updateMany({
+            where: { id: current.id, active: true, nextRunAt: occurrenceAt },
+            data: {
+              nextRunAt: next,
+              lastRunAt: now,
+              occurrenceCount: occurrence,
+              active: next !== null,
+            },
+          });
+          if (claimed.count === 0) return null;
+
+          return materializeOccurrence(tx, current, occurrenceAt, occurrence, assignedToId);
+        });
+      } catch (err) {
+        // Nothing was claimed; the occurrence is retried on the next run
+        console.error(`Recurrence ${current.id} occurrence ${occurrence} failed:`, err);
+        break;
+      }
+
+      if (!task) break;
+      created++;
+
+      if (task.assignedToId) {
+        await prisma.notification.create({
+          data: {
+            userId: task.assignedToId,
+            type: "TASK_ASSIGNED",
+            title: "New Recurring Task",
+            body: `A new instance of "${current.title}" has been assigned to you.`,
+          },
+        });
+      }
+
+      current = { ...current, nextRunAt: next, occurrenceCount: occurrence, active: next !== null };
+    }
+  }
+
+  return { created };
+}
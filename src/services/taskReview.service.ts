@@ -0,0 +1,110 @@
+import { Prisma, Task } from "@prisma/client";
+import { prisma } from "../config/prisma";
+import {
+  TransitionUser,
+  assertTaskTransition,
+  recordTaskTransition,
+  runTaskTransitionEffects,
+} from "./taskStatus.service";
+
+export class TaskReviewError extends Error {}
+
+/**
+ * Tasks whose payout can be marked paid: DONE, and approved by the client
+ * when the task requires approval
+ */
+export const PAYOUT_ELIGIBLE_WHERE: Prisma.TaskWhereInput = {
+  status: "DONE",
+  OR: [{ requiresApproval: false }, { clientApprovalStatus: "APPROVED" }],
+};
+
+export function isPayoutEligible(task: Pick<Task, "status" | "requiresApproval" | "clientApprovalStatus">) {
+  return task.status === "DONE" && (!task.requiresApproval || task.clientApprovalStatus === "APPROVED");
+}
+
+/**
+ * Is the task waiting for the client's decision?
+ */
+export function isAwaitingClientReview(task: Pick<Task, "status" | "requiresApproval" | "clientApprovalStatus">) {
+  return task.requiresApproval && task.status === "WAITING" && task.clientApprovalStatus === "PENDING";
+}
+
+/**
+ * Worker hands in a requiresApproval task: open a new review round with the
+ * deliverables and park the task in WAITING until the client decides.
+ * Without explicit fileIds, the round gets the task files the worker
+ * uploaded since the previous round.
+ */
+export async function submitTaskForReview(
+  task: Task,
+  worker: TransitionUser,
+  notes: string | undefined,
+  fileIds: string[] | undefined
+) {
+  // Filled in below; the transition's audit entry and notification use it
+  const details: Record<string, any> = {};
+  const checked = await assertTaskTransition(task, "SUBMIT_FOR_REVIEW", worker, details);
+
+  const previous = await prisma.taskReview.findFirst({
+    where: { taskId: task.id },
+    orderBy: { round: "desc" },
+  });
+
+  let deliverableIds: string[];
+  if (fileIds) {
+    const files = await prisma.file.findMany({
+      where: { id: { in: fileIds }, entityType: "TASK", entityId: task.id },
+      select: { id: true },
+    });
+    if (files.length !== new Set(fileIds).size) {
+      throw new TaskReviewError("fileIds must be files attached to this task");
+    }
+    deliverableIds = files.map((f) => f.id);
+  } else {
+    const files = await prisma.file.findMany({
+      where: {
+        entityType: "TASK",
+        entityId: task.id,
+        uploadedById: worker.id,
+        ...(previous ? { createdAt: { gt: previous.submittedAt } } : {}),
+      },
+      select: { id: true },
+    });
+    deliverableIds = files.map((f) => f.id);
+  }
+
+  const round = (previous?.round ?? 0) + 1;
+  Object.assign(details, { round, fileIds: deliverableIds, notes: notes || "" });
+
+  const currentMeta = (task.meta as Record<string, any>) || {};
+
+  const [updatedTask, review] = await prisma.$transaction(async (tx) => {
+    const updated = await recordTaskTransition(tx, checked, {
+      message: `Submitted for client review${notes ? `: ${notes}` : ""}`,
+      data: {
+        meta: {
+          ...currentMeta,
+          completionNotes: notes || "",
+          submittedForReviewAt: new Date().toISOString(),
+        },
+      },
+    });
+
+    const created = await tx.taskReview.create({
+      data: {
+        taskId: task.id,
+        round,
+        notes: notes || null,
+        fileIds: deliverableIds,
+        submittedById: worker.id,
+      },
+    });
+
+    return [updated, created] as const;
+  });
+
+  // Client approvers (or admins) are told the deliverable is ready
+  await runTaskTransitionEffects(checked, updatedTask);
+
+  return { task: updatedTask, review };
+}
@@ -0,0 +1,596 @@
+import { JobStatus, Prisma, Task, TaskStatus } from "@prisma/client";
+import { prisma } from "../config/prisma";
+import { hasPermission } from "./permission.service";
+import { getApiKeyClientScope } from "./apiKey.service";
+import { getClientMemberUserIds, isClientMember } from "./clientAccess.service";
+import { getStartBlocker, notifyUnblockedSuccessors } from "./taskDependency.service";
+import { isAwaitingClientReview } from "./taskReview.service";
+import { nextCompletedAt } from "./sla.service";
+
+/**
+ * Who may fire a transition, relative to the task:
+ * MANAGER         tasks.manage
+ * ASSIGNEE        the assigned worker
+ * CLIENT_APPROVER approvers of the task's client (tasks.manage decides on their behalf)
+ * JOB_APPROVER    jobs.approve (assigning an applicant)
+ * JOB_BROADCASTER jobs.broadcast (reopening a job)
+ */
+export type TransitionActor = "MANAGER" | "ASSIGNEE" | "CLIENT_APPROVER" | "JOB_APPROVER" | "JOB_BROADCASTER";
+
+export type TaskTransitionName =
+  | "START"
+  | "HOLD"
+  | "RESUME"
+  | "FINISH"
+  | "REJECT"
+  | "RESET"
+  | "REVISE"
+  | "REOPEN"
+  | "ACCEPT"
+  | "DECLINE"
+  | "COMPLETE"
+  | "SUBMIT_FOR_REVIEW"
+  | "CLIENT_APPROVE"
+  | "REQUEST_REVISION"
+  | "ASSIGN_APPLICANT"
+  | "REOPEN_JOB";
+
+export type TransitionUser = {
+  id: string;
+  name: string;
+  role: string;
+  permissions?: string[];
+  apiKey?: { clientId: string | null };
+};
+
+type TransitionContext = {
+  user: TransitionUser;
+  actors: Set<TransitionActor>;
+  // Extra facts about this transition (review round, reason, ...), also written to the audit log
+  details: Record<string, any>;
+};
+
+type Guard = (task: Task, to: TaskStatus, ctx: TransitionContext) => string | null | Promise<string | null>;
+
+type Effect = (task: Task, ctx: TransitionContext) => Promise<void>;
+
+interface TaskTransition {
+  name: TaskTransitionName;
+  label: string;
+  from: TaskStatus[];
+  to: TaskStatus;
+  actors: TransitionActor[];
+  // Reachable by setting the status (PATCH /tasks/:id, PATCH /tasks/:id/status, board moves)
+  viaStatusUpdate?: boolean;
+  // Dedicated endpoint, for clients that show the available actions
+  endpoint: string;
+  guards?: Guard[];
+  data?: Prisma.TaskUncheckedUpdateInput;
+  auditAction?: string;
+  effects?: Effect[];
+}
+
+export class TaskTransitionError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+const OPEN: TaskStatus[] = ["NOT_STARTED", "IN_PROGRESS", "WAITING"];
+
+// ============================================
+// GUARDS
+// ============================================
+
+const notBlocked: Guard = (task, to) => getStartBlocker(task, to);
+
+const notAwaitingReview: Guard = (task) =>
+  isAwaitingClientReview(task) ? "Task is awaiting client review; approve it or request a revision" : null;
+
+const awaitingReview: Guard = (task) => (isAwaitingClientReview(task) ? null : "Task is not awaiting client review");
+
+const requiresApproval: Guard = (task) =>
+  task.requiresApproval ? null : "Only tasks that require client approval go to review";
+
+const noClientApproval: Guard = (task) =>
+  task.requiresApproval ? "This task requires client approval; submit it with /tasks/:taskId/complete" : null;
+
+const jobStatusIn =
+  (...statuses: JobStatus[]): Guard =>
+  (task) =>
+    statuses.includes(task.jobStatus) ? null : `Job is ${task.jobStatus}`;
+
+// Workers hand in approval-required tasks through /complete (client review)
+const clientApprovalUnlessManager: Guard = (task, to, ctx) =>
+  ctx.actors.has("MANAGER") ? null : noClientApproval(task, to, ctx);
+
+// ============================================
+// EFFECTS
+// ============================================
+
+async function notifyUsers(userIds: string[], type: string, title: string, body: string) {
+  for (const userId of userIds) {
+    await prisma.notification.create({ data: { userId, type, title, body } });
+  }
+}
+
+async function getAdminIds() {
+  const admins = await prisma.user.findMany({
+    where: { role: { in: ["SUPER_ADMIN", "ADMIN"] }, active: true },
+    select: { id: true },
+  });
+  return admins.map((a) => a.id);
+}
+
+async function getCompanyName(task: Task) {
+  if (!task.clientId) return null;
+  const client = await prisma.client.findUnique({ where: { id: task.clientId }, select: { companyName: true } });
+  return client?.companyName ?? null;
+}
+
+const unblockSuccessors: Effect = async (task) => {
+  // Let successors' assignees know when this was their last blocker
+  await notifyUnblockedSuccessors(task.id, task.title);
+};
+
+const notifyAccepted: Effect = async (task, ctx) => {
+  const companyName = await getCompanyName(task);
+  const clientUserIds = task.clientId ? await getClientMemberUserIds(task.clientId) : [];
+
+  await notifyUsers(clientUserIds, "TASK_ACCEPTED", "Task Accepted", `${ctx.user.name} has accepted your task: ${task.title}`);
+  await notifyUsers(
+    await getAdminIds(),
+    "TASK_ACCEPTED",
+    "Task Accepted",
+    `${ctx.user.name} accepted task: ${task.title}${companyName ? ` for ${companyName}` : ""}`
+  );
+};
+
+const notifyDeclined: Effect = async (task, ctx) => {
+  const companyName = await getCompanyName(task);
+
+  await notifyUsers(
+    await getAdminIds(),
+    "TASK_DECLINED",
+    "Task Declined - Action Required",
+    `${ctx.user.name} declined task: ${task.title}${companyName ? ` for ${companyName}` : ""}. Reason: ${ctx.details.reason}`
+  );
+};
+
+const notifyCompleted: Effect = async (task, ctx) => {
+  const { notes } = ctx.details;
+  const companyName = await getCompanyName(task);
+  const clientUserIds = task.clientId ? await getClientMemberUserIds(task.clientId) : [];
+
+  await notifyUsers(
+    clientUserIds,
+    "TASK_COMPLETED",
+    "Task Completed",
+    `${ctx.user.name} completed your task: ${task.title}${notes ? `. Notes: ${notes}` : ""}`
+  );
+  await notifyUsers(
+    await getAdminIds(),
+    "TASK_COMPLETED",
+    "Task Completed",
+    `${ctx.user.name} completed task: ${task.title}${companyName ? ` for ${companyName}` : ""}`
+  );
+};
+
+const notifyReviewRequested: Effect = async (task, ctx) => {
+  const { round } = ctx.details;
+
+  // Client approvers review the deliverable; admins decide for tasks without a client team
+  let approverIds = task.clientId ? await getClientMemberUserIds(task.clientId, "approve") : [];
+  if (approverIds.length === 0) approverIds = await getAdminIds();
+
+  await notifyUsers(
+    approverIds,
+    "TASK_REVIEW_REQUESTED",
+    "Deliverable Ready for Review",
+    `${ctx.user.name} submitted "${task.title}" for your approval` + (round > 1 ? ` (revision ${round - 1}).` : ".")
+  );
+};
+
+const notifyApproved: Effect = async (task, ctx) => {
+  if (!task.assignedToId) return;
+  const { comments } = ctx.details;
+
+  await notifyUsers(
+    [task.assignedToId],
+    "TASK_APPROVED",
+    "Deliverable Approved",
+    `"${task.title}" was approved${task.paymentAmount ? " and your payment is now eligible for payout" : ""}.` +
+      (comments ? ` Comments: ${comments}` : "")
+  );
+};
+
+const notifyRevisionRequested: Effect = async (task, ctx) => {
+  if (!task.assignedToId) return;
+
+  await notifyUsers(
+    [task.assignedToId],
+    "TASK_REVISION_REQUESTED",
+    "Revision Requested",
+    `Changes were requested on "${task.title}": ${ctx.details.comments}`
+  );
+};
+
+// ============================================
+// TRANSITION TABLE
+// ============================================
+
+const TRANSITIONS: TaskTransition[] = [
+  // Plain status changes
+  {
+    name: "START",
+    label: "Start",
+    from: ["NOT_STARTED"],
+    to: "IN_PROGRESS",
+    actors: ["MANAGER", "ASSIGNEE"],
+    viaStatusUpdate: true,
+    endpoint: "PATCH /tasks/:id/status",
+    guards: [notBlocked],
+  },
+  {
+    name: "HOLD",
+    label: "Put on hold",
+    from: ["NOT_STARTED", "IN_PROGRESS"],
+    to: "WAITING",
+    actors: ["MANAGER", "ASSIGNEE"],
+    viaStatusUpdate: true,
+    endpoint: "PATCH /tasks/:id/status",
+    guards: [notBlocked],
+  },
+  {
+    name: "RESUME",
+    label: "Resume",
+    from: ["WAITING"],
+    to: "IN_PROGRESS",
+    actors: ["MANAGER", "ASSIGNEE"],
+    viaStatusUpdate: true,
+    endpoint: "PATCH /tasks/:id/status",
+    guards: [notAwaitingReview],
+  },
+  {
+    name: "FINISH",
+    label: "Mark done",
+    from: OPEN,
+    to: "DONE",
+    actors: ["MANAGER", "ASSIGNEE"],
+    viaStatusUpdate: true,
+    endpoint: "PATCH /tasks/:id/status",
+    guards: [notBlocked, notAwaitingReview, clientApprovalUnlessManager],
+    effects: [unblockSuccessors],
+  },
+  {
+    name: "REJECT",
+    label: "Reject",
+    from: OPEN,
+    to: "REJECTED",
+    actors: ["MANAGER"],
+    viaStatusUpdate: true,
+    endpoint: "PATCH /tasks/:id/status",
+  },
+  {
+    name: "RESET",
+    label: "Move back to not started",
+    from: ["IN_PROGRESS", "WAITING"],
+    to: "NOT_STARTED",
+    actors: ["MANAGER"],
+    viaStatusUpdate: true,
+    endpoint: "PATCH /tasks/:id/status",
+    guards: [notAwaitingReview],
+  },
+  {
+    name: "REVISE",
+    label: "Reopen for more work",
+    from: ["DONE"],
+    to: "IN_PROGRESS",
+    actors: ["MANAGER"],
+    viaStatusUpdate: true,
+    endpoint: "PATCH /tasks/:id/status",
+  },
+  {
+    name: "REOPEN",
+    label: "Reopen",
+    from: ["DONE", "REJECTED"],
+    to: "NOT_STARTED",
+    actors: ["MANAGER"],
+    viaStatusUpdate: true,
+    endpoint: "PATCH /tasks/:id/status",
+  },
+
+  // Worker actions
+  {
+    name: "ACCEPT",
+    label: "Accept",
+    from: ["NOT_STARTED"],
+    to: "IN_PROGRESS",
+    actors: ["ASSIGNEE"],
+    endpoint: "POST /tasks/:id/accept",
+    guards: [notBlocked],
+    auditAction: "TASK_ACCEPTED",
+    effects: [notifyAccepted],
+  },
+  {
+    name: "DECLINE",
+    label: "Decline",
+    from: ["NOT_STARTED", "IN_PROGRESS"],
+    to: "NOT_STARTED",
+    actors: ["ASSIGNEE"],
+    endpoint: "POST /tasks/:id/decline",
+    data: { assignedToId: null },
+    auditAction: "TASK_DECLINED",
+    effects: [notifyDeclined],
+  },
+  {
+    name: "COMPLETE",
+    label: "Complete",
+    from: ["IN_PROGRESS", "WAITING"],
+    to: "DONE",
+    actors: ["ASSIGNEE"],
+    endpoint: "POST /tasks/:id/complete",
+    guards: [notAwaitingReview, noClientApproval],
+    auditAction: "TASK_COMPLETED",
+    effects: [notifyCompleted, unblockSuccessors],
+  },
+  {
+    name: "SUBMIT_FOR_REVIEW",
+    label: "Submit for client review",
+    from: ["IN_PROGRESS", "WAITING"],
+    to: "WAITING",
+    actors: ["ASSIGNEE"],
+    endpoint: "POST /tasks/:id/complete",
+    guards: [requiresApproval, notAwaitingReview],
+    data: { clientApprovalStatus: "PENDING" },
+    auditAction: "TASK_SUBMITTED_FOR_REVIEW",
+    effects: [notifyReviewRequested],
+  },
+
+  // Client review
+  {
+    name: "CLIENT_APPROVE",
+    label: "Approve deliverable",
+    from: ["WAITING"],
+    to: "DONE",
+    actors: ["CLIENT_APPROVER"],
+    endpoint: "POST /tasks/:id/approve",
+    guards: [awaitingReview],
+    data: { clientApprovalStatus: "APPROVED" },
+    auditAction: "TASK_CLIENT_APPROVED",
+    effects: [notifyApproved, unblockSuccessors],
+  },
+  {
+    name: "REQUEST_REVISION",
+    label: "Request revision",
+    from: ["WAITING"],
+    to: "IN_PROGRESS",
+    actors: ["CLIENT_APPROVER"],
+    endpoint: "POST /tasks/:id/request-revision",
+    guards: [awaitingReview],
+    data: { clientApprovalStatus: "REVISION_REQUESTED", revisionCount: { increment: 1 } },
+    auditAction: "TASK_REVISION_REQUESTED",
+    effects: [notifyRevisionRequested],
+  },
+
+  // Job board (notifications to applicants stay with the job endpoints)
+  {
+    name: "ASSIGN_APPLICANT",
+    label: "Assign applicant",
+    from: OPEN,
+    to: "NOT_STARTED",
+    actors: ["JOB_APPROVER"],
+    endpoint: "POST /jobs/applications/:applicationId/approve",
+    guards: [jobStatusIn("REVIEWING")],
+    auditAction: "JOB_APPLICATION_APPROVED",
+  },
+  {
+    name: "REOPEN_JOB",
+    label: "Reopen job",
+    from: OPEN,
+    to: "NOT_STARTED",
+    actors: ["JOB_BROADCASTER"],
+    endpoint: "POST /jobs/:taskId/reopen",
+    guards: [jobStatusIn("ASSIGNED", "REVIEWING")],
+    data: { assignedToId: null },
+    auditAction: "JOB_REOPENED",
+  },
+];
+
+// ============================================
+// RESOLUTION
+// ============================================
+
+/**
+ * Roles the user plays on this task. API keys scoped to another client play none.
+ */
+export async function getTransitionActors(user: TransitionUser, task: Task): Promise<Set<TransitionActor>> {
+  const actors = new Set<TransitionActor>();
+
+  const scopeClientId = getApiKeyClientScope(user);
+  if (scopeClientId && task.clientId !== scopeClientId) return actors;
+
+  if (hasPermission(user, "tasks.manage")) actors.add("MANAGER").add("CLIENT_APPROVER");
+  if (hasPermission(user, "jobs.approve")) actors.add("JOB_APPROVER");
+  if (hasPermission(user, "jobs.broadcast")) actors.add("JOB_BROADCASTER");
+  if (task.assignedToId === user.id) actors.add("ASSIGNEE");
+
+  if (!actors.has("CLIENT_APPROVER") && task.clientId && (await isClientMember(task.clientId, user.id, "approve"))) {
+    actors.add("CLIENT_APPROVER");
+  }
+
+  return actors;
+}
+
+function getTransition(name: TaskTransitionName): TaskTransition {
+  return TRANSITIONS.find((t) => t.name === name)!;
+}
+
+/**
+ * Why `transition` may not fire right now (null = allowed)
+ */
+async function getTransitionBlocker(
+  transition: TaskTransition,
+  task: Task,
+  ctx: TransitionContext
+): Promise<TaskTransitionError | null> {
+  if (!transition.actors.some((actor) => ctx.actors.has(actor))) {
+    return new TaskTransitionError(`Forbidden: "${transition.label}" is not available to you on this task`, 403);
+  }
+
+  if (!transition.from.includes(task.status)) {
+    return new TaskTransitionError(`Cannot ${transition.label.toLowerCase()}: task is ${task.status}`);
+  }
+
+  for (const guard of transition.guards || []) {
+    const reason = await guard(task, transition.to, ctx);
+    if (reason) return new TaskTransitionError(reason);
+  }
+
+  return null;
+}
+
+/**
+ * Check that the user may fire a named transition, or move the task to a
+ * status through a plain status update. Throws TaskTransitionError.
+ */
+export async function assertTaskTransition(
+  task: Task,
+  target: TaskTransitionName | { status: TaskStatus },
+  user: TransitionUser,
+  details: Record<string, any> = {}
+) {
+  let transition: TaskTransition | undefined;
+
+  if (typeof target === "string") {
+    transition = getTransition(target);
+  } else {
+    transition = TRANSITIONS.find((t) => t.viaStatusUpdate && t.to === target.status && t.from.includes(task.status));
+    if (!transition) {
+      throw new TaskTransitionError(`Cannot move a task from ${task.status} to ${target.status}`);
+    }
+  }
+
+  const ctx: TransitionContext = { user, actors: await getTransitionActors(user, task), details };
+
+  const blocker = await getTransitionBlocker(transition, task, ctx);
+  if (blocker) throw blocker;
+
+  return { transition, task, ctx };
+}
+
+export type CheckedTransition = Awaited<ReturnType<typeof assertTaskTransition>>;
+
+type TransitionWriteOptions = {
+  message?: string;
+  attachmentUrl?: string;
+  // Other fields to change in the same update
+  data?: Prisma.TaskUncheckedUpdateInput;
+  // Bulk operations write one grouped audit entry instead
+  audit?: boolean;
+};
+
+/**
+ * Write a checked transition inside the caller's transaction: the status
+ * (plus `data`), completedAt, a TaskUpdate and (unless `audit: false`) the
+ * audit entry. Throws a 409 TaskTransitionError when the task's status
+ * changed since it was checked.
+ */
+export async function recordTaskTransition(
+  tx: Prisma.TransactionClient,
+  { transition, task, ctx }: CheckedTransition,
+  options: TransitionWriteOptions = {}
+) {
+  // Only applies while the task still has the status the transition was checked against
+  const { count } = await tx.task.updateMany({
+    where: { id: task.id, status: task.status },
+    data: {
+      ...transition.data,
+      ...options.data,
+      status: transition.to,
+      completedAt: nextCompletedAt(task, transition.to),
+    },
+  });
+  if (count === 0) {
+    throw new TaskTransitionError(`Task status changed to something other than ${task.status}; reload and try again`, 409);
+  }
+
+  const updated = await tx.task.findUniqueOrThrow({ where: { id: task.id } });
+
+  await tx.taskUpdate.create({
+    data: {
+      taskId: task.id,
+      userId: ctx.user.id,
+      oldStatus: task.status,
+      newStatus: transition.to,
+      message: options.message || `${transition.label} (${task.status} -> ${transition.to})`,
+      attachmentUrl: options.attachmentUrl,
+    },
+  });
+
+  if (options.audit === false) return updated;
+
+  await tx.auditLog.create({
+    data: {
+      userId: ctx.user.id,
+      actionType: transition.auditAction || "TASK_STATUS_CHANGE",
+      entityType: "TASK",
+      entityId: task.id,
+      metaJson: {
+        ...ctx.details,
+        taskTitle: task.title,
+        clientId: task.clientId,
+        transition: transition.name,
+        oldStatus: task.status,
+        newStatus: transition.to,
+      } as any,
+    },
+  });
+
+  return updated;
+}
+
+/**
+ * Notifications and follow-ups of a transition, once it is committed
+ */
+export async function runTaskTransitionEffects({ transition, ctx }: CheckedTransition, updated: Task) {
+  for (const effect of transition.effects || []) {
+    await effect(updated, ctx);
+  }
+}
+
+/**
+ * Check, write and follow up on a transition in one go
+ */
+export async function transitionTask(
+  task: Task,
+  target: TaskTransitionName | { status: TaskStatus },
+  user: TransitionUser,
+  options: TransitionWriteOptions & { details?: Record<string, any> } = {}
+) {
+  const checked = await assertTaskTransition(task, target, user, options.details);
+  const updated = await prisma.$transaction((tx) => recordTaskTransition(tx, checked, options));
+  await runTaskTransitionEffects(checked, updated);
+  return updated;
+}
+
+/**
+ * Transitions the user can fire on the task right now
+ */
+export async function getAvailableTransitions(task: Task, user: TransitionUser) {
+  const ctx: TransitionContext = { user, actors: await getTransitionActors(user, task), details: {} };
+
+  const available = [];
+  for (const transition of TRANSITIONS) {
+    if (!(await getTransitionBlocker(transition, task, ctx))) {
+      available.push({
+        transition: transition.name,
+        label: transition.label,
+        to: transition.to,
+        endpoint: transition.endpoint,
+      });
+    }
+  }
+
+  return { actors: [...ctx.actors], transitions: available };
+}
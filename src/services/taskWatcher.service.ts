@@ -0,0 +1,204 @@
+import { Role, Task, TaskWatchSource } from "@prisma/client";
+import { prisma } from "../config/prisma";
+import { getClientMemberUserIds, isClientMember } from "./clientAccess.service";
+import { hasPermission, permissionHolderWhere } from "./permission.service";
+import { getApiKeyClientScope } from "./apiKey.service";
+
+type WatchedTask = Pick<Task, "id" | "title" | "clientId" | "assignedToId">;
+
+type AudienceUser = { id: string; name: string; email: string; role: Role };
+
+// Mentions are @[Full Name] or @handle (name without spaces, email name, or a unique first name).
+// The @ must not follow a word character, so e-mail addresses are not mentions.
+const MENTION_PATTERN = /(?<![\w@])@(?:\[([^\]]+)\]|([A-Za-z0-9._-]+))/g;
+
+const SNIPPET_LENGTH = 140;
+
+const ADMIN_ROLES: Role[] = ["SUPER_ADMIN", "ADMIN"];
+
+const CLIENT_ROLES: Role[] = ["CLIENT_VIEWER", "CLIENT_VIEWER_PENDING"];
+
+function normalizeHandle(value: string) {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function snippet(content: string) {
+  return content.length > SNIPPET_LENGTH ? `${content.slice(0, SNIPPET_LENGTH - 1)}…` : content;
+}
+
+/**
+ * Who can see a task and its comments: holders of tasks.manage, the
+ * assignee, workers with a checklist item on it, and members of its client.
+ * Client-scoped API keys only reach their client's tasks. Client users
+ * never see internal comments.
+ */
+export async function getTaskAccess(
+  user: { id: string; role: string; permissions?: string[]; apiKey?: { clientId: string | null } } | undefined,
+  task: WatchedTask
+) {
+  const scopeClientId = getApiKeyClientScope(user);
+  if (!user || (scopeClientId && task.clientId !== scopeClientId)) {
+    return { allowed: false, isClient: false };
+  }
+
+  if (hasPermission(user, "tasks.manage") || task.assignedToId === user.id) {
+    return { allowed: true, isClient: false };
+  }
+
+  if (task.clientId && (await isClientMember(task.clientId, user.id))) {
+    return { allowed: true, isClient: true };
+  }
+
+  const checklistItems = await prisma.taskChecklistItem.count({
+    where: { taskId: task.id, assignedToId: user.id },
+  });
+
+  return { allowed: checklistItems > 0, isClient: false };
+}
+
+/**
+ * Active users who can see the task, by the same rules as getTaskAccess
+ */
+export async function getTaskAudience(task: WatchedTask): Promise<AudienceUser[]> {
+  const [clientUserIds, managers] = await Promise.all([
+    task.clientId ? getClientMemberUserIds(task.clientId) : [],
+    permissionHolderWhere("tasks.manage"),
+  ]);
+
+  return prisma.user.findMany({
+    where: {
+      active: true,
+      OR: [
+        managers,
+        ...(task.assignedToId ? [{ id: task.assignedToId }] : []),
+        { checklistItemsAssigned: { some: { taskId: task.id } } },
+        { id: { in: clientUserIds } },
+      ],
+    },
+    select: { id: true, name: true, email: true, role: true },
+  });
+}
+
+/**
+ * Users notified about activity on the task. Admins, the assignee and the
+ * client's primary contact watch automatically; anyone who can see the task
+ * can follow it, and anyone can unfollow.
+ */
+export async function getTaskWatcherIds(task: WatchedTask, audience?: AudienceUser[]): Promise<string[]> {
+  const [users, rows, client] = await Promise.all([
+    audience ?? getTaskAudience(task),
+    prisma.taskWatcher.findMany({ where: { taskId: task.id }, select: { userId: true, watching: true } }),
+    task.clientId
+      ? prisma.client.findUnique({ where: { id: task.clientId }, select: { linkedUserId: true } })
+      : null,
+  ]);
+
+  const watching = new Set(users.filter((u) => ADMIN_ROLES.includes(u.role)).map((u) => u.id));
+  if (task.assignedToId) watching.add(task.assignedToId);
+  if (client?.linkedUserId) watching.add(client.linkedUserId);
+
+  for (const row of rows) {
+    if (row.watching) watching.add(row.userId);
+    else watching.delete(row.userId);
+  }
+
+  // Only people who can still see the task (e.g. not a previous assignee)
+  const visible = new Set(users.map((u) => u.id));
+  return [...watching].filter((id) => visible.has(id));
+}
+
+/**
+ * Follow or unfollow a task
+ */
+export async function setTaskWatching(taskId: string, userId: string, watching: boolean) {
+  return prisma.taskWatcher.upsert({
+    where: { taskId_userId: { taskId, userId } },
+    create: { taskId, userId, watching, source: "MANUAL" },
+    update: { watching, source: "MANUAL" },
+  });
+}
+
+/**
+ * Subscribe a user because they commented or were mentioned. Never
+ * overrides an explicit unfollow.
+ */
+async function autoWatchTask(taskId: string, userId: string, source: TaskWatchSource) {
+  await prisma.taskWatcher.upsert({
+    where: { taskId_userId: { taskId, userId } },
+    create: { taskId, userId, source },
+    update: {},
+  });
+}
+
+/**
+ * Users of `audience` mentioned in a comment
+ */
+export function resolveMentions(content: string, audience: AudienceUser[]): AudienceUser[] {
+  const mentioned = new Map<string, AudienceUser>();
+
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    const handle = normalizeHandle(match[1] ?? match[2]);
+    if (!handle) continue;
+
+    let user = audience.find(
+      (u) => normalizeHandle(u.name) === handle || normalizeHandle(u.email.split("@")[0]) === handle
+    );
+
+    if (!user) {
+      const byFirstName = audience.filter((u) => normalizeHandle(u.name.split(/\s+/)[0]) === handle);
+      if (byFirstName.length === 1) user = byFirstName[0];
+    }
+
+    if (user) mentioned.set(user.id, user);
+  }
+
+  return [...mentioned.values()];
+}
+
+/**
+ * After a comment: notify mentioned users (TASK_MENTION) and the other
+ * watchers (TASK_COMMENT). Mentioned users and the author start following
+ * the task. Returns the mentioned users.
+ */
+export async function notifyTaskComment(
+  task: WatchedTask,
+  comment: { content: string; internal?: boolean },
+  author: { id: string; name: string }
+) {
+  // Internal comments only reach staff
+  const audience = (await getTaskAudience(task)).filter(
+    (u) => !comment.internal || !CLIENT_ROLES.includes(u.role)
+  );
+  const mentioned = resolveMentions(comment.content, audience).filter((u) => u.id !== author.id);
+
+  await autoWatchTask(task.id, author.id, "COMMENT");
+
+  for (const user of mentioned) {
+    await autoWatchTask(task.id, user.id, "MENTION");
+    await prisma.notification.create({
+      data: {
+        userId: user.id,
+        type: "TASK_MENTION",
+        title: "You Were Mentioned",
+        body: `${author.name} mentioned you on "${task.title}": ${snippet(comment.content)}`,
+      },
+    });
+  }
+
+  const mentionedIds = new Set(mentioned.map((u) => u.id));
+  const watcherIds = await getTaskWatcherIds(task, audience);
+
+  for (const userId of watcherIds) {
+    if (userId === author.id || mentionedIds.has(userId)) continue;
+    await prisma.notification.create({
+      data: {
+        userId,
+        type: "TASK_COMMENT",
+        title: "New Comment",
+        body: `${author.name} commented on "${task.title}": ${snippet(comment.content)}`,
+      },
+    });
+  }
+
+  return mentioned.map(({ id, name }) => ({ id, name }));
+}
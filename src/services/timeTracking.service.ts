@@ -0,0 +1,183 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../config/prisma";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest entry accepted (manual, or a timer before it is capped)
+export const MAX_ENTRY_MINUTES = 24 * 60;
+
+export class TimeEntryError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+/**
+ * Monday 00:00 UTC of the week containing `date`
+ */
+export function weekStartOf(date: Date): Date {
+  const day = (date.getUTCDay() + 6) % 7;
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - day));
+}
+
+export function weekEndOf(weekStart: Date): Date {
+  return new Date(weekStart.getTime() + 7 * DAY_MS);
+}
+
+/**
+ * Split [start, end) at each Monday 00:00 UTC so every part falls in one
+ * timesheet week
+ */
+export function splitAtWeekBoundaries(start: Date, end: Date): { startedAt: Date; endedAt: Date }[] {
+  const parts: { startedAt: Date; endedAt: Date }[] = [];
+  let from = start;
+
+  while (weekEndOf(weekStartOf(from)) < end) {
+    const boundary = weekEndOf(weekStartOf(from));
+    parts.push({ startedAt: from, endedAt: boundary });
+    from = boundary;
+  }
+  parts.push({ startedAt: from, endedAt: end });
+
+  return parts;
+}
+
+export function minutesBetween(start: Date, end: Date): number {
+  return Math.round((end.getTime() - start.getTime()) / 60000);
+}
+
+export function toHours(minutes: number): number {
+  return Math.round((minutes / 60) * 100) / 100;
+}
+
+/**
+ * First of the worker's entries that overlaps [start, end). A running timer
+ * has no end yet, so it overlaps anything after its start; `end = null`
+ * checks an open-ended interval (starting a timer).
+ */
+export async function findOverlappingEntry(
+  userId: string,
+  start: Date,
+  end: Date | null,
+  excludeId?: string,
+  db: Prisma.TransactionClient = prisma
+) {
+  return db.timeEntry.findFirst({
+    where: {
+      userId,
+      ...(excludeId ? { id: { not: excludeId } } : {}),
+      ...(end ? { startedAt: { lt: end } } : {}),
+      OR: [{ endedAt: null }, { endedAt: { gt: start } }],
+    },
+    include: { task: { select: { id: true, title: true } } },
+    orderBy: { startedAt: "asc" },
+  });
+}
+
+/**
+ * Throws when the week containing `date` is on a submitted or approved
+ * timesheet (rejected timesheets can be corrected)
+ */
+export async function assertWeekEditable(userId: string, date: Date) {
+  const timesheet = await prisma.timesheet.findUnique({
+    where: { userId_weekStart: { userId, weekStart: weekStartOf(date) } },
+    select: { status: true },
+  });
+
+  if (timesheet && (timesheet.status === "SUBMITTED" || timesheet.status === "APPROVED")) {
+    throw new TimeEntryError(`The timesheet for this week is ${timesheet.status.toLowerCase()} and can no longer be edited`);
+  }
+}
+
+/**
+ * Validate a manual entry (or an edit) for a worker. Returns the duration.
+ */
+export async function validateEntryWindow(
+  userId: string,
+  startedAt: Date,
+  endedAt: Date,
+  excludeId?: string
+): Promise<number> {
+  if (isNaN(startedAt.getTime()) || isNaN(endedAt.getTime())) {
+    throw new TimeEntryError("startedAt and endedAt must be valid dates");
+  }
+  if (endedAt <= startedAt) {
+    throw new TimeEntryError("endedAt must be after startedAt");
+  }
+  if (endedAt > new Date()) {
+    throw new TimeEntryError("Time entries cannot end in the future");
+  }
+
+  const minutes = minutesBetween(startedAt, endedAt);
+  if (minutes > MAX_ENTRY_MINUTES) {
+    throw new TimeEntryError("A single time entry cannot exceed 24 hours");
+  }
+  if (endedAt > weekEndOf(weekStartOf(startedAt))) {
+    throw new TimeEntryError("A time entry cannot cross into the next week (Monday 00:00 UTC); log it as two entries");
+  }
+
+  await assertWeekEditable(userId, startedAt);
+
+  const overlap = await findOverlappingEntry(userId, startedAt, endedAt, excludeId);
+  if (overlap) {
+    throw new TimeEntryError(
+      `Overlaps an existing entry on "${overlap.task.title}" starting ${overlap.startedAt.toISOString()}`,
+      409
+    );
+  }
+
+  return minutes;
+}
+
+/**
+ * Logged minutes (finished entries) grouped by a column
+ */
+export async function sumMinutes(where: Prisma.TimeEntryWhereInput, by: "taskId" | "userId") {
+  const rows = await prisma.timeEntry.groupBy({
+    by: [by],
+    where: { ...where, durationMinutes: { not: null } },
+    _sum: { durationMinutes: true },
+  });
+
+  return new Map(rows.map((row) => [row[by] as string, row._sum.durationMinutes ?? 0]));
+}
+
+/**
+ * A worker's entries for a week with per-day and per-task totals
+ */
+export async function buildWeekSummary(userId: string, weekStart: Date) {
+  const entries = await prisma.timeEntry.findMany({
+    where: { userId, startedAt: { gte: weekStart, lt: weekEndOf(weekStart) } },
+    include: { task: { select: { id: true, title: true, client: { select: { companyName: true } } } } },
+    orderBy: { startedAt: "asc" },
+  });
+
+  const byDay: Record<string, number> = {};
+  for (let i = 0; i < 7; i++) {
+    byDay[new Date(weekStart.getTime() + i * DAY_MS).toISOString().slice(0, 10)] = 0;
+  }
+
+  const byTask = new Map<string, { taskId: string; title: string; minutes: number }>();
+  let totalMinutes = 0;
+
+  for (const entry of entries) {
+    const minutes = entry.durationMinutes ?? 0;
+    totalMinutes += minutes;
+    byDay[entry.startedAt.toISOString().slice(0, 10)] += minutes;
+
+    const task = byTask.get(entry.taskId) ?? { taskId: entry.taskId, title: entry.task.title, minutes: 0 };
+    task.minutes += minutes;
+    byTask.set(entry.taskId, task);
+  }
+
+  return {
+    weekStart,
+    weekEnd: weekEndOf(weekStart),
+    entries,
+    running: entries.some((e) => e.endedAt === null),
+    totalMinutes,
+    totalHours: toHours(totalMinutes),
+    byDay: Object.entries(byDay).map(([date, minutes]) => ({ date, minutes, hours: toHours(minutes) })),
+    byTask: Array.from(byTask.values()).map((t) => ({ ...t, hours: toHours(t.minutes) })),
+  };
+}
@@ -0,0 +1,113 @@
+import jwt from "jsonwebtoken";
+import { prisma } from "../config/prisma";
+import { env } from "../config/env";
+import { isAdminLevel } from "../middleware/requireRole";
+import { hashToken } from "./session.service";
+import { decryptSecret, verifyTotp } from "../utils/totp";
+
+export type TwoFactorChallengePurpose = "2fa_login" | "2fa_setup";
+
+const CHALLENGE_TTL: Record<TwoFactorChallengePurpose, string> = {
+  "2fa_login": "5m",
+  "2fa_setup": "15m",
+};
+
+/**
+ * Sign the short-lived token handed out between password check and 2FA step
+ */
+export function signTwoFactorChallenge(userId: string, purpose: TwoFactorChallengePurpose): string {
+  return jwt.sign({ id: userId, purpose }, env.jwtSecret, {
+    expiresIn: CHALLENGE_TTL[purpose] as jwt.SignOptions["expiresIn"],
+  });
+}
+
+/**
+ * Verify a challenge token for the given purpose; returns the user id or null
+ */
+export function verifyTwoFactorChallenge(
+  token: string,
+  purpose: TwoFactorChallengePurpose
+): string | null {
+  try {
+    const decoded = jwt.verify(token, env.jwtSecret) as any;
+    if (decoded.purpose !== purpose || !decoded.id) {
+      return null;
+    }
+    return decoded.id;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Is 2FA mandatory for this role under the current platform settings?
+ */
+export async function isTwoFactorMandatory(role: string): Promise<boolean> {
+  if (!isAdminLevel(role)) {
+    return false;
+  }
+
+  const settings = await prisma.platformSettings.findUnique({
+    where: { id: "default" },
+    select: { requireAdminTwoFactor: true },
+  });
+
+  return settings?.requireAdminTwoFactor ?? false;
+}
+
+/**
+ * Hash recovery codes for storage
+ */
+export function hashRecoveryCodes(codes: string[]): string[] {
+  return codes.map((code) => hashToken(code.trim().toLowerCase()));
+}
+
+/**
+ * Check a TOTP code (rejecting replays of an already-used time step)
+ * or a recovery code (consumed on use) for a user with 2FA enabled.
+ */
+export async function verifyTwoFactorCode(
+  userId: string,
+  code: string
+): Promise<"totp" | "recovery" | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      twoFactorEnabled: true,
+      twoFactorSecret: true,
+      twoFactorRecoveryCodes: true,
+      twoFactorLastStep: true,
+    },
+  });
+
+  if (!user || !user.twoFactorEnabled || !user.twoFactorSecret || !code) {
+    return null;
+  }
+
+  const step = verifyTotp(decryptSecret(user.twoFactorSecret), code);
+  if (step !== null) {
+    // Claim the step atomically so parallel logins cannot both use it
+    const { count } = await prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }],
+      },
+      data: { twoFactorLastStep: step },
+    });
+    return count === 1 ? "totp" : null;
+  }
+
+  const storedCodes = (user.twoFactorRecoveryCodes as string[] | null) || [];
+  const [hashed] = hashRecoveryCodes([code]);
+  if (storedCodes.includes(hashed)) {
+    // Only consume the code if the list is unchanged since it was read
+    const { count } = await prisma.user.updateMany({
+      where: { id: userId, twoFactorRecoveryCodes: { equals: storedCodes } },
+      data: { twoFactorRecoveryCodes: storedCodes.filter((c) => c !== hashed) },
+    });
+    if (count !== 1) return null;
+    return "recovery";
+  }
+
+  return null;
+}
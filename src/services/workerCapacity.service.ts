@@ -0,0 +1,219 @@
+import { Task, TaskStatus } from "@prisma/client";
+import { prisma } from "../config/prisma";
+import { env } from "../config/env";
+import { isCompletedOnTime } from "./sla.service";
+
+/**
+ * Assigned tasks in these statuses count towards a worker's load
+ */
+export const OPEN_STATUSES: TaskStatus[] = ["NOT_STARTED", "IN_PROGRESS", "WAITING"];
+
+// Completed work looked at for on-time and same-client history
+const HISTORY_DAYS = 180;
+
+// Same-client tasks after which a worker counts as fully familiar with the client
+const CLIENT_HISTORY_CAP = 3;
+
+const WEIGHTS = { skills: 0.4, load: 0.3, onTime: 0.2, client: 0.1 };
+
+export class AssignmentError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+type CapacityWorker = { id: string; weeklyCapacityHours: number };
+
+/**
+ * What a suggestion is based on; an existing task or one being drafted
+ */
+export type TaskProfile = Pick<Task, "clientId" | "requiredSkills" | "estimatedHours">;
+
+/**
+ * Skill tags as stored: trimmed, lowercase, unique. Null when not an array of strings.
+ */
+export function normalizeSkills(value: unknown): string[] | null {
+  if (!Array.isArray(value) || value.some((s) => typeof s !== "string")) return null;
+  return [...new Set((value as string[]).map((s) => s.trim().toLowerCase()).filter(Boolean))];
+}
+
+/**
+ * Hours a task adds to its worker's load
+ */
+export function getTaskHours(task: Pick<Task, "estimatedHours">): number {
+  return task.estimatedHours ?? env.defaultTaskHours;
+}
+
+/**
+ * Current load of each worker from their open, unarchived tasks
+ */
+export async function getWorkerLoads(workers: CapacityWorker[]) {
+  const tasks = await prisma.task.findMany({
+    where: {
+      assignedToId: { in: workers.map((w) => w.id) },
+      status: { in: OPEN_STATUSES },
+      archivedAt: null,
+    },
+    select: { assignedToId: true, estimatedHours: true },
+  });
+
+  return new Map(
+    workers.map((worker) => {
+      const open = tasks.filter((t) => t.assignedToId === worker.id);
+      const loadHours = open.reduce((sum, t) => sum + getTaskHours(t), 0);
+      const capacityHours = worker.weeklyCapacityHours;
+
+      return [
+        worker.id,
+        {
+          openTasks: open.length,
+          loadHours,
+          capacityHours,
+          availableHours: Math.max(0, capacityHours - loadHours),
+          utilization: capacityHours > 0 ? Math.round((loadHours / capacityHours) * 100) / 100 : null,
+        },
+      ];
+    })
+  );
+}
+
+/**
+ * Active workers ranked for a task. Each gets a 0-100 score from:
+ *  - skills: share of the task's required skills the worker has (1 when none are required)
+ *  - load: capacity left after taking the task, relative to weekly capacity
+ *  - onTime: share of recent completed tasks with a due date finished on time (0.5 without history)
+ *  - client: recent completed tasks for the same client, up to CLIENT_HISTORY_CAP
+ */
+export async function suggestAssignees(task: TaskProfile, limit?: number) {
+  const workers = await prisma.user.findMany({
+    where: { role: "WORKER", active: true, deletedAt: null, isServiceAccount: false },
+    select: { id: true, name: true, email: true, skills: true, weeklyCapacityHours: true },
+  });
+
+  const since = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000);
+
+  const [loads, history] = await Promise.all([
+    getWorkerLoads(workers),
+    prisma.task.findMany({
+      where: {
+        assignedToId: { in: workers.map((w) => w.id) },
+        status: "DONE",
+        completedAt: { gte: since },
+      },
+      select: {
+        assignedToId: true,
+        clientId: true,
+        status: true,
+        dueDate: true,
+        deadline: true,
+        completedAt: true,
+        updatedAt: true,
+      },
+    }),
+  ]);
+
+  const hours = getTaskHours(task);
+
+  const ranked = workers.map((worker) => {
+    const load = loads.get(worker.id)!;
+    const done = history.filter((t) => t.assignedToId === worker.id);
+
+    const matchedSkills = task.requiredSkills.filter((s) => worker.skills.includes(s));
+    const missingSkills = task.requiredSkills.filter((s) => !worker.skills.includes(s));
+
+    const rated = done.map(isCompletedOnTime).filter((onTime): onTime is boolean => onTime !== null);
+    const onTimeRate = rated.length > 0 ? rated.filter(Boolean).length / rated.length : null;
+
+    const sameClientTasks = task.clientId ? done.filter((t) => t.clientId === task.clientId).length : 0;
+
+    const breakdown = {
+      skills: task.requiredSkills.length > 0 ? matchedSkills.length / task.requiredSkills.length : 1,
+      load:
+        load.capacityHours > 0
+          ? Math.min(1, Math.max(0, (load.capacityHours - load.loadHours - hours) / load.capacityHours))
+          : 0,
+      onTime: onTimeRate ?? 0.5,
+      client: Math.min(1, sameClientTasks / CLIENT_HISTORY_CAP),
+    };
+
+    const score =
+      breakdown.skills * WEIGHTS.skills +
+      breakdown.load * WEIGHTS.load +
+      breakdown.onTime * WEIGHTS.onTime +
+      breakdown.client * WEIGHTS.client;
+
+    return {
+      worker: { id: worker.id, name: worker.name, email: worker.email, skills: worker.skills },
+      score: Math.round(score * 100),
+      breakdown,
+      matchedSkills,
+      missingSkills,
+      load,
+      overCapacity: load.loadHours + hours > load.capacityHours,
+      onTimeRate,
+      completedRecently: done.length,
+      sameClientTasks,
+    };
+  });
+
+  ranked.sort((a, b) => b.score - a.score || b.load.availableHours - a.load.availableHours);
+
+  return limit ? ranked.slice(0, limit) : ranked;
+}
+
+/**
+ * Assign an unassigned, non-broadcast task to the best suggestion that has
+ * every required skill and room for it this week
+ */
+export async function autoAssignTask(task: Task, actor: { id: string }) {
+  if (task.assignedToId) throw new AssignmentError("Task is already assigned", 409);
+  if (task.isPublic || task.jobStatus !== "DRAFT") {
+    throw new AssignmentError("Broadcast tasks are assigned from job applications", 409);
+  }
+  if (!OPEN_STATUSES.includes(task.status)) {
+    throw new AssignmentError(`Cannot auto-assign a ${task.status} task`, 409);
+  }
+
+  const suggestions = await suggestAssignees(task);
+  const pick = suggestions.find((s) => !s.overCapacity && s.missingSkills.length === 0);
+  if (!pick) throw new AssignmentError("No worker has the required skills and free capacity", 409);
+
+  // Only assign if nobody assigned or broadcast the task in the meantime
+  const { count } = await prisma.task.updateMany({
+    where: { id: task.id, assignedToId: null, jobStatus: "DRAFT" },
+    data: { assignedToId: pick.worker.id },
+  });
+  if (count === 0) throw new AssignmentError("Task was assigned or broadcast in the meantime", 409);
+
+  const updated = await prisma.task.findUniqueOrThrow({ where: { id: task.id } });
+
+  await prisma.notification.create({
+    data: {
+      userId: pick.worker.id,
+      type: "TASK_ASSIGNED",
+      title: "New Task Assigned",
+      body: `You have been assigned "${task.title}".`,
+    },
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      userId: actor.id,
+      actionType: "TASK_AUTO_ASSIGNED",
+      entityType: "TASK",
+      entityId: task.id,
+      metaJson: {
+        taskTitle: task.title,
+        assignedToId: pick.worker.id,
+        workerName: pick.worker.name,
+        score: pick.score,
+        breakdown: pick.breakdown,
+      } as any,
+    },
+  });
+
+  return { task: updated, suggestion: pick };
+}
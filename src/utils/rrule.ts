@@ -0,0 +1,208 @@
+/**
+ * Minimal RFC 5545 RRULE support for recurring tasks.
+ *
+ * Supported parts: FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL,
+ * BYDAY (weekly only, e.g. MO,WE,FR), BYMONTHDAY (monthly only, 1..31 or
+ * -1 for the last day), COUNT and UNTIL. Times are taken from the start date
+ * and everything is computed in UTC.
+ */
+
+export type RRuleFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export interface RRule {
+  freq: RRuleFrequency;
+  interval: number;
+  byDay?: number[]; // 0 = Monday ... 6 = Sunday
+  byMonthDay?: number[];
+  count?: number;
+  until?: Date;
+}
+
+const FREQUENCIES: RRuleFrequency[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+const WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Safety net for rules that never match (e.g. BYMONTHDAY=31 with INTERVAL=2 from February)
+const MAX_PERIODS = 1000;
+
+export class RRuleError extends Error {}
+
+function parseUntil(value: string): Date {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (!match) {
+    throw new RRuleError(`Invalid UNTIL: ${value}`);
+  }
+  const [, y, m, d, hh = "23", mm = "59", ss = "59"] = match;
+  return new Date(Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss));
+}
+
+/**
+ * Parse "FREQ=MONTHLY;INTERVAL=1;BYMONTHDAY=1" (an "RRULE:" prefix is allowed)
+ */
+export function parseRRule(input: string): RRule {
+  if (!input || typeof input !== "string") {
+    throw new RRuleError("Recurrence rule is required");
+  }
+
+  const parts = new Map<string, string>();
+  for (const part of input.trim().replace(/^RRULE:/i, "").split(";")) {
+    if (!part) continue;
+    const [key, value] = part.split("=");
+    if (!key || value === undefined) {
+      throw new RRuleError(`Invalid rule part: ${part}`);
+    }
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = parts.get("FREQ") as RRuleFrequency;
+  if (!FREQUENCIES.includes(freq)) {
+    throw new RRuleError(`FREQ must be one of: ${FREQUENCIES.join(", ")}`);
+  }
+
+  const rule: RRule = { freq, interval: 1 };
+
+  for (const [key, value] of parts) {
+    switch (key) {
+      case "FREQ":
+        break;
+      case "INTERVAL":
+        rule.interval = Number(value);
+        if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+          throw new RRuleError("INTERVAL must be a positive integer");
+        }
+        break;
+      case "BYDAY":
+        if (freq !== "WEEKLY") throw new RRuleError("BYDAY is only supported with FREQ=WEEKLY");
+        rule.byDay = value.split(",").map((day) => {
+          const index = WEEKDAYS.indexOf(day);
+          if (index === -1) throw new RRuleError(`Invalid BYDAY value: ${day}`);
+          return index;
+        });
+        break;
+      case "BYMONTHDAY":
+        if (freq !== "MONTHLY") throw new RRuleError("BYMONTHDAY is only supported with FREQ=MONTHLY");
+        rule.byMonthDay = value.split(",").map((day) => {
+          const n = Number(day);
+          if (!Number.isInteger(n) || n === 0 || n < -31 || n > 31) {
+            throw new RRuleError(`Invalid BYMONTHDAY value: ${day}`);
+          }
+          return n;
+        });
+        break;
+      case "COUNT":
+        rule.count = Number(value);
+        if (!Number.isInteger(rule.count) || rule.count < 1) {
+          throw new RRuleError("COUNT must be a positive integer");
+        }
+        break;
+      case "UNTIL":
+        rule.until = parseUntil(value);
+        break;
+      default:
+        throw new RRuleError(`Unsupported rule part: ${key}`);
+    }
+  }
+
+  return rule;
+}
+
+function atTimeOf(date: Date, y: number, m: number, d: number): Date {
+  return new Date(
+    Date.UTC(y, m, d, date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds())
+  );
+}
+
+function daysInMonth(y: number, m: number): number {
+  return new Date(Date.UTC(y, m + 1, 0)).getUTCDate();
+}
+
+// Monday-based weekday (0 = Monday)
+function weekday(date: Date): number {
+  return (date.getUTCDay() + 6) % 7;
+}
+
+/**
+ * Candidate occurrences in the n-th period after the start
+ */
+function occurrencesInPeriod(rule: RRule, start: Date, period: number): Date[] {
+  const y = start.getUTCFullYear();
+  const m = start.getUTCMonth();
+  const d = start.getUTCDate();
+  const step = period * rule.interval;
+
+  switch (rule.freq) {
+    case "DAILY":
+      return [atTimeOf(start, y, m, d + step)];
+
+    case "WEEKLY": {
+      const monday = d - weekday(start) + step * 7;
+      const days = rule.byDay?.length ? rule.byDay : [weekday(start)];
+      return days.map((day) => atTimeOf(start, y, m, monday + day));
+    }
+
+    case "MONTHLY": {
+      const monthStart = new Date(Date.UTC(y, m + step, 1));
+      const year = monthStart.getUTCFullYear();
+      const month = monthStart.getUTCMonth();
+      const last = daysInMonth(year, month);
+      const days = rule.byMonthDay?.length ? rule.byMonthDay : [d];
+      return days
+        .map((day) => (day < 0 ? last + day + 1 : day))
+        .filter((day) => day >= 1 && day <= last)
+        .map((day) => atTimeOf(start, year, month, day));
+    }
+
+    case "YEARLY": {
+      const year = y + step;
+      // Feb 29 only exists in leap years
+      if (d > daysInMonth(year, m)) return [];
+      return [atTimeOf(start, year, m, d)];
+    }
+  }
+}
+
+/**
+ * First occurrence strictly after `after` (or at/after the start when
+ * `after` is null). COUNT is the caller's job since it depends on how many
+ * instances were already created. Returns null once UNTIL has passed.
+ */
+export function nextOccurrence(rule: RRule, start: Date, after: Date | null): Date | null {
+  // Jump close to `after` instead of walking every period from the start
+  let period = 0;
+  if (after && after > start) {
+    const periodDays = { DAILY: 1, WEEKLY: 7, MONTHLY: 31, YEARLY: 366 }[rule.freq] * rule.interval;
+    period = Math.max(0, Math.floor((after.getTime() - start.getTime()) / (periodDays * DAY_MS)) - 1);
+  }
+
+  for (let i = 0; i < MAX_PERIODS; i++, period++) {
+    const candidates = occurrencesInPeriod(rule, start, period)
+      .filter((c) => c >= start && (!after || c > after))
+      .sort((a, b) => a.getTime() - b.getTime());
+
+    if (candidates.length > 0) {
+      const next = candidates[0];
+      return rule.until && next > rule.until ? null : next;
+    }
+
+    if (rule.until && occurrencesInPeriod(rule, start, period).some((c) => c > rule.until!)) {
+      return null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * The next few occurrences after a date (for previews)
+ */
+export function upcomingOccurrences(rule: RRule, start: Date, after: Date | null, limit: number): Date[] {
+  const dates: Date[] = [];
+  let cursor = after;
+  while (dates.length < limit) {
+    const next = nextOccurrence(rule, start, cursor);
+    if (!next) break;
+    dates.push(next);
+    cursor = next;
+  }
+  return dates;
+}